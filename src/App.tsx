@@ -8,6 +8,8 @@ import Index from "./pages/Index";
 import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
 import CloudActions from "./pages/CloudActions";
+import CloudActionAnalytics from "./pages/CloudActionAnalytics";
+import Alerts from "./pages/Alerts";
 import { useBrandLogo } from "./hooks/useBrandLogo";
 
 const queryClient = new QueryClient({
@@ -58,6 +60,8 @@ const App = () => {
           <Route path="/" element={<Index />} />
           <Route path="/settings" element={<Settings />} />
           <Route path="/cloud-actions" element={<CloudActions />} />
+          <Route path="/cloud-actions/analytics" element={<CloudActionAnalytics />} />
+          <Route path="/alerts" element={<Alerts />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
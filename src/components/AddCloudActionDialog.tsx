@@ -37,13 +37,34 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { cn } from "@/lib/utils";
 import { format, startOfToday, isSameDay, parse } from "date-fns";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import type { Credential, App, Env } from "@/types/cloudActions";
+import { Checkbox } from "@/components/ui/checkbox";
+import type { Credential, App, Env, PackageRow } from "@/types/cloudActions";
+import { RetryPolicyFields } from "@/components/RetryPolicyFields";
+import { DEFAULT_RETRY_POLICY, retryPolicySchema, toStoredRetryPolicy } from "@/lib/cloudActionRetry";
+import { EnvironmentSettingsEditor } from "@/components/EnvironmentSettingsEditor";
+import { CloudActionPlanPanel } from "@/components/CloudActionPlanPanel";
+import { SaveTemplateDialog } from "@/components/SaveTemplateDialog";
+import type { TemplateDraft } from "@/lib/cloudActionTemplates";
+import { BUILD_ENVIRONMENT_NAME } from "@/lib/cloudActionSteps";
+import type { PlanRequest } from "@/lib/cloudActionPlan";
+import { ReleaseNotesPreview } from "@/components/ReleaseNotesPreview";
+import type { ReleaseNotes, ReleaseNotesRequest } from "@/lib/releaseNotes";
+import {
+  desiredSettingsCount,
+  desiredSettingsSchema,
+  EMPTY_DESIRED_SETTINGS,
+  toConfigurePayload,
+} from "@/lib/environmentSettings";
+
+// Select value for transporting whatever runs on the source environment
+const SOURCE_PACKAGE = "__source__";
 
 interface AddCloudActionDialogProps {
   onCreated: () => void;
+  onTemplateSaved?: () => void;
 }
 
-export function AddCloudActionDialog({ onCreated }: AddCloudActionDialogProps) {
+export function AddCloudActionDialog({ onCreated, onTemplateSaved }: AddCloudActionDialogProps) {
   const [open, setOpen] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { toast } = useToast();
@@ -62,14 +83,18 @@ export function AddCloudActionDialog({ onCreated }: AddCloudActionDialogProps) {
   const [loadingRevisions, setLoadingRevisions] = useState(false);
   const [packages, setPackages] = useState<string[]>([]);
   const [loadingPackages, setLoadingPackages] = useState(false);
+  const [builtPackages, setBuiltPackages] = useState<PackageRow[]>([]);
+  const [loadingBuiltPackages, setLoadingBuiltPackages] = useState(false);
 
-  const ActionType = z.enum(["start", "stop", "restart", "transport", "deploy"]);
+  const ActionType = z.enum(["start", "stop", "restart", "transport", "deploy", "configure", "scale", "build"]);
   const FormSchema = z
     .object({
       credentialId: z.string().min(1, "Select credential"),
       appId: z.string().min(1, "Select app"),
-      environmentName: z.string().min(1, "Select environment"),
+      environmentName: z.string(),
       targetEnvironmentName: z.string().optional(),
+      // Transport of a built package instead of the one on the source environment
+      packageId: z.string().optional(),
       branchName: z.string().optional(),
       revisionId: z.string().optional(),
       revision: z.string().optional(),
@@ -84,6 +109,14 @@ export function AddCloudActionDialog({ onCreated }: AddCloudActionDialogProps) {
       scheduledTime: z.string().optional(),
       retryUntilDate: z.date().optional(),
       retryUntilTime: z.string().optional(),
+      rollbackOnFailure: z.boolean().default(false),
+      restoreBackupOnRollback: z.boolean().default(false),
+      lockPolicy: z.enum(["queue", "reject", "supersede"]).default("queue"),
+      retryPolicy: retryPolicySchema,
+      settings: desiredSettingsSchema,
+      restartAfterConfigure: z.boolean().default(true),
+      instances: z.number().int().min(1, "At least 1 instance").optional(),
+      memoryPerInstance: z.number().int().min(1, "Memory is required").optional(),
     })
     .superRefine((val, ctx) => {
       if (val.runWhen === "schedule") {
@@ -125,6 +158,10 @@ export function AddCloudActionDialog({ onCreated }: AddCloudActionDialogProps) {
         }
       }
 
+      // Builds are not tied to an environment, transports of a built package have no source
+      if (!val.environmentName && val.actionType !== "build" && !(val.actionType === "transport" && val.packageId)) {
+        ctx.addIssue({ code: "custom", message: "Select environment", path: ["environmentName"] });
+      }
       if (val.actionType === "transport" && !val.targetEnvironmentName) {
         ctx.addIssue({
           code: "custom",
@@ -132,7 +169,16 @@ export function AddCloudActionDialog({ onCreated }: AddCloudActionDialogProps) {
           path: ["targetEnvironmentName"],
         });
       }
-      if (val.actionType === "deploy") {
+      if (val.actionType === "scale") {
+        if (!val.instances)
+          ctx.addIssue({ code: "custom", message: "Instance count is required", path: ["instances"] });
+        if (!val.memoryPerInstance)
+          ctx.addIssue({ code: "custom", message: "Memory is required", path: ["memoryPerInstance"] });
+      }
+      if (val.actionType === "configure" && desiredSettingsCount(val.settings) === 0) {
+        ctx.addIssue({ code: "custom", message: "Change at least one setting", path: ["settings"] });
+      }
+      if (val.actionType === "deploy" || val.actionType === "build") {
         if (!val.branchName)
           ctx.addIssue({ code: "custom", message: "Branch is required", path: ["branchName"] });
         if (!val.revisionId)
@@ -150,6 +196,7 @@ export function AddCloudActionDialog({ onCreated }: AddCloudActionDialogProps) {
       appId: "",
       environmentName: "",
       targetEnvironmentName: "",
+      packageId: "",
       branchName: "",
       revisionId: "",
       revision: "",
@@ -164,17 +211,52 @@ export function AddCloudActionDialog({ onCreated }: AddCloudActionDialogProps) {
       scheduledTime: "",
       retryUntilDate: undefined,
       retryUntilTime: "",
+      rollbackOnFailure: false,
+      restoreBackupOnRollback: false,
+      lockPolicy: "queue",
+      retryPolicy: DEFAULT_RETRY_POLICY,
+      settings: EMPTY_DESIRED_SETTINGS,
+      restartAfterConfigure: true,
+      instances: 1,
+      memoryPerInstance: 1024,
     },
   });
 
   const credentialId = form.watch("credentialId");
   const appId = form.watch("appId");
   const actionType = form.watch("actionType");
+  const environmentName = form.watch("environmentName");
   const runWhen = form.watch("runWhen");
   const scheduledDate = form.watch("scheduledDate");
   const scheduledTime = form.watch("scheduledTime");
   const retryUntilDate = form.watch("retryUntilDate");
   const branchName = form.watch("branchName");
+  const rollbackOnFailure = form.watch("rollbackOnFailure");
+  const targetEnvironmentName = form.watch("targetEnvironmentName");
+  const revisionId = form.watch("revisionId");
+  const packageId = form.watch("packageId");
+  const [releaseNotes, setReleaseNotes] = useState<ReleaseNotes | null>(null);
+
+  const releaseNotesTarget = actionType === "transport" ? targetEnvironmentName : environmentName;
+  const releaseNotesRequest = useMemo((): ReleaseNotesRequest | null => {
+    if (!credentialId || !appId || !releaseNotesTarget) return null;
+    if (actionType === "transport" && packageId) {
+      return { credentialId, appId, actionType, environmentName: releaseNotesTarget, packageId };
+    }
+    if (actionType === "transport" && environmentName) {
+      return {
+        credentialId,
+        appId,
+        actionType,
+        environmentName: releaseNotesTarget,
+        sourceEnvironmentName: environmentName,
+      };
+    }
+    if (actionType === "deploy" && branchName && revisionId) {
+      return { credentialId, appId, actionType, environmentName: releaseNotesTarget, branchName, revisionId };
+    }
+    return null;
+  }, [credentialId, appId, actionType, environmentName, releaseNotesTarget, packageId, branchName, revisionId]);
 
   const minTime = useMemo(() => {
     if (!scheduledDate) return undefined;
@@ -354,6 +436,30 @@ export function AddCloudActionDialog({ onCreated }: AddCloudActionDialogProps) {
     })();
   }, [open, appId, credentialId, branchName]);
 
+  // Load packages made by earlier deploy and build actions for transports
+  useEffect(() => {
+    (async () => {
+      if (!open || !appId || !credentialId || actionType !== "transport") {
+        setBuiltPackages([]);
+        return;
+      }
+      setLoadingBuiltPackages(true);
+      try {
+        const { data, error } = await supabase.functions.invoke<{ details?: PackageRow[] }>("get-mendix-packages", {
+          body: { credentialId, appId },
+        });
+        if (error) throw error;
+        const details = data?.details || [];
+        setBuiltPackages(details.filter((p) => p.builtByDashboard && p.packageId && p.status === "Succeeded"));
+      } catch (e) {
+        console.error(e);
+        setBuiltPackages([]);
+      } finally {
+        setLoadingBuiltPackages(false);
+      }
+    })();
+  }, [open, appId, credentialId, actionType]);
+
   const filteredRevisions = useMemo(() => {
     return branchName ? revisions : [];
   }, [branchName, revisions]);
@@ -372,11 +478,13 @@ export function AddCloudActionDialog({ onCreated }: AddCloudActionDialogProps) {
     const currentValues = form.getValues();
     if (
       currentValues.environmentName !== "" ||
+      currentValues.packageId !== "" ||
       currentValues.branchName !== "" ||
       currentValues.revisionId !== "" ||
       currentValues.revision !== ""
     ) {
       form.setValue("environmentName", "");
+      form.setValue("packageId", "");
       form.setValue("branchName", "");
       form.setValue("revisionId", "");
       form.setValue("revision", "");
@@ -405,6 +513,119 @@ export function AddCloudActionDialog({ onCreated }: AddCloudActionDialogProps) {
     resetRevisionFields();
   }, [branchName, resetRevisionFields]);
 
+  // Desired settings belong to one environment
+  useEffect(() => {
+    form.setValue("settings", EMPTY_DESIRED_SETTINGS);
+  }, [appId, environmentName, form]);
+
+  const buildPayload = (values: FormValues) => {
+    const payload: any = {
+      actionType: values.actionType,
+      appId: values.appId,
+      environmentName: values.environmentName,
+    };
+
+    if (values.actionType === "transport") {
+      payload.environmentName = values.targetEnvironmentName;
+      if (values.packageId) {
+        const built = builtPackages.find((p) => p.packageId === values.packageId);
+        payload.packageId = values.packageId;
+        payload.packageName = built?.name;
+        payload.version = built?.version || undefined;
+      } else {
+        payload.sourceEnvironmentName = values.environmentName;
+      }
+      payload.comment = values.comment;
+    }
+
+    if (values.actionType === "build") {
+      payload.environmentName = BUILD_ENVIRONMENT_NAME;
+    }
+
+    if (values.actionType === "deploy" || values.actionType === "build") {
+      payload.branchName = values.branchName;
+      payload.revisionId = values.revisionId;
+      if (
+        values.versionMajor !== undefined ||
+        values.versionMinor !== undefined ||
+        values.versionPatch !== undefined
+      ) {
+        const major = values.versionMajor || 0;
+        const minor = values.versionMinor || 0;
+        const patch = values.versionPatch || 0;
+        payload.version = `${major}.${minor}.${patch}`;
+      }
+      payload.description = values.description;
+      payload.comment = values.comment;
+      const selectedRevision = revisions.find((r) => r.id === values.revisionId);
+      if (selectedRevision) {
+        payload.revisionMessage = selectedRevision.message;
+      }
+    }
+
+    if (values.actionType === "scale") {
+      payload.instances = values.instances;
+      payload.memoryPerInstance = values.memoryPerInstance;
+    }
+
+    if (values.actionType === "configure") {
+      Object.assign(payload, toConfigurePayload(values.settings));
+      payload.restartAfter = values.restartAfterConfigure;
+    }
+
+    if ((values.actionType === "deploy" || values.actionType === "transport") && values.rollbackOnFailure) {
+      payload.rollbackOnFailure = true;
+      payload.restoreBackupOnRollback = values.restoreBackupOnRollback;
+    }
+
+    return payload;
+  };
+
+  const getPlanRequest = async (): Promise<PlanRequest | null> => {
+    if (!(await form.trigger())) return null;
+    const values = form.getValues();
+    const payload = buildPayload(values);
+    const scheduledFor =
+      values.runWhen === "schedule" && values.scheduledDate && values.scheduledTime
+        ? parse(values.scheduledTime, "HH:mm", values.scheduledDate).toISOString()
+        : null;
+    return {
+      credentialId: values.credentialId,
+      appId: values.appId,
+      environmentName: payload.environmentName,
+      actionType: values.actionType,
+      payload,
+      scheduledFor,
+    };
+  };
+
+  const getTemplateDraft = async (): Promise<TemplateDraft | null> => {
+    if (!(await form.trigger())) return null;
+    const values = form.getValues();
+    if (values.actionType === "transport" && values.packageId) {
+      throw new Error("A transport of one built package cannot be repeated; transport from the source environment instead");
+    }
+    // Revision and package are picked again every time the template is used
+    const { revisionId, revisionMessage, packageId, packageName, ...payload } = buildPayload(values);
+    let baseTime = new Date();
+    if (values.runWhen === "schedule" && values.scheduledDate && values.scheduledTime) {
+      baseTime = parse(values.scheduledTime, "HH:mm", values.scheduledDate);
+    }
+    const retryWindowMinutes =
+      values.retryUntilDate && values.retryUntilTime
+        ? Math.round((parse(values.retryUntilTime, "HH:mm", values.retryUntilDate).getTime() - baseTime.getTime()) / 60000)
+        : 30;
+    return {
+      appId: values.appId,
+      environmentName: payload.environmentName,
+      actionType: values.actionType,
+      payload,
+      retryWindowMinutes: Math.min(Math.max(retryWindowMinutes, 5), 24 * 60),
+      retryPolicy: toStoredRetryPolicy(values.retryPolicy),
+      lockPolicy: values.lockPolicy,
+    };
+  };
+
   const onSubmit = async (values: FormValues) => {
     setIsSubmitting(true);
     try {
@@ -428,38 +649,7 @@ export function AddCloudActionDialog({ onCreated }: AddCloudActionDialogProps) {
         retryUntil = retryUntilDateTime.toISOString();
       }
 
-      const payload: any = {
-        actionType: values.actionType,
-        appId: values.appId,
-        environmentName: values.environmentName,
-      };
-
-      if (values.actionType === "transport") {
-        payload.environmentName = values.targetEnvironmentName;
-        payload.sourceEnvironmentName = values.environmentName;
-        payload.comment = values.comment;
-      }
-
-      if (values.actionType === "deploy") {
-        payload.branchName = values.branchName;
-        payload.revisionId = values.revisionId;
-        if (
-          values.versionMajor !== undefined ||
-          values.versionMinor !== undefined ||
-          values.versionPatch !== undefined
-        ) {
-          const major = values.versionMajor || 0;
-          const minor = values.versionMinor || 0;
-          const patch = values.versionPatch || 0;
-          payload.version = `${major}.${minor}.${patch}`;
-        }
-        payload.description = values.description;
-        payload.comment = values.comment;
-        const selectedRevision = revisions.find((r) => r.id === values.revisionId);
-        if (selectedRevision) {
-          payload.revisionMessage = selectedRevision.message;
-        }
-      }
+      const payload = buildPayload(values);
 
       const { data: profile } = await supabase
         .from("profiles")
@@ -467,24 +657,29 @@ export function AddCloudActionDialog({ onCreated }: AddCloudActionDialogProps) {
         .eq("user_id", user.id)
         .single();
 
-      const { error: insertError } = await supabase.from("cloud_actions").insert({
+      const { data: created, error: insertError } = await supabase.from("cloud_actions").insert({
         user_id: user.id,
         credential_id: values.credentialId,
         app_id: values.appId,
-        environment_name:
-          values.actionType === "transport" ? values.targetEnvironmentName : values.environmentName,
+        environment_name: payload.environmentName,
         action_type: values.actionType,
         status: values.runWhen === "now" ? "scheduled" : "scheduled",
         scheduled_for: scheduledFor,
         retry_until: retryUntil,
         payload: payload,
         creator_name: profile?.full_name || user.email || null,
-      });
+        lock_policy: values.lockPolicy,
+        retry_policy: toStoredRetryPolicy(values.retryPolicy),
+        release_notes: releaseNotesRequest ? releaseNotes : null,
+      }).select("status").single();
 
       if (insertError) {
         throw insertError;
       }
 
+      // The approval policy trigger parks actions on protected environments
+      const awaitingApproval = created?.status === "pending_approval";
+
       const when =
         values.runWhen === "now"
           ? "Now"
@@ -492,25 +687,28 @@ export function AddCloudActionDialog({ onCreated }: AddCloudActionDialogProps) {
       const appName = apps.find((a) => a.app_id === values.appId)?.app_name;
       const selectedRevision = revisions.find((r) => r.id === values.revisionId);
       const deployInfo =
-        values.actionType === "deploy"
+        values.actionType === "deploy" || values.actionType === "build"
           ? ` • Branch: ${values.branchName || ""} • Revision: ${selectedRevision ? `${selectedRevision.id} - ${selectedRevision.message}` : values.revisionId || ""}`
           : "";
 
       toast({
-        title: "Cloud action created",
+        title: awaitingApproval ? "Cloud action awaiting approval" : "Cloud action created",
         description:
           `Action: ${values.actionType.replace("_", " ")} • App: ${appName} • ` +
           (values.actionType === "transport"
-            ? `Source: ${values.environmentName || ""} • Target: ${values.targetEnvironmentName || ""}`
-            : `Target: ${values.environmentName}`) +
-          ` • When: ${when}${deployInfo}`,
+            ? `Source: ${payload.packageName || values.environmentName || ""} • Target: ${values.targetEnvironmentName || ""}`
+            : values.actionType === "build"
+              ? `Version: ${payload.version}`
+              : `Target: ${values.environmentName}`) +
+          ` • When: ${when}${deployInfo}` +
+          (awaitingApproval ? " • An admin has to approve it before it runs" : ""),
       });
 
       form.reset();
       setOpen(false);
       onCreated();
 
-      if (values.runWhen === "now") {
+      if (values.runWhen === "now" && !awaitingApproval) {
         try {
           await supabase.functions.invoke("run-cloud-actions", {
             body: { processAllDue: true },
@@ -725,6 +923,9 @@ export function AddCloudActionDialog({ onCreated }: AddCloudActionDialogProps) {
                           <SelectItem value="restart">Restart</SelectItem>
                           <SelectItem value="deploy">Deploy</SelectItem>
                           <SelectItem value="transport">Transport</SelectItem>
+                          <SelectItem value="configure">Configure</SelectItem>
+                          <SelectItem value="scale">Scale</SelectItem>
+                          <SelectItem value="build">Build package</SelectItem>
                         </SelectContent>
                       </Select>
                       <FormMessage />
@@ -732,40 +933,126 @@ export function AddCloudActionDialog({ onCreated }: AddCloudActionDialogProps) {
                   )}
                 />
 
-                <FormField
-                  control={form.control}
-                  name="environmentName"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>
-                        {actionType === "transport" ? "Source Environment" : "Environment"}
-                      </FormLabel>
-                      <Select
-                        value={field.value}
-                        onValueChange={(v) => field.onChange(v)}
-                        disabled={!appId}
-                      >
-                        <FormControl>
-                          <SelectTrigger>
-                            <SelectValue
-                              placeholder={appId ? "Select environment" : "Select app first"}
+                {actionType !== "build" && !(actionType === "transport" && packageId) && (
+                  <FormField
+                    control={form.control}
+                    name="environmentName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>
+                          {actionType === "transport" ? "Source Environment" : "Environment"}
+                        </FormLabel>
+                        <Select
+                          value={field.value}
+                          onValueChange={(v) => field.onChange(v)}
+                          disabled={!appId}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue
+                                placeholder={appId ? "Select environment" : "Select app first"}
+                              />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {filteredEnvs.map((e) => (
+                              <SelectItem key={e.id} value={e.environment_name}>
+                                {e.environment_name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                {actionType === "scale" && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="instances"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Instances</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              {...field}
+                              onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                              min="1"
                             />
-                          </SelectTrigger>
-                        </FormControl>
-                        <SelectContent>
-                          {filteredEnvs.map((e) => (
-                            <SelectItem key={e.id} value={e.environment_name}>
-                              {e.environment_name}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="memoryPerInstance"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Memory per instance (MB)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              {...field}
+                              onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                              min="1"
+                              step="512"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <p className="col-span-2 text-xs text-muted-foreground">
+                      Checked against the memory of the environment's plan before scaling.
+                    </p>
+                  </div>
+                )}
 
-                {actionType === "deploy" && (
+                {actionType === "configure" && (
+                  <>
+                    <FormField
+                      control={form.control}
+                      name="settings"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Constants and scheduled events</FormLabel>
+                          <EnvironmentSettingsEditor
+                            credentialId={credentialId}
+                            appId={appId}
+                            environmentName={environmentName}
+                            value={field.value}
+                            onChange={field.onChange}
+                          />
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="restartAfterConfigure"
+                      render={({ field }) => (
+                        <FormItem className="flex items-start gap-2 space-y-0">
+                          <FormControl>
+                            <Checkbox checked={field.value} onCheckedChange={(v) => field.onChange(!!v)} />
+                          </FormControl>
+                          <div className="space-y-1 leading-none">
+                            <FormLabel>Restart the environment afterwards</FormLabel>
+                            <p className="text-xs text-muted-foreground">
+                              Changed constants only take effect after a restart.
+                            </p>
+                          </div>
+                        </FormItem>
+                      )}
+                    />
+                  </>
+                )}
+
+                {(actionType === "deploy" || actionType === "build") && (
                   <>
                     <FormField
                       control={form.control}
@@ -899,11 +1186,54 @@ export function AddCloudActionDialog({ onCreated }: AddCloudActionDialogProps) {
                         </FormItem>
                       )}
                     />
+
+                    {actionType === "build" && (
+                      <p className="text-xs text-muted-foreground">
+                        The package is tagged with this version and kept on the build server. Deploy it later with a
+                        transport.
+                      </p>
+                    )}
                   </>
                 )}
 
                 {actionType === "transport" && (
                   <>
+                    <FormField
+                      control={form.control}
+                      name="packageId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Package</FormLabel>
+                          <Select
+                            onValueChange={(v) => field.onChange(v === SOURCE_PACKAGE ? "" : v)}
+                            value={field.value || SOURCE_PACKAGE}
+                            disabled={!appId}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value={SOURCE_PACKAGE}>Package running on the source environment</SelectItem>
+                              {builtPackages.map((p) => (
+                                <SelectItem key={p.packageId} value={p.packageId as string}>
+                                  {p.name}
+                                  {p.version ? ` (${p.version})` : ""}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <p className="text-xs text-muted-foreground">
+                            {loadingBuiltPackages
+                              ? "Loading packages built by cloud actions..."
+                              : "Packages built by deploy and build actions can be transported directly."}
+                          </p>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
                     <FormField
                       control={form.control}
                       name="targetEnvironmentName"
@@ -952,6 +1282,94 @@ export function AddCloudActionDialog({ onCreated }: AddCloudActionDialogProps) {
                   </>
                 )}
 
+                {(actionType === "deploy" || actionType === "transport") && (
+                  <div className="space-y-3 rounded-md border border-input p-3">
+                    <FormField
+                      control={form.control}
+                      name="rollbackOnFailure"
+                      render={({ field }) => (
+                        <FormItem className="flex items-start gap-2 space-y-0">
+                          <FormControl>
+                            <Checkbox checked={field.value} onCheckedChange={(v) => field.onChange(!!v)} />
+                          </FormControl>
+                          <div className="space-y-1 leading-none">
+                            <FormLabel>Rollback on failure</FormLabel>
+                            <p className="text-xs text-muted-foreground">
+                              If the environment does not come back up on the new package, redeploy the
+                              package that was running before.
+                            </p>
+                          </div>
+                        </FormItem>
+                      )}
+                    />
+                    {rollbackOnFailure && (
+                      <FormField
+                        control={form.control}
+                        name="restoreBackupOnRollback"
+                        render={({ field }) => (
+                          <FormItem className="flex items-start gap-2 space-y-0 pl-6">
+                            <FormControl>
+                              <Checkbox checked={field.value} onCheckedChange={(v) => field.onChange(!!v)} />
+                            </FormControl>
+                            <div className="space-y-1 leading-none">
+                              <FormLabel>Also restore the pre-deploy backup</FormLabel>
+                              <p className="text-xs text-muted-foreground">
+                                Restores the database snapshot taken during this action before starting the
+                                previous package.
+                              </p>
+                            </div>
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                  </div>
+                )}
+
+                <FormField
+                  control={form.control}
+                  name="lockPolicy"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>If the environment is busy</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="queue">Queue until the running action finishes</SelectItem>
+                          <SelectItem value="reject">Fail right away</SelectItem>
+                          <SelectItem value="supersede">Replace other queued actions, then queue</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="retryPolicy"
+                  render={({ field }) => (
+                    <FormItem>
+                      <RetryPolicyFields value={field.value} onChange={field.onChange} actionType={actionType} />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <ReleaseNotesPreview
+                  request={releaseNotesRequest}
+                  autoGenerate={releaseNotesTarget?.toLowerCase() === "production"}
+                  value={releaseNotes}
+                  onChange={setReleaseNotes}
+                />
+
+                <CloudActionPlanPanel getRequest={getPlanRequest} />
+
+                <SaveTemplateDialog getDraft={getTemplateDraft} onSaved={onTemplateSaved} />
+
                 <Button type="submit" className="w-full" disabled={isSubmitting}>
                   {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                   Create Cloud Action
@@ -972,11 +1390,13 @@ export function AddCloudActionDialog({ onCreated }: AddCloudActionDialogProps) {
                   <div>
                     <span className="font-medium">Action:</span> {actionType || "Not selected"}
                   </div>
-                  <div>
-                    <span className="font-medium">Environment:</span>{" "}
-                    {form.watch("environmentName") || "Not selected"}
-                  </div>
-                  {actionType === "deploy" && (
+                  {actionType !== "build" && (
+                    <div>
+                      <span className="font-medium">Environment:</span>{" "}
+                      {form.watch("environmentName") || "Not selected"}
+                    </div>
+                  )}
+                  {(actionType === "deploy" || actionType === "build") && (
                     <>
                       <div>
                         <span className="font-medium">Branch:</span> {branchName || "Not selected"}
@@ -992,8 +1412,10 @@ export function AddCloudActionDialog({ onCreated }: AddCloudActionDialogProps) {
                   {actionType === "transport" && (
                     <>
                       <div>
-                        <span className="font-medium">Source Environment:</span>{" "}
-                        {form.watch("environmentName") || "Not selected"}
+                        <span className="font-medium">Source:</span>{" "}
+                        {packageId
+                          ? builtPackages.find((p) => p.packageId === packageId)?.name || packageId
+                          : form.watch("environmentName") || "Not selected"}
                       </div>
                       <div>
                         <span className="font-medium">Target Environment:</span>{" "}
@@ -1001,6 +1423,29 @@ export function AddCloudActionDialog({ onCreated }: AddCloudActionDialogProps) {
                       </div>
                     </>
                   )}
+                  {actionType === "scale" && (
+                    <div>
+                      <span className="font-medium">Size:</span> {form.watch("instances")} x{" "}
+                      {form.watch("memoryPerInstance")} MB
+                    </div>
+                  )}
+                  {actionType === "configure" && (
+                    <div>
+                      <span className="font-medium">Settings:</span>{" "}
+                      {desiredSettingsCount(form.watch("settings"))} changes
+                      {form.watch("restartAfterConfigure") ? ", then restart" : ""}
+                    </div>
+                  )}
+                  {(actionType === "deploy" || actionType === "transport") && (
+                    <div>
+                      <span className="font-medium">Rollback:</span>{" "}
+                      {rollbackOnFailure
+                        ? form.watch("restoreBackupOnRollback")
+                          ? "Previous package + backup"
+                          : "Previous package"
+                        : "Off"}
+                    </div>
+                  )}
                   <div>
                     <span className="font-medium">Run:</span>{" "}
                     {(() => {
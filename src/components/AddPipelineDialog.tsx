@@ -0,0 +1,567 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowDown, ArrowUp, GitMerge, Loader2, Plus, Trash2, Wand2 } from "lucide-react";
+import type { Credential, App, Env } from "@/types/cloudActions";
+import type { Json } from "@/integrations/supabase/types";
+
+interface AddPipelineDialogProps {
+  onCreated: () => void;
+}
+
+type StageKind = "deploy" | "transport" | "start" | "stop" | "restart" | "gate";
+
+interface DraftStage {
+  kind: StageKind;
+  environmentName: string;
+  sourceEnvironmentName: string;
+  branchName: string;
+  version: string;
+  checks: string[];
+  timeoutMinutes: number;
+}
+
+const emptyStage = (kind: StageKind = "deploy"): DraftStage => ({
+  kind,
+  environmentName: "",
+  sourceEnvironmentName: "",
+  branchName: "",
+  version: "1.0.0",
+  checks: ["owasp", "linting"],
+  timeoutMinutes: 60,
+});
+
+const stageLabel = (stage: DraftStage): string => {
+  switch (stage.kind) {
+    case "gate":
+      return `Quality gate (${stage.checks.join(" + ") || "no checks"})`;
+    case "transport":
+      return `Transport ${stage.sourceEnvironmentName || "?"} → ${stage.environmentName || "?"}`;
+    case "deploy":
+      return `Deploy ${stage.branchName || "?"} → ${stage.environmentName || "?"}`;
+    default:
+      return `${stage.kind.charAt(0).toUpperCase() + stage.kind.slice(1)} ${stage.environmentName || "?"}`;
+  }
+};
+
+export function AddPipelineDialog({ onCreated }: AddPipelineDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const [credentials, setCredentials] = useState<Credential[]>([]);
+  const [apps, setApps] = useState<App[]>([]);
+  const [envs, setEnvs] = useState<Env[]>([]);
+  const [branches, setBranches] = useState<string[]>([]);
+
+  const [name, setName] = useState("");
+  const [credentialId, setCredentialId] = useState("");
+  const [appId, setAppId] = useState("");
+  const [scheduledFor, setScheduledFor] = useState("");
+  const [stages, setStages] = useState<DraftStage[]>([emptyStage()]);
+
+  // Load credentials on dialog open
+  useEffect(() => {
+    if (!open) return;
+    (async () => {
+      const { data, error } = await supabase
+        .from("mendix_credentials")
+        .select("id, name")
+        .order("created_at", { ascending: true });
+      if (!error) setCredentials(data || []);
+    })();
+  }, [open]);
+
+  // Load apps when credential changes
+  useEffect(() => {
+    setAppId("");
+    if (!credentialId) {
+      setApps([]);
+      return;
+    }
+    (async () => {
+      const { data, error } = await supabase
+        .from("mendix_apps")
+        .select("id, app_id, app_name, credential_id, project_id")
+        .eq("credential_id", credentialId)
+        .order("app_name", { ascending: true });
+      setApps(error ? [] : data || []);
+    })();
+  }, [credentialId]);
+
+  // Load environments and branches when app changes
+  useEffect(() => {
+    if (!appId || !credentialId) {
+      setEnvs([]);
+      setBranches([]);
+      return;
+    }
+    (async () => {
+      const { data, error } = await supabase
+        .from("mendix_environments")
+        .select("id, app_id, environment_name")
+        .eq("credential_id", credentialId)
+        .eq("app_id", appId)
+        .order("environment_name", { ascending: true });
+      setEnvs(error ? [] : data || []);
+    })();
+    (async () => {
+      try {
+        const { data, error } = await supabase.functions.invoke<{ branches?: string[] }>("get-mendix-branches", {
+          body: { credentialId, appId },
+        });
+        if (error) throw error;
+        setBranches(data?.branches || []);
+      } catch (e) {
+        console.error(e);
+        setBranches([]);
+      }
+    })();
+  }, [appId, credentialId]);
+
+  const updateStage = (index: number, patch: Partial<DraftStage>) => {
+    setStages((prev) => prev.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+  };
+
+  const moveStage = (index: number, delta: number) => {
+    setStages((prev) => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  // Prefill the classic test → acceptance → production promotion using the app's environments
+  const applyPromotionTemplate = () => {
+    const findEnv = (needle: string) =>
+      envs.find((e) => e.environment_name.toLowerCase().includes(needle))?.environment_name || "";
+    const test = findEnv("test");
+    const acceptance = findEnv("accept");
+    const production = findEnv("prod");
+
+    setStages([
+      { ...emptyStage("deploy"), environmentName: test, branchName: branches.includes("main") ? "main" : "" },
+      { ...emptyStage("gate"), environmentName: test },
+      { ...emptyStage("transport"), sourceEnvironmentName: test, environmentName: acceptance },
+      { ...emptyStage("transport"), sourceEnvironmentName: acceptance, environmentName: production },
+    ]);
+  };
+
+  const resetForm = () => {
+    setName("");
+    setCredentialId("");
+    setAppId("");
+    setScheduledFor("");
+    setStages([emptyStage()]);
+  };
+
+  const validate = (): string | null => {
+    if (!name.trim()) return "Pipeline name is required";
+    if (!credentialId || !appId) return "Select a credential and application";
+    if (stages.length === 0) return "Add at least one stage";
+    for (const [index, stage] of stages.entries()) {
+      const position = `Stage ${index + 1}`;
+      if (stage.kind === "gate") {
+        if (stage.checks.length === 0) return `${position}: select at least one gate check`;
+        continue;
+      }
+      if (!stage.environmentName) return `${position}: environment is required`;
+      if (stage.kind === "deploy" && !stage.branchName) return `${position}: branch is required`;
+      if (stage.kind === "transport" && !stage.sourceEnvironmentName)
+        return `${position}: source environment is required`;
+    }
+    if (scheduledFor && new Date(scheduledFor) <= new Date()) return "Start time must be in the future";
+    return null;
+  };
+
+  const onSubmit = async () => {
+    const validationError = validate();
+    if (validationError) {
+      toast({ title: "Invalid pipeline", description: validationError, variant: "destructive" });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const {
+        data: { user },
+        error: userError,
+      } = await supabase.auth.getUser();
+      if (userError || !user) {
+        throw new Error("Authentication required");
+      }
+
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("full_name")
+        .eq("user_id", user.id)
+        .single();
+
+      const { data: pipeline, error: pipelineError } = await supabase
+        .from("cloud_action_pipelines")
+        .insert({
+          user_id: user.id,
+          credential_id: credentialId,
+          app_id: appId,
+          name: name.trim(),
+          status: "scheduled",
+          scheduled_for: scheduledFor ? new Date(scheduledFor).toISOString() : null,
+          creator_name: profile?.full_name || user.email || null,
+        })
+        .select("id")
+        .single();
+
+      if (pipelineError || !pipeline) throw pipelineError || new Error("Failed to create pipeline");
+
+      const stageRows = stages.map((stage, index) => {
+        let payload: Record<string, Json> = {};
+        if (stage.kind === "deploy") {
+          payload = {
+            branchName: stage.branchName,
+            revisionId: "HEAD",
+            version: stage.version || "1.0.0",
+            description: `Pipeline: ${name.trim()}`,
+          };
+        } else if (stage.kind === "transport") {
+          payload = { sourceEnvironmentName: stage.sourceEnvironmentName, comment: `Pipeline: ${name.trim()}` };
+        } else if (stage.kind === "gate") {
+          payload = { checks: stage.checks, timeoutMinutes: stage.timeoutMinutes };
+        }
+
+        return {
+          pipeline_id: pipeline.id,
+          user_id: user.id,
+          stage_order: index,
+          name: stageLabel(stage),
+          stage_type: stage.kind === "gate" ? "gate" : "action",
+          action_type: stage.kind === "gate" ? null : stage.kind,
+          environment_name: stage.environmentName || null,
+          payload,
+        };
+      });
+
+      const { error: stagesError } = await supabase.from("cloud_action_pipeline_stages").insert(stageRows);
+      if (stagesError) {
+        // Don't leave a pipeline without stages behind for the orchestrator
+        await supabase.from("cloud_action_pipelines").delete().eq("id", pipeline.id);
+        throw stagesError;
+      }
+
+      toast({
+        title: "Pipeline created",
+        description: `${name.trim()} • ${stages.length} stages • ${scheduledFor ? new Date(scheduledFor).toLocaleString() : "Starts on next orchestrator cycle"}`,
+      });
+
+      resetForm();
+      setOpen(false);
+      onCreated();
+    } catch (error) {
+      console.error("Failed to create pipeline:", error);
+      toast({
+        title: "Failed to create pipeline",
+        description: (error as Error).message || "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const envOptions = envs.map((e) => (
+    <SelectItem key={e.id} value={e.environment_name}>
+      {e.environment_name}
+    </SelectItem>
+  ));
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <GitMerge className="mr-2 h-4 w-4" /> New Pipeline
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5" /> New Deployment Pipeline
+          </DialogTitle>
+          <DialogDescription>
+            Chain cloud actions across environments. Each stage starts only after the previous one
+            succeeded; the pipeline stops on the first failure.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[calc(90vh-8rem)] pr-4">
+          <div className="space-y-5">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Name</Label>
+                <Input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Release to production"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Start at (optional)</Label>
+                <Input
+                  type="datetime-local"
+                  value={scheduledFor}
+                  onChange={(e) => setScheduledFor(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Credential</Label>
+                <Select value={credentialId} onValueChange={setCredentialId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select credential" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {credentials.map((c) => (
+                      <SelectItem key={c.id} value={c.id}>
+                        {c.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Application</Label>
+                <Select value={appId} onValueChange={setAppId} disabled={!credentialId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={credentialId ? "Select app" : "Select credential first"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {apps.map((a) => (
+                      <SelectItem key={a.app_id} value={a.project_id}>
+                        {a.app_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <h4 className="font-medium">Stages</h4>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={applyPromotionTemplate}
+                  disabled={!appId}
+                >
+                  <Wand2 className="mr-2 h-4 w-4" /> Test → Acceptance → Production
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setStages((prev) => [...prev, emptyStage("transport")])}
+                >
+                  <Plus className="mr-2 h-4 w-4" /> Add stage
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              {stages.map((stage, index) => (
+                <div key={index} className="rounded-md border border-input p-3 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs font-medium text-muted-foreground w-16">
+                      Stage {index + 1}
+                    </span>
+                    <Select
+                      value={stage.kind}
+                      onValueChange={(v) => updateStage(index, { kind: v as StageKind })}
+                    >
+                      <SelectTrigger className="w-44">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="deploy">Deploy</SelectItem>
+                        <SelectItem value="transport">Transport</SelectItem>
+                        <SelectItem value="gate">Quality gate</SelectItem>
+                        <SelectItem value="start">Start</SelectItem>
+                        <SelectItem value="stop">Stop</SelectItem>
+                        <SelectItem value="restart">Restart</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <span className="flex-1 truncate text-sm text-muted-foreground">{stageLabel(stage)}</span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveStage(index, -1)}
+                      disabled={index === 0}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveStage(index, 1)}
+                      disabled={index === stages.length - 1}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => setStages((prev) => prev.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  <div className="grid gap-3 md:grid-cols-2">
+                    {stage.kind === "transport" && (
+                      <div className="space-y-1">
+                        <Label className="text-xs">Source environment</Label>
+                        <Select
+                          value={stage.sourceEnvironmentName}
+                          onValueChange={(v) => updateStage(index, { sourceEnvironmentName: v })}
+                          disabled={!appId}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select source" />
+                          </SelectTrigger>
+                          <SelectContent>{envOptions}</SelectContent>
+                        </Select>
+                      </div>
+                    )}
+
+                    <div className="space-y-1">
+                      <Label className="text-xs">
+                        {stage.kind === "gate"
+                          ? "Environment (optional, filters OWASP runs)"
+                          : stage.kind === "transport"
+                            ? "Target environment"
+                            : "Environment"}
+                      </Label>
+                      <Select
+                        value={stage.environmentName}
+                        onValueChange={(v) => updateStage(index, { environmentName: v })}
+                        disabled={!appId}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder={appId ? "Select environment" : "Select app first"} />
+                        </SelectTrigger>
+                        <SelectContent>{envOptions}</SelectContent>
+                      </Select>
+                    </div>
+
+                    {stage.kind === "deploy" && (
+                      <>
+                        <div className="space-y-1">
+                          <Label className="text-xs">Branch</Label>
+                          <Select
+                            value={stage.branchName}
+                            onValueChange={(v) => updateStage(index, { branchName: v })}
+                            disabled={!appId}
+                          >
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select branch" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {branches.map((b) => (
+                                <SelectItem key={b} value={b}>
+                                  {b}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-1">
+                          <Label className="text-xs">Version</Label>
+                          <Input
+                            value={stage.version}
+                            onChange={(e) => updateStage(index, { version: e.target.value })}
+                            placeholder="1.0.0"
+                          />
+                        </div>
+                      </>
+                    )}
+
+                    {stage.kind === "gate" && (
+                      <>
+                        <div className="space-y-1">
+                          <Label className="text-xs">Checks</Label>
+                          <div className="flex items-center gap-4 h-10">
+                            {[
+                              { id: "owasp", label: "OWASP" },
+                              { id: "linting", label: "Linting" },
+                            ].map((check) => (
+                              <label key={check.id} className="flex items-center gap-2 text-sm">
+                                <Checkbox
+                                  checked={stage.checks.includes(check.id)}
+                                  onCheckedChange={(checked) =>
+                                    updateStage(index, {
+                                      checks: checked
+                                        ? [...stage.checks, check.id]
+                                        : stage.checks.filter((c) => c !== check.id),
+                                    })
+                                  }
+                                />
+                                {check.label}
+                              </label>
+                            ))}
+                          </div>
+                        </div>
+                        <div className="space-y-1">
+                          <Label className="text-xs">Wait at most (minutes)</Label>
+                          <Input
+                            type="number"
+                            min="1"
+                            value={stage.timeoutMinutes}
+                            onChange={(e) =>
+                              updateStage(index, { timeoutMinutes: parseInt(e.target.value) || 60 })
+                            }
+                          />
+                        </div>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))}
+              {stages.length === 0 && (
+                <div className="text-sm text-muted-foreground">No stages yet. Add one to get started.</div>
+              )}
+            </div>
+
+            <Button className="w-full" onClick={onSubmit} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create Pipeline
+            </Button>
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,438 @@
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarClock, Loader2 } from "lucide-react";
+import { isValidTimeZone, parseCron, upcomingCronOccurrences } from "@/lib/cron";
+import { BUILD_ENVIRONMENT_NAME } from "@/lib/cloudActionSteps";
+import { getErrorMessage } from "@/lib/utils";
+import type { Credential, App, Env } from "@/types/cloudActions";
+
+interface AddScheduleDialogProps {
+  onCreated: () => void;
+}
+
+const CRON_PRESETS = [
+  { label: "Weeknights 22:00", cron: "0 22 * * 1-5" },
+  { label: "Weekday mornings 07:00", cron: "0 7 * * 1-5" },
+  { label: "Every night 00:00", cron: "0 0 * * *" },
+  { label: "Sundays 03:00", cron: "0 3 * * 0" },
+];
+
+const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+export function AddScheduleDialog({ onCreated }: AddScheduleDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const [credentials, setCredentials] = useState<Credential[]>([]);
+  const [apps, setApps] = useState<App[]>([]);
+  const [envs, setEnvs] = useState<Env[]>([]);
+
+  const [name, setName] = useState("");
+  const [credentialId, setCredentialId] = useState("");
+  const [appId, setAppId] = useState("");
+  const [environmentName, setEnvironmentName] = useState("");
+  const [actionType, setActionType] = useState("stop");
+  const [instances, setInstances] = useState("1");
+  const [memoryPerInstance, setMemoryPerInstance] = useState("1024");
+  const [branches, setBranches] = useState<string[]>([]);
+  const [branchName, setBranchName] = useState("");
+  const [version, setVersion] = useState("1.0.0");
+  const [cronExpression, setCronExpression] = useState(CRON_PRESETS[0].cron);
+  const [timeZone, setTimeZone] = useState(browserTimeZone);
+  const [endsAt, setEndsAt] = useState("");
+
+  // Load credentials on dialog open
+  useEffect(() => {
+    if (!open) return;
+    (async () => {
+      const { data, error } = await supabase
+        .from("mendix_credentials")
+        .select("id, name")
+        .order("created_at", { ascending: true });
+      if (!error) setCredentials(data || []);
+    })();
+  }, [open]);
+
+  // Load apps when credential changes
+  useEffect(() => {
+    setAppId("");
+    if (!credentialId) {
+      setApps([]);
+      return;
+    }
+    (async () => {
+      const { data, error } = await supabase
+        .from("mendix_apps")
+        .select("id, app_id, app_name, credential_id, project_id")
+        .eq("credential_id", credentialId)
+        .order("app_name", { ascending: true });
+      setApps(error ? [] : data || []);
+    })();
+  }, [credentialId]);
+
+  // Load environments when app changes
+  useEffect(() => {
+    setEnvironmentName("");
+    if (!appId || !credentialId) {
+      setEnvs([]);
+      return;
+    }
+    (async () => {
+      const { data, error } = await supabase
+        .from("mendix_environments")
+        .select("id, app_id, environment_name")
+        .eq("credential_id", credentialId)
+        .eq("app_id", appId)
+        .order("environment_name", { ascending: true });
+      setEnvs(error ? [] : data || []);
+    })();
+  }, [appId, credentialId]);
+
+  // Branches for scheduled builds
+  useEffect(() => {
+    setBranchName("");
+    if (!appId || !credentialId || actionType !== "build") {
+      setBranches([]);
+      return;
+    }
+    (async () => {
+      const { data, error } = await supabase.functions.invoke<{ branches?: string[] }>("get-mendix-branches", {
+        body: { credentialId, appId },
+      });
+      setBranches(error ? [] : data?.branches || []);
+    })();
+  }, [appId, credentialId, actionType]);
+
+  const cronError = useMemo(() => {
+    try {
+      parseCron(cronExpression);
+      return isValidTimeZone(timeZone) ? null : `Unknown timezone '${timeZone}'`;
+    } catch (e) {
+      return getErrorMessage(e);
+    }
+  }, [cronExpression, timeZone]);
+
+  const preview = useMemo(() => {
+    if (cronError) return [];
+    return upcomingCronOccurrences(cronExpression, new Date(), timeZone, 5, endsAt ? new Date(endsAt) : null);
+  }, [cronExpression, timeZone, endsAt, cronError]);
+
+  const resetForm = () => {
+    setName("");
+    setCredentialId("");
+    setAppId("");
+    setEnvironmentName("");
+    setActionType("stop");
+    setInstances("1");
+    setMemoryPerInstance("1024");
+    setBranchName("");
+    setVersion("1.0.0");
+    setCronExpression(CRON_PRESETS[0].cron);
+    setTimeZone(browserTimeZone());
+    setEndsAt("");
+  };
+
+  const validate = (): string | null => {
+    if (!name.trim()) return "Schedule name is required";
+    if (!credentialId || !appId) return "Select a credential and application";
+    if (!environmentName && actionType !== "build") return "Environment is required";
+    if (actionType === "build" && !branchName) return "Branch is required";
+    if (actionType === "build" && !/^\d+\.\d+\.\d+$/.test(version.trim())) return "Version must look like 1.2.3";
+    if (actionType === "scale" && (!(parseInt(instances) >= 1) || !(parseInt(memoryPerInstance) >= 1))) {
+      return "Enter the instance count and memory per instance";
+    }
+    if (cronError) return cronError;
+    if (endsAt && new Date(endsAt) <= new Date()) return "End date must be in the future";
+    if (preview.length === 0) return "This schedule has no upcoming occurrences";
+    return null;
+  };
+
+  const onSubmit = async () => {
+    const validationError = validate();
+    if (validationError) {
+      toast({ title: "Invalid schedule", description: validationError, variant: "destructive" });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const {
+        data: { user },
+        error: userError,
+      } = await supabase.auth.getUser();
+      if (userError || !user) {
+        throw new Error("Authentication required");
+      }
+
+      const targetEnvironmentName = actionType === "build" ? BUILD_ENVIRONMENT_NAME : environmentName;
+
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("full_name")
+        .eq("user_id", user.id)
+        .single();
+
+      const { error } = await supabase.from("cloud_action_schedules").insert({
+        user_id: user.id,
+        credential_id: credentialId,
+        app_id: appId,
+        environment_name: targetEnvironmentName,
+        action_type: actionType,
+        payload: {
+          actionType,
+          appId,
+          environmentName: targetEnvironmentName,
+          ...(actionType === "scale"
+            ? { instances: parseInt(instances), memoryPerInstance: parseInt(memoryPerInstance) }
+            : {}),
+          // Scheduled builds always take the latest revision of the branch
+          ...(actionType === "build" ? { branchName, version: version.trim(), description: name.trim() } : {}),
+        },
+        name: name.trim(),
+        cron_expression: cronExpression.trim(),
+        timezone: timeZone,
+        ends_at: endsAt ? new Date(endsAt).toISOString() : null,
+        next_run_at: preview[0].toISOString(),
+        creator_name: profile?.full_name || user.email || null,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Schedule created",
+        description: `${name.trim()} • Next run ${preview[0].toLocaleString()}`,
+      });
+
+      resetForm();
+      setOpen(false);
+      onCreated();
+    } catch (error) {
+      console.error("Failed to create schedule:", error);
+      toast({
+        title: "Failed to create schedule",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <CalendarClock className="mr-2 h-4 w-4" /> New Schedule
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" /> New Recurring Schedule
+          </DialogTitle>
+          <DialogDescription>
+            Run a start, stop, restart, scale or build on a cron schedule. A cloud action is created for every
+            occurrence.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2 md:col-span-2">
+              <Label>Name</Label>
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Stop test environment at night"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Credential</Label>
+              <Select value={credentialId} onValueChange={setCredentialId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select credential" />
+                </SelectTrigger>
+                <SelectContent>
+                  {credentials.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>
+                      {c.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Application</Label>
+              <Select value={appId} onValueChange={setAppId} disabled={!credentialId}>
+                <SelectTrigger>
+                  <SelectValue placeholder={credentialId ? "Select app" : "Select credential first"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {apps.map((a) => (
+                    <SelectItem key={a.app_id} value={a.project_id}>
+                      {a.app_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Environment</Label>
+              <Select
+                value={actionType === "build" ? "" : environmentName}
+                onValueChange={setEnvironmentName}
+                disabled={!appId || actionType === "build"}
+              >
+                <SelectTrigger>
+                  <SelectValue
+                    placeholder={
+                      actionType === "build" ? "Not needed for builds" : appId ? "Select environment" : "Select app first"
+                    }
+                  />
+                </SelectTrigger>
+                <SelectContent>
+                  {envs.map((e) => (
+                    <SelectItem key={e.id} value={e.environment_name}>
+                      {e.environment_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Action</Label>
+              <Select value={actionType} onValueChange={setActionType}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="start">Start</SelectItem>
+                  <SelectItem value="stop">Stop</SelectItem>
+                  <SelectItem value="restart">Restart</SelectItem>
+                  <SelectItem value="scale">Scale</SelectItem>
+                  <SelectItem value="build">Build package</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {actionType === "scale" && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Instances</Label>
+                <Input type="number" min="1" value={instances} onChange={(e) => setInstances(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Memory per instance (MB)</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  step="512"
+                  value={memoryPerInstance}
+                  onChange={(e) => setMemoryPerInstance(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+
+          {actionType === "build" && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Branch</Label>
+                <Select value={branchName} onValueChange={setBranchName} disabled={!appId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={appId ? "Select branch" : "Select app first"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {branches.map((b) => (
+                      <SelectItem key={b} value={b}>
+                        {b}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Version</Label>
+                <Input value={version} onChange={(e) => setVersion(e.target.value)} placeholder="1.0.0" />
+              </div>
+              <p className="col-span-2 text-xs text-muted-foreground">
+                Every run builds the latest revision of the branch. Transport the result once it is tested.
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Cron expression</Label>
+            <Input
+              value={cronExpression}
+              onChange={(e) => setCronExpression(e.target.value)}
+              placeholder="minute hour day-of-month month day-of-week"
+              className="font-mono"
+            />
+            <div className="flex flex-wrap gap-2">
+              {CRON_PRESETS.map((preset) => (
+                <Button
+                  key={preset.cron}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCronExpression(preset.cron)}
+                >
+                  {preset.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Timezone</Label>
+              <Input value={timeZone} onChange={(e) => setTimeZone(e.target.value)} placeholder="Europe/Amsterdam" />
+            </div>
+            <div className="space-y-2">
+              <Label>Ends at (optional)</Label>
+              <Input type="datetime-local" value={endsAt} onChange={(e) => setEndsAt(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="rounded-md bg-muted/50 p-3 text-xs space-y-1">
+            <div className="font-medium text-foreground">Upcoming runs (your local time)</div>
+            {cronError ? (
+              <div className="text-destructive">{cronError}</div>
+            ) : preview.length === 0 ? (
+              <div className="text-muted-foreground">No upcoming occurrences</div>
+            ) : (
+              preview.map((date) => <div key={date.toISOString()}>{date.toLocaleString()}</div>)
+            )}
+          </div>
+
+          <Button type="button" className="w-full" onClick={onSubmit} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Create Schedule
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
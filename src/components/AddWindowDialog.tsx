@@ -0,0 +1,339 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarRange, Loader2 } from "lucide-react";
+import { isValidTimeZone, parseCron } from "@/lib/cron";
+import type { WindowType } from "@/types/cloudActions";
+import { getErrorMessage } from "@/lib/utils";
+
+interface AddWindowDialogProps {
+  onCreated: () => void;
+}
+
+interface AppOption {
+  project_id: string;
+  app_name: string;
+}
+
+interface EnvOption {
+  app_id: string;
+  environment_name: string;
+}
+
+const ALL = "__all__";
+const ACTION_TYPES = ["deploy", "transport", "stop", "start", "restart", "configure", "scale", "restore", "build"];
+
+export function AddWindowDialog({ onCreated }: AddWindowDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const [apps, setApps] = useState<AppOption[]>([]);
+  const [envs, setEnvs] = useState<EnvOption[]>([]);
+
+  const [name, setName] = useState("");
+  const [windowType, setWindowType] = useState<WindowType>("freeze");
+  const [appId, setAppId] = useState(ALL);
+  const [environmentName, setEnvironmentName] = useState(ALL);
+  const [actionTypes, setActionTypes] = useState<string[]>(["deploy", "transport", "stop"]);
+  const [timing, setTiming] = useState<"once" | "recurring">("once");
+  const [startsAt, setStartsAt] = useState("");
+  const [endsAt, setEndsAt] = useState("");
+  const [cronExpression, setCronExpression] = useState("0 2 * * 6");
+  const [durationMinutes, setDurationMinutes] = useState(240);
+  const [timeZone, setTimeZone] = useState(() => Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC");
+  const [conflictBehavior, setConflictBehavior] = useState<"reschedule" | "block">("reschedule");
+
+  useEffect(() => {
+    if (!open) return;
+    (async () => {
+      const [appsResult, envsResult] = await Promise.all([
+        supabase.from("mendix_apps").select("project_id, app_name").order("app_name", { ascending: true }),
+        supabase.from("mendix_environments").select("app_id, environment_name"),
+      ]);
+      // The same app can be linked through several credentials
+      const uniqueApps = new Map<string, AppOption>();
+      for (const app of (appsResult.data || []) as AppOption[]) {
+        if (app.project_id && !uniqueApps.has(app.project_id)) uniqueApps.set(app.project_id, app);
+      }
+      setApps([...uniqueApps.values()]);
+      setEnvs((envsResult.data || []) as EnvOption[]);
+    })();
+  }, [open]);
+
+  const appEnvironments = [
+    ...new Set(envs.filter((e) => appId === ALL || e.app_id === appId).map((e) => e.environment_name)),
+  ].sort();
+
+  const resetForm = () => {
+    setName("");
+    setWindowType("freeze");
+    setAppId(ALL);
+    setEnvironmentName(ALL);
+    setActionTypes(["deploy", "transport", "stop"]);
+    setTiming("once");
+    setStartsAt("");
+    setEndsAt("");
+    setCronExpression("0 2 * * 6");
+    setDurationMinutes(240);
+    setConflictBehavior("reschedule");
+  };
+
+  const validate = (): string | null => {
+    if (!name.trim()) return "Name is required";
+    if (actionTypes.length === 0) return "Select at least one action type";
+    if (timing === "once") {
+      if (!startsAt || !endsAt) return "Start and end are required";
+      if (new Date(endsAt) <= new Date(startsAt)) return "End must be after start";
+      if (new Date(endsAt) <= new Date()) return "End must be in the future";
+    } else {
+      try {
+        parseCron(cronExpression);
+      } catch (e) {
+        return getErrorMessage(e);
+      }
+      if (!durationMinutes || durationMinutes <= 0) return "Duration must be positive";
+      if (!isValidTimeZone(timeZone)) return `Unknown timezone '${timeZone}'`;
+    }
+    return null;
+  };
+
+  const onSubmit = async () => {
+    const validationError = validate();
+    if (validationError) {
+      toast({ title: "Invalid window", description: validationError, variant: "destructive" });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const {
+        data: { user },
+        error: userError,
+      } = await supabase.auth.getUser();
+      if (userError || !user) {
+        throw new Error("Authentication required");
+      }
+
+      const { error } = await supabase.from("cloud_action_windows").insert({
+        user_id: user.id,
+        name: name.trim(),
+        window_type: windowType,
+        app_id: appId === ALL ? null : appId,
+        environment_name: environmentName === ALL ? null : environmentName,
+        action_types: actionTypes,
+        starts_at: timing === "once" ? new Date(startsAt).toISOString() : null,
+        ends_at: timing === "once" ? new Date(endsAt).toISOString() : null,
+        cron_expression: timing === "recurring" ? cronExpression.trim() : null,
+        duration_minutes: timing === "recurring" ? durationMinutes : null,
+        timezone: timeZone,
+        conflict_behavior: conflictBehavior,
+      });
+      if (error) throw error;
+
+      toast({ title: windowType === "freeze" ? "Freeze window created" : "Maintenance window created" });
+      resetForm();
+      setOpen(false);
+      onCreated();
+    } catch (error) {
+      console.error("Failed to create window:", error);
+      toast({
+        title: "Failed to create window",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <CalendarRange className="mr-2 h-4 w-4" /> New Window
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarRange className="h-5 w-5" /> New Freeze or Maintenance Window
+          </DialogTitle>
+          <DialogDescription>
+            Actions may not start during a freeze. When maintenance windows exist for an app or
+            environment, actions may only start inside one of them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Month-end close" />
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={windowType} onValueChange={(v) => setWindowType(v as WindowType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="freeze">Freeze (blackout)</SelectItem>
+                  <SelectItem value="maintenance">Maintenance window</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Application</Label>
+              <Select
+                value={appId}
+                onValueChange={(v) => {
+                  setAppId(v);
+                  setEnvironmentName(ALL);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All apps</SelectItem>
+                  {apps.map((a) => (
+                    <SelectItem key={a.project_id} value={a.project_id}>
+                      {a.app_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Environment</Label>
+              <Select value={environmentName} onValueChange={setEnvironmentName}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All environments</SelectItem>
+                  {appEnvironments.map((env) => (
+                    <SelectItem key={env} value={env}>
+                      {env}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Applies to</Label>
+            <div className="flex flex-wrap gap-4">
+              {ACTION_TYPES.map((type) => (
+                <label key={type} className="flex items-center gap-2 text-sm capitalize">
+                  <Checkbox
+                    checked={actionTypes.includes(type)}
+                    onCheckedChange={(checked) =>
+                      setActionTypes((prev) => (checked ? [...prev, type] : prev.filter((t) => t !== type)))
+                    }
+                  />
+                  {type}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <RadioGroup
+              value={timing}
+              onValueChange={(v) => setTiming(v as "once" | "recurring")}
+              className="flex gap-6"
+            >
+              <label className="flex items-center gap-2 text-sm">
+                <RadioGroupItem value="once" /> One-off period
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <RadioGroupItem value="recurring" /> Recurring
+              </label>
+            </RadioGroup>
+
+            {timing === "once" ? (
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>Starts</Label>
+                  <Input type="datetime-local" value={startsAt} onChange={(e) => setStartsAt(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Ends</Label>
+                  <Input type="datetime-local" value={endsAt} onChange={(e) => setEndsAt(e.target.value)} />
+                </div>
+              </div>
+            ) : (
+              <div className="grid gap-4 md:grid-cols-3">
+                <div className="space-y-2">
+                  <Label>Starts (cron)</Label>
+                  <Input
+                    value={cronExpression}
+                    onChange={(e) => setCronExpression(e.target.value)}
+                    className="font-mono"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Duration (minutes)</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={durationMinutes}
+                    onChange={(e) => setDurationMinutes(parseInt(e.target.value, 10) || 0)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Timezone</Label>
+                  <Input value={timeZone} onChange={(e) => setTimeZone(e.target.value)} />
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Actions that fall outside the allowed times</Label>
+            <Select
+              value={conflictBehavior}
+              onValueChange={(v) => setConflictBehavior(v as "reschedule" | "block")}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="reschedule">Move to the next allowed slot</SelectItem>
+                <SelectItem value="block">Block with an error</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Button type="button" className="w-full" onClick={onSubmit} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Create Window
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
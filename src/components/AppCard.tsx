@@ -7,11 +7,12 @@ import { Button } from "@/components/ui/button";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { HoverCard, HoverCardTrigger, HoverCardContent } from "@/components/ui/hover-card";
 import { supabase } from "@/integrations/supabase/client";
-import { Activity, AlertTriangle, CheckCircle, XCircle, ExternalLink, Clock, Users, Code, Loader2, ChevronDown, RefreshCw, FileText, Copy, Check, Shield, Play, FileCode, Settings2, History } from "lucide-react";
+import { Activity, AlertTriangle, CheckCircle, XCircle, ExternalLink, Clock, Users, Code, Loader2, ChevronDown, RefreshCw, FileText, Copy, Check, Shield, Play, FileCode, Settings2, History, Archive } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { cn } from "@/lib/utils";
 import LogsViewer from "./LogsViewer";
 import { VulnerabilityScanDialog } from "./VulnerabilityScanDialog";
+import { BackupsDialog } from "./BackupsDialog";
 import { useMendixOperations } from "@/hooks/useMendixOperations";
 import { MicroflowsDialog, type MicroflowsResponse } from "./MicroflowsDialog";
 import { toast } from "@/hooks/use-toast";
@@ -91,8 +92,6 @@ const AppCard = ({
 }: AppCardProps) => {
   const [logsOpen, setLogsOpen] = useState(false);
   const [logs, setLogs] = useState("");
-  const [webhookLogs, setWebhookLogs] = useState<any[]>([]);
-  const [webhookLoading, setWebhookLoading] = useState(false);
   const [logsEnvironment, setLogsEnvironment] = useState<{
     name: string;
     id: string;
@@ -111,6 +110,7 @@ const AppCard = ({
     name: string;
     appId: string;
   } | null>(null);
+  const [backupsEnvironment, setBackupsEnvironment] = useState<string | null>(null);
   const [vulnerabilityCount, setVulnerabilityCount] = useState(0);
   const [showVulnerabilityResults, setShowVulnerabilityResults] = useState(false);
   const [environmentStatuses, setEnvironmentStatuses] = useState<Record<string, {
@@ -146,7 +146,6 @@ const AppCard = ({
     startEnvironment,
     stopEnvironment,
     downloadLogs,
-    fetchWebhookLogs,
     refreshEnvironmentStatus,
     getMicroflows
   } = useMendixOperations();
@@ -480,19 +479,6 @@ const AppCard = ({
       supabase.removeChannel(channel);
     };
   }, [app.app_id, app.environments]);
-  const fetchWebhookLogsForEnvironment = async (environmentName: string) => {
-    if (!app.app_id) return;
-    setWebhookLoading(true);
-    try {
-      const logs = await fetchWebhookLogs(app.app_id, environmentName);
-      setWebhookLogs(logs);
-    } catch (error) {
-      console.error('Error fetching webhook logs:', error);
-      setWebhookLogs([]);
-    } finally {
-      setWebhookLoading(false);
-    }
-  };
   const handleGetMicroflows = async () => {
     try {
       // Find credential that has this app
@@ -1219,7 +1205,7 @@ const AppCard = ({
                               Refresh Status
                             </Button>
                             
-                            <Button size="sm" variant="outline" className="h-8" disabled={loading} onClick={async e => {
+                            <Button size="sm" variant="outline" className="h-8" disabled={loading} onClick={e => {
                         e.stopPropagation();
                         setLogsEnvironment({
                           name: env.environment_name,
@@ -1227,7 +1213,6 @@ const AppCard = ({
                           appId: app.app_id
                         });
                         setLogs("");
-                        await fetchWebhookLogsForEnvironment(env.environment_name);
                         setLogsOpen(true);
                       }}>
                               {loading ? <Loader2 className="w-3 h-3 animate-spin mr-1" /> : <FileText className="w-3 h-3 mr-1" />}
@@ -1254,6 +1239,14 @@ const AppCard = ({
                               <Shield className="w-3 h-3 mr-1" />
                               Scan Vulnerabilities
                             </Button>
+
+                            {app.project_id && <Button size="sm" variant="outline" className="h-8" onClick={e => {
+                        e.stopPropagation();
+                        setBackupsEnvironment(env.environment_name);
+                      }}>
+                                <Archive className="w-3 h-3 mr-1" />
+                                Backups
+                              </Button>}
                           </div>
                         </div>
                       </div>
@@ -1322,8 +1315,7 @@ const AppCard = ({
       setLogsOpen(false);
       setLogsEnvironment(null);
       setLogs("");
-      setWebhookLogs([]);
-    }} logs={logs} webhookLogs={webhookLogs} environmentName={logsEnvironment.name} appName={app.app_name} appId={logsEnvironment.appId} loading={loading} webhookLoading={webhookLoading} onRefreshWebhookLogs={() => fetchWebhookLogsForEnvironment(logsEnvironment.name)} onDownloadDate={async date => {
+    }} logs={logs} environmentName={logsEnvironment.name} appName={app.app_name} appId={logsEnvironment.appId} loading={loading} onDownloadDate={async date => {
       try {
         const dateStr = format(date, 'yyyy-MM-dd');
         const logData = await downloadLogs(logsEnvironment.appId, logsEnvironment.name, dateStr);
@@ -1343,6 +1335,9 @@ const AppCard = ({
       setShowVulnerabilityResults(false);
     }} appId={selectedEnvironmentForScan.appId} environmentName={selectedEnvironmentForScan.name} appName={app.app_name} showResultsOnOpen={showVulnerabilityResults} />}
 
+      {/* Backups Dialog */}
+      {backupsEnvironment && app.project_id && <BackupsDialog isOpen={!!backupsEnvironment} onClose={() => setBackupsEnvironment(null)} credentialId={app.credential_id} appId={app.project_id} appName={app.app_name} environmentName={backupsEnvironment} environmentNames={(app.environments || []).map(env => env.environment_name)} />}
+
       {/* OWASP Details Dialog */}
       <OWASPDetailsDialog
         open={isOwaspDialogOpen}
@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, ShieldCheck } from "lucide-react";
+import type { CloudActionRow } from "@/types/cloudActions";
+import { getErrorMessage } from "@/lib/utils";
+
+interface ApprovalDecisionDialogProps {
+  action: CloudActionRow;
+  appName: string;
+  onDecided: () => void;
+}
+
+export function ApprovalDecisionDialog({ action, appName, onDecided }: ApprovalDecisionDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [comment, setComment] = useState("");
+  const [submitting, setSubmitting] = useState<"approve" | "reject" | null>(null);
+  const { toast } = useToast();
+
+  const decide = async (operation: "approve" | "reject") => {
+    if (operation === "reject" && !comment.trim()) {
+      toast({ title: "Comment required", description: "Explain why the action is rejected.", variant: "destructive" });
+      return;
+    }
+
+    setSubmitting(operation);
+    try {
+      const { data, error } = await supabase.functions.invoke("cloud-action-approvals", {
+        body: { operation, actionId: action.id, comment: comment.trim() || null },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      toast({ title: operation === "approve" ? "Action approved" : "Action rejected" });
+      setComment("");
+      setOpen(false);
+      onDecided();
+    } catch (e) {
+      toast({ title: "Decision failed", description: getErrorMessage(e), variant: "destructive" });
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <ShieldCheck className="mr-2 h-4 w-4" /> Review
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Review cloud action</DialogTitle>
+          <DialogDescription>
+            {action.creator_name || "Someone"} requested a{" "}
+            <span className="font-medium capitalize">{action.action_type}</span> on {appName} •{" "}
+            {action.environment_name}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 text-sm">
+          <div className="rounded-md bg-muted/50 p-3 space-y-1 text-xs">
+            <div>
+              <span className="font-medium">Scheduled for:</span>{" "}
+              {action.scheduled_for ? new Date(action.scheduled_for).toLocaleString() : "As soon as approved"}
+            </div>
+            {action.payload?.branchName && (
+              <div>
+                <span className="font-medium">Branch:</span> {action.payload.branchName}
+                {action.payload.revisionMessage && ` — ${action.payload.revisionMessage}`}
+              </div>
+            )}
+            {action.payload?.sourceEnvironmentName && (
+              <div>
+                <span className="font-medium">Source:</span> {action.payload.sourceEnvironmentName}
+              </div>
+            )}
+            {action.payload?.version && (
+              <div>
+                <span className="font-medium">Version:</span> {action.payload.version}
+              </div>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label>Comment</Label>
+            <Textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Optional when approving, required when rejecting"
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            className="text-destructive hover:text-destructive"
+            onClick={() => decide("reject")}
+            disabled={submitting !== null}
+          >
+            {submitting === "reject" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Reject
+          </Button>
+          <Button onClick={() => decide("approve")} disabled={submitting !== null}>
+            {submitting === "approve" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Approve
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
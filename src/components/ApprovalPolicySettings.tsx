@@ -0,0 +1,253 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "@/hooks/use-toast";
+import { Plus, ShieldCheck, Trash2 } from "lucide-react";
+import { getErrorMessage } from "@/lib/utils";
+
+interface ApprovalPolicy {
+  id: string;
+  app_id: string;
+  environment_name: string;
+  action_types: string[];
+  is_enabled: boolean;
+}
+
+interface AppOption {
+  project_id: string;
+  app_name: string;
+}
+
+interface EnvOption {
+  app_id: string;
+  environment_name: string;
+}
+
+const ACTION_TYPES = ["deploy", "transport", "start", "stop", "restart", "configure", "scale", "restore", "build"];
+
+export default function ApprovalPolicySettings() {
+  const [policies, setPolicies] = useState<ApprovalPolicy[]>([]);
+  const [apps, setApps] = useState<AppOption[]>([]);
+  const [envs, setEnvs] = useState<EnvOption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [appId, setAppId] = useState("");
+  const [environmentName, setEnvironmentName] = useState("");
+  const [actionTypes, setActionTypes] = useState<string[]>(["deploy", "transport"]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadData = async () => {
+    setIsLoading(true);
+    const [policiesResult, appsResult, envsResult] = await Promise.all([
+      supabase.from("cloud_action_approval_policies").select("*").order("created_at", { ascending: true }),
+      supabase.from("mendix_apps").select("project_id, app_name").order("app_name", { ascending: true }),
+      supabase.from("mendix_environments").select("app_id, environment_name"),
+    ]);
+
+    if (policiesResult.error) {
+      toast({ title: "Error loading approval policies", description: policiesResult.error.message, variant: "destructive" });
+    }
+
+    setPolicies((policiesResult.data || []) as ApprovalPolicy[]);
+    // The same app can be linked through several credentials
+    const uniqueApps = new Map<string, AppOption>();
+    for (const app of (appsResult.data || []) as AppOption[]) {
+      if (app.project_id && !uniqueApps.has(app.project_id)) uniqueApps.set(app.project_id, app);
+    }
+    setApps([...uniqueApps.values()]);
+    setEnvs((envsResult.data || []) as EnvOption[]);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const appName = (id: string) => apps.find((a) => a.project_id === id)?.app_name || id;
+
+  const appEnvironments = [...new Set(envs.filter((e) => e.app_id === appId).map((e) => e.environment_name))];
+
+  const addPolicy = async () => {
+    if (!appId || !environmentName || actionTypes.length === 0) {
+      toast({ title: "Missing information", description: "Select an app, environment and at least one action type.", variant: "destructive" });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase.from("cloud_action_approval_policies").insert({
+        app_id: appId,
+        environment_name: environmentName,
+        action_types: actionTypes,
+        created_by: user?.id ?? null,
+      });
+      if (error) throw error;
+
+      toast({ title: "Approval policy added", description: `${appName(appId)} • ${environmentName}` });
+      setEnvironmentName("");
+      loadData();
+    } catch (error) {
+      toast({ title: "Error adding policy", description: getErrorMessage(error), variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updatePolicy = async (id: string, patch: Partial<ApprovalPolicy>) => {
+    const { error } = await supabase.from("cloud_action_approval_policies").update(patch).eq("id", id);
+    if (error) {
+      toast({ title: "Error updating policy", description: error.message, variant: "destructive" });
+      return;
+    }
+    setPolicies((prev) => prev.map((p) => (p.id === id ? { ...p, ...patch } : p)));
+  };
+
+  const deletePolicy = async (id: string) => {
+    if (!confirm("Remove this approval policy? Actions already waiting for approval stay parked until decided.")) {
+      return;
+    }
+    const { error } = await supabase.from("cloud_action_approval_policies").delete().eq("id", id);
+    if (error) {
+      toast({ title: "Error deleting policy", description: error.message, variant: "destructive" });
+      return;
+    }
+    setPolicies((prev) => prev.filter((p) => p.id !== id));
+  };
+
+  const toggleActionType = (types: string[], type: string, checked: boolean) =>
+    checked ? [...types, type] : types.filter((t) => t !== type);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5" />
+          Cloud Action Approvals
+        </CardTitle>
+        <CardDescription>
+          Actions matching a policy wait in <span className="font-mono">pending_approval</span> until a
+          different admin approves them. Requesters can never approve their own actions.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-[1fr_1fr_auto] items-end">
+          <div className="space-y-2">
+            <Label>Application</Label>
+            <Select
+              value={appId}
+              onValueChange={(v) => {
+                setAppId(v);
+                setEnvironmentName("");
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select app" />
+              </SelectTrigger>
+              <SelectContent>
+                {apps.map((a) => (
+                  <SelectItem key={a.project_id} value={a.project_id}>
+                    {a.app_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Environment</Label>
+            <Select value={environmentName} onValueChange={setEnvironmentName} disabled={!appId}>
+              <SelectTrigger>
+                <SelectValue placeholder={appId ? "Select environment" : "Select app first"} />
+              </SelectTrigger>
+              <SelectContent>
+                {appEnvironments.map((env) => (
+                  <SelectItem key={env} value={env}>
+                    {env}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={addPolicy} disabled={isSaving}>
+            <Plus className="mr-2 h-4 w-4" /> Add policy
+          </Button>
+          <div className="flex flex-wrap gap-4 md:col-span-3">
+            {ACTION_TYPES.map((type) => (
+              <label key={type} className="flex items-center gap-2 text-sm capitalize">
+                <Checkbox
+                  checked={actionTypes.includes(type)}
+                  onCheckedChange={(checked) => setActionTypes((prev) => toggleActionType(prev, type, !!checked))}
+                />
+                {type}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Application</TableHead>
+              <TableHead>Environment</TableHead>
+              <TableHead>Requires approval for</TableHead>
+              <TableHead>Enabled</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {!isLoading && policies.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-sm text-muted-foreground">
+                  No approval policies yet. Every cloud action runs without approval.
+                </TableCell>
+              </TableRow>
+            )}
+            {policies.map((policy) => (
+              <TableRow key={policy.id}>
+                <TableCell>{appName(policy.app_id)}</TableCell>
+                <TableCell>{policy.environment_name}</TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-3">
+                    {ACTION_TYPES.map((type) => (
+                      <label key={type} className="flex items-center gap-1 text-xs capitalize">
+                        <Checkbox
+                          checked={policy.action_types.includes(type)}
+                          onCheckedChange={(checked) =>
+                            updatePolicy(policy.id, { action_types: toggleActionType(policy.action_types, type, !!checked) })
+                          }
+                        />
+                        {type}
+                      </label>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Switch
+                    checked={policy.is_enabled}
+                    onCheckedChange={(checked) => updatePolicy(policy.id, { is_enabled: checked })}
+                  />
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => deletePolicy(policy.id)}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,346 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Archive, Download, Loader2, RefreshCw, RotateCcw } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { useBackupsQuery } from "@/hooks/useBackupsQuery";
+import { queryKeys } from "@/lib/queryKeys";
+import type { BackupRow, BackupSource } from "@/types/cloudActions";
+import { getErrorMessage } from "@/lib/utils";
+
+interface BackupsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  credentialId: string;
+  // mendix_apps.project_id, the id cloud actions use
+  appId: string;
+  appName: string;
+  environmentName: string;
+  environmentNames: string[];
+}
+
+const sourceLabel: Record<BackupSource, string> = {
+  manual: "Manual",
+  deploy: "Deploy",
+  scheduled: "Scheduled",
+};
+
+const stateColor: Record<string, string> = {
+  Completed: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  Failed: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+};
+
+function formatBytes(bytes: number | null): string {
+  if (bytes === null) return "—";
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
+export function BackupsDialog({
+  isOpen,
+  onClose,
+  credentialId,
+  appId,
+  appName,
+  environmentName,
+  environmentNames,
+}: BackupsDialogProps) {
+  const queryClient = useQueryClient();
+  const { data: backups = [], isLoading, isFetching, error, refetch } = useBackupsQuery(
+    credentialId,
+    appId,
+    environmentName,
+    isOpen
+  );
+  const [comment, setComment] = useState("");
+  const [creating, setCreating] = useState(false);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [restoreBackup, setRestoreBackup] = useState<BackupRow | null>(null);
+  const [restoreTarget, setRestoreTarget] = useState(environmentName);
+  const [restoring, setRestoring] = useState(false);
+
+  const createBackup = async () => {
+    setCreating(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("manage-mendix-backups", {
+        body: { action: "create", credentialId, appId, environmentName, comment },
+      });
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || "Could not create backup");
+      toast({ title: "Backup started", description: `Mendix is creating a backup of ${environmentName}` });
+      setComment("");
+      queryClient.invalidateQueries({ queryKey: queryKeys.backups(appId, environmentName) });
+    } catch (e) {
+      toast({ title: "Failed to create backup", description: getErrorMessage(e), variant: "destructive" });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const download = async (backup: BackupRow, archive: "database" | "files" | "full") => {
+    setDownloadingId(backup.id);
+    try {
+      const { data, error } = await supabase.functions.invoke("manage-mendix-backups", {
+        body: { action: "download", credentialId, appId, environmentName, snapshotId: backup.id, archive },
+      });
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || "Could not get download link");
+      window.open(data.url, "_blank");
+    } catch (e) {
+      toast({ title: "Download failed", description: getErrorMessage(e), variant: "destructive" });
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const openRestore = (backup: BackupRow) => {
+    setRestoreTarget(environmentName);
+    setRestoreBackup(backup);
+  };
+
+  // Restores run as a cloud action so they get the same logging, locks and approvals as deploys
+  const confirmRestore = async () => {
+    if (!restoreBackup) return;
+    setRestoring(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("full_name")
+        .eq("user_id", user.id)
+        .single();
+
+      const { data: created, error: insertError } = await supabase
+        .from("cloud_actions")
+        .insert({
+          user_id: user.id,
+          credential_id: credentialId,
+          app_id: appId,
+          environment_name: restoreTarget,
+          action_type: "restore",
+          status: "scheduled",
+          scheduled_for: new Date().toISOString(),
+          payload: {
+            actionType: "restore",
+            appId,
+            environmentName: restoreTarget,
+            sourceEnvironmentName: environmentName,
+            snapshotId: restoreBackup.id,
+            snapshotCreatedAt: restoreBackup.createdAt,
+          },
+          creator_name: profile?.full_name || user.email || null,
+        })
+        .select("status")
+        .single();
+      if (insertError) throw insertError;
+
+      const awaitingApproval = created?.status === "pending_approval";
+      toast({
+        title: awaitingApproval ? "Restore awaiting approval" : "Restore scheduled",
+        description:
+          `Backup from ${restoreBackup.createdAt ? new Date(restoreBackup.createdAt).toLocaleString() : "unknown date"} ` +
+          `will be restored to ${restoreTarget}. Follow its progress under Cloud Actions.`,
+      });
+      setRestoreBackup(null);
+      queryClient.invalidateQueries({ queryKey: queryKeys.cloudActions });
+
+      if (!awaitingApproval) {
+        await supabase.functions.invoke("run-cloud-actions", { body: { processAllDue: true } });
+      }
+    } catch (e) {
+      console.error("Failed to schedule restore:", e);
+      toast({ title: "Failed to schedule restore", description: getErrorMessage(e), variant: "destructive" });
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+        <DialogContent className="sm:max-w-4xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Archive className="h-5 w-5" />
+              Backups – {appName} ({environmentName})
+            </DialogTitle>
+            <DialogDescription>
+              Create, download and restore backups of this environment.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="backup-comment">Comment</Label>
+              <Input
+                id="backup-comment"
+                placeholder="Manual backup from dashboard"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+              />
+            </div>
+            <Button onClick={createBackup} disabled={creating}>
+              {creating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Archive className="mr-2 h-4 w-4" />}
+              Back up now
+            </Button>
+            <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+              <RefreshCw className={`h-4 w-4 ${isFetching ? "animate-spin" : ""}`} />
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" /> Loading backups...
+            </div>
+          ) : error ? (
+            <p className="text-sm text-destructive">{(error as Error).message}</p>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Created</TableHead>
+                    <TableHead>Source</TableHead>
+                    <TableHead>State</TableHead>
+                    <TableHead>Size</TableHead>
+                    <TableHead>Comment</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {backups.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-sm text-muted-foreground">
+                        No backups for this environment.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {backups.map((b) => (
+                    <TableRow key={b.id}>
+                      <TableCell className="text-xs whitespace-nowrap">
+                        {b.createdAt ? new Date(b.createdAt).toLocaleString() : "—"}
+                        {b.modelVersion && <div className="text-muted-foreground">v{b.modelVersion}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="secondary">{sourceLabel[b.source]}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <span className={`px-2 py-1 rounded text-xs ${stateColor[b.state] || "bg-muted"}`}>{b.state}</span>
+                      </TableCell>
+                      <TableCell className="text-xs">{formatBytes(b.sizeBytes)}</TableCell>
+                      <TableCell className="text-xs max-w-[14rem] truncate" title={b.comment || undefined}>
+                        {b.comment || "—"}
+                      </TableCell>
+                      <TableCell className="text-right space-x-2 whitespace-nowrap">
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="outline" size="sm" disabled={b.state !== "Completed" || downloadingId === b.id}>
+                              {downloadingId === b.id ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <Download className="h-4 w-4" />
+                              )}
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem onClick={() => download(b, "database")}>Database only</DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => download(b, "files")}>Files only</DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => download(b, "full")}>Database and files</DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={b.state !== "Completed"}
+                          onClick={() => openRestore(b)}
+                        >
+                          <RotateCcw className="mr-1 h-4 w-4" />
+                          Restore
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!restoreBackup} onOpenChange={(open) => !open && setRestoreBackup(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore backup</AlertDialogTitle>
+            <AlertDialogDescription>
+              The target environment is stopped, its database and files are replaced by this backup, and it is
+              started again. Data changed since the backup is lost.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label>Restore to</Label>
+            <Select value={restoreTarget} onValueChange={setRestoreTarget}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {environmentNames.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {restoreTarget.toLowerCase() === "production" && (
+              <p className="text-sm text-destructive">⚠️ This overwrites the data of the PRODUCTION environment.</p>
+            )}
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={restoring}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                confirmRestore();
+              }}
+              disabled={restoring}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {restoring && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Restore to {restoreTarget}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,187 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { ChevronDown, ChevronRight, Trash2 } from "lucide-react";
+import { CloudActionLogsDialog } from "@/components/CloudActionLogsDialog";
+import { batchProgress } from "@/lib/cloudActionBatches";
+import { statusColor } from "@/types/cloudActions";
+import type { App, BatchRow } from "@/types/cloudActions";
+import { getErrorMessage } from "@/lib/utils";
+
+interface BatchesViewProps {
+  batches: BatchRow[];
+  apps: App[];
+  isLoading: boolean;
+  onChanged: () => void;
+}
+
+export function BatchesView({ batches, apps, isLoading, onChanged }: BatchesViewProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const { toast } = useToast();
+
+  const appName = (app_id: string) =>
+    apps.find((a) => a.project_id === app_id)?.app_name || app_id;
+
+  const toggle = (id: string) =>
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const cancelBatch = async (batch: BatchRow) => {
+    try {
+      // Items that are already running finish; everything still waiting is canceled
+      const { error } = await supabase
+        .from("cloud_actions")
+        .update({ status: "canceled" })
+        .eq("batch_id", batch.id)
+        .in("status", ["scheduled", "queued", "pending_approval"])
+        .is("started_at", null);
+      if (error) throw error;
+
+      toast({ title: "Batch canceled", description: "Actions that already started will finish." });
+      onChanged();
+    } catch (e) {
+      toast({ title: "Cancel failed", description: getErrorMessage(e), variant: "destructive" });
+    }
+  };
+
+  const deleteBatch = async (id: string) => {
+    if (!confirm("Are you sure you want to delete this batch? Its actions are kept.")) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from("cloud_action_batches").delete().eq("id", id);
+      if (error) throw error;
+      toast({ title: "Batch deleted successfully" });
+      onChanged();
+    } catch (e) {
+      toast({ title: "Delete failed", description: getErrorMessage(e), variant: "destructive" });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {Array.from({ length: 2 }).map((_, i) => (
+          <Skeleton key={i} className="h-28 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (batches.length === 0) {
+    return (
+      <div className="text-sm text-muted-foreground">
+        No batches yet. Use Bulk Action to run the same action on many environments.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {batches.map((batch) => {
+        const progress = batchProgress(batch.items);
+        const isOpen = expanded.has(batch.id);
+        return (
+          <Card key={batch.id}>
+            <CardHeader className="pb-3">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <CardTitle className="text-base flex items-center gap-2">
+                    {batch.name}
+                    <span className={`px-2 py-1 rounded text-xs font-normal ${statusColor[progress.status] || "bg-muted"}`}>
+                      {progress.status}
+                    </span>
+                  </CardTitle>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    <span className="capitalize">{batch.action_type}</span> • {progress.total} environments •{" "}
+                    {batch.concurrency_limit} at a time • Created {new Date(batch.created_at).toLocaleString()} by{" "}
+                    {batch.creator_name || "Unknown"}
+                    {batch.scheduled_for && ` • Starts ${new Date(batch.scheduled_for).toLocaleString()}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {progress.waiting > 0 && (
+                    <Button variant="outline" size="sm" onClick={() => cancelBatch(batch)}>
+                      Cancel
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => deleteBatch(batch.id)}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Progress value={progress.total ? (progress.done / progress.total) * 100 : 0} />
+              <div className="flex flex-wrap items-center gap-3 text-xs">
+                <span className={`px-2 py-1 rounded ${statusColor.succeeded}`}>{progress.succeeded} succeeded</span>
+                <span className={`px-2 py-1 rounded ${statusColor.failed}`}>{progress.failed} failed</span>
+                <span className={`px-2 py-1 rounded ${statusColor.running}`}>{progress.running} running</span>
+                <span className={`px-2 py-1 rounded ${statusColor.scheduled}`}>{progress.waiting} waiting</span>
+                {progress.canceled > 0 && (
+                  <span className={`px-2 py-1 rounded ${statusColor.canceled}`}>
+                    {progress.canceled} canceled
+                  </span>
+                )}
+                <Button variant="ghost" size="sm" className="ml-auto" onClick={() => toggle(batch.id)}>
+                  {isOpen ? <ChevronDown className="mr-1 h-4 w-4" /> : <ChevronRight className="mr-1 h-4 w-4" />}
+                  {isOpen ? "Hide items" : "Show items"}
+                </Button>
+              </div>
+              {isOpen && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>App</TableHead>
+                      <TableHead>Environment</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Started</TableHead>
+                      <TableHead>Completed</TableHead>
+                      <TableHead className="text-right">Logs</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {batch.items.map((item) => (
+                      <TableRow key={item.id}>
+                        <TableCell>{appName(item.app_id)}</TableCell>
+                        <TableCell>{item.environment_name}</TableCell>
+                        <TableCell>
+                          <span className={`px-2 py-1 rounded text-xs ${statusColor[item.status] || "bg-muted"}`}>
+                            {item.status}
+                          </span>
+                          {item.error_message && (
+                            <div className="text-xs text-destructive mt-1">{item.error_message}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>{item.started_at ? new Date(item.started_at).toLocaleString() : "—"}</TableCell>
+                        <TableCell>{item.completed_at ? new Date(item.completed_at).toLocaleString() : "—"}</TableCell>
+                        <TableCell className="text-right">
+                          <CloudActionLogsDialog actionId={item.id} />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,426 @@
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Layers, Loader2 } from "lucide-react";
+import {
+  ENVIRONMENT_TYPES,
+  environmentType,
+  matchesNamePattern,
+  type EnvironmentType,
+} from "@/lib/cloudActionBatches";
+import type { Credential } from "@/types/cloudActions";
+import { getErrorMessage } from "@/lib/utils";
+
+interface BulkCloudActionDialogProps {
+  onCreated: () => void;
+}
+
+interface TargetRow {
+  credential_id: string;
+  app_id: string;
+  app_name: string;
+  environment_name: string;
+}
+
+const ALL = "__all__";
+const BULK_ACTION_TYPES = ["stop", "start", "restart"] as const;
+type BulkActionType = (typeof BULK_ACTION_TYPES)[number];
+
+const targetKey = (t: Pick<TargetRow, "app_id" | "environment_name">) => `${t.app_id}::${t.environment_name}`;
+
+export function BulkCloudActionDialog({ onCreated }: BulkCloudActionDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const [credentials, setCredentials] = useState<Credential[]>([]);
+  const [targets, setTargets] = useState<TargetRow[]>([]);
+
+  const [actionType, setActionType] = useState<BulkActionType>("stop");
+  const [credentialFilter, setCredentialFilter] = useState(ALL);
+  const [typeFilter, setTypeFilter] = useState<EnvironmentType[]>(["sandbox"]);
+  const [namePattern, setNamePattern] = useState("");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [name, setName] = useState("");
+  const [concurrencyLimit, setConcurrencyLimit] = useState(3);
+  const [runWhen, setRunWhen] = useState<"now" | "schedule">("now");
+  const [scheduledFor, setScheduledFor] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    (async () => {
+      setIsLoading(true);
+      const [credsResult, appsResult, envsResult] = await Promise.all([
+        supabase.from("mendix_credentials").select("id, name").order("created_at", { ascending: true }),
+        supabase.from("mendix_apps").select("project_id, app_name, credential_id"),
+        supabase.from("mendix_environments").select("app_id, environment_name, credential_id"),
+      ]);
+
+      const appNames = new Map<string, string>();
+      for (const app of appsResult.data || []) {
+        if (app.project_id) appNames.set(app.project_id, app.app_name);
+      }
+
+      // The same app can be linked through several credentials; one action per environment is enough
+      const unique = new Map<string, TargetRow>();
+      for (const env of envsResult.data || []) {
+        const row = {
+          credential_id: env.credential_id,
+          app_id: env.app_id,
+          app_name: appNames.get(env.app_id) || env.app_id,
+          environment_name: env.environment_name,
+        };
+        if (!unique.has(targetKey(row))) unique.set(targetKey(row), row);
+      }
+
+      setCredentials((credsResult.data || []) as Credential[]);
+      setTargets(
+        [...unique.values()].sort(
+          (a, b) => a.app_name.localeCompare(b.app_name) || a.environment_name.localeCompare(b.environment_name)
+        )
+      );
+      setIsLoading(false);
+    })();
+  }, [open]);
+
+  const filteredTargets = useMemo(
+    () =>
+      targets.filter(
+        (t) =>
+          (credentialFilter === ALL || t.credential_id === credentialFilter) &&
+          typeFilter.includes(environmentType(t.environment_name)) &&
+          (matchesNamePattern(t.app_name, namePattern) || matchesNamePattern(t.environment_name, namePattern))
+      ),
+    [targets, credentialFilter, typeFilter, namePattern]
+  );
+
+  // Filters narrow the list; only targets that are both visible and ticked end up in the batch
+  const selectedTargets = filteredTargets.filter((t) => selected.has(targetKey(t)));
+
+  const setAllVisible = (checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      for (const t of filteredTargets) {
+        if (checked) next.add(targetKey(t));
+        else next.delete(targetKey(t));
+      }
+      return next;
+    });
+  };
+
+  const resetForm = () => {
+    setActionType("stop");
+    setCredentialFilter(ALL);
+    setTypeFilter(["sandbox"]);
+    setNamePattern("");
+    setSelected(new Set());
+    setName("");
+    setConcurrencyLimit(3);
+    setRunWhen("now");
+    setScheduledFor("");
+  };
+
+  const onSubmit = async () => {
+    if (selectedTargets.length === 0) {
+      toast({ title: "Nothing selected", description: "Select at least one environment.", variant: "destructive" });
+      return;
+    }
+    if (!concurrencyLimit || concurrencyLimit < 1) {
+      toast({ title: "Invalid concurrency", description: "Run at least one action at a time.", variant: "destructive" });
+      return;
+    }
+    if (runWhen === "schedule" && (!scheduledFor || new Date(scheduledFor) <= new Date())) {
+      toast({ title: "Invalid schedule", description: "Pick a time in the future.", variant: "destructive" });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const {
+        data: { user },
+        error: userError,
+      } = await supabase.auth.getUser();
+      if (userError || !user) {
+        throw new Error("Authentication required");
+      }
+
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("full_name")
+        .eq("user_id", user.id)
+        .single();
+      const creatorName = profile?.full_name || user.email || null;
+      const scheduledAt = runWhen === "schedule" ? new Date(scheduledFor).toISOString() : null;
+      const batchName =
+        name.trim() || `${actionType.charAt(0).toUpperCase()}${actionType.slice(1)} ${selectedTargets.length} environments`;
+
+      const { data: batch, error: batchError } = await supabase
+        .from("cloud_action_batches")
+        .insert({
+          user_id: user.id,
+          name: batchName,
+          action_type: actionType,
+          concurrency_limit: concurrencyLimit,
+          filters: {
+            credentialId: credentialFilter === ALL ? null : credentialFilter,
+            environmentTypes: typeFilter,
+            namePattern: namePattern.trim() || null,
+          },
+          scheduled_for: scheduledAt,
+          creator_name: creatorName,
+        })
+        .select("id")
+        .single();
+      if (batchError) throw batchError;
+
+      const { data: created, error: insertError } = await supabase
+        .from("cloud_actions")
+        .insert(
+          selectedTargets.map((t) => ({
+            user_id: user.id,
+            credential_id: t.credential_id,
+            app_id: t.app_id,
+            environment_name: t.environment_name,
+            action_type: actionType,
+            status: "scheduled",
+            scheduled_for: scheduledAt,
+            payload: { actionType, appId: t.app_id, environmentName: t.environment_name },
+            creator_name: creatorName,
+            batch_id: batch.id,
+          }))
+        )
+        .select("status");
+      if (insertError) {
+        await supabase.from("cloud_action_batches").delete().eq("id", batch.id);
+        throw insertError;
+      }
+
+      const awaitingApproval = (created || []).filter((a) => a.status === "pending_approval").length;
+      toast({
+        title: "Batch created",
+        description:
+          `${batchName} • ${selectedTargets.length} actions, ${concurrencyLimit} at a time` +
+          (awaitingApproval > 0 ? ` • ${awaitingApproval} awaiting approval` : ""),
+      });
+
+      resetForm();
+      setOpen(false);
+      onCreated();
+    } catch (error) {
+      console.error("Failed to create batch:", error);
+      toast({
+        title: "Failed to create batch",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const allVisibleSelected = filteredTargets.length > 0 && selectedTargets.length === filteredTargets.length;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Layers className="mr-2 h-4 w-4" /> Bulk Action
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" /> New Bulk Action
+          </DialogTitle>
+          <DialogDescription>
+            Run the same action on many environments. The actions share a batch and only a limited number run at
+            the same time.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Action</Label>
+              <Select value={actionType} onValueChange={(v) => setActionType(v as BulkActionType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BULK_ACTION_TYPES.map((type) => (
+                    <SelectItem key={type} value={type} className="capitalize">
+                      {type}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Credential</Label>
+              <Select value={credentialFilter} onValueChange={setCredentialFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All credentials</SelectItem>
+                  {credentials.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>
+                      {c.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Name pattern</Label>
+              <Input
+                value={namePattern}
+                onChange={(e) => setNamePattern(e.target.value)}
+                placeholder="e.g. crm-* or sandbox"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Environment types</Label>
+            <div className="flex flex-wrap gap-4">
+              {ENVIRONMENT_TYPES.map((type) => (
+                <label key={type} className="flex items-center gap-2 text-sm capitalize">
+                  <Checkbox
+                    checked={typeFilter.includes(type)}
+                    onCheckedChange={(checked) =>
+                      setTypeFilter((prev) => (checked ? [...prev, type] : prev.filter((t) => t !== type)))
+                    }
+                  />
+                  {type}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>
+                Environments ({selectedTargets.length} of {filteredTargets.length} selected)
+              </Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setAllVisible(!allVisibleSelected)}
+                disabled={filteredTargets.length === 0}
+              >
+                {allVisibleSelected ? "Select none" : "Select all"}
+              </Button>
+            </div>
+            <ScrollArea className="h-56 rounded-md border border-border">
+              <div className="p-2 space-y-1">
+                {isLoading && (
+                  <div className="flex items-center gap-2 p-2 text-sm text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" /> Loading environments...
+                  </div>
+                )}
+                {!isLoading && filteredTargets.length === 0 && (
+                  <div className="p-2 text-sm text-muted-foreground">No environments match the filters.</div>
+                )}
+                {filteredTargets.map((t) => (
+                  <label
+                    key={targetKey(t)}
+                    className="flex items-center gap-3 rounded px-2 py-1 text-sm hover:bg-muted/50"
+                  >
+                    <Checkbox
+                      checked={selected.has(targetKey(t))}
+                      onCheckedChange={(checked) =>
+                        setSelected((prev) => {
+                          const next = new Set(prev);
+                          if (checked) next.add(targetKey(t));
+                          else next.delete(targetKey(t));
+                          return next;
+                        })
+                      }
+                    />
+                    <span className="flex-1">{t.app_name}</span>
+                    <span className="text-muted-foreground">{t.environment_name}</span>
+                    <span className="w-24 text-right text-xs capitalize text-muted-foreground">
+                      {environmentType(t.environment_name)}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Batch name</Label>
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Stop sandboxes for the holidays"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Run at most (at a time)</Label>
+              <Input
+                type="number"
+                min={1}
+                value={concurrencyLimit}
+                onChange={(e) => setConcurrencyLimit(parseInt(e.target.value, 10) || 0)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <RadioGroup
+              value={runWhen}
+              onValueChange={(v) => setRunWhen(v as "now" | "schedule")}
+              className="flex gap-6"
+            >
+              <label className="flex items-center gap-2 text-sm">
+                <RadioGroupItem value="now" /> Start with the next orchestrator cycle
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <RadioGroupItem value="schedule" /> Schedule
+              </label>
+            </RadioGroup>
+            {runWhen === "schedule" && (
+              <Input
+                type="datetime-local"
+                value={scheduledFor}
+                onChange={(e) => setScheduledFor(e.target.value)}
+                className="max-w-xs"
+              />
+            )}
+          </div>
+
+          <Button type="button" className="w-full" onClick={onSubmit} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Create {selectedTargets.length || ""} {selectedTargets.length === 1 ? "action" : "actions"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
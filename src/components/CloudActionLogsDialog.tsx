@@ -10,6 +10,8 @@ import {
   DialogDescription,
 } from "@/components/ui/dialog";
 import { ScrollText } from "lucide-react";
+import { CloudActionStepTimeline } from "@/components/CloudActionStepTimeline";
+import type { StepRunRow } from "@/types/cloudActions";
 
 interface CloudActionLogsDialogProps {
   actionId: string;
@@ -18,16 +20,25 @@ interface CloudActionLogsDialogProps {
 export function CloudActionLogsDialog({ actionId }: CloudActionLogsDialogProps) {
   const [open, setOpen] = useState(false);
   const [logs, setLogs] = useState<{ created_at: string; level: string; message: string }[]>([]);
+  const [stepRuns, setStepRuns] = useState<StepRunRow[]>([]);
 
   useEffect(() => {
     if (!open) return;
     const load = async () => {
-      const { data } = await supabase
-        .from("cloud_action_logs")
-        .select("created_at, level, message")
-        .eq("action_id", actionId)
-        .order("created_at", { ascending: true });
+      const [{ data }, { data: runs }] = await Promise.all([
+        supabase
+          .from("cloud_action_logs")
+          .select("created_at, level, message")
+          .eq("action_id", actionId)
+          .order("created_at", { ascending: true }),
+        supabase
+          .from("cloud_action_step_runs")
+          .select("id, action_id, step, attempt, started_at, ended_at, outcome, error_message")
+          .eq("action_id", actionId)
+          .order("started_at", { ascending: true }),
+      ]);
       setLogs((data || []) as any);
+      setStepRuns((runs || []) as StepRunRow[]);
     };
     load();
   }, [open, actionId]);
@@ -39,14 +50,18 @@ export function CloudActionLogsDialog({ actionId }: CloudActionLogsDialogProps)
           <ScrollText className="mr-2 h-4 w-4" /> Logs
         </Button>
       </DialogTrigger>
-      <DialogContent className="sm:max-w-2xl">
+      <DialogContent className="sm:max-w-3xl">
         <DialogHeader>
           <DialogTitle>Execution logs</DialogTitle>
           <DialogDescription>
-            Live and historical logs for the selected action.
+            Step timeline and logs for the selected action.
           </DialogDescription>
         </DialogHeader>
-        <div className="max-h-[60vh] overflow-auto space-y-2 pr-1">
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Timeline</h4>
+          <CloudActionStepTimeline runs={stepRuns} />
+        </div>
+        <div className="max-h-[45vh] overflow-auto space-y-2 pr-1 border-t pt-3">
           {logs.length === 0 && (
             <div className="text-sm text-muted-foreground">No logs yet</div>
           )}
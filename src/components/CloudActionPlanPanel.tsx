@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, CheckCircle2, ClipboardList, Loader2, XCircle } from "lucide-react";
+import { planCloudAction } from "@/lib/cloudActionPlan";
+import type { CloudActionPlan, PlanCheckStatus, PlanRequest } from "@/lib/cloudActionPlan";
+import { stepLabel } from "@/lib/cloudActionSteps";
+import { getErrorMessage } from "@/lib/utils";
+
+interface CloudActionPlanPanelProps {
+  // Returns null when the form is not valid yet
+  getRequest: () => Promise<PlanRequest | null>;
+}
+
+const checkIcon: Record<PlanCheckStatus, JSX.Element> = {
+  ok: <CheckCircle2 className="h-4 w-4 shrink-0 text-green-600" />,
+  warning: <AlertTriangle className="h-4 w-4 shrink-0 text-amber-500" />,
+  blocker: <XCircle className="h-4 w-4 shrink-0 text-destructive" />,
+};
+
+export function CloudActionPlanPanel({ getRequest }: CloudActionPlanPanelProps) {
+  const [plan, setPlan] = useState<CloudActionPlan | null>(null);
+  const [planning, setPlanning] = useState(false);
+  const [planError, setPlanError] = useState<string | null>(null);
+
+  const runPlan = async () => {
+    const request = await getRequest();
+    if (!request) return;
+    setPlanning(true);
+    setPlanError(null);
+    try {
+      setPlan(await planCloudAction(request));
+    } catch (e) {
+      setPlan(null);
+      setPlanError(getErrorMessage(e));
+    } finally {
+      setPlanning(false);
+    }
+  };
+
+  const blockers = plan?.checks.filter((c) => c.status === "blocker").length || 0;
+
+  return (
+    <div className="space-y-3">
+      <Button type="button" variant="outline" className="w-full" onClick={runPlan} disabled={planning}>
+        {planning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ClipboardList className="mr-2 h-4 w-4" />}
+        Plan (dry run)
+      </Button>
+
+      {planError && <p className="text-sm text-destructive">{planError}</p>}
+
+      {plan && (
+        <div className="rounded-md border p-3 space-y-3 text-sm">
+          <p className={plan.canRun ? "font-medium text-green-700" : "font-medium text-destructive"}>
+            {plan.canRun
+              ? "Nothing blocks this action."
+              : `${blockers} blocker${blockers === 1 ? "" : "s"} would stop this action.`}
+          </p>
+
+          <ul className="space-y-1">
+            {plan.checks.map((check, i) => (
+              <li key={`${check.name}-${i}`} className="flex items-start gap-2">
+                {checkIcon[check.status]}
+                <span>
+                  <span className="font-medium">{check.name}:</span> {check.message}
+                </span>
+              </li>
+            ))}
+          </ul>
+
+          <div>
+            <p className="font-medium mb-1">Steps</p>
+            <ol className="list-decimal pl-5 space-y-0.5 text-xs">
+              {plan.steps.map((s, i) => (
+                <li key={`${s.step}-${i}`}>
+                  {stepLabel(s.step)}
+                  {s.note && <span className="text-muted-foreground"> — {s.note}</span>}
+                </li>
+              ))}
+            </ol>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
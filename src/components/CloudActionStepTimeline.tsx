@@ -0,0 +1,52 @@
+import { formatDuration, stepLabel, timelineBars } from "@/lib/cloudActionSteps";
+import type { StepRunOutcome, StepRunRow } from "@/types/cloudActions";
+
+const barColor: Record<StepRunOutcome, string> = {
+  running: "bg-yellow-400 animate-pulse",
+  succeeded: "bg-green-500",
+  failed: "bg-red-500",
+  retried: "bg-amber-500",
+  canceled: "bg-gray-400",
+};
+
+interface CloudActionStepTimelineProps {
+  runs: StepRunRow[];
+}
+
+export function CloudActionStepTimeline({ runs }: CloudActionStepTimelineProps) {
+  const { bars, totalSeconds } = timelineBars(runs);
+
+  if (bars.length === 0) {
+    return <div className="text-sm text-muted-foreground">No steps recorded yet</div>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {bars.map(({ run, durationSeconds, offset, width }) => (
+        <div key={run.id} className="grid grid-cols-[12rem_1fr_4.5rem] items-center gap-2 text-xs">
+          <div className="truncate" title={run.step}>
+            {stepLabel(run.step)}
+            {run.attempt > 1 && <span className="text-muted-foreground"> (attempt {run.attempt})</span>}
+          </div>
+          <div className="relative h-4 rounded bg-muted">
+            <div
+              className={`absolute top-0 h-4 rounded ${barColor[run.outcome] || "bg-muted-foreground"}`}
+              style={{ left: `${offset}%`, width: `${Math.min(width, 100 - offset)}%` }}
+              title={
+                `${run.outcome} • ${new Date(run.started_at).toLocaleString()}` +
+                (run.error_message ? ` • ${run.error_message}` : "")
+              }
+            />
+          </div>
+          <div className="text-right tabular-nums text-muted-foreground">
+            {run.outcome === "running" ? "running" : formatDuration(durationSeconds)}
+          </div>
+        </div>
+      ))}
+      <div className="flex justify-between pt-1 text-xs text-muted-foreground">
+        <span>{new Date(runs[0].started_at).toLocaleString()}</span>
+        <span>Total {formatDuration(totalSeconds)}</span>
+      </div>
+    </div>
+  );
+}
@@ -13,12 +13,28 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Calendar } from "@/components/ui/calendar";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { Edit, Loader2, CalendarClock, CloudCog } from "lucide-react";
 import { format, parse, startOfToday, isSameDay } from "date-fns";
 import { cn } from "@/lib/utils";
 
-import type { CloudActionRow, Credential, App, Env } from "@/types/cloudActions";
+import type { CloudActionRow, Credential, App, Env, PackageRow } from "@/types/cloudActions";
+import { RetryPolicyFields } from "@/components/RetryPolicyFields";
+import { retryPolicySchema, toStoredRetryPolicy, withRetryDefaults } from "@/lib/cloudActionRetry";
+import { EnvironmentSettingsEditor } from "@/components/EnvironmentSettingsEditor";
+import { CloudActionPlanPanel } from "@/components/CloudActionPlanPanel";
+import { BUILD_ENVIRONMENT_NAME } from "@/lib/cloudActionSteps";
+import type { PlanRequest } from "@/lib/cloudActionPlan";
+import {
+  desiredSettingsCount,
+  desiredSettingsSchema,
+  fromConfigurePayload,
+  toConfigurePayload,
+} from "@/lib/environmentSettings";
+
+// Select value for transporting whatever runs on the source environment
+const SOURCE_PACKAGE = "__source__";
 
 interface EditCloudActionDialogProps {
   action: CloudActionRow;
@@ -32,20 +48,22 @@ export const EditCloudActionDialog: React.FC<EditCloudActionDialogProps> = ({ ac
   const [environments, setEnvironments] = useState<Env[]>([]);
   const [branches, setBranches] = useState<string[]>([]);
   const [revisions, setRevisions] = useState<{ id: string; message: string }[]>([]);
-  const [packages, setPackages] = useState<any[]>([]);
+  const [packages, setPackages] = useState<PackageRow[]>([]);
   const [loadingBranches, setLoadingBranches] = useState(false);
   const [loadingRevisions, setLoadingRevisions] = useState(false);
   const [loadingPackages, setLoadingPackages] = useState(false);
   const [submitting, setSubmitting] = useState(false);
   const { toast } = useToast();
 
-  const ActionType = z.enum(["start", "stop", "restart", "transport", "deploy"]);
+  const ActionType = z.enum(["start", "stop", "restart", "transport", "deploy", "configure", "scale", "build"]);
   const formSchema = z
     .object({
       credential_id: z.string().min(1, "Please select credentials"),
       app_id: z.string().min(1, "Please select an app"),
-      environment_name: z.string().min(1, "Please select an environment"),
+      environment_name: z.string(),
       targetEnvironmentName: z.string().optional(),
+      // Transport of a built package instead of the one on the source environment
+      packageId: z.string().optional(),
       action_type: ActionType,
       runWhen: z.enum(["now", "schedule"]).default("now"),
       scheduledDate: z.date().optional(),
@@ -61,6 +79,14 @@ export const EditCloudActionDialog: React.FC<EditCloudActionDialogProps> = ({ ac
       versionPatch: z.number().min(0).optional(),
       description: z.string().optional(),
       comment: z.string().optional(),
+      rollbackOnFailure: z.boolean().default(false),
+      restoreBackupOnRollback: z.boolean().default(false),
+      lockPolicy: z.enum(["queue", "reject", "supersede"]).default("queue"),
+      retryPolicy: retryPolicySchema,
+      settings: desiredSettingsSchema,
+      restartAfterConfigure: z.boolean().default(true),
+      instances: z.number().int().min(1, "At least 1 instance").optional(),
+      memoryPerInstance: z.number().int().min(1, "Memory is required").optional(),
     })
     .superRefine((val, ctx) => {
       if (val.runWhen === "schedule") {
@@ -99,10 +125,22 @@ export const EditCloudActionDialog: React.FC<EditCloudActionDialogProps> = ({ ac
         }
       }
       
+      if (!val.environment_name && val.action_type !== "build" && !(val.action_type === "transport" && val.packageId)) {
+        ctx.addIssue({ code: "custom", message: "Please select an environment", path: ["environment_name"] });
+      }
       if (val.action_type === "transport" && !val.targetEnvironmentName) {
         ctx.addIssue({ code: "custom", message: "Target environment required", path: ["targetEnvironmentName"] });
       }
-      if (val.action_type === "deploy") {
+      if (val.action_type === "scale") {
+        if (!val.instances)
+          ctx.addIssue({ code: "custom", message: "Instance count is required", path: ["instances"] });
+        if (!val.memoryPerInstance)
+          ctx.addIssue({ code: "custom", message: "Memory is required", path: ["memoryPerInstance"] });
+      }
+      if (val.action_type === "configure" && desiredSettingsCount(val.settings) === 0) {
+        ctx.addIssue({ code: "custom", message: "Change at least one setting", path: ["settings"] });
+      }
+      if (val.action_type === "deploy" || val.action_type === "build") {
         if (!val.branchName) ctx.addIssue({ code: "custom", message: "Branch is required", path: ["branchName"] });
         if (!val.revisionId) ctx.addIssue({ code: "custom", message: "Revision is required", path: ["revisionId"] });
       }
@@ -142,8 +180,14 @@ export const EditCloudActionDialog: React.FC<EditCloudActionDialogProps> = ({ ac
     defaultValues: {
       credential_id: action.credential_id,
       app_id: action.app_id,
-      environment_name: action.action_type === "transport" ? action.payload?.sourceEnvironmentName || action.environment_name : action.environment_name,
+      environment_name:
+        action.action_type === "transport"
+          ? action.payload?.sourceEnvironmentName || (action.payload?.packageId ? "" : action.environment_name)
+          : action.action_type === "build"
+            ? ""
+            : action.environment_name,
       targetEnvironmentName: action.action_type === "transport" ? action.environment_name : "",
+      packageId: action.payload?.packageId || "",
       action_type: action.action_type as any,
       runWhen: action.scheduled_for ? "schedule" : "now",
       scheduledDate: scheduledLocal.date,
@@ -159,6 +203,14 @@ export const EditCloudActionDialog: React.FC<EditCloudActionDialogProps> = ({ ac
       versionPatch: parsedVersion.patch ?? 0,
       description: action.payload?.description || "Pintosoft deployment",
       comment: action.payload?.comment || "",
+      rollbackOnFailure: !!action.payload?.rollbackOnFailure,
+      restoreBackupOnRollback: !!action.payload?.restoreBackupOnRollback,
+      lockPolicy: action.lock_policy || "queue",
+      retryPolicy: withRetryDefaults(action.retry_policy),
+      settings: fromConfigurePayload(action.payload),
+      restartAfterConfigure: action.payload?.restartAfter ?? true,
+      instances: action.payload?.instances ?? 1,
+      memoryPerInstance: action.payload?.memoryPerInstance ?? 1024,
     },
   });
 
@@ -170,6 +222,8 @@ export const EditCloudActionDialog: React.FC<EditCloudActionDialogProps> = ({ ac
   const scheduledTime = form.watch("scheduledTime");
   const retryUntilDate = form.watch("retryUntilDate");
   const branchName = form.watch("branchName");
+  const rollbackOnFailure = form.watch("rollbackOnFailure");
+  const packageId = form.watch("packageId");
 
   const minTime = useMemo(() => {
     if (!scheduledDate) return undefined;
@@ -251,13 +305,13 @@ export const EditCloudActionDialog: React.FC<EditCloudActionDialogProps> = ({ ac
   };
 
   useEffect(() => {
-    if (open && credential_id && app_id && action_type === "deploy") {
+    if (open && credential_id && app_id && (action_type === "deploy" || action_type === "build")) {
       loadBranches(credential_id, app_id);
     }
   }, [open, credential_id, app_id, action_type]);
 
   useEffect(() => {
-    if (open && credential_id && app_id && branchName && action_type === "deploy") {
+    if (open && credential_id && app_id && branchName && (action_type === "deploy" || action_type === "build")) {
       loadRevisions(credential_id, app_id, branchName);
     }
   }, [open, credential_id, app_id, branchName, action_type]);
@@ -323,13 +377,14 @@ export const EditCloudActionDialog: React.FC<EditCloudActionDialogProps> = ({ ac
       const { data, error } = await supabase.functions.invoke("get-mendix-packages", {
         body: { 
           credentialId: credentialId,
-          appId: appId,
-          branchName: "trunk"
+          appId: appId
         }
       });
       
       if (error) throw error;
-      setPackages(data?.packages || []);
+      // Only packages made by deploy and build actions can be picked for a transport
+      const details = (data?.details || []) as PackageRow[];
+      setPackages(details.filter((p) => p.builtByDashboard && p.packageId && p.status === "Succeeded"));
     } catch (error) {
       console.error("Error loading packages:", error);
       toast({
@@ -342,6 +397,87 @@ export const EditCloudActionDialog: React.FC<EditCloudActionDialogProps> = ({ ac
     }
   };
 
+  // Action-specific payload
+  const buildPayload = (values: FormValues) => {
+    const payload: any = {
+      actionType: values.action_type,
+      appId: values.app_id,
+      environmentName: values.action_type === "transport" ? values.targetEnvironmentName : values.environment_name,
+    };
+
+    if (values.action_type === "transport") {
+      if (values.packageId) {
+        const built = packages.find((p) => p.packageId === values.packageId);
+        payload.packageId = values.packageId;
+        payload.packageName = built?.name || action.payload?.packageName;
+        payload.version = built?.version || action.payload?.version;
+      } else {
+        payload.sourceEnvironmentName = values.environment_name;
+      }
+      payload.comment = values.comment;
+      if (values.package_id) {
+        payload.package_id = values.package_id;
+      }
+    }
+
+    if (values.action_type === "build") {
+      payload.environmentName = BUILD_ENVIRONMENT_NAME;
+    }
+
+    if (values.action_type === "deploy" || values.action_type === "build") {
+      payload.branchName = values.branchName;
+      payload.revisionId = values.revisionId;
+      if (values.versionMajor !== undefined || values.versionMinor !== undefined || values.versionPatch !== undefined) {
+        const major = values.versionMajor || 0;
+        const minor = values.versionMinor || 0;
+        const patch = values.versionPatch || 0;
+        payload.version = `${major}.${minor}.${patch}`;
+      }
+      payload.description = values.description;
+      payload.comment = values.comment;
+      const selectedRevision = revisions.find(r => r.id === values.revisionId);
+      if (selectedRevision) {
+        payload.revisionMessage = selectedRevision.message;
+      }
+    }
+
+    if (values.action_type === "scale") {
+      payload.instances = values.instances;
+      payload.memoryPerInstance = values.memoryPerInstance;
+    }
+
+    if (values.action_type === "configure") {
+      Object.assign(payload, toConfigurePayload(values.settings));
+      payload.restartAfter = values.restartAfterConfigure;
+    }
+
+    if ((values.action_type === "deploy" || values.action_type === "transport") && values.rollbackOnFailure) {
+      payload.rollbackOnFailure = true;
+      payload.restoreBackupOnRollback = values.restoreBackupOnRollback;
+    }
+
+    return payload;
+  };
+
+  const getPlanRequest = async (): Promise<PlanRequest | null> => {
+    if (!(await form.trigger())) return null;
+    const values = form.getValues();
+    const payload = buildPayload(values);
+    const scheduledFor =
+      values.runWhen === "schedule" && values.scheduledDate && values.scheduledTime
+        ? parse(values.scheduledTime, "HH:mm", values.scheduledDate).toISOString()
+        : null;
+    return {
+      actionId: action.id,
+      credentialId: values.credential_id,
+      appId: values.app_id,
+      environmentName: payload.environmentName,
+      actionType: values.action_type,
+      payload,
+      scheduledFor,
+    };
+  };
+
   const onSubmit = async (values: FormValues) => {
     setSubmitting(true);
     try {
@@ -359,47 +495,20 @@ export const EditCloudActionDialog: React.FC<EditCloudActionDialogProps> = ({ ac
         retryUntil = retryUntilDateTime.toISOString();
       }
 
-      // Create action-specific payload
-      const payload: any = {
-        actionType: values.action_type,
-        appId: values.app_id,
-        environmentName: values.action_type === "transport" ? values.targetEnvironmentName : values.environment_name,
-      };
-
-      if (values.action_type === "transport") {
-        payload.sourceEnvironmentName = values.environment_name;
-        payload.comment = values.comment;
-        if (values.package_id) {
-          payload.package_id = values.package_id;
-        }
-      }
-
-      if (values.action_type === "deploy") {
-        payload.branchName = values.branchName;
-        payload.revisionId = values.revisionId;
-        if (values.versionMajor !== undefined || values.versionMinor !== undefined || values.versionPatch !== undefined) {
-          const major = values.versionMajor || 0;
-          const minor = values.versionMinor || 0;
-          const patch = values.versionPatch || 0;
-          payload.version = `${major}.${minor}.${patch}`;
-        }
-        payload.description = values.description;
-        payload.comment = values.comment;
-        const selectedRevision = revisions.find(r => r.id === values.revisionId);
-        if (selectedRevision) {
-          payload.revisionMessage = selectedRevision.message;
-        }
-      }
+      const payload = buildPayload(values);
 
       const updateData: any = {
         credential_id: values.credential_id,
         app_id: values.app_id,
-        environment_name: values.action_type === "transport" ? values.targetEnvironmentName : values.environment_name,
+        environment_name: payload.environmentName,
         action_type: values.action_type,
         payload: payload,
         status: "scheduled",
         scheduled_for: scheduledFor,
         retry_until: retryUntil,
+        lock_policy: values.lockPolicy,
+        retry_policy: toStoredRetryPolicy(values.retryPolicy),
+        queued_reason: null,
       };
 
       const { error } = await supabase
@@ -608,6 +717,9 @@ export const EditCloudActionDialog: React.FC<EditCloudActionDialogProps> = ({ ac
                           <SelectItem value="restart">Restart</SelectItem>
                           <SelectItem value="deploy">Deploy</SelectItem>
                           <SelectItem value="transport">Transport</SelectItem>
+                          <SelectItem value="configure">Configure</SelectItem>
+                          <SelectItem value="scale">Scale</SelectItem>
+                          <SelectItem value="build">Build package</SelectItem>
                         </SelectContent>
                       </Select>
                       <FormMessage />
@@ -615,38 +727,124 @@ export const EditCloudActionDialog: React.FC<EditCloudActionDialogProps> = ({ ac
                   )}
                 />
 
-                <FormField
-                  control={form.control}
-                  name="environment_name"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>
-                        {action_type === "transport" ? "Source Environment" : "Environment"}
-                      </FormLabel>
-                      <Select
-                        value={field.value}
-                        onValueChange={field.onChange}
-                        disabled={!app_id}
-                      >
-                        <FormControl>
-                          <SelectTrigger>
-                            <SelectValue placeholder={app_id ? "Select environment" : "Select app first"} />
-                          </SelectTrigger>
-                        </FormControl>
-                        <SelectContent>
-                          {filteredEnvironments.map((e) => (
-                            <SelectItem key={e.id} value={e.environment_name}>
-                              {e.environment_name}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+                {action_type !== "build" && !(action_type === "transport" && packageId) && (
+                  <FormField
+                    control={form.control}
+                    name="environment_name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>
+                          {action_type === "transport" ? "Source Environment" : "Environment"}
+                        </FormLabel>
+                        <Select
+                          value={field.value}
+                          onValueChange={field.onChange}
+                          disabled={!app_id}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder={app_id ? "Select environment" : "Select app first"} />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {filteredEnvironments.map((e) => (
+                              <SelectItem key={e.id} value={e.environment_name}>
+                                {e.environment_name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                {action_type === "scale" && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="instances"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Instances</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              {...field}
+                              onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                              min="1"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="memoryPerInstance"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Memory per instance (MB)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              {...field}
+                              onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                              min="1"
+                              step="512"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <p className="col-span-2 text-xs text-muted-foreground">
+                      Checked against the memory of the environment's plan before scaling.
+                    </p>
+                  </div>
+                )}
+
+                {action_type === "configure" && (
+                  <>
+                    <FormField
+                      control={form.control}
+                      name="settings"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Constants and scheduled events</FormLabel>
+                          <EnvironmentSettingsEditor
+                            credentialId={credential_id}
+                            appId={app_id}
+                            environmentName={form.watch("environment_name")}
+                            value={field.value}
+                            onChange={field.onChange}
+                          />
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="restartAfterConfigure"
+                      render={({ field }) => (
+                        <FormItem className="flex items-start gap-2 space-y-0">
+                          <FormControl>
+                            <Checkbox checked={field.value} onCheckedChange={(v) => field.onChange(!!v)} />
+                          </FormControl>
+                          <div className="space-y-1 leading-none">
+                            <FormLabel>Restart the environment afterwards</FormLabel>
+                            <p className="text-xs text-muted-foreground">
+                              Changed constants only take effect after a restart.
+                            </p>
+                          </div>
+                        </FormItem>
+                      )}
+                    />
+                  </>
+                )}
 
-                {action_type === "deploy" && (
+                {(action_type === "deploy" || action_type === "build") && (
                   <>
                     <FormField
                       control={form.control}
@@ -773,6 +971,46 @@ export const EditCloudActionDialog: React.FC<EditCloudActionDialogProps> = ({ ac
 
                 {action_type === "transport" && (
                   <>
+                    <FormField
+                      control={form.control}
+                      name="packageId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Package</FormLabel>
+                          <Select
+                            onValueChange={(v) => field.onChange(v === SOURCE_PACKAGE ? "" : v)}
+                            value={field.value || SOURCE_PACKAGE}
+                            disabled={!app_id}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value={SOURCE_PACKAGE}>Package running on the source environment</SelectItem>
+                              {/* Keep the current package selectable while the list loads or after it aged out */}
+                              {action.payload?.packageId && !packages.some((p) => p.packageId === action.payload.packageId) && (
+                                <SelectItem value={action.payload.packageId}>
+                                  {action.payload.packageName || action.payload.packageId}
+                                </SelectItem>
+                              )}
+                              {packages.map((p) => (
+                                <SelectItem key={p.packageId} value={p.packageId as string}>
+                                  {p.name}
+                                  {p.version ? ` (${p.version})` : ""}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {loadingPackages && (
+                            <p className="text-xs text-muted-foreground">Loading packages built by cloud actions...</p>
+                          )}
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
                     <FormField
                       control={form.control}
                       name="targetEnvironmentName"
@@ -814,6 +1052,85 @@ export const EditCloudActionDialog: React.FC<EditCloudActionDialogProps> = ({ ac
                   </>
                 )}
 
+                {(action_type === "deploy" || action_type === "transport") && (
+                  <div className="space-y-3 rounded-md border border-input p-3">
+                    <FormField
+                      control={form.control}
+                      name="rollbackOnFailure"
+                      render={({ field }) => (
+                        <FormItem className="flex items-start gap-2 space-y-0">
+                          <FormControl>
+                            <Checkbox checked={field.value} onCheckedChange={(v) => field.onChange(!!v)} />
+                          </FormControl>
+                          <div className="space-y-1 leading-none">
+                            <FormLabel>Rollback on failure</FormLabel>
+                            <p className="text-xs text-muted-foreground">
+                              If the environment does not come back up on the new package, redeploy the
+                              package that was running before.
+                            </p>
+                          </div>
+                        </FormItem>
+                      )}
+                    />
+                    {rollbackOnFailure && (
+                      <FormField
+                        control={form.control}
+                        name="restoreBackupOnRollback"
+                        render={({ field }) => (
+                          <FormItem className="flex items-start gap-2 space-y-0 pl-6">
+                            <FormControl>
+                              <Checkbox checked={field.value} onCheckedChange={(v) => field.onChange(!!v)} />
+                            </FormControl>
+                            <div className="space-y-1 leading-none">
+                              <FormLabel>Also restore the pre-deploy backup</FormLabel>
+                              <p className="text-xs text-muted-foreground">
+                                Restores the database snapshot taken during this action before starting the
+                                previous package.
+                              </p>
+                            </div>
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                  </div>
+                )}
+
+                <FormField
+                  control={form.control}
+                  name="lockPolicy"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>If the environment is busy</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="queue">Queue until the running action finishes</SelectItem>
+                          <SelectItem value="reject">Fail right away</SelectItem>
+                          <SelectItem value="supersede">Replace other queued actions, then queue</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="retryPolicy"
+                  render={({ field }) => (
+                    <FormItem>
+                      <RetryPolicyFields value={field.value} onChange={field.onChange} actionType={action_type} />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <CloudActionPlanPanel getRequest={getPlanRequest} />
+
                 <Button type="submit" className="w-full" disabled={submitting}>
                   {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                   Update Cloud Action
@@ -832,8 +1149,10 @@ export const EditCloudActionDialog: React.FC<EditCloudActionDialogProps> = ({ ac
                 <h4 className="font-medium mb-2 text-foreground">Preview</h4>
                 <div className="bg-muted/50 p-3 rounded-md space-y-2 text-xs">
                   <div><span className="font-medium">Action:</span> {action_type || "Not selected"}</div>
-                  <div><span className="font-medium">Environment:</span> {form.watch("environment_name") || "Not selected"}</div>
-                  {action_type === "deploy" && (
+                  {action_type !== "build" && (
+                    <div><span className="font-medium">Environment:</span> {form.watch("environment_name") || "Not selected"}</div>
+                  )}
+                  {(action_type === "deploy" || action_type === "build") && (
                     <>
                       <div><span className="font-medium">Branch:</span> {branchName || "Not selected"}</div>
                       <div><span className="font-medium">Revision:</span> {form.watch("revisionId") ? `${form.watch("revisionId")?.slice(0, 8)}...` : "Not selected"}</div>
@@ -841,10 +1160,24 @@ export const EditCloudActionDialog: React.FC<EditCloudActionDialogProps> = ({ ac
                   )}
                   {action_type === "transport" && (
                     <>
-                      <div><span className="font-medium">Source:</span> {form.watch("environment_name") || "Not selected"}</div>
+                      <div>
+                        <span className="font-medium">Source:</span>{" "}
+                        {packageId
+                          ? packages.find((p) => p.packageId === packageId)?.name || action.payload?.packageName || packageId
+                          : form.watch("environment_name") || "Not selected"}
+                      </div>
                       <div><span className="font-medium">Target:</span> {form.watch("targetEnvironmentName") || "Not selected"}</div>
                     </>
                   )}
+                  {action_type === "scale" && (
+                    <div><span className="font-medium">Size:</span> {form.watch("instances")} x {form.watch("memoryPerInstance")} MB</div>
+                  )}
+                  {action_type === "configure" && (
+                    <div><span className="font-medium">Settings:</span> {desiredSettingsCount(form.watch("settings"))} changes{form.watch("restartAfterConfigure") ? ", then restart" : ""}</div>
+                  )}
+                  {(action_type === "deploy" || action_type === "transport") && (
+                    <div><span className="font-medium">Rollback:</span> {rollbackOnFailure ? (form.watch("restoreBackupOnRollback") ? "Previous package + backup" : "Previous package") : "Off"}</div>
+                  )}
                   <div><span className="font-medium">Run:</span> {(() => {
                     if (runWhen === "now") return "Immediately";
                     if (runWhen === "schedule" && scheduledDate && scheduledTime) {
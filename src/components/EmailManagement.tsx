@@ -15,6 +15,8 @@ interface NotificationEmail {
   is_active: boolean;
   log_monitoring_enabled: boolean;
   cloud_action_notifications_enabled: boolean;
+  owasp_notifications_enabled: boolean;
+  vulnerability_notifications_enabled: boolean;
 }
 
 const EmailManagement = () => {
@@ -99,6 +101,8 @@ const EmailManagement = () => {
           is_active: true,
           log_monitoring_enabled: false,
           cloud_action_notifications_enabled: false,
+          owasp_notifications_enabled: false,
+          vulnerability_notifications_enabled: false,
         })
         .select()
         .single();
@@ -191,7 +195,7 @@ const EmailManagement = () => {
       <div>
         <h2 className="text-2xl font-bold mb-2">Email Management</h2>
         <p className="text-muted-foreground">
-          Manage email addresses for receiving notifications about log monitoring and cloud actions.
+          Manage email addresses for receiving notifications about log monitoring, cloud actions, OWASP checks and vulnerability scans.
         </p>
       </div>
 
@@ -321,6 +325,44 @@ const EmailManagement = () => {
                           disabled={saving === email.id || !email.is_active}
                         />
                       </div>
+                      
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <Label htmlFor={`owasp-${email.id}`} className="text-sm font-medium">
+                            OWASP Failure Notifications
+                          </Label>
+                          <p className="text-xs text-muted-foreground">
+                            Receive alerts when OWASP checks fail
+                          </p>
+                        </div>
+                        <Switch
+                          id={`owasp-${email.id}`}
+                          checked={email.owasp_notifications_enabled}
+                          onCheckedChange={(checked) => 
+                            updateEmail(email.id, { owasp_notifications_enabled: checked })
+                          }
+                          disabled={saving === email.id || !email.is_active}
+                        />
+                      </div>
+                      
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <Label htmlFor={`vulnerability-${email.id}`} className="text-sm font-medium">
+                            Vulnerability Notifications
+                          </Label>
+                          <p className="text-xs text-muted-foreground">
+                            Receive alerts when a scan finds new vulnerabilities
+                          </p>
+                        </div>
+                        <Switch
+                          id={`vulnerability-${email.id}`}
+                          checked={email.vulnerability_notifications_enabled}
+                          onCheckedChange={(checked) => 
+                            updateEmail(email.id, { vulnerability_notifications_enabled: checked })
+                          }
+                          disabled={saving === email.id || !email.is_active}
+                        />
+                      </div>
                     </div>
                   </div>
                   
@@ -89,6 +89,8 @@ const DEFAULT_TEMPLATES = {
       <p>{{summary}}</p>
     </div>
     
+    <div>{{release_notes}}</div>
+    
     <p style="margin-bottom: 0; color: #6c757d; font-size: 14px;">
       This notification was sent by your Mendix Monitoring Dashboard.
     </p>
@@ -132,10 +134,205 @@ const DEFAULT_TEMPLATES = {
     </p>
   </div>
 </body>
+</html>`
+  },
+  cloud_action_approval_requested: {
+    template_name: "Cloud Action Approval Requested",
+    subject_template: "🛡️ Approval needed: {{action_type}} - {{app_name}} ({{environment_name}})",
+    html_template: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Approval Requested</title>
+</head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #6f42c1 0%, #5a32a3 100%); color: white; padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+    <h1 style="margin: 0; font-size: 28px;">🛡️ Approval Requested</h1>
+    <p style="margin: 10px 0 0 0; font-size: 16px; opacity: 0.9;">A cloud action on a protected environment is waiting for an admin</p>
+  </div>
+  
+  <div style="background: #f8f9fa; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e9ecef;">
+    <h2 style="color: #6f42c1; margin-top: 0;">Request Details</h2>
+    <p><strong>Application:</strong> {{app_name}}</p>
+    <p><strong>Action:</strong> {{action_type}}</p>
+    <p><strong>Environment:</strong> {{environment_name}}</p>
+    <p><strong>Requested by:</strong> {{requested_by}}</p>
+    <p><strong>Scheduled for:</strong> {{scheduled_for}}</p>
+    
+    <div style="background: white; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #6f42c1;">
+      <h3 style="margin-top: 0; color: #6f42c1;">Summary</h3>
+      <p>{{summary}}</p>
+    </div>
+    
+    <p style="margin-bottom: 0; color: #6c757d; font-size: 14px;">
+      This notification was sent by your Mendix Monitoring Dashboard.
+    </p>
+  </div>
+</body>
+</html>`
+  },
+  cloud_action_approved: {
+    template_name: "Cloud Action Approved",
+    subject_template: "✅ Approved: {{action_type}} - {{app_name}} ({{environment_name}})",
+    html_template: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Action Approved</title>
+</head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #4CAF50 0%, #45a049 100%); color: white; padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+    <h1 style="margin: 0; font-size: 28px;">✅ Action Approved</h1>
+    <p style="margin: 10px 0 0 0; font-size: 16px; opacity: 0.9;">The cloud action will run as scheduled</p>
+  </div>
+  
+  <div style="background: #f8f9fa; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e9ecef;">
+    <h2 style="color: #28a745; margin-top: 0;">Approval Details</h2>
+    <p><strong>Application:</strong> {{app_name}}</p>
+    <p><strong>Action:</strong> {{action_type}}</p>
+    <p><strong>Environment:</strong> {{environment_name}}</p>
+    <p><strong>Requested by:</strong> {{requested_by}}</p>
+    <p><strong>Scheduled for:</strong> {{scheduled_for}}</p>
+    <p><strong>Decided by:</strong> {{decided_by}}</p>
+    <p><strong>Decided at:</strong> {{decided_at}}</p>
+    
+    <div style="background: white; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #28a745;">
+      <h3 style="margin-top: 0; color: #28a745;">Comment</h3>
+      <p>{{approval_comment}}</p>
+    </div>
+    
+    <p style="margin-bottom: 0; color: #6c757d; font-size: 14px;">
+      This notification was sent by your Mendix Monitoring Dashboard.
+    </p>
+  </div>
+</body>
+</html>`
+  },
+  cloud_action_rejected: {
+    template_name: "Cloud Action Rejected",
+    subject_template: "⛔ Rejected: {{action_type}} - {{app_name}} ({{environment_name}})",
+    html_template: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Action Rejected</title>
+</head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #dc3545 0%, #c82333 100%); color: white; padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+    <h1 style="margin: 0; font-size: 28px;">⛔ Action Rejected</h1>
+    <p style="margin: 10px 0 0 0; font-size: 16px; opacity: 0.9;">The cloud action will not run</p>
+  </div>
+  
+  <div style="background: #f8f9fa; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e9ecef;">
+    <h2 style="color: #dc3545; margin-top: 0;">Rejection Details</h2>
+    <p><strong>Application:</strong> {{app_name}}</p>
+    <p><strong>Action:</strong> {{action_type}}</p>
+    <p><strong>Environment:</strong> {{environment_name}}</p>
+    <p><strong>Requested by:</strong> {{requested_by}}</p>
+    <p><strong>Scheduled for:</strong> {{scheduled_for}}</p>
+    <p><strong>Decided by:</strong> {{decided_by}}</p>
+    <p><strong>Decided at:</strong> {{decided_at}}</p>
+    
+    <div style="background: white; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #dc3545;">
+      <h3 style="margin-top: 0; color: #dc3545;">Comment</h3>
+      <p>{{approval_comment}}</p>
+    </div>
+    
+    <p style="margin-bottom: 0; color: #6c757d; font-size: 14px;">
+      This notification was sent by your Mendix Monitoring Dashboard.
+    </p>
+  </div>
+</body>
+</html>`
+  },
+  owasp_failure: {
+    template_name: "OWASP Check Failure",
+    subject_template: "🛡️ OWASP checks failed - {{app_name}} ({{environment_name}})",
+    html_template: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>OWASP Check Failure</title>
+</head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #dc3545 0%, #c82333 100%); color: white; padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+    <h1 style="margin: 0; font-size: 28px;">🛡️ OWASP Checks Failed</h1>
+    <p style="margin: 10px 0 0 0; font-size: 16px; opacity: 0.9;">One or more security checks did not pass</p>
+  </div>
+  
+  <div style="background: #f8f9fa; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e9ecef;">
+    <h2 style="color: #dc3545; margin-top: 0;">Run Details</h2>
+    <p><strong>Application:</strong> {{app_name}}</p>
+    <p><strong>Environment:</strong> {{environment_name}}</p>
+    <p><strong>Failed checks:</strong> {{failed_checks}} of {{total_checks}}</p>
+    <p><strong>Time:</strong> {{timestamp}}</p>
+    
+    <div style="background: white; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #dc3545;">
+      <h3 style="margin-top: 0; color: #dc3545;">Failed Checks</h3>
+      <pre style="white-space: pre-wrap; font-size: 12px; color: #666;">{{failed_steps}}</pre>
+    </div>
+    
+    <p style="margin-bottom: 0; color: #6c757d; font-size: 14px;">
+      This notification was sent by your Mendix Monitoring Dashboard.
+    </p>
+  </div>
+</body>
+</html>`
+  },
+  new_cve: {
+    template_name: "New Vulnerabilities",
+    subject_template: "⚠️ {{new_cve_count}} new vulnerabilities - {{app_name}} ({{environment_name}})",
+    html_template: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>New Vulnerabilities</title>
+</head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #fd7e14 0%, #e8590c 100%); color: white; padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+    <h1 style="margin: 0; font-size: 28px;">⚠️ New Vulnerabilities</h1>
+    <p style="margin: 10px 0 0 0; font-size: 16px; opacity: 0.9;">The latest scan found vulnerabilities that weren't reported before</p>
+  </div>
+  
+  <div style="background: #f8f9fa; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e9ecef;">
+    <h2 style="color: #e8590c; margin-top: 0;">Scan Details</h2>
+    <p><strong>Application:</strong> {{app_name}}</p>
+    <p><strong>Environment:</strong> {{environment_name}}</p>
+    <p><strong>Package version:</strong> {{package_version}}</p>
+    <p><strong>New vulnerabilities:</strong> {{new_cve_count}}</p>
+    <p><strong>Time:</strong> {{timestamp}}</p>
+    
+    <div style="background: white; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #e8590c;">
+      <h3 style="margin-top: 0; color: #e8590c;">Vulnerabilities</h3>
+      <pre style="white-space: pre-wrap; font-size: 12px; color: #666;">{{cve_list}}</pre>
+    </div>
+    
+    <p style="margin-bottom: 0; color: #6c757d; font-size: 14px;">
+      This notification was sent by your Mendix Monitoring Dashboard.
+    </p>
+  </div>
+</body>
 </html>`
   }
 };
 
+// Same shape as the fragment run-cloud-actions-v2 renders for {{release_notes}}
+const SAMPLE_RELEASE_NOTES =
+  "<h3>Release notes (2 commits)</h3>" +
+  "<h4>By story</h4><p style=\"margin: 8px 0 0 0;\"><strong>SHOP-142</strong></p><ul><li>SHOP-142 Add discount codes to checkout</li></ul>" +
+  "<h4>By author</h4><p style=\"margin: 8px 0 0 0;\"><strong>Jane Developer</strong> (2)</p>" +
+  "<ul><li>SHOP-142 Add discount codes to checkout</li><li>Fix rounding in order totals</li></ul>";
+
 export const EmailTemplates = () => {
   const [templates, setTemplates] = useState<EmailTemplate[]>([]);
   const [selectedTemplate, setSelectedTemplate] = useState<EmailTemplate | null>(null);
@@ -198,9 +395,10 @@ export const EmailTemplates = () => {
         return;
       }
 
-      setTemplates(data);
-      if (data.length > 0) {
-        setSelectedTemplate(data[0]);
+      const withMissing = await createMissingTemplates(data);
+      setTemplates(withMissing);
+      if (withMissing.length > 0) {
+        setSelectedTemplate(withMissing[0]);
       }
     } catch (error: any) {
       toast({
@@ -211,6 +409,36 @@ export const EmailTemplates = () => {
     }
   };
 
+  // Templates added in later releases are created alongside existing (possibly customised) ones
+  const createMissingTemplates = async (existing: EmailTemplate[]): Promise<EmailTemplate[]> => {
+    const missing = Object.entries(DEFAULT_TEMPLATES).filter(
+      ([type]) => !existing.some((t) => t.template_type === type)
+    );
+    if (missing.length === 0) return existing;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return existing;
+
+    const { data, error } = await supabase
+      .from('email_templates')
+      .insert(missing.map(([type, template]) => ({
+        user_id: user.id,
+        template_type: type,
+        template_name: template.template_name,
+        subject_template: template.subject_template,
+        html_template: template.html_template,
+        is_default: true,
+      })))
+      .select();
+
+    if (error) {
+      console.error('Error creating missing templates:', error);
+      return existing;
+    }
+
+    return [...existing, ...(data || [])].sort((a, b) => a.template_type.localeCompare(b.template_type));
+  };
+
   const createDefaultTemplates = async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -320,7 +548,19 @@ export const EmailTemplates = () => {
         duration: "5 minutes",
         attempt_count: "1",
         error_message: "Package validation failed: Missing dependency",
-        summary: "Successfully deployed application to test environment"
+        summary: "Successfully deployed application to test environment",
+        release_notes: SAMPLE_RELEASE_NOTES,
+        requested_by: "Jane Developer",
+        scheduled_for: formatDutchDateTime(new Date(Date.now() + 3600000)),
+        decided_by: "Alex Admin",
+        decided_at: formatDutchDateTime(new Date()),
+        approval_comment: "Release notes reviewed, go ahead",
+        failed_checks: "2",
+        total_checks: "14",
+        failed_steps: "A05 JavaScript imports: 3 outdated libraries\nA07 Password policy: minimum length is 6",
+        package_version: "1.4.0.1234",
+        new_cve_count: "1",
+        cve_list: "CVE-2024-12345 (high) commons-text 1.9: Remote code execution in string interpolation"
       };
 
       const response = await supabase.functions.invoke('send-email-mandrill', {
@@ -378,7 +618,8 @@ export const EmailTemplates = () => {
       .replace(/{{duration}}/g, "5 minutes")
       .replace(/{{attempt_count}}/g, "1")
       .replace(/{{error_message}}/g, "Package validation failed: Missing dependency")
-      .replace(/{{summary}}/g, "Successfully deployed application to test environment");
+      .replace(/{{summary}}/g, "Successfully deployed application to test environment")
+      .replace(/{{release_notes}}/g, SAMPLE_RELEASE_NOTES);
   };
 
   return (
@@ -530,7 +771,7 @@ export const EmailTemplates = () => {
                   
                   <div className="text-sm text-muted-foreground">
                     <p className="font-medium">Available variables:</p>
-                    <p>{"{{app_name}}, {{environment_name}}, {{error_count}}, {{critical_count}}, {{timestamp}}, {{log_content}}, {{action_type}}, {{started_at}}, {{completed_at}}, {{failed_at}}, {{duration}}, {{attempt_count}}, {{error_message}}, {{summary}}"}</p>
+                    <p>{"{{app_name}}, {{environment_name}}, {{error_count}}, {{critical_count}}, {{timestamp}}, {{log_content}}, {{action_type}}, {{started_at}}, {{completed_at}}, {{failed_at}}, {{duration}}, {{attempt_count}}, {{error_message}}, {{summary}}, {{release_notes}}, {{requested_by}}, {{scheduled_for}}, {{decided_by}}, {{decided_at}}, {{approval_comment}}, {{failed_checks}}, {{total_checks}}, {{failed_steps}}, {{package_version}}, {{new_cve_count}}, {{cve_list}}"}</p>
                   </div>
                 </TabsContent>
                 
@@ -0,0 +1,185 @@
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Undo2 } from "lucide-react";
+import { isSecretConstant, settingsDiff } from "@/lib/environmentSettings";
+import type { DesiredSettings, EnvironmentSettings } from "@/lib/environmentSettings";
+import { getErrorMessage } from "@/lib/utils";
+
+interface EnvironmentSettingsEditorProps {
+  credentialId: string;
+  appId: string;
+  environmentName: string;
+  value: DesiredSettings;
+  onChange: (value: DesiredSettings) => void;
+}
+
+export function EnvironmentSettingsEditor({
+  credentialId,
+  appId,
+  environmentName,
+  value,
+  onChange,
+}: EnvironmentSettingsEditorProps) {
+  const [current, setCurrent] = useState<EnvironmentSettings | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [filter, setFilter] = useState("");
+
+  useEffect(() => {
+    if (!credentialId || !appId || !environmentName) {
+      setCurrent(null);
+      return;
+    }
+    (async () => {
+      setLoading(true);
+      setLoadError(null);
+      try {
+        const { data, error } = await supabase.functions.invoke("get-mendix-environment-settings", {
+          body: { credentialId, appId, environmentName },
+        });
+        if (error) throw error;
+        const result = data as Partial<EnvironmentSettings> & { success?: boolean; error?: string };
+        if (!result?.success) throw new Error(result?.error || "Could not load settings");
+        setCurrent({ constants: result.constants || [], scheduledEvents: result.scheduledEvents || [] });
+      } catch (e) {
+        console.error(e);
+        setCurrent(null);
+        setLoadError(getErrorMessage(e));
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [credentialId, appId, environmentName]);
+
+  const diff = useMemo(() => settingsDiff(current, value), [current, value]);
+
+  const matches = (name: string) => name.toLowerCase().includes(filter.trim().toLowerCase());
+
+  // Values equal to the current setting are dropped so only real changes are stored
+  const setConstant = (name: string, next: string) => {
+    const { [name]: _previous, ...rest } = value.constants;
+    const currentValue = current?.constants.find((c) => c.name === name)?.value;
+    onChange({ ...value, constants: next === currentValue ? rest : { ...rest, [name]: next } });
+  };
+
+  const setScheduledEvent = (name: string, enabled: boolean) => {
+    const { [name]: _previous, ...rest } = value.scheduledEvents;
+    const currentEnabled = current?.scheduledEvents.find((e) => e.name === name)?.enabled;
+    onChange({ ...value, scheduledEvents: enabled === currentEnabled ? rest : { ...rest, [name]: enabled } });
+  };
+
+  if (!environmentName) {
+    return <p className="text-sm text-muted-foreground">Select an environment to load its settings.</p>;
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" /> Loading environment settings...
+      </div>
+    );
+  }
+
+  if (loadError || !current) {
+    return <p className="text-sm text-destructive">{loadError || "Could not load settings"}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <Input placeholder="Filter by name..." value={filter} onChange={(e) => setFilter(e.target.value)} />
+
+      <div className="space-y-2">
+        <Label>Constants</Label>
+        <div className="max-h-64 overflow-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Current</TableHead>
+                <TableHead>Desired</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {current.constants.filter((c) => matches(c.name)).map((c) => {
+                const secret = isSecretConstant(c.name);
+                const desired = value.constants[c.name];
+                return (
+                  <TableRow key={c.name}>
+                    <TableCell className="text-xs font-mono" title={c.description || undefined}>
+                      {c.name}
+                    </TableCell>
+                    <TableCell className="text-xs max-w-[10rem] truncate">{secret ? "••••••" : c.value}</TableCell>
+                    <TableCell>
+                      <Input
+                        className="h-8"
+                        type={secret ? "password" : "text"}
+                        value={desired ?? c.value}
+                        onChange={(e) => setConstant(c.name, e.target.value)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      {desired !== undefined && (
+                        <Button type="button" variant="ghost" size="sm" onClick={() => setConstant(c.name, c.value)}>
+                          <Undo2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              {current.constants.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-sm text-muted-foreground">
+                    This environment has no constants.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Scheduled events</Label>
+        <div className="max-h-48 overflow-auto rounded-md border divide-y">
+          {current.scheduledEvents.filter((e) => matches(e.name)).map((e) => (
+            <label key={e.name} className="flex items-center justify-between gap-2 px-3 py-2 text-xs">
+              <span className="font-mono" title={e.description || undefined}>
+                {e.name}
+              </span>
+              <Switch
+                checked={value.scheduledEvents[e.name] ?? e.enabled}
+                onCheckedChange={(checked) => setScheduledEvent(e.name, checked)}
+              />
+            </label>
+          ))}
+          {current.scheduledEvents.length === 0 && (
+            <div className="px-3 py-2 text-sm text-muted-foreground">This environment has no scheduled events.</div>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label>Changes ({diff.length})</Label>
+        {diff.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No changes yet.</p>
+        ) : (
+          <ul className="rounded-md bg-muted/50 p-3 space-y-1 text-xs font-mono">
+            {diff.map((d) => (
+              <li key={`${d.kind}-${d.name}`}>
+                {d.name}: <span className="text-red-600 line-through">{d.from ?? "(missing)"}</span> →{" "}
+                <span className="text-green-700">{d.to}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronDown, ChevronUp, Fingerprint } from "lucide-react";
+import { SIGNATURE_TREND_DAYS, useLogSignaturesQuery } from "@/hooks/useLogSignaturesQuery";
+
+interface App {
+  project_id: string | null;
+  app_name: string;
+}
+
+interface ErrorSignaturesPanelProps {
+  apps: App[];
+}
+
+const NEW_SIGNATURE_HOURS = 24;
+const COLLAPSED_ROWS = 5;
+
+// Bars scaled to the busiest day of the signature
+function Trend({ counts }: { counts: number[] }) {
+  const max = Math.max(...counts, 1);
+  return (
+    <div className="flex items-end gap-px h-6" title={`Last ${SIGNATURE_TREND_DAYS} days: ${counts.join(", ")}`}>
+      {counts.map((count, i) => (
+        <div
+          key={i}
+          className={`w-1.5 rounded-sm ${count ? "bg-destructive/70" : "bg-muted"}`}
+          style={{ height: `${Math.max((count / max) * 100, 8)}%` }}
+        />
+      ))}
+    </div>
+  );
+}
+
+export function ErrorSignaturesPanel({ apps }: ErrorSignaturesPanelProps) {
+  const { data: signatures } = useLogSignaturesQuery();
+  const [scope, setScope] = useState("all");
+  const [expanded, setExpanded] = useState(false);
+
+  if (!signatures?.length) return null;
+
+  const appName = (appId: string) => apps.find((a) => a.project_id === appId)?.app_name || appId;
+  const visible = signatures.filter((s) => scope === "all" || s.environment_name.toLowerCase() === "production");
+  const rows = expanded ? visible : visible.slice(0, COLLAPSED_ROWS);
+  const isNew = (firstSeen: string) => Date.now() - new Date(firstSeen).getTime() < NEW_SIGNATURE_HOURS * 3_600_000;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2 flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="text-base flex items-center gap-2">
+            <Fingerprint className="w-4 h-4" />
+            Top error signatures
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Monitored error lines grouped by message, with ids and numbers masked
+          </p>
+        </div>
+        <Select value={scope} onValueChange={setScope}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All environments</SelectItem>
+            <SelectItem value="production">Production only</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {visible.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No error signatures recorded for production yet.</p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Signature</TableHead>
+                  <TableHead>App / environment</TableHead>
+                  <TableHead className="text-right">Count</TableHead>
+                  <TableHead>First seen</TableHead>
+                  <TableHead>Last seen</TableHead>
+                  <TableHead>{SIGNATURE_TREND_DAYS} days</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((s) => (
+                  <TableRow key={s.id}>
+                    <TableCell className="max-w-md">
+                      <div className="flex items-center gap-2 mb-1">
+                        <Badge variant={s.level === "critical" ? "destructive" : "secondary"}>{s.level}</Badge>
+                        {isNew(s.first_seen_at) && <Badge variant="outline">new</Badge>}
+                      </div>
+                      <p className="font-mono text-xs break-all line-clamp-2" title={s.sample || s.template}>
+                        {s.template}
+                      </p>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <div>{appName(s.app_id)}</div>
+                      <div className="text-xs text-muted-foreground">{s.environment_name}</div>
+                    </TableCell>
+                    <TableCell className="text-right font-medium">{s.occurrence_count.toLocaleString()}</TableCell>
+                    <TableCell className="text-xs whitespace-nowrap" title={new Date(s.first_seen_at).toLocaleString()}>
+                      {formatDistanceToNow(new Date(s.first_seen_at), { addSuffix: true })}
+                    </TableCell>
+                    <TableCell className="text-xs whitespace-nowrap" title={new Date(s.last_seen_at).toLocaleString()}>
+                      {formatDistanceToNow(new Date(s.last_seen_at), { addSuffix: true })}
+                    </TableCell>
+                    <TableCell>
+                      <Trend counts={s.trend} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {visible.length > COLLAPSED_ROWS && (
+              <Button variant="ghost" size="sm" className="w-full mt-2" onClick={() => setExpanded(!expanded)}>
+                {expanded ? <ChevronUp className="w-4 h-4 mr-2" /> : <ChevronDown className="w-4 h-4 mr-2" />}
+                {expanded ? "Show less" : `Show all ${visible.length}`}
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
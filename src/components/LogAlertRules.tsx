@@ -0,0 +1,357 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useLogAlertRulesQuery } from "@/hooks/useLogAlertRulesQuery";
+import { queryKeys } from "@/lib/queryKeys";
+import {
+  ALERT_CONDITIONS,
+  ALERT_SEVERITIES,
+  ALERT_WINDOWS,
+  LOG_LEVELS,
+  describeRule,
+  emptyRuleDraft,
+  validateRule,
+} from "@/lib/logAlertRules";
+import type { AlertCondition, AlertSeverity, LogAlertRuleDraft, LogAlertRuleRow } from "@/lib/logAlertRules";
+import { Bell, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { getErrorMessage } from "@/lib/utils";
+
+const severityVariant = (severity: AlertSeverity) =>
+  severity === "critical" ? "destructive" : severity === "warning" ? "secondary" : "outline";
+
+interface LogAlertRuleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  environmentName: string;
+  initial: LogAlertRuleDraft;
+  ruleId?: string;
+  onSaved: () => void;
+}
+
+function LogAlertRuleDialog({ open, onOpenChange, environmentName, initial, ruleId, onSaved }: LogAlertRuleDialogProps) {
+  const [draft, setDraft] = useState<LogAlertRuleDraft>(initial);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const update = (changes: Partial<LogAlertRuleDraft>) => setDraft((prev) => ({ ...prev, ...changes }));
+
+  const toggleLevel = (level: string, checked: boolean) => {
+    const levels = new Set(draft.levels || []);
+    if (checked) levels.add(level);
+    else levels.delete(level);
+    update({ levels: levels.size ? LOG_LEVELS.filter((l) => levels.has(l)) : null });
+  };
+
+  const save = async () => {
+    const invalid = validateRule(draft);
+    if (invalid) {
+      toast({ title: "Cannot save rule", description: invalid, variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const values = {
+        ...draft,
+        name: draft.name.trim(),
+        node_pattern: draft.node_pattern?.trim() || null,
+        message_regex: draft.message_regex?.trim() || null,
+        stacktrace_regex: draft.stacktrace_regex?.trim() || null,
+      };
+
+      if (ruleId) {
+        const { error } = await supabase.from("log_alert_rules").update(values).eq("id", ruleId);
+        if (error) throw error;
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) throw new Error("User not authenticated");
+        const { error } = await supabase.from("log_alert_rules").insert({ ...values, user_id: user.id });
+        if (error) throw error;
+      }
+
+      toast({ title: "Alert rule saved", description: values.name });
+      onOpenChange(false);
+      onSaved();
+    } catch (e) {
+      toast({ title: "Saving alert rule failed", description: getErrorMessage(e), variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{ruleId ? "Edit alert rule" : "New alert rule"}</DialogTitle>
+          <DialogDescription>
+            Evaluated on every log check of {environmentName}, against the downloaded logs and the logs received by the
+            log webhook. Whitelisted lines are not counted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          <div className="space-y-2">
+            <Label>Name</Label>
+            <Input value={draft.name} onChange={(e) => update({ name: e.target.value })} placeholder="REST errors" />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Levels</Label>
+            <div className="flex flex-wrap gap-3">
+              {LOG_LEVELS.map((level) => (
+                <label key={level} className="flex items-center gap-2">
+                  <Checkbox
+                    checked={!!draft.levels?.includes(level)}
+                    onCheckedChange={(v) => toggleLevel(level, v === true)}
+                  />
+                  {level}
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">None selected matches every level.</p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Node</Label>
+              <Input
+                value={draft.node_pattern || ""}
+                onChange={(e) => update({ node_pattern: e.target.value })}
+                placeholder="Rest*"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Message regex</Label>
+              <Input
+                value={draft.message_regex || ""}
+                onChange={(e) => update({ message_regex: e.target.value })}
+                placeholder="timed? ?out"
+                className="font-mono"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Stacktrace regex</Label>
+            <Input
+              value={draft.stacktrace_regex || ""}
+              onChange={(e) => update({ stacktrace_regex: e.target.value })}
+              placeholder="NullPointerException"
+              className="font-mono"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Condition</Label>
+              <Select
+                value={draft.condition_type}
+                onValueChange={(v) => update({ condition_type: v as AlertCondition })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ALERT_CONDITIONS.map((c) => (
+                    <SelectItem key={c.value} value={c.value}>
+                      {c.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Window</Label>
+              <Select
+                value={draft.window_minutes.toString()}
+                onValueChange={(v) => update({ window_minutes: parseInt(v) })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ALERT_WINDOWS.map((w) => (
+                    <SelectItem key={w.minutes} value={w.minutes.toString()}>
+                      {w.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {draft.condition_type !== "absence" && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>{draft.condition_type === "count_above" ? "Alert above (lines)" : "Increase (%)"}</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  value={draft.threshold}
+                  onChange={(e) => update({ threshold: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              {draft.condition_type === "rate_increase" && (
+                <div className="space-y-2">
+                  <Label>Ignore below (lines)</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={draft.min_count}
+                    onChange={(e) => update({ min_count: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Severity</Label>
+            <Select value={draft.severity} onValueChange={(v) => update({ severity: v as AlertSeverity })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ALERT_SEVERITIES.map((s) => (
+                  <SelectItem key={s} value={s} className="capitalize">
+                    {s}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <p className="text-xs text-muted-foreground">{describeRule(draft)}</p>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={save} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save rule
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface LogAlertRulesProps {
+  environmentId: string;
+  environmentName: string;
+}
+
+export function LogAlertRules({ environmentId, environmentName }: LogAlertRulesProps) {
+  const { data: allRules } = useLogAlertRulesQuery();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<LogAlertRuleRow | null>(null);
+  const [creating, setCreating] = useState(false);
+
+  const rules = (allRules || []).filter((r) => r.environment_id === environmentId);
+  const refresh = () => queryClient.invalidateQueries({ queryKey: queryKeys.logAlertRules });
+
+  const setEnabled = async (rule: LogAlertRuleRow, isEnabled: boolean) => {
+    const { error } = await supabase.from("log_alert_rules").update({ is_enabled: isEnabled }).eq("id", rule.id);
+    if (error) {
+      toast({ title: "Update failed", description: error.message, variant: "destructive" });
+      return;
+    }
+    refresh();
+  };
+
+  const remove = async (rule: LogAlertRuleRow) => {
+    const { error } = await supabase.from("log_alert_rules").delete().eq("id", rule.id);
+    if (error) {
+      toast({ title: "Delete failed", description: error.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Alert rule deleted", description: rule.name });
+    refresh();
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>
+            <Bell className="w-4 h-4 inline mr-2" />
+            Alert Rules
+          </Label>
+          <p className="text-sm text-muted-foreground">
+            Count, rate and heartbeat conditions, checked with the log monitoring of this environment. Rate conditions
+            compare with last week and need the logs sent to the webhook.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setCreating(true)}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add rule
+        </Button>
+      </div>
+
+      {rules.length === 0 && <p className="text-sm text-muted-foreground">No alert rules yet.</p>}
+
+      {rules.map((rule) => (
+        <div key={rule.id} className="flex items-center gap-3 p-2 bg-muted rounded-md">
+          <Switch checked={rule.is_enabled} onCheckedChange={(checked) => setEnabled(rule, checked)} />
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium">{rule.name}</span>
+              <Badge variant={severityVariant(rule.severity)} className="capitalize">
+                {rule.severity}
+              </Badge>
+            </div>
+            <p className="text-xs text-muted-foreground break-all">{describeRule(rule)}</p>
+            {rule.last_fired_at && (
+              <p className="text-xs text-muted-foreground">
+                Last fired: {new Date(rule.last_fired_at).toLocaleString()}
+              </p>
+            )}
+          </div>
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setEditing(rule)}>
+            <Pencil className="w-3 h-3" />
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => remove(rule)}>
+            <Trash2 className="w-3 h-3" />
+          </Button>
+        </div>
+      ))}
+
+      {creating && (
+        <LogAlertRuleDialog
+          open={creating}
+          onOpenChange={setCreating}
+          environmentName={environmentName}
+          initial={emptyRuleDraft(environmentId)}
+          onSaved={refresh}
+        />
+      )}
+      {editing && (
+        <LogAlertRuleDialog
+          open={!!editing}
+          onOpenChange={(open) => !open && setEditing(null)}
+          environmentName={environmentName}
+          initial={editing}
+          ruleId={editing.id}
+          onSaved={refresh}
+        />
+      )}
+    </div>
+  );
+}
@@ -9,7 +9,8 @@ import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
-import { Loader2, Mail, Clock, AlertTriangle, Eye, Search, X } from "lucide-react";
+import { Loader2, Mail, Clock, Search, X } from "lucide-react";
+import { LogAlertRules } from "@/components/LogAlertRules";
 
 interface Environment {
   id: string;
@@ -32,8 +33,7 @@ interface MonitoringSetting {
   environment_id: string;
   is_enabled: boolean;
   check_interval_minutes: number;
-  error_threshold: number;
-  critical_threshold: number;
+  alert_on_new_signature: boolean;
   last_check_time?: string;
   whitelist_patterns?: string[];
 }
@@ -142,8 +142,7 @@ const LogMonitoringSettings = () => {
             environment_id: env.id,
             is_enabled: false,
             check_interval_minutes: 30,
-            error_threshold: 1,
-            critical_threshold: 1,
+            alert_on_new_signature: true,
             whitelist_patterns: []
           };
         });
@@ -197,8 +196,7 @@ const LogMonitoringSettings = () => {
           .update({
             is_enabled: setting.is_enabled,
             check_interval_minutes: setting.check_interval_minutes,
-            error_threshold: setting.error_threshold,
-            critical_threshold: setting.critical_threshold,
+            alert_on_new_signature: setting.alert_on_new_signature,
             whitelist_patterns: setting.whitelist_patterns || [],
           })
           .eq('id', setting.id);
@@ -216,8 +214,7 @@ const LogMonitoringSettings = () => {
             environment_id: setting.environment_id,
             is_enabled: setting.is_enabled,
             check_interval_minutes: setting.check_interval_minutes,
-            error_threshold: setting.error_threshold,
-            critical_threshold: setting.critical_threshold,
+            alert_on_new_signature: setting.alert_on_new_signature,
             whitelist_patterns: setting.whitelist_patterns || [],
           })
           .select()
@@ -260,8 +257,7 @@ const LogMonitoringSettings = () => {
           .update({
             is_enabled: setting.is_enabled,
             check_interval_minutes: setting.check_interval_minutes,
-            error_threshold: setting.error_threshold,
-            critical_threshold: setting.critical_threshold,
+            alert_on_new_signature: setting.alert_on_new_signature,
             whitelist_patterns: setting.whitelist_patterns || [],
           })
           .eq('id', setting.id);
@@ -279,8 +275,7 @@ const LogMonitoringSettings = () => {
             environment_id: setting.environment_id,
             is_enabled: setting.is_enabled,
             check_interval_minutes: setting.check_interval_minutes,
-            error_threshold: setting.error_threshold,
-            critical_threshold: setting.critical_threshold,
+            alert_on_new_signature: setting.alert_on_new_signature,
             whitelist_patterns: setting.whitelist_patterns || [],
           })
           .select()
@@ -385,32 +380,25 @@ const LogMonitoringSettings = () => {
                         </SelectContent>
                       </Select>
                     </div>
+                  </div>
 
-                    <div className="space-y-2">
-                      <Label>
-                        <AlertTriangle className="w-4 h-4 inline mr-2" />
-                        Error Threshold
-                      </Label>
-                      <Input
-                        type="number"
-                        min="1"
-                        value={setting.error_threshold}
-                        onChange={(e) => updateSetting(env.id, { error_threshold: parseInt(e.target.value) || 1 })}
+                  {env.environment_name.toLowerCase() === 'production' && (
+                    <div className="flex items-center justify-between gap-4">
+                      <div>
+                        <Label>Alert on new error signatures</Label>
+                        <p className="text-sm text-muted-foreground">
+                          Alert as soon as an error that has never been seen in this environment appears, even if no alert rule matches it.
+                        </p>
+                      </div>
+                      <Switch
+                        checked={setting.alert_on_new_signature}
+                        onCheckedChange={(checked) => updateSetting(env.id, { alert_on_new_signature: checked })}
                       />
                     </div>
+                  )}
 
-                    <div className="space-y-2">
-                      <Label>
-                        <Eye className="w-4 h-4 inline mr-2" />
-                        Critical Threshold
-                      </Label>
-                      <Input
-                        type="number"
-                        min="1"
-                        value={setting.critical_threshold}
-                        onChange={(e) => updateSetting(env.id, { critical_threshold: parseInt(e.target.value) || 1 })}
-                      />
-                    </div>
+                  <div className="pt-4 border-t">
+                    <LogAlertRules environmentId={env.id} environmentName={env.environment_name} />
                   </div>
 
                   <div className="space-y-3 pt-4 border-t">
@@ -4,50 +4,43 @@ import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Search, Download, X, Calendar, RefreshCw } from "lucide-react";
+import { Search, Download, X, Calendar, RefreshCw, ChevronLeft, ChevronRight } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { format } from "date-fns";
-
-interface WebhookLog {
-  id: string;
-  timestamp: string;
-  level: string;
-  node?: string;
-  message: string;
-  stacktrace?: string;
-}
+import { SavedLogQueries } from "@/components/SavedLogQueries";
+import { useLogSearchQuery } from "@/hooks/useLogSearchQuery";
+import { LogQueryError, parseLogQuery } from "@/lib/logQuery";
 
 interface LogsViewerProps {
   open: boolean;
   onClose: () => void;
   logs: string;
-  webhookLogs: WebhookLog[];
   environmentName: string;
   appName: string;
   appId: string;
   onDownloadDate: (date: Date) => void;
-  onRefreshWebhookLogs: () => void;
   loading?: boolean;
-  webhookLoading?: boolean;
 }
 
 const LogsViewer = ({ 
   open, 
   onClose, 
   logs, 
-  webhookLogs,
   environmentName, 
   appName, 
   appId,
   onDownloadDate,
-  onRefreshWebhookLogs,
-  loading = false,
-  webhookLoading = false
+  loading = false
 }: LogsViewerProps) => {
   const [searchTerm, setSearchTerm] = useState("");
+  // Real-time logs are searched server-side: the box holds the draft, activeQuery what was run
+  const [queryText, setQueryText] = useState("");
+  const [activeQuery, setActiveQuery] = useState("");
+  const [queryError, setQueryError] = useState<string | null>(null);
+  const [page, setPage] = useState(0);
   const [selectedDate, setSelectedDate] = useState<Date>();
   const [calendarOpen, setCalendarOpen] = useState(false);
   const [activeTab, setActiveTab] = useState("webhook");
@@ -105,12 +98,28 @@ const LogsViewer = ({
   const filteredLogs = filterLogs(logs, searchTerm);
   const highlightedLogs = highlightKeywords(filteredLogs, searchTerm);
 
-  const filteredWebhookLogs = webhookLogs.filter(log => 
-    !searchTerm || 
-    log.message.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    log.level.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    (log.node && log.node.toLowerCase().includes(searchTerm.toLowerCase()))
-  );
+  const {
+    data: searchResult,
+    isLoading: webhookLoading,
+    isFetching: webhookFetching,
+    error: searchError,
+    refetch: refetchWebhookLogs
+  } = useLogSearchQuery(appId, environmentName, activeQuery, page, open);
+  const webhookLogs = searchResult?.rows || [];
+
+  const runQuery = (text: string) => {
+    try {
+      parseLogQuery(text);
+    } catch (e) {
+      if (!(e instanceof LogQueryError)) throw e;
+      setQueryError(e.message);
+      return;
+    }
+    setQueryText(text);
+    setQueryError(null);
+    setActiveQuery(text.trim());
+    setPage(0);
+  };
 
   const downloadLogs = () => {
     const blob = new Blob([logs], { type: 'text/plain' });
@@ -149,25 +158,38 @@ const LogsViewer = ({
           <div className="flex flex-col sm:flex-row gap-4">
             <div className="relative flex-1">
               <Search className="absolute left-3 top-3 w-4 h-4 text-muted-foreground" />
-              <Input
-                placeholder="Search logs..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="pl-10"
-              />
+              {activeTab === "webhook" ? (
+                <Input
+                  placeholder='level:ERROR node:Rest* "timed out" after:2h — press Enter'
+                  value={queryText}
+                  onChange={(e) => setQueryText(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && runQuery(queryText)}
+                  className="pl-10 font-mono text-sm"
+                />
+              ) : (
+                <Input
+                  placeholder="Search logs..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-10"
+                />
+              )}
             </div>
             
             <div className="flex gap-2">
               {activeTab === "webhook" && (
-                <Button 
-                  variant="outline" 
-                  size="sm" 
-                  onClick={onRefreshWebhookLogs}
-                  disabled={webhookLoading}
-                >
-                  <RefreshCw className={`w-4 h-4 mr-2 ${webhookLoading ? 'animate-spin' : ''}`} />
-                  Refresh
-                </Button>
+                <>
+                  <SavedLogQueries appId={appId} query={queryText} onSelect={runQuery} />
+                  <Button 
+                    variant="outline" 
+                    size="sm" 
+                    onClick={() => refetchWebhookLogs()}
+                    disabled={webhookFetching}
+                  >
+                    <RefreshCw className={`w-4 h-4 mr-2 ${webhookFetching ? 'animate-spin' : ''}`} />
+                    Refresh
+                  </Button>
+                </>
               )}
               
               {activeTab === "file" && (
@@ -198,25 +220,45 @@ const LogsViewer = ({
             </div>
           </div>
 
+          {activeTab === "webhook" && (queryError || searchError) && (
+            <p className="text-sm text-destructive">{queryError || (searchError as Error).message}</p>
+          )}
+          {activeTab === "webhook" && !queryError && !searchError && (
+            <p className="text-xs text-muted-foreground">
+              Fields: level, node, environment, message, stacktrace. Combine with AND, OR, NOT or -, group with ( ),
+              use * as wildcard and /regex/ for patterns, limit time with after: and before: (a date or 15m, 2h, 7d).
+              Searches {environmentName} unless the query names an environment.
+            </p>
+          )}
+
           {/* Keyword badges */}
           <div className="flex gap-2 flex-wrap">
-            {keywords.map((keyword) => (
-              <Badge
-                key={keyword}
-                variant={searchTerm === keyword ? "default" : "outline"}
-                className="cursor-pointer"
-                onClick={() => setSearchTerm(searchTerm === keyword ? "" : keyword)}
-              >
-                {keyword}
-              </Badge>
-            ))}
+            {keywords.map((keyword) => {
+              const active = activeTab === "webhook" ? activeQuery === keyword : searchTerm === keyword;
+              return (
+                <Badge
+                  key={keyword}
+                  variant={active ? "default" : "outline"}
+                  className="cursor-pointer"
+                  onClick={() => {
+                    if (activeTab === "webhook") {
+                      runQuery(active ? "" : keyword);
+                    } else {
+                      setSearchTerm(active ? "" : keyword);
+                    }
+                  }}
+                >
+                  {keyword}
+                </Badge>
+              );
+            })}
           </div>
 
           {/* Tabs for different log types */}
           <Tabs value={activeTab} onValueChange={setActiveTab} className="flex-1 min-h-0 flex flex-col">
             <TabsList className="grid w-full grid-cols-2">
               <TabsTrigger value="webhook">
-                Real-time Logs ({filteredWebhookLogs.length})
+                Real-time Logs
               </TabsTrigger>
               <TabsTrigger value="file">
                 File Logs
@@ -233,10 +275,10 @@ const LogsViewer = ({
                         <p className="text-sm text-muted-foreground">Loading webhook logs...</p>
                       </div>
                     </div>
-                  ) : filteredWebhookLogs.length > 0 ? (
+                  ) : webhookLogs.length > 0 ? (
                     <ScrollArea className="h-full max-h-96">
                       <div className="p-4 space-y-3">
-                        {filteredWebhookLogs.map((log) => (
+                        {webhookLogs.map((log) => (
                           <div key={log.id} className="border-l-4 border-l-muted pl-4 py-2 space-y-2">
                             <div className="flex items-center justify-between gap-2">
                               <div className="flex items-center gap-2">
@@ -246,6 +288,9 @@ const LogsViewer = ({
                                 {log.node && (
                                   <span className="text-xs text-muted-foreground">{log.node}</span>
                                 )}
+                                {log.environment.toLowerCase() !== environmentName.toLowerCase() && (
+                                  <Badge variant="outline">{log.environment}</Badge>
+                                )}
                               </div>
                               <span className="text-xs text-muted-foreground">
                                 {format(new Date(log.timestamp), 'MMM dd, yyyy HH:mm:ss')}
@@ -265,11 +310,36 @@ const LogsViewer = ({
                     </ScrollArea>
                   ) : (
                     <div className="flex items-center justify-center h-64">
-                      <p className="text-sm text-muted-foreground">No webhook logs available</p>
+                      <p className="text-sm text-muted-foreground">
+                        {activeQuery ? "No logs match this query" : "No webhook logs available"}
+                      </p>
                     </div>
                   )}
                 </CardContent>
               </Card>
+              {(page > 0 || searchResult?.hasMore) && (
+                <div className="flex items-center justify-end gap-2 mt-2">
+                  <span className="text-xs text-muted-foreground">Page {page + 1}</span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(page - 1)}
+                    disabled={page === 0 || webhookFetching}
+                  >
+                    <ChevronLeft className="w-4 h-4 mr-1" />
+                    Newer
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(page + 1)}
+                    disabled={!searchResult?.hasMore || webhookFetching}
+                  >
+                    Older
+                    <ChevronRight className="w-4 h-4 ml-1" />
+                  </Button>
+                </div>
+              )}
             </TabsContent>
             
             <TabsContent value="file" className="flex-1 min-h-0 mt-4">
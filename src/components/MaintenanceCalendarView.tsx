@@ -0,0 +1,268 @@
+import { useMemo, useState } from "react";
+import {
+  addDays,
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { ChevronLeft, ChevronRight, Trash2 } from "lucide-react";
+import { AddWindowDialog } from "@/components/AddWindowDialog";
+import { upcomingCronOccurrences } from "@/lib/cron";
+import { describeWindowScope, windowIntervals } from "@/lib/cloudActionWindows";
+import { cn } from "@/lib/utils";
+import type { App, CloudActionRow, CloudActionWindowRow, ScheduleRow } from "@/types/cloudActions";
+import { getErrorMessage } from "@/lib/utils";
+
+interface MaintenanceCalendarViewProps {
+  windows: CloudActionWindowRow[];
+  actions: CloudActionRow[];
+  schedules: ScheduleRow[];
+  apps: App[];
+  isAdmin: boolean;
+  onWindowsChanged: () => void;
+}
+
+type EventKind = "freeze" | "maintenance" | "action" | "schedule";
+
+interface CalendarEvent {
+  kind: EventKind;
+  label: string;
+  title: string;
+  start: Date;
+  end: Date;
+}
+
+const eventClass: Record<EventKind, string> = {
+  freeze: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  maintenance: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  action: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
+  schedule: "bg-slate-100 text-slate-800 dark:bg-slate-900 dark:text-slate-200",
+};
+
+const MAX_EVENTS_PER_DAY = 4;
+
+export function MaintenanceCalendarView({
+  windows,
+  actions,
+  schedules,
+  apps,
+  isAdmin,
+  onWindowsChanged,
+}: MaintenanceCalendarViewProps) {
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const { toast } = useToast();
+
+  const appName = (app_id: string) =>
+    apps.find((a) => a.project_id === app_id)?.app_name || app_id;
+
+  const days = useMemo(
+    () => eachDayOfInterval({ start: startOfWeek(month, { weekStartsOn: 1 }), end: endOfWeek(endOfMonth(month), { weekStartsOn: 1 }) }),
+    [month]
+  );
+
+  const events = useMemo(() => {
+    const rangeStart = days[0];
+    const rangeEnd = addDays(days[days.length - 1], 1);
+    const result: CalendarEvent[] = [];
+
+    for (const window of windows) {
+      for (const interval of windowIntervals(window, rangeStart, rangeEnd)) {
+        result.push({
+          kind: window.window_type,
+          label: window.name,
+          title: `${window.window_type === "freeze" ? "Freeze" : "Maintenance"}: ${window.name}\n` +
+            `${interval.start.toLocaleString()} – ${interval.end.toLocaleString()}\n` +
+            describeWindowScope(window, appName),
+          ...interval,
+        });
+      }
+    }
+
+    for (const action of actions) {
+      if (!action.scheduled_for || !["scheduled", "pending_approval"].includes(action.status)) continue;
+      const start = new Date(action.scheduled_for);
+      if (start < rangeStart || start >= rangeEnd) continue;
+      result.push({
+        kind: "action",
+        label: `${format(start, "HH:mm")} ${action.action_type} ${action.environment_name}`,
+        title: `${action.action_type} • ${appName(action.app_id)} • ${action.environment_name}\n${start.toLocaleString()} (${action.status})`,
+        start,
+        end: start,
+      });
+    }
+
+    for (const schedule of schedules) {
+      if (schedule.is_paused || !schedule.next_run_at) continue;
+      let occurrences: Date[] = [];
+      try {
+        occurrences = upcomingCronOccurrences(
+          schedule.cron_expression,
+          new Date(Math.max(rangeStart.getTime(), new Date(schedule.next_run_at).getTime()) - 60_000),
+          schedule.timezone,
+          62,
+          schedule.ends_at ? new Date(Math.min(rangeEnd.getTime(), new Date(schedule.ends_at).getTime())) : rangeEnd
+        );
+      } catch {
+        occurrences = [];
+      }
+      for (const start of occurrences) {
+        result.push({
+          kind: "schedule",
+          label: `${format(start, "HH:mm")} ${schedule.action_type} ${schedule.environment_name}`,
+          title: `Schedule: ${schedule.name}\n${appName(schedule.app_id)} • ${schedule.environment_name}\n${start.toLocaleString()}`,
+          start,
+          end: start,
+        });
+      }
+    }
+
+    return result;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [windows, actions, schedules, days]);
+
+  const eventsOn = (day: Date) => {
+    const dayEnd = addDays(day, 1);
+    return events
+      .filter((e) => (isSameDay(e.start, day) && e.start.getTime() === e.end.getTime()) || (e.start < dayEnd && e.end > day))
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+  };
+
+  const deleteWindow = async (id: string) => {
+    if (!confirm("Are you sure you want to delete this window?")) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from("cloud_action_windows").delete().eq("id", id);
+      if (error) throw error;
+      toast({ title: "Window deleted successfully" });
+      onWindowsChanged();
+    } catch (e) {
+      toast({ title: "Delete failed", description: getErrorMessage(e), variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setMonth((m) => addMonths(m, -1))}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <h3 className="w-40 text-center font-medium">{format(month, "MMMM yyyy")}</h3>
+          <Button variant="outline" size="sm" onClick={() => setMonth((m) => addMonths(m, 1))}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setMonth(startOfMonth(new Date()))}>
+            Today
+          </Button>
+        </div>
+        <div className="flex items-center gap-3 text-xs">
+          {(["freeze", "maintenance", "action", "schedule"] as EventKind[]).map((kind) => (
+            <span key={kind} className={cn("px-2 py-1 rounded capitalize", eventClass[kind])}>
+              {kind === "action" ? "scheduled action" : kind}
+            </span>
+          ))}
+          {isAdmin && <AddWindowDialog onCreated={onWindowsChanged} />}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-7 gap-px rounded-md border border-border bg-border overflow-hidden">
+        {["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"].map((d) => (
+          <div key={d} className="bg-muted px-2 py-1 text-xs font-medium text-muted-foreground">
+            {d}
+          </div>
+        ))}
+        {days.map((day) => {
+          const dayEvents = eventsOn(day);
+          return (
+            <div
+              key={day.toISOString()}
+              className={cn(
+                "bg-card min-h-[110px] p-1 space-y-1",
+                !isSameMonth(day, month) && "opacity-50"
+              )}
+            >
+              <div
+                className={cn(
+                  "text-xs font-medium",
+                  isSameDay(day, new Date()) && "text-primary"
+                )}
+              >
+                {format(day, "d")}
+              </div>
+              {dayEvents.slice(0, MAX_EVENTS_PER_DAY).map((event, index) => (
+                <div
+                  key={index}
+                  title={event.title}
+                  className={cn("truncate rounded px-1 text-[11px] leading-5", eventClass[event.kind])}
+                >
+                  {event.label}
+                </div>
+              ))}
+              {dayEvents.length > MAX_EVENTS_PER_DAY && (
+                <div className="text-[11px] text-muted-foreground" title={dayEvents.slice(MAX_EVENTS_PER_DAY).map((e) => e.label).join("\n")}>
+                  +{dayEvents.length - MAX_EVENTS_PER_DAY} more
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">Freeze and maintenance windows</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {windows.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No windows configured. Cloud actions can start at any time.
+            </p>
+          )}
+          {windows.map((window) => (
+            <div key={window.id} className="flex items-center justify-between gap-4 rounded-md border border-border p-3">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  <span className={cn("px-2 py-0.5 rounded text-xs capitalize", eventClass[window.window_type])}>
+                    {window.window_type}
+                  </span>
+                  {window.name}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {window.cron_expression
+                    ? `${window.cron_expression} for ${window.duration_minutes} min (${window.timezone})`
+                    : `${new Date(window.starts_at!).toLocaleString()} – ${new Date(window.ends_at!).toLocaleString()}`}
+                  {" • "}
+                  {describeWindowScope(window, appName)}
+                  {" • "}
+                  {window.conflict_behavior === "block" ? "blocks conflicting actions" : "reschedules conflicting actions"}
+                </p>
+              </div>
+              {isAdmin && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => deleteWindow(window.id)}
+                  className="text-destructive hover:text-destructive"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
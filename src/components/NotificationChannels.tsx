@@ -0,0 +1,374 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useNotificationChannelsQuery, useNotificationDeliveriesQuery } from "@/hooks/useNotificationChannelsQuery";
+import { queryKeys } from "@/lib/queryKeys";
+import {
+  CHANNEL_TYPES,
+  NOTIFICATION_EVENTS,
+  channelTypeLabel,
+  emptyChannelDraft,
+  eventLabel,
+  validateChannel,
+} from "@/lib/notificationChannels";
+import type {
+  ChannelType,
+  DeliveryStatus,
+  NotificationChannelDraft,
+  NotificationChannelRow,
+} from "@/lib/notificationChannels";
+import { Copy, Loader2, Pencil, Plus, Radio, Send, Trash2 } from "lucide-react";
+import { getErrorMessage } from "@/lib/utils";
+
+const statusVariant = (status: DeliveryStatus) =>
+  status === "failed" ? "destructive" : status === "pending" ? "secondary" : "outline";
+
+interface NotificationChannelDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  initial: NotificationChannelDraft;
+  channelId?: string;
+  onSaved: () => void;
+}
+
+function NotificationChannelDialog({ open, onOpenChange, initial, channelId, onSaved }: NotificationChannelDialogProps) {
+  const [draft, setDraft] = useState<NotificationChannelDraft>(initial);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const update = (changes: Partial<NotificationChannelDraft>) => setDraft((prev) => ({ ...prev, ...changes }));
+
+  const toggleEvent = (event: string, checked: boolean) => {
+    const events = new Set(draft.events);
+    if (checked) events.add(event);
+    else events.delete(event);
+    update({ events: NOTIFICATION_EVENTS.map((e) => e.value).filter((e) => events.has(e)) });
+  };
+
+  const save = async () => {
+    const invalid = validateChannel(draft);
+    if (invalid) {
+      toast({ title: "Cannot save channel", description: invalid, variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const values = {
+        name: draft.name.trim(),
+        channel_type: draft.channel_type,
+        url: draft.url.trim(),
+        events: draft.events,
+        is_enabled: draft.is_enabled,
+      };
+
+      if (channelId) {
+        const { error } = await supabase.from("notification_channels").update(values).eq("id", channelId);
+        if (error) throw error;
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) throw new Error("User not authenticated");
+        const { error } = await supabase.from("notification_channels").insert({ ...values, user_id: user.id });
+        if (error) throw error;
+      }
+
+      toast({ title: "Channel saved", description: values.name });
+      onOpenChange(false);
+      onSaved();
+    } catch (e) {
+      toast({ title: "Saving channel failed", description: getErrorMessage(e), variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{channelId ? "Edit channel" : "New channel"}</DialogTitle>
+          <DialogDescription>
+            Notifications for the selected events are posted to this URL, next to the notification emails.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input value={draft.name} onChange={(e) => update({ name: e.target.value })} placeholder="#ops-alerts" />
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={draft.channel_type} onValueChange={(v) => update({ channel_type: v as ChannelType })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CHANNEL_TYPES.map((t) => (
+                    <SelectItem key={t.value} value={t.value}>
+                      {t.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>{draft.channel_type === "webhook" ? "Endpoint URL" : "Incoming webhook URL"}</Label>
+            <Input
+              value={draft.url}
+              onChange={(e) => update({ url: e.target.value })}
+              placeholder={CHANNEL_TYPES.find((t) => t.value === draft.channel_type)?.placeholder}
+              className="font-mono"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Events</Label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {NOTIFICATION_EVENTS.map((event) => (
+                <label key={event.value} className="flex items-center gap-2">
+                  <Checkbox
+                    checked={draft.events.includes(event.value)}
+                    onCheckedChange={(v) => toggleEvent(event.value, v === true)}
+                  />
+                  {event.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2">
+            <Switch checked={draft.is_enabled} onCheckedChange={(checked) => update({ is_enabled: checked })} />
+            Enabled
+          </label>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={save} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save channel
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function NotificationChannels() {
+  const { data: channels, isLoading } = useNotificationChannelsQuery();
+  const { data: deliveries } = useNotificationDeliveriesQuery();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<NotificationChannelRow | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [testing, setTesting] = useState<string | null>(null);
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: queryKeys.notificationChannels });
+  const channelName = (id: string | null) =>
+    id ? channels?.find((c) => c.id === id)?.name || "Deleted channel" : "Notification emails";
+
+  const setEnabled = async (channel: NotificationChannelRow, isEnabled: boolean) => {
+    const { error } = await supabase.from("notification_channels").update({ is_enabled: isEnabled }).eq("id", channel.id);
+    if (error) {
+      toast({ title: "Update failed", description: error.message, variant: "destructive" });
+      return;
+    }
+    refresh();
+  };
+
+  const remove = async (channel: NotificationChannelRow) => {
+    const { error } = await supabase.from("notification_channels").delete().eq("id", channel.id);
+    if (error) {
+      toast({ title: "Delete failed", description: error.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Channel deleted", description: channel.name });
+    refresh();
+  };
+
+  const sendTest = async (channel: NotificationChannelRow) => {
+    setTesting(channel.id);
+    try {
+      const { data, error } = await supabase.functions.invoke("send-notifications", {
+        body: { operation: "test", channelId: channel.id },
+      });
+      if (error) throw error;
+      if (!data?.delivered) throw new Error(data?.error || "Delivery failed");
+      toast({ title: "Test message sent", description: channel.name });
+    } catch (e) {
+      toast({ title: "Test message failed", description: getErrorMessage(e), variant: "destructive" });
+    } finally {
+      setTesting(null);
+      queryClient.invalidateQueries({ queryKey: queryKeys.notificationDeliveries });
+    }
+  };
+
+  const copySecret = (secret: string) => {
+    navigator.clipboard.writeText(secret);
+    toast({ title: "Copied", description: "Signing secret copied to clipboard" });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold mb-2">Notification Channels</h2>
+        <p className="text-muted-foreground">
+          Send log alerts, cloud action results, OWASP failures and new vulnerabilities to Slack, Microsoft Teams
+          or your own HTTPS endpoint. Failed deliveries are retried for about an hour and a half.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Radio className="w-5 h-5" />
+              Channels
+            </CardTitle>
+            <CardDescription>
+              Webhook requests carry <code>X-Notification-Signature: sha256=&lt;hmac&gt;</code>, the HMAC-SHA256 of{" "}
+              <code>&lt;X-Notification-Timestamp&gt;.&lt;body&gt;</code> with the channel's signing secret.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setCreating(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add channel
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isLoading ? (
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          ) : (channels || []).length === 0 ? (
+            <p className="text-sm text-muted-foreground">No channels yet.</p>
+          ) : (
+            channels!.map((channel) => (
+              <div key={channel.id} className="flex items-start gap-3 p-3 bg-muted rounded-md">
+                <Switch checked={channel.is_enabled} onCheckedChange={(checked) => setEnabled(channel, checked)} />
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">{channel.name}</span>
+                    <Badge variant="outline">{channelTypeLabel(channel.channel_type)}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground font-mono break-all">{channel.url}</p>
+                  <div className="flex flex-wrap gap-1">
+                    {channel.events.map((event) => (
+                      <Badge key={event} variant="secondary" className="text-xs">
+                        {eventLabel(event)}
+                      </Badge>
+                    ))}
+                  </div>
+                  {channel.channel_type === "webhook" && (
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      Signing secret: <code className="font-mono">{channel.secret.slice(0, 8)}…</code>
+                      <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => copySecret(channel.secret)}>
+                        <Copy className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => sendTest(channel)}
+                  disabled={testing === channel.id || !channel.is_enabled}
+                >
+                  {testing === channel.id ? (
+                    <Loader2 className="w-3 h-3 mr-2 animate-spin" />
+                  ) : (
+                    <Send className="w-3 h-3 mr-2" />
+                  )}
+                  Send test
+                </Button>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setEditing(channel)}>
+                  <Pencil className="w-3 h-3" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => remove(channel)}>
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Deliveries</CardTitle>
+          <CardDescription>
+            The last 50 notifications sent to channels and notification emails. Deliveries are kept for 30 days.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {(deliveries || []).length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing sent yet.</p>
+          ) : (
+            deliveries!.map((delivery) => (
+              <div key={delivery.id} className="flex items-start gap-3 text-sm border-b last:border-0 pb-2">
+                <Badge variant={statusVariant(delivery.status)} className="capitalize">
+                  {delivery.status}
+                </Badge>
+                <div className="flex-1 min-w-0">
+                  <div>
+                    {eventLabel(delivery.event_type)} → {channelName(delivery.channel_id)}
+                    <span className="text-muted-foreground"> ({channelTypeLabel(delivery.channel_type)})</span>
+                  </div>
+                  {delivery.last_error && delivery.status !== "delivered" && (
+                    <p className="text-xs text-destructive break-all">{delivery.last_error}</p>
+                  )}
+                  {delivery.status === "pending" && delivery.attempt_count > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Attempt {delivery.attempt_count} failed; retrying{" "}
+                      {formatDistanceToNow(new Date(delivery.next_attempt_at), { addSuffix: true })}
+                    </p>
+                  )}
+                </div>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {formatDistanceToNow(new Date(delivery.created_at), { addSuffix: true })}
+                </span>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      {creating && (
+        <NotificationChannelDialog
+          open={creating}
+          onOpenChange={setCreating}
+          initial={emptyChannelDraft()}
+          onSaved={refresh}
+        />
+      )}
+      {editing && (
+        <NotificationChannelDialog
+          open={!!editing}
+          onOpenChange={(open) => !open && setEditing(null)}
+          initial={editing}
+          channelId={editing.id}
+          onSaved={refresh}
+        />
+      )}
+    </div>
+  );
+}
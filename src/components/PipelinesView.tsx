@@ -0,0 +1,170 @@
+import { Fragment } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { ChevronRight, ShieldCheck, Trash2 } from "lucide-react";
+import { CloudActionLogsDialog } from "@/components/CloudActionLogsDialog";
+import { getErrorMessage } from "@/lib/utils";
+import { statusColor } from "@/types/cloudActions";
+import type { App, PipelineRow } from "@/types/cloudActions";
+
+interface PipelinesViewProps {
+  pipelines: PipelineRow[];
+  apps: App[];
+  isLoading: boolean;
+  onChanged: () => void;
+}
+
+export function PipelinesView({ pipelines, apps, isLoading, onChanged }: PipelinesViewProps) {
+  const { toast } = useToast();
+
+  const appName = (app_id: string) =>
+    apps.find((a) => a.project_id === app_id)?.app_name || app_id;
+
+  const cancelPipeline = async (pipeline: PipelineRow) => {
+    try {
+      const { error } = await supabase
+        .from("cloud_action_pipelines")
+        .update({ status: "canceled", completed_at: new Date().toISOString() })
+        .eq("id", pipeline.id)
+        .in("status", ["scheduled", "running"]);
+      if (error) throw error;
+
+      // Actions that haven't been picked up yet can be canceled along with the pipeline
+      await supabase
+        .from("cloud_actions")
+        .update({ status: "canceled" })
+        .eq("pipeline_id", pipeline.id)
+        .eq("status", "scheduled");
+
+      const openStageIds = pipeline.stages
+        .filter((s) => s.status === "pending" || (s.status === "running" && s.stage_type === "gate"))
+        .map((s) => s.id);
+      if (openStageIds.length > 0) {
+        await supabase
+          .from("cloud_action_pipeline_stages")
+          .update({ status: "skipped" })
+          .in("id", openStageIds);
+      }
+
+      toast({ title: "Pipeline canceled" });
+      onChanged();
+    } catch (e) {
+      toast({ title: "Cancel failed", description: getErrorMessage(e), variant: "destructive" });
+    }
+  };
+
+  const deletePipeline = async (id: string) => {
+    if (!confirm("Are you sure you want to delete this pipeline?")) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from("cloud_action_pipelines").delete().eq("id", id);
+      if (error) throw error;
+      toast({ title: "Pipeline deleted successfully" });
+      onChanged();
+    } catch (e) {
+      toast({ title: "Delete failed", description: getErrorMessage(e), variant: "destructive" });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {Array.from({ length: 2 }).map((_, i) => (
+          <Skeleton key={i} className="h-36 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (pipelines.length === 0) {
+    return (
+      <div className="text-sm text-muted-foreground">
+        No pipelines yet. Create one to chain actions across environments.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {pipelines.map((pipeline) => (
+        <Card key={pipeline.id}>
+          <CardHeader className="pb-3">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <CardTitle className="text-base flex items-center gap-2">
+                  {pipeline.name}
+                  <span className={`px-2 py-1 rounded text-xs font-normal ${statusColor[pipeline.status] || "bg-muted"}`}>
+                    {pipeline.status}
+                  </span>
+                </CardTitle>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {appName(pipeline.app_id)} • Created {new Date(pipeline.created_at).toLocaleString()} by{" "}
+                  {pipeline.creator_name || "Unknown"}
+                  {pipeline.scheduled_for &&
+                    ` • Starts ${new Date(pipeline.scheduled_for).toLocaleString()}`}
+                  {pipeline.completed_at &&
+                    ` • Finished ${new Date(pipeline.completed_at).toLocaleString()}`}
+                </p>
+                {pipeline.error_message && (
+                  <p className="text-xs text-destructive mt-1">{pipeline.error_message}</p>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                {(pipeline.status === "scheduled" || pipeline.status === "running") && (
+                  <Button variant="outline" size="sm" onClick={() => cancelPipeline(pipeline)}>
+                    Cancel
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => deletePipeline(pipeline.id)}
+                  className="text-destructive hover:text-destructive"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-wrap items-stretch gap-2">
+              {pipeline.stages.map((stage, index) => (
+                <Fragment key={stage.id}>
+                  {index > 0 && (
+                    <ChevronRight className="h-4 w-4 self-center text-muted-foreground shrink-0" />
+                  )}
+                  <div className="rounded-md border border-border p-3 min-w-[180px] max-w-[240px] space-y-2">
+                    <div className="flex items-center gap-2 text-sm font-medium">
+                      {stage.stage_type === "gate" && <ShieldCheck className="h-4 w-4 shrink-0" />}
+                      <span className="truncate" title={stage.name}>{stage.name}</span>
+                    </div>
+                    <span className={`inline-block px-2 py-1 rounded text-xs ${statusColor[stage.status] || "bg-muted"}`}>
+                      {stage.status}
+                    </span>
+                    {stage.error_message && (
+                      <p
+                        className={`text-xs ${stage.status === "failed" ? "text-destructive" : "text-muted-foreground"}`}
+                      >
+                        {stage.error_message}
+                      </p>
+                    )}
+                    {stage.action_id && (
+                      <div>
+                        <CloudActionLogsDialog actionId={stage.action_id} />
+                      </div>
+                    )}
+                  </div>
+                </Fragment>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
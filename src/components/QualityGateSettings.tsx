@@ -0,0 +1,373 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "@/hooks/use-toast";
+import { Plus, ShieldAlert, Trash2 } from "lucide-react";
+import { getErrorMessage } from "@/lib/utils";
+
+type GateType = "owasp" | "linting" | "vulnerabilities";
+type Severity = "critical" | "high" | "medium" | "low";
+
+interface QualityGate {
+  id: string;
+  app_id: string;
+  environment_name: string | null;
+  action_types: string[];
+  gate_type: GateType;
+  max_failures: number;
+  max_age_days: number | null;
+  min_severity: Severity;
+  results_environment_name: string | null;
+  is_enabled: boolean;
+}
+
+interface AppOption {
+  project_id: string;
+  app_name: string;
+}
+
+interface EnvOption {
+  app_id: string;
+  environment_name: string;
+}
+
+const ALL = "__all__";
+const DEFAULT_RESULTS_ENV = "__default__";
+const ACTION_TYPES = ["deploy", "transport"];
+
+const gateLabels: Record<GateType, string> = {
+  owasp: "OWASP failed checks",
+  linting: "Linting failed rules",
+  vulnerabilities: "Vulnerability findings",
+};
+
+function describeQualityGate(gate: Pick<QualityGate, "gate_type" | "max_failures" | "max_age_days" | "min_severity">) {
+  const limit =
+    gate.gate_type === "vulnerabilities"
+      ? `≤ ${gate.max_failures} ${gate.min_severity === "critical" ? "critical" : `${gate.min_severity}+`} findings in the latest scan`
+      : `${gate.gate_type === "owasp" ? "failed checks" : "failed rules"} ≤ ${gate.max_failures}`;
+  return gate.max_age_days ? `${limit}, results younger than ${gate.max_age_days} days` : limit;
+}
+
+export default function QualityGateSettings() {
+  const [gates, setGates] = useState<QualityGate[]>([]);
+  const [apps, setApps] = useState<AppOption[]>([]);
+  const [envs, setEnvs] = useState<EnvOption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [appId, setAppId] = useState("");
+  const [environmentName, setEnvironmentName] = useState(ALL);
+  const [gateType, setGateType] = useState<GateType>("owasp");
+  const [maxFailures, setMaxFailures] = useState(0);
+  const [maxAgeDays, setMaxAgeDays] = useState("7");
+  const [minSeverity, setMinSeverity] = useState<Severity>("critical");
+  const [resultsEnvironment, setResultsEnvironment] = useState(DEFAULT_RESULTS_ENV);
+  const [actionTypes, setActionTypes] = useState<string[]>(["deploy", "transport"]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadData = async () => {
+    setIsLoading(true);
+    const [gatesResult, appsResult, envsResult] = await Promise.all([
+      supabase.from("cloud_action_quality_gates").select("*").order("created_at", { ascending: true }),
+      supabase.from("mendix_apps").select("project_id, app_name").order("app_name", { ascending: true }),
+      supabase.from("mendix_environments").select("app_id, environment_name"),
+    ]);
+
+    if (gatesResult.error) {
+      toast({ title: "Error loading quality gates", description: gatesResult.error.message, variant: "destructive" });
+    }
+
+    setGates((gatesResult.data || []) as QualityGate[]);
+    // The same app can be linked through several credentials
+    const uniqueApps = new Map<string, AppOption>();
+    for (const app of (appsResult.data || []) as AppOption[]) {
+      if (app.project_id && !uniqueApps.has(app.project_id)) uniqueApps.set(app.project_id, app);
+    }
+    setApps([...uniqueApps.values()]);
+    setEnvs((envsResult.data || []) as EnvOption[]);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const appName = (id: string) => apps.find((a) => a.project_id === id)?.app_name || id;
+
+  const appEnvironments = [...new Set(envs.filter((e) => e.app_id === appId).map((e) => e.environment_name))];
+
+  const addGate = async () => {
+    if (!appId || actionTypes.length === 0) {
+      toast({ title: "Missing information", description: "Select an app and at least one action type.", variant: "destructive" });
+      return;
+    }
+    const ageDays = maxAgeDays.trim() ? parseInt(maxAgeDays, 10) : null;
+    if (maxFailures < 0 || (ageDays !== null && (isNaN(ageDays) || ageDays <= 0))) {
+      toast({ title: "Invalid thresholds", description: "Use a non-negative limit and a positive age in days.", variant: "destructive" });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase.from("cloud_action_quality_gates").insert({
+        app_id: appId,
+        environment_name: environmentName === ALL ? null : environmentName,
+        action_types: actionTypes,
+        gate_type: gateType,
+        max_failures: maxFailures,
+        max_age_days: ageDays,
+        min_severity: minSeverity,
+        results_environment_name: resultsEnvironment === DEFAULT_RESULTS_ENV ? null : resultsEnvironment,
+        created_by: user?.id ?? null,
+      });
+      if (error) throw error;
+
+      toast({ title: "Quality gate added", description: `${appName(appId)} • ${gateLabels[gateType]}` });
+      loadData();
+    } catch (error) {
+      toast({ title: "Error adding quality gate", description: getErrorMessage(error), variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateGate = async (id: string, patch: Partial<QualityGate>) => {
+    const { error } = await supabase.from("cloud_action_quality_gates").update(patch).eq("id", id);
+    if (error) {
+      toast({ title: "Error updating quality gate", description: error.message, variant: "destructive" });
+      return;
+    }
+    setGates((prev) => prev.map((g) => (g.id === id ? { ...g, ...patch } : g)));
+  };
+
+  const deleteGate = async (id: string) => {
+    if (!confirm("Remove this quality gate?")) {
+      return;
+    }
+    const { error } = await supabase.from("cloud_action_quality_gates").delete().eq("id", id);
+    if (error) {
+      toast({ title: "Error deleting quality gate", description: error.message, variant: "destructive" });
+      return;
+    }
+    setGates((prev) => prev.filter((g) => g.id !== id));
+  };
+
+  const toggleActionType = (types: string[], type: string, checked: boolean) =>
+    checked ? [...types, type] : types.filter((t) => t !== type);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="w-5 h-5" />
+          Pre-deploy Quality Gates
+        </CardTitle>
+        <CardDescription>
+          Deploy and transport actions check these gates right before the package is transported. An action
+          fails with the list of unmet gates when the latest OWASP, linting or vulnerability results don't pass.
+          Missing or outdated results also fail the gate.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-3 items-end">
+          <div className="space-y-2">
+            <Label>Application</Label>
+            <Select
+              value={appId}
+              onValueChange={(v) => {
+                setAppId(v);
+                setEnvironmentName(ALL);
+                setResultsEnvironment(DEFAULT_RESULTS_ENV);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select app" />
+              </SelectTrigger>
+              <SelectContent>
+                {apps.map((a) => (
+                  <SelectItem key={a.project_id} value={a.project_id}>
+                    {a.app_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Protects environment</Label>
+            <Select value={environmentName} onValueChange={setEnvironmentName} disabled={!appId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All environments</SelectItem>
+                {appEnvironments.map((env) => (
+                  <SelectItem key={env} value={env}>
+                    {env}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Gate</Label>
+            <Select value={gateType} onValueChange={(v) => setGateType(v as GateType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(gateLabels) as GateType[]).map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {gateLabels[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Maximum allowed</Label>
+            <Input
+              type="number"
+              min={0}
+              value={maxFailures}
+              onChange={(e) => setMaxFailures(parseInt(e.target.value, 10) || 0)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Results younger than (days)</Label>
+            <Input
+              type="number"
+              min={1}
+              value={maxAgeDays}
+              onChange={(e) => setMaxAgeDays(e.target.value)}
+              placeholder="Any age"
+            />
+          </div>
+          {gateType === "vulnerabilities" ? (
+            <div className="space-y-2">
+              <Label>Count findings of</Label>
+              <Select value={minSeverity} onValueChange={(v) => setMinSeverity(v as Severity)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="critical">Critical severity</SelectItem>
+                  <SelectItem value="high">High or critical</SelectItem>
+                  <SelectItem value="medium">Medium or higher</SelectItem>
+                  <SelectItem value="low">Any severity</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <div />
+          )}
+          {gateType !== "linting" && (
+            <div className="space-y-2">
+              <Label>Check results of</Label>
+              <Select value={resultsEnvironment} onValueChange={setResultsEnvironment} disabled={!appId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_RESULTS_ENV}>Source (transport) or target environment</SelectItem>
+                  {appEnvironments.map((env) => (
+                    <SelectItem key={env} value={env}>
+                      {env}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="flex flex-wrap gap-4">
+            {ACTION_TYPES.map((type) => (
+              <label key={type} className="flex items-center gap-2 text-sm capitalize">
+                <Checkbox
+                  checked={actionTypes.includes(type)}
+                  onCheckedChange={(checked) => setActionTypes((prev) => toggleActionType(prev, type, !!checked))}
+                />
+                {type}
+              </label>
+            ))}
+          </div>
+          <Button onClick={addGate} disabled={isSaving}>
+            <Plus className="mr-2 h-4 w-4" /> Add gate
+          </Button>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Application</TableHead>
+              <TableHead>Environment</TableHead>
+              <TableHead>Gate</TableHead>
+              <TableHead>Applies to</TableHead>
+              <TableHead>Enabled</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {!isLoading && gates.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-sm text-muted-foreground">
+                  No quality gates yet. Packages are transported regardless of scan results.
+                </TableCell>
+              </TableRow>
+            )}
+            {gates.map((gate) => (
+              <TableRow key={gate.id}>
+                <TableCell>{appName(gate.app_id)}</TableCell>
+                <TableCell>{gate.environment_name || "All environments"}</TableCell>
+                <TableCell>
+                  <div className="text-sm font-medium">{gateLabels[gate.gate_type]}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {describeQualityGate(gate)}
+                    {gate.results_environment_name && ` (results of ${gate.results_environment_name})`}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-3">
+                    {ACTION_TYPES.map((type) => (
+                      <label key={type} className="flex items-center gap-1 text-xs capitalize">
+                        <Checkbox
+                          checked={gate.action_types.includes(type)}
+                          onCheckedChange={(checked) =>
+                            updateGate(gate.id, { action_types: toggleActionType(gate.action_types, type, !!checked) })
+                          }
+                        />
+                        {type}
+                      </label>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Switch
+                    checked={gate.is_enabled}
+                    onCheckedChange={(checked) => updateGate(gate.id, { is_enabled: checked })}
+                  />
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => deleteGate(gate.id)}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,264 @@
+import { useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, RefreshCcw } from "lucide-react";
+import { useAppsQuery } from "@/hooks/useAppsQuery";
+import { useMendixOperations } from "@/hooks/useMendixOperations";
+import { useToast } from "@/hooks/use-toast";
+import { queryKeys } from "@/lib/queryKeys";
+import {
+  currentReleases,
+  environmentKey,
+  promotionHistory,
+  sortEnvironments,
+  versionMatches,
+} from "@/lib/releaseMatrix";
+import type { App, ReleaseRow } from "@/types/cloudActions";
+import { getErrorMessage } from "@/lib/utils";
+
+interface ReleaseMatrixViewProps {
+  releases: ReleaseRow[];
+  apps: App[];
+  isLoading: boolean;
+}
+
+const shortId = (id: string | null) => (id ? id.slice(0, 8) : "—");
+
+export function ReleaseMatrixView({ releases, apps, isLoading }: ReleaseMatrixViewProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: appsWithEnvironments = [] } = useAppsQuery();
+  const { refreshEnvironmentStatus } = useMendixOperations();
+  const [selectedAppId, setSelectedAppId] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const appIds = useMemo(
+    () => [...new Set([...releases.map((r) => r.app_id), ...apps.map((a) => a.project_id).filter(Boolean)])],
+    [releases, apps]
+  );
+  const appId = selectedAppId && appIds.includes(selectedAppId) ? selectedAppId : appIds[0] ?? null;
+
+  const appName = (app_id: string) => apps.find((a) => a.project_id === app_id)?.app_name || app_id;
+
+  const app = appsWithEnvironments.find((a) => a.project_id === appId);
+  const environments = app?.environments || [];
+  const appReleases = useMemo(() => releases.filter((r) => r.app_id === appId), [releases, appId]);
+  const current = useMemo(() => currentReleases(appReleases), [appReleases]);
+  const history = useMemo(() => promotionHistory(appReleases), [appReleases]);
+  const environmentNames = sortEnvironments([
+    ...environments.map((e) => e.environment_name),
+    ...appReleases.map((r) => r.environment_name),
+  ]);
+
+  // Pulls the running model/runtime version from Mendix so drift from the release history shows up
+  const refreshEnvironments = async () => {
+    if (!app) return;
+    setRefreshing(true);
+    try {
+      await Promise.all(
+        environments.map((env) =>
+          refreshEnvironmentStatus(app.credential_id, app.app_id || app.app_name, env.environment_id || env.id)
+        )
+      );
+      queryClient.invalidateQueries({ queryKey: queryKeys.appsWithEnvironments });
+      queryClient.invalidateQueries({ queryKey: queryKeys.releases });
+    } catch (e) {
+      toast({ title: "Failed to refresh environments", description: getErrorMessage(e), variant: "destructive" });
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-48 w-full" />
+      </div>
+    );
+  }
+
+  if (!appId) {
+    return <div className="text-sm text-muted-foreground">No apps yet.</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <Select value={appId} onValueChange={setSelectedAppId}>
+          <SelectTrigger className="w-64">
+            <SelectValue placeholder="Select app" />
+          </SelectTrigger>
+          <SelectContent>
+            {appIds.map((id) => (
+              <SelectItem key={id} value={id}>
+                {appName(id)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" onClick={refreshEnvironments} disabled={refreshing || !app}>
+          {refreshing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCcw className="mr-2 h-4 w-4" />}
+          Refresh environments
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">What is running where</h3>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Environment</TableHead>
+              <TableHead>Package</TableHead>
+              <TableHead>Commit</TableHead>
+              <TableHead>Deployed</TableHead>
+              <TableHead>Via</TableHead>
+              <TableHead>Created by</TableHead>
+              <TableHead>Mendix reports</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {environmentNames.map((name) => {
+              const release = current[environmentKey(name)];
+              const env = environments.find((e) => environmentKey(e.environment_name) === environmentKey(name));
+              const matches = versionMatches(release?.version ?? null, env?.model_version);
+              return (
+                <TableRow key={name}>
+                  <TableCell className="font-medium capitalize">{name}</TableCell>
+                  <TableCell className="text-xs">
+                    {release ? (
+                      <>
+                        <div>{release.version || "Unversioned"}</div>
+                        <div className="font-mono text-muted-foreground">{shortId(release.package_id)}</div>
+                      </>
+                    ) : (
+                      "—"
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs max-w-[16rem]">
+                    {release?.revision_id ? (
+                      <div className="truncate" title={release.revision_message || undefined}>
+                        <span className="font-mono">{shortId(release.revision_id)}</span>
+                        {release.branch_name && <span className="text-muted-foreground"> on {release.branch_name}</span>}
+                        {release.revision_message && (
+                          <div className="truncate text-muted-foreground">{release.revision_message}</div>
+                        )}
+                      </div>
+                    ) : (
+                      "—"
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {release ? new Date(release.deployed_at).toLocaleString() : "—"}
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {release ? (
+                      <>
+                        <span className="capitalize">{release.action_type}</span>{" "}
+                        <span className="font-mono text-muted-foreground">{shortId(release.action_id)}</span>
+                        {release.source_environment_name && (
+                          <div className="text-muted-foreground">from {release.source_environment_name}</div>
+                        )}
+                      </>
+                    ) : (
+                      "—"
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs">{release?.creator_name || "—"}</TableCell>
+                  <TableCell className="text-xs">
+                    {env?.model_version ? (
+                      <div className="space-y-1">
+                        <div>
+                          v{env.model_version}
+                          {env.runtime_version && <span className="text-muted-foreground"> • Mendix {env.runtime_version}</span>}
+                        </div>
+                        {matches === false && (
+                          <Badge variant="outline" className="border-amber-500 text-amber-700">
+                            Changed outside cloud actions
+                          </Badge>
+                        )}
+                      </div>
+                    ) : (
+                      "—"
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+            {environmentNames.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} className="text-sm text-muted-foreground">
+                  No environments known for this app.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">Promotion history</h3>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Package</TableHead>
+              <TableHead>Commit</TableHead>
+              {environmentNames.map((name) => (
+                <TableHead key={name} className="capitalize">
+                  {name}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {history.map((pkg) => (
+              <TableRow key={pkg.packageId}>
+                <TableCell className="text-xs">
+                  <div>{pkg.version || "Unversioned"}</div>
+                  <div className="font-mono text-muted-foreground">{shortId(pkg.packageId)}</div>
+                </TableCell>
+                <TableCell className="text-xs max-w-[14rem]">
+                  {pkg.revisionId ? (
+                    <div className="truncate" title={pkg.revisionMessage || undefined}>
+                      <span className="font-mono">{shortId(pkg.revisionId)}</span>
+                      {pkg.branchName && <span className="text-muted-foreground"> on {pkg.branchName}</span>}
+                    </div>
+                  ) : (
+                    "—"
+                  )}
+                </TableCell>
+                {environmentNames.map((name) => {
+                  const landing = pkg.landings[environmentKey(name)];
+                  const isCurrent = landing && current[environmentKey(name)]?.package_id === pkg.packageId;
+                  return (
+                    <TableCell key={name} className="text-xs">
+                      {landing ? (
+                        <div title={`${landing.action_type} by ${landing.creator_name || "unknown"}`}>
+                          {new Date(landing.deployed_at).toLocaleDateString()}
+                          {isCurrent && <Badge className="ml-2">Current</Badge>}
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+            {history.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={environmentNames.length + 2} className="text-sm text-muted-foreground">
+                  No completed deploys or transports yet.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { FileText, Loader2 } from "lucide-react";
+import { commitTitle, generateReleaseNotes } from "@/lib/releaseNotes";
+import type { ReleaseNotes, ReleaseNotesRequest } from "@/lib/releaseNotes";
+import { getErrorMessage } from "@/lib/utils";
+
+interface ReleaseNotesPreviewProps {
+  // null until the form has enough to compute the commit range
+  request: ReleaseNotesRequest | null;
+  // Generate as soon as the request is complete (used for production targets)
+  autoGenerate: boolean;
+  value: ReleaseNotes | null;
+  onChange: (value: ReleaseNotes | null) => void;
+}
+
+export function ReleaseNotesPreview({ request, autoGenerate, value, onChange }: ReleaseNotesPreviewProps) {
+  const [generating, setGenerating] = useState(false);
+  const [generateError, setGenerateError] = useState<string | null>(null);
+  const requestKey = request ? JSON.stringify(request) : null;
+  const latestKey = useRef(requestKey);
+  latestKey.current = requestKey;
+
+  const generate = async () => {
+    if (!request) return;
+    const key = requestKey;
+    setGenerating(true);
+    setGenerateError(null);
+    try {
+      const notes = await generateReleaseNotes(request);
+      // Drop results for a range the user already changed
+      if (latestKey.current === key) onChange(notes);
+    } catch (e) {
+      if (latestKey.current !== key) return;
+      onChange(null);
+      setGenerateError(getErrorMessage(e));
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  // Notes belong to one commit range; requestKey keeps an equal request object from regenerating
+  useEffect(() => {
+    onChange(null);
+    setGenerateError(null);
+    if (requestKey && autoGenerate) generate();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [requestKey, autoGenerate]);
+
+  if (!request) return null;
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <Label>Release notes</Label>
+        <Button type="button" variant="outline" size="sm" onClick={generate} disabled={generating}>
+          {generating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileText className="mr-2 h-4 w-4" />}
+          {value ? "Regenerate" : "Generate"}
+        </Button>
+      </div>
+
+      {generateError && <p className="text-sm text-destructive">{generateError}</p>}
+
+      {value && value.commits.length === 0 && (
+        <p className="text-sm text-muted-foreground">No new commits since the package on the target environment.</p>
+      )}
+
+      {value && value.commits.length > 0 && (
+        <>
+          <p className="text-xs text-muted-foreground">
+            {value.commits.length} commit{value.commits.length === 1 ? "" : "s"}
+            {value.branch ? ` on ${value.branch}` : ""}
+            {value.fromRevision ? ` since ${value.fromRevision.slice(0, 8)}` : ""}
+            {!value.complete && " — the previous release was not found, showing the latest commits"}
+          </p>
+          <Tabs defaultValue={value.byStory.length > 0 ? "stories" : "authors"}>
+            <TabsList>
+              <TabsTrigger value="stories">By story ({value.byStory.length})</TabsTrigger>
+              <TabsTrigger value="authors">By author ({value.byAuthor.length})</TabsTrigger>
+            </TabsList>
+            <TabsContent value="stories" className="max-h-48 overflow-auto text-xs space-y-2">
+              {value.byStory.length === 0 && (
+                <p className="text-muted-foreground">No story references found in the commit messages.</p>
+              )}
+              {value.byStory.map((group) => (
+                <div key={group.story}>
+                  <p className="font-medium">{group.story}</p>
+                  <ul className="list-disc pl-5">
+                    {group.commitIds.map((id) => (
+                      <li key={id}>{commitTitle(value, id)}</li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </TabsContent>
+            <TabsContent value="authors" className="max-h-48 overflow-auto text-xs space-y-2">
+              {value.byAuthor.map((group) => (
+                <div key={group.author}>
+                  <p className="font-medium">
+                    {group.author} ({group.commitIds.length})
+                  </p>
+                  <ul className="list-disc pl-5">
+                    {group.commitIds.map((id) => (
+                      <li key={id}>{commitTitle(value, id)}</li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </TabsContent>
+          </Tabs>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { ChevronDown, ChevronRight, Trash2 } from "lucide-react";
+import { describeRetryPolicy, MAX_ATTEMPTS_LIMIT, RETRY_ERROR_CLASSES } from "@/lib/cloudActionRetry";
+import type { RetryErrorClass, RetryPolicy } from "@/lib/cloudActionRetry";
+import { ACTION_STEPS, stepLabel } from "@/lib/cloudActionSteps";
+
+interface RetryPolicyFieldsProps {
+  value: RetryPolicy;
+  onChange: (value: RetryPolicy) => void;
+  actionType: string;
+}
+
+const toNumber = (raw: string, fallback: number) => {
+  const n = Number(raw);
+  return raw === "" || Number.isNaN(n) ? fallback : n;
+};
+
+export function RetryPolicyFields({ value, onChange, actionType }: RetryPolicyFieldsProps) {
+  const [open, setOpen] = useState(false);
+  const steps = ACTION_STEPS[actionType] || [];
+  const availableSteps = steps.filter((s) => !value.steps[s]);
+
+  const update = (patch: Partial<RetryPolicy>) => onChange({ ...value, ...patch });
+
+  const toggleErrorClass = (errorClass: RetryErrorClass, checked: boolean) => {
+    const selected = checked ? [...value.retryOn, errorClass] : value.retryOn.filter((c) => c !== errorClass);
+    // Keep the canonical order so unchanged policies still compare equal to the defaults
+    update({ retryOn: RETRY_ERROR_CLASSES.map((c) => c.value).filter((c) => selected.includes(c)) });
+  };
+
+  const updateStep = (step: string, patch: { maxAttempts?: number; baseDelaySeconds?: number }) =>
+    update({ steps: { ...value.steps, [step]: { ...value.steps[step], ...patch } } });
+
+  const removeStep = (step: string) => {
+    const { [step]: _removed, ...rest } = value.steps;
+    update({ steps: rest });
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="rounded-md border">
+      <CollapsibleTrigger asChild>
+        <Button type="button" variant="ghost" className="w-full justify-between px-3">
+          <span className="flex items-center gap-2">
+            {open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            Retry policy
+          </span>
+          <span className="text-xs font-normal text-muted-foreground">{describeRetryPolicy(value)}</span>
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-4 border-t p-3">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label>Max attempts</Label>
+            <Input
+              type="number"
+              min={1}
+              max={MAX_ATTEMPTS_LIMIT}
+              value={value.maxAttempts}
+              onChange={(e) =>
+                update({ maxAttempts: Math.min(Math.max(toNumber(e.target.value, 1), 1), MAX_ATTEMPTS_LIMIT) })
+              }
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Backoff</Label>
+            <Select value={value.backoff} onValueChange={(v) => update({ backoff: v as RetryPolicy["backoff"] })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="fixed">Fixed delay</SelectItem>
+                <SelectItem value="exponential">Exponential</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>{value.backoff === "exponential" ? "First delay (seconds)" : "Delay (seconds)"}</Label>
+            <Input
+              type="number"
+              min={0}
+              value={value.baseDelaySeconds}
+              onChange={(e) => update({ baseDelaySeconds: Math.max(toNumber(e.target.value, 0), 0) })}
+            />
+          </div>
+          {value.backoff === "exponential" && (
+            <div className="space-y-1">
+              <Label>Max delay (seconds)</Label>
+              <Input
+                type="number"
+                min={0}
+                value={value.maxDelaySeconds}
+                onChange={(e) => update({ maxDelaySeconds: Math.max(toNumber(e.target.value, 0), 0) })}
+              />
+            </div>
+          )}
+        </div>
+
+        <label className="flex items-center gap-2 text-sm">
+          <Switch checked={value.jitter} onCheckedChange={(checked) => update({ jitter: checked })} />
+          Add random jitter to delays
+        </label>
+
+        <div className="space-y-2">
+          <Label>Retry on</Label>
+          <div className="grid grid-cols-2 gap-2">
+            {RETRY_ERROR_CLASSES.map((c) => (
+              <label key={c.value} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={value.retryOn.includes(c.value)}
+                  onCheckedChange={(checked) => toggleErrorClass(c.value, !!checked)}
+                />
+                {c.label}
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Missing credentials, unknown apps and other 4xx errors always fail right away.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Step overrides</Label>
+          {Object.entries(value.steps).map(([step, override]) => (
+            <div key={step} className="grid grid-cols-[1fr_6rem_6rem_auto] items-center gap-2">
+              <span className="truncate text-sm">{stepLabel(step)}</span>
+              <Input
+                type="number"
+                min={1}
+                max={MAX_ATTEMPTS_LIMIT}
+                placeholder="Attempts"
+                value={override.maxAttempts ?? ""}
+                onChange={(e) =>
+                  updateStep(step, {
+                    maxAttempts:
+                      e.target.value === ""
+                        ? undefined
+                        : Math.min(Math.max(toNumber(e.target.value, 1), 1), MAX_ATTEMPTS_LIMIT),
+                  })
+                }
+              />
+              <Input
+                type="number"
+                min={0}
+                placeholder="Delay (s)"
+                value={override.baseDelaySeconds ?? ""}
+                onChange={(e) =>
+                  updateStep(step, {
+                    baseDelaySeconds: e.target.value === "" ? undefined : Math.max(toNumber(e.target.value, 0), 0),
+                  })
+                }
+              />
+              <Button type="button" variant="ghost" size="sm" onClick={() => removeStep(step)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          {availableSteps.length > 0 && (
+            <Select value="" onValueChange={(step) => updateStep(step, { maxAttempts: value.maxAttempts })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Override a step..." />
+              </SelectTrigger>
+              <SelectContent>
+                {availableSteps.map((step) => (
+                  <SelectItem key={step} value={step}>
+                    {stepLabel(step)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
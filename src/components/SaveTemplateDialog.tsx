@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { BookmarkPlus, Loader2 } from "lucide-react";
+import { VERSION_RULES } from "@/lib/cloudActionTemplates";
+import type { TemplateDraft, VersionRule } from "@/lib/cloudActionTemplates";
+import { getErrorMessage } from "@/lib/utils";
+
+interface SaveTemplateDialogProps {
+  // Returns null when the form is not valid yet
+  getDraft: () => Promise<TemplateDraft | null>;
+  onSaved?: () => void;
+}
+
+export function SaveTemplateDialog({ getDraft, onSaved }: SaveTemplateDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [name, setName] = useState("");
+  const [versionRule, setVersionRule] = useState<VersionRule>("patch");
+  const [notifyOnSuccess, setNotifyOnSuccess] = useState(true);
+  const [notifyOnFailure, setNotifyOnFailure] = useState(true);
+  const [isShared, setIsShared] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const versioned = draft?.actionType === "deploy" || draft?.actionType === "build";
+
+  const openDialog = async () => {
+    try {
+      const next = await getDraft();
+      if (!next) return;
+      setDraft(next);
+      setOpen(true);
+    } catch (e) {
+      toast({ title: "Cannot save as template", description: getErrorMessage(e), variant: "destructive" });
+    }
+  };
+
+  const save = async () => {
+    if (!draft) return;
+    if (!name.trim()) {
+      toast({ title: "Name required", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const {
+        data: { user },
+        error: userError,
+      } = await supabase.auth.getUser();
+      if (userError || !user) {
+        throw new Error("Authentication required");
+      }
+
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("full_name")
+        .eq("user_id", user.id)
+        .single();
+
+      const { error } = await supabase.from("cloud_action_templates").insert({
+        user_id: user.id,
+        name: name.trim(),
+        app_id: draft.appId,
+        environment_name: draft.environmentName,
+        action_type: draft.actionType,
+        payload: draft.payload,
+        version_rule: versioned ? versionRule : "none",
+        retry_window_minutes: draft.retryWindowMinutes,
+        retry_policy: draft.retryPolicy,
+        lock_policy: draft.lockPolicy,
+        notify_on_success: notifyOnSuccess,
+        notify_on_failure: notifyOnFailure,
+        is_shared: isShared,
+        creator_name: profile?.full_name || user.email || null,
+      });
+      if (error) throw error;
+
+      toast({ title: "Template saved", description: `Use "${name.trim()}" from the Templates tab.` });
+      setName("");
+      setOpen(false);
+      onSaved?.();
+    } catch (e) {
+      toast({ title: "Saving template failed", description: getErrorMessage(e), variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Button type="button" variant="outline" className="w-full" onClick={openDialog}>
+        <BookmarkPlus className="mr-2 h-4 w-4" />
+        Save as template
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save as template</DialogTitle>
+            <DialogDescription>
+              Using the template creates this <span className="capitalize">{draft?.actionType}</span> on{" "}
+              {draft?.environmentName} right away
+              {versioned ? ", built from the latest commit on the branch" : ""}.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 text-sm">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Nightly acceptance deploy" />
+            </div>
+
+            {versioned && (
+              <div className="space-y-2">
+                <Label>Version on each use</Label>
+                <Select value={versionRule} onValueChange={(v) => setVersionRule(v as VersionRule)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {VERSION_RULES.map((rule) => (
+                      <SelectItem key={rule.value} value={rule.value}>
+                        {rule.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Starts from {String(draft?.payload.version)}, then steps past the highest version built for the app.
+                </p>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Email notifications</Label>
+              <label className="flex items-center gap-2">
+                <Checkbox checked={notifyOnSuccess} onCheckedChange={(v) => setNotifyOnSuccess(v === true)} />
+                On success
+              </label>
+              <label className="flex items-center gap-2">
+                <Checkbox checked={notifyOnFailure} onCheckedChange={(v) => setNotifyOnFailure(v === true)} />
+                On failure
+              </label>
+            </div>
+
+            <label className="flex items-start gap-2">
+              <Checkbox checked={isShared} onCheckedChange={(v) => setIsShared(v === true)} className="mt-0.5" />
+              <span>
+                Share with everyone who has access to this app
+                <span className="block text-xs text-muted-foreground">
+                  They run it with their own credential; only you can delete it.
+                </span>
+              </span>
+            </label>
+          </div>
+
+          <DialogFooter>
+            <Button onClick={save} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save template
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
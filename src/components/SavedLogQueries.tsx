@@ -0,0 +1,165 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useSavedLogQueriesQuery } from "@/hooks/useSavedLogQueriesQuery";
+import { queryKeys } from "@/lib/queryKeys";
+import { BookmarkPlus, Loader2, Trash2 } from "lucide-react";
+import { getErrorMessage } from "@/lib/utils";
+
+interface SavedLogQueriesProps {
+  appId: string;
+  // Query in the search box, offered for saving
+  query: string;
+  onSelect: (query: string) => void;
+}
+
+export function SavedLogQueries({ appId, query, onSelect }: SavedLogQueriesProps) {
+  const { data: savedQueries } = useSavedLogQueriesQuery(appId);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState("");
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [isShared, setIsShared] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data }) => setCurrentUserId(data.user?.id ?? null));
+  }, []);
+
+  const selected = savedQueries?.find((q) => q.id === selectedId);
+
+  const select = (id: string) => {
+    setSelectedId(id);
+    const saved = savedQueries?.find((q) => q.id === id);
+    if (saved) onSelect(saved.query);
+  };
+
+  const save = async () => {
+    if (!name.trim()) {
+      toast({ title: "Name required", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const {
+        data: { user },
+        error: userError,
+      } = await supabase.auth.getUser();
+      if (userError || !user) {
+        throw new Error("Authentication required");
+      }
+
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("full_name")
+        .eq("user_id", user.id)
+        .single();
+
+      const { data, error } = await supabase
+        .from("saved_log_queries")
+        .insert({
+          user_id: user.id,
+          app_id: appId,
+          name: name.trim(),
+          query: query.trim(),
+          is_shared: isShared,
+          creator_name: profile?.full_name || user.email || null,
+        })
+        .select("id")
+        .single();
+      if (error) throw error;
+
+      toast({ title: "Query saved", description: name.trim() });
+      await queryClient.invalidateQueries({ queryKey: queryKeys.savedLogQueries(appId) });
+      setSelectedId(data.id);
+      setName("");
+      setIsShared(false);
+      setSaveOpen(false);
+    } catch (e) {
+      toast({ title: "Saving query failed", description: getErrorMessage(e), variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async () => {
+    if (!selected) return;
+    const { error } = await supabase.from("saved_log_queries").delete().eq("id", selected.id);
+    if (error) {
+      toast({ title: "Delete failed", description: error.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Query deleted", description: selected.name });
+    setSelectedId("");
+    queryClient.invalidateQueries({ queryKey: queryKeys.savedLogQueries(appId) });
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Select value={selectedId} onValueChange={select}>
+        <SelectTrigger className="w-48 h-9">
+          <SelectValue placeholder="Saved queries" />
+        </SelectTrigger>
+        <SelectContent>
+          {(savedQueries || []).length === 0 && (
+            <div className="px-2 py-1.5 text-sm text-muted-foreground">No saved queries</div>
+          )}
+          {(savedQueries || []).map((saved) => (
+            <SelectItem key={saved.id} value={saved.id}>
+              {saved.name}
+              {saved.user_id !== currentUserId && (
+                <span className="ml-1 text-xs text-muted-foreground">by {saved.creator_name || "a teammate"}</span>
+              )}
+              {saved.user_id === currentUserId && saved.is_shared && (
+                <span className="ml-1 text-xs text-muted-foreground">(shared)</span>
+              )}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {selected && selected.user_id === currentUserId && (
+        <Button variant="outline" size="sm" className="h-9" onClick={remove} title="Delete saved query">
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      )}
+
+      <Popover open={saveOpen} onOpenChange={setSaveOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="h-9" disabled={!query.trim()}>
+            <BookmarkPlus className="w-4 h-4 mr-2" />
+            Save
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-80 space-y-3" align="end">
+          <div className="space-y-2">
+            <Label>Name</Label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="REST errors in production" />
+            <p className="text-xs text-muted-foreground font-mono break-all">{query.trim()}</p>
+          </div>
+          <label className="flex items-start gap-2 text-sm">
+            <Checkbox checked={isShared} onCheckedChange={(v) => setIsShared(v === true)} className="mt-0.5" />
+            <span>
+              Share with everyone who has access to this app
+              <span className="block text-xs text-muted-foreground">Only you can delete it.</span>
+            </span>
+          </label>
+          <Button size="sm" className="w-full" onClick={save} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save query
+          </Button>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { TablesUpdate } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Pause, Play, SkipForward, Trash2, Undo2 } from "lucide-react";
+import { CloudActionTableSkeleton } from "@/components/CloudActionTableSkeleton";
+import { nextCronOccurrence, upcomingCronOccurrences } from "@/lib/cron";
+import { getErrorMessage } from "@/lib/utils";
+import type { App, ScheduleRow } from "@/types/cloudActions";
+
+interface SchedulesViewProps {
+  schedules: ScheduleRow[];
+  apps: App[];
+  isLoading: boolean;
+  onChanged: () => void;
+}
+
+const UPCOMING_COUNT = 3;
+
+const scheduleState = (schedule: ScheduleRow) => {
+  if (schedule.is_paused) return { label: "paused", className: "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200" };
+  if (!schedule.next_run_at) return { label: "ended", className: "bg-slate-100 text-slate-800 dark:bg-slate-900 dark:text-slate-200" };
+  return { label: "active", className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200" };
+};
+
+const upcomingRuns = (schedule: ScheduleRow): Date[] => {
+  if (schedule.is_paused || !schedule.next_run_at) return [];
+  const first = new Date(schedule.next_run_at);
+  try {
+    const rest = upcomingCronOccurrences(
+      schedule.cron_expression,
+      first,
+      schedule.timezone,
+      UPCOMING_COUNT - 1,
+      schedule.ends_at ? new Date(schedule.ends_at) : null
+    );
+    return [first, ...rest];
+  } catch {
+    return [first];
+  }
+};
+
+export function SchedulesView({ schedules, apps, isLoading, onChanged }: SchedulesViewProps) {
+  const { toast } = useToast();
+
+  const appName = (app_id: string) =>
+    apps.find((a) => a.project_id === app_id)?.app_name || app_id;
+
+  const updateSchedule = async (id: string, patch: TablesUpdate<"cloud_action_schedules">, successTitle: string) => {
+    try {
+      const { error } = await supabase.from("cloud_action_schedules").update(patch).eq("id", id);
+      if (error) throw error;
+      toast({ title: successTitle });
+      onChanged();
+    } catch (e) {
+      toast({ title: "Update failed", description: getErrorMessage(e), variant: "destructive" });
+    }
+  };
+
+  const pause = (schedule: ScheduleRow) =>
+    updateSchedule(schedule.id, { is_paused: true }, "Schedule paused");
+
+  // Resuming never backfills occurrences missed while paused
+  const resume = (schedule: ScheduleRow) => {
+    let next: Date | null = null;
+    try {
+      next = nextCronOccurrence(schedule.cron_expression, new Date(), schedule.timezone);
+    } catch {
+      next = null;
+    }
+    if (next && schedule.ends_at && next > new Date(schedule.ends_at)) {
+      next = null;
+    }
+    updateSchedule(
+      schedule.id,
+      { is_paused: false, skip_next: false, next_run_at: next ? next.toISOString() : null },
+      next ? `Schedule resumed, next run ${next.toLocaleString()}` : "Schedule resumed (no upcoming runs)"
+    );
+  };
+
+  const toggleSkipNext = (schedule: ScheduleRow) =>
+    updateSchedule(
+      schedule.id,
+      { skip_next: !schedule.skip_next },
+      schedule.skip_next ? "Next run restored" : "Next run will be skipped"
+    );
+
+  const deleteSchedule = async (id: string) => {
+    if (!confirm("Are you sure you want to delete this schedule? Actions it already created are kept.")) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from("cloud_action_schedules").delete().eq("id", id);
+      if (error) throw error;
+      toast({ title: "Schedule deleted successfully" });
+      onChanged();
+    } catch (e) {
+      toast({ title: "Delete failed", description: getErrorMessage(e), variant: "destructive" });
+    }
+  };
+
+  return (
+    <Table>
+      <TableCaption>Recurring schedules and their upcoming runs</TableCaption>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Name</TableHead>
+          <TableHead>App</TableHead>
+          <TableHead>Environment</TableHead>
+          <TableHead>Action</TableHead>
+          <TableHead>Schedule</TableHead>
+          <TableHead>Upcoming</TableHead>
+          <TableHead>Last run</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead className="text-right">Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {isLoading && <CloudActionTableSkeleton rows={3} />}
+        {!isLoading && schedules.length === 0 && (
+          <TableRow>
+            <TableCell colSpan={9}>
+              <div className="text-sm text-muted-foreground">
+                No schedules yet. Create one to run actions on a recurring basis.
+              </div>
+            </TableCell>
+          </TableRow>
+        )}
+        {!isLoading &&
+          schedules.map((schedule) => {
+            const state = scheduleState(schedule);
+            const upcoming = upcomingRuns(schedule);
+            return (
+              <TableRow key={schedule.id}>
+                <TableCell>
+                  <div className="font-medium">{schedule.name}</div>
+                  <div className="text-xs text-muted-foreground">{schedule.creator_name || "Unknown"}</div>
+                </TableCell>
+                <TableCell>{appName(schedule.app_id)}</TableCell>
+                <TableCell>{schedule.environment_name}</TableCell>
+                <TableCell>
+                  <div className="capitalize">{schedule.action_type}</div>
+                  {schedule.action_type === "scale" && (
+                    <div className="text-xs text-muted-foreground">
+                      {schedule.payload?.instances} x {schedule.payload?.memoryPerInstance} MB
+                    </div>
+                  )}
+                  {schedule.action_type === "build" && (
+                    <div className="text-xs text-muted-foreground">
+                      {schedule.payload?.version} from {schedule.payload?.branchName}
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <div className="font-mono text-xs">{schedule.cron_expression}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {schedule.timezone}
+                    {schedule.ends_at && ` • until ${new Date(schedule.ends_at).toLocaleDateString()}`}
+                  </div>
+                </TableCell>
+                <TableCell className="text-xs">
+                  {upcoming.length === 0
+                    ? "—"
+                    : upcoming.map((date, index) => (
+                        <div
+                          key={date.toISOString()}
+                          className={index === 0 && schedule.skip_next ? "line-through text-muted-foreground" : ""}
+                        >
+                          {date.toLocaleString()}
+                          {index === 0 && schedule.skip_next && " (skipped)"}
+                        </div>
+                      ))}
+                </TableCell>
+                <TableCell>
+                  {schedule.last_run_at ? new Date(schedule.last_run_at).toLocaleString() : "—"}
+                </TableCell>
+                <TableCell>
+                  <span className={`px-2 py-1 rounded text-xs ${state.className}`}>{state.label}</span>
+                </TableCell>
+                <TableCell className="text-right space-x-2 whitespace-nowrap">
+                  {schedule.is_paused ? (
+                    <Button variant="outline" size="sm" onClick={() => resume(schedule)}>
+                      <Play className="mr-2 h-4 w-4" /> Resume
+                    </Button>
+                  ) : (
+                    <>
+                      {schedule.next_run_at && (
+                        <Button variant="outline" size="sm" onClick={() => toggleSkipNext(schedule)}>
+                          {schedule.skip_next ? (
+                            <>
+                              <Undo2 className="mr-2 h-4 w-4" /> Unskip
+                            </>
+                          ) : (
+                            <>
+                              <SkipForward className="mr-2 h-4 w-4" /> Skip next
+                            </>
+                          )}
+                        </Button>
+                      )}
+                      <Button variant="outline" size="sm" onClick={() => pause(schedule)}>
+                        <Pause className="mr-2 h-4 w-4" /> Pause
+                      </Button>
+                    </>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => deleteSchedule(schedule.id)}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+      </TableBody>
+    </Table>
+  );
+}
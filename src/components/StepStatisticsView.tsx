@@ -0,0 +1,121 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BACKUP_STEP, BUILD_STEP, failureRate, formatDuration, stepLabel } from "@/lib/cloudActionSteps";
+import type { App, StepStatsRow } from "@/types/cloudActions";
+
+interface StepStatisticsViewProps {
+  stats: StepStatsRow[];
+  apps: App[];
+  isLoading: boolean;
+}
+
+export function StepStatisticsView({ stats, apps, isLoading }: StepStatisticsViewProps) {
+  const appIds = useMemo(() => [...new Set(stats.map((s) => s.app_id))], [stats]);
+  const [selectedAppId, setSelectedAppId] = useState<string | null>(null);
+  const appId = selectedAppId && appIds.includes(selectedAppId) ? selectedAppId : appIds[0] ?? null;
+
+  const appName = (app_id: string) =>
+    apps.find((a) => a.project_id === app_id)?.app_name || app_id;
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-48 w-full" />
+      </div>
+    );
+  }
+
+  if (!appId) {
+    return (
+      <div className="text-sm text-muted-foreground">
+        No step statistics yet. They are collected as cloud actions run.
+      </div>
+    );
+  }
+
+  const appStats = stats.filter((s) => s.app_id === appId);
+  const build = appStats.find((s) => s.step === BUILD_STEP);
+  const backup = appStats.find((s) => s.step === BACKUP_STEP);
+  const totalRuns = appStats.reduce((sum, s) => sum + s.run_count, 0);
+  const totalFailed = appStats.reduce((sum, s) => sum + s.failed_count, 0);
+
+  const rateLabel = (rate: number | null) => (rate === null ? "—" : `${Math.round(rate * 100)}%`);
+
+  return (
+    <div className="space-y-4">
+      <Select value={appId} onValueChange={setSelectedAppId}>
+        <SelectTrigger className="w-64">
+          <SelectValue placeholder="Select app" />
+        </SelectTrigger>
+        <SelectContent>
+          {appIds.map((id) => (
+            <SelectItem key={id} value={id}>
+              {appName(id)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Median build time</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-semibold">{formatDuration(build?.median_seconds)}</div>
+            <p className="text-xs text-muted-foreground">{build?.succeeded_count ?? 0} builds</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Median backup time</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-semibold">{formatDuration(backup?.median_seconds)}</div>
+            <p className="text-xs text-muted-foreground">{backup?.succeeded_count ?? 0} backups</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Step failure rate</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-semibold">
+              {rateLabel(failureRate({ run_count: totalRuns, failed_count: totalFailed }))}
+            </div>
+            <p className="text-xs text-muted-foreground">{totalRuns} step attempts</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Step</TableHead>
+            <TableHead className="text-right">Attempts</TableHead>
+            <TableHead className="text-right">Median</TableHead>
+            <TableHead className="text-right">90th percentile</TableHead>
+            <TableHead className="text-right">Failure rate</TableHead>
+            <TableHead>Last run</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {appStats.map((s) => (
+            <TableRow key={s.step}>
+              <TableCell>{stepLabel(s.step)}</TableCell>
+              <TableCell className="text-right">{s.run_count}</TableCell>
+              <TableCell className="text-right">{formatDuration(s.median_seconds)}</TableCell>
+              <TableCell className="text-right">{formatDuration(s.p90_seconds)}</TableCell>
+              <TableCell className="text-right">{rateLabel(failureRate(s))}</TableCell>
+              <TableCell>{s.last_run_at ? new Date(s.last_run_at).toLocaleString() : "—"}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
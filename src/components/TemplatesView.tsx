@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Play, Trash2 } from "lucide-react";
+import { CloudActionTableSkeleton } from "@/components/CloudActionTableSkeleton";
+import { createActionFromTemplate } from "@/lib/cloudActionTemplates";
+import type { App, CloudActionTemplateRow } from "@/types/cloudActions";
+import { getErrorMessage } from "@/lib/utils";
+
+interface TemplatesViewProps {
+  templates: CloudActionTemplateRow[];
+  apps: App[];
+  currentUserId: string | null;
+  isLoading: boolean;
+  onChanged: () => void;
+}
+
+export function TemplatesView({ templates, apps, currentUserId, isLoading, onChanged }: TemplatesViewProps) {
+  const { toast } = useToast();
+  const [usingId, setUsingId] = useState<string | null>(null);
+
+  const appName = (app_id: string) =>
+    apps.find((a) => a.project_id === app_id)?.app_name || app_id;
+
+  const runTemplate = async (template: CloudActionTemplateRow) => {
+    setUsingId(template.id);
+    try {
+      const created = await createActionFromTemplate(template);
+      // The approval policy trigger parks actions on protected environments
+      const awaitingApproval = created.status === "pending_approval";
+      toast({
+        title: awaitingApproval ? "Cloud action awaiting approval" : "Cloud action created",
+        description: `${template.name} • ${template.action_type} on ${template.environment_name}`,
+      });
+      onChanged();
+
+      if (!awaitingApproval) {
+        const { error } = await supabase.functions.invoke("run-cloud-actions", {
+          body: { processAllDue: true },
+        });
+        if (error) {
+          console.error("Failed to trigger runner:", error);
+          toast({
+            title: "Action saved but not triggered",
+            description: "You can manually trigger it from the actions list",
+            variant: "destructive",
+          });
+        }
+      }
+    } catch (e) {
+      toast({ title: "Could not use template", description: getErrorMessage(e), variant: "destructive" });
+    } finally {
+      setUsingId(null);
+    }
+  };
+
+  const deleteTemplate = async (id: string) => {
+    if (!confirm("Are you sure you want to delete this template? Actions it already created are kept.")) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from("cloud_action_templates").delete().eq("id", id);
+      if (error) throw error;
+      toast({ title: "Template deleted successfully" });
+      onChanged();
+    } catch (e) {
+      toast({ title: "Delete failed", description: getErrorMessage(e), variant: "destructive" });
+    }
+  };
+
+  return (
+    <Table>
+      <TableCaption>Saved action presets; shared templates are visible to everyone with access to the app</TableCaption>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Name</TableHead>
+          <TableHead>App</TableHead>
+          <TableHead>Environment</TableHead>
+          <TableHead>Action</TableHead>
+          <TableHead>Notifications</TableHead>
+          <TableHead>Sharing</TableHead>
+          <TableHead className="text-right">Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {isLoading && <CloudActionTableSkeleton rows={3} />}
+        {!isLoading && templates.length === 0 && (
+          <TableRow>
+            <TableCell colSpan={7}>
+              <div className="text-sm text-muted-foreground">
+                No templates yet. Save one from the New Cloud Action dialog.
+              </div>
+            </TableCell>
+          </TableRow>
+        )}
+        {!isLoading &&
+          templates.map((template) => {
+            const isOwner = template.user_id === currentUserId;
+            const versioned = template.action_type === "deploy" || template.action_type === "build";
+            return (
+              <TableRow key={template.id}>
+                <TableCell>
+                  <div className="font-medium">{template.name}</div>
+                  <div className="text-xs text-muted-foreground">{template.creator_name || "Unknown"}</div>
+                </TableCell>
+                <TableCell>{appName(template.app_id)}</TableCell>
+                <TableCell>{template.environment_name}</TableCell>
+                <TableCell>
+                  <div className="capitalize">{template.action_type}</div>
+                  {versioned && (
+                    <div className="text-xs text-muted-foreground">
+                      {template.payload?.branchName} • {template.payload?.version}
+                      {template.version_rule !== "none" && ` • next ${template.version_rule} version`}
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell className="text-xs">
+                  {template.notify_on_success && template.notify_on_failure
+                    ? "Success and failure"
+                    : template.notify_on_success
+                      ? "Success only"
+                      : template.notify_on_failure
+                        ? "Failure only"
+                        : "None"}
+                </TableCell>
+                <TableCell>
+                  {template.is_shared ? (
+                    <span className="px-2 py-1 rounded text-xs bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
+                      shared
+                    </span>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">private</span>
+                  )}
+                </TableCell>
+                <TableCell className="text-right space-x-2 whitespace-nowrap">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => runTemplate(template)}
+                    disabled={usingId === template.id}
+                  >
+                    {usingId === template.id ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Play className="mr-2 h-4 w-4" />
+                    )}
+                    Use
+                  </Button>
+                  {isOwner && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => deleteTemplate(template.id)}
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,47 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import type { ActionHistoryRow } from '@/lib/cloudActionAnalytics';
+
+// PostgREST caps a response at 1000 rows
+const PAGE_SIZE = 1000;
+
+const HISTORY_COLUMNS = 'id, app_id, environment_name, action_type, status, created_at, started_at, completed_at, error_message, creator_name';
+
+async function fetchCreatedBetween(table: 'cloud_actions' | 'cloud_action_history', from: string, to: string) {
+  const rows: ActionHistoryRow[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(HISTORY_COLUMNS)
+      .gte('created_at', from)
+      .lte('created_at', to)
+      .order('created_at', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...((data || []) as ActionHistoryRow[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+// Cloud actions created between from and to (inclusive ISO timestamps), oldest first. Finished actions
+// the orchestrator cleaned up come from cloud_action_history.
+export function useActionHistoryQuery(from: string, to: string) {
+  return useQuery({
+    queryKey: queryKeys.actionHistory(from, to),
+    queryFn: async () => {
+      const [current, archived] = await Promise.all([
+        fetchCreatedBetween('cloud_actions', from, to),
+        fetchCreatedBetween('cloud_action_history', from, to),
+      ]);
+      const currentIds = new Set(current.map((r) => r.id));
+      return [...current, ...archived.filter((r) => !currentIds.has(r.id))]
+        .sort((a, b) => a.created_at.localeCompare(b.created_at));
+    },
+    enabled: !!from && !!to,
+    staleTime: 60_000,
+    gcTime: 5 * 60_000,
+  });
+}
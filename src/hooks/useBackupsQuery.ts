@@ -0,0 +1,22 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import { BackupRow } from '@/types/cloudActions';
+
+export function useBackupsQuery(credentialId: string, appId: string, environmentName: string, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.backups(appId, environmentName),
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke('manage-mendix-backups', {
+        body: { action: 'list', credentialId, appId, environmentName },
+      });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Could not load backups');
+      return (data.backups || []) as BackupRow[];
+    },
+    enabled: enabled && !!credentialId && !!appId && !!environmentName,
+    staleTime: 30_000,
+    gcTime: 5 * 60_000,
+  });
+}
@@ -0,0 +1,30 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import { BatchItemRow, BatchRow } from '@/types/cloudActions';
+
+export function useBatchesQuery() {
+  return useQuery({
+    queryKey: queryKeys.batches,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('cloud_action_batches')
+        .select('*, cloud_actions(id, app_id, environment_name, status, scheduled_for, started_at, completed_at, error_message)')
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+
+      return (data || []).map(({ cloud_actions, ...batch }) => ({
+        ...batch,
+        items: ((cloud_actions || []) as BatchItemRow[])
+          .slice()
+          .sort((a, b) => a.app_id.localeCompare(b.app_id) || a.environment_name.localeCompare(b.environment_name)),
+      })) as BatchRow[];
+    },
+    staleTime: 10_000,
+    gcTime: 5 * 60_000,
+    // Items start as concurrency slots free up on the orchestrator's cron cycle
+    refetchInterval: 15_000,
+  });
+}
@@ -10,7 +10,7 @@ export function useCloudActionsQuery() {
       const [actionsResult, appsResult] = await Promise.all([
         supabase
           .from('cloud_actions')
-          .select('*')
+          .select('*, cloud_action_approvals(decider_name, decision, comment, created_at)')
           .order('created_at', { ascending: false })
           .limit(200),
         supabase
@@ -19,7 +19,7 @@ export function useCloudActionsQuery() {
       ]);
 
       return {
-        actions: (actionsResult.data || []) as CloudActionRow[],
+        actions: (actionsResult.data || []) as unknown as CloudActionRow[],
         apps: (appsResult.data || []) as App[]
       };
     },
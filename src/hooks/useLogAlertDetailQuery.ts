@@ -0,0 +1,31 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import type { LogAlertAssignee, LogAlertEventRow } from '@/lib/logAlerts';
+
+// Audit trail of an alert and the people it can be assigned to
+export function useLogAlertDetailQuery(alertId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.logAlertDetail(alertId || ''),
+    queryFn: async () => {
+      const [events, assignees] = await Promise.all([
+        supabase
+          .from('log_alert_events')
+          .select('id, actor_id, actor_name, event_type, details, created_at')
+          .eq('alert_id', alertId!)
+          .order('created_at', { ascending: false }),
+        supabase.rpc('get_log_alert_assignees', { _alert_id: alertId! }),
+      ]);
+
+      if (events.error) throw events.error;
+      if (assignees.error) throw assignees.error;
+      return {
+        events: (events.data || []) as LogAlertEventRow[],
+        assignees: (assignees.data || []) as LogAlertAssignee[],
+      };
+    },
+    enabled: !!alertId,
+    staleTime: 15_000,
+    gcTime: 5 * 60_000,
+  });
+}
@@ -0,0 +1,22 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import type { LogAlertRuleRow } from '@/lib/logAlertRules';
+
+// All of the user's alert rules; the settings screen groups them per environment
+export function useLogAlertRulesQuery() {
+  return useQuery({
+    queryKey: queryKeys.logAlertRules,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('log_alert_rules')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as LogAlertRuleRow[];
+    },
+    staleTime: 30_000,
+    gcTime: 5 * 60_000,
+  });
+}
@@ -0,0 +1,59 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import type { LogAlertRow } from '@/lib/logAlerts';
+
+const RESOLVED_LIMIT = 100;
+
+// Active alerts of every environment the user can see, plus the most recently resolved ones
+export function useLogAlertsQuery() {
+  return useQuery({
+    queryKey: queryKeys.logAlerts,
+    queryFn: async () => {
+      const [active, resolved] = await Promise.all([
+        supabase
+          .from('log_monitoring_alerts')
+          .select('*, log_alert_rules(name)')
+          .neq('status', 'resolved')
+          .order('last_occurred_at', { ascending: false }),
+        supabase
+          .from('log_monitoring_alerts')
+          .select('*, log_alert_rules(name)')
+          .eq('status', 'resolved')
+          .order('resolved_at', { ascending: false })
+          .limit(RESOLVED_LIMIT),
+      ]);
+
+      if (active.error) throw active.error;
+      if (resolved.error) throw resolved.error;
+      const alerts = [...(active.data || []), ...(resolved.data || [])];
+      if (alerts.length === 0) return [] as LogAlertRow[];
+
+      // Alerts reference the environment row; app names come from its project id
+      const { data: environments, error: envError } = await supabase
+        .from('mendix_environments')
+        .select('id, app_id, environment_name')
+        .in('id', [...new Set(alerts.map((a) => a.environment_id))]);
+      if (envError) throw envError;
+
+      const { data: apps, error: appsError } = await supabase
+        .from('mendix_apps')
+        .select('project_id, app_name')
+        .in('project_id', [...new Set((environments || []).map((e) => e.app_id))]);
+      if (appsError) throw appsError;
+
+      return alerts.map(({ log_alert_rules, ...alert }) => {
+        const environment = environments?.find((e) => e.id === alert.environment_id);
+        return {
+          ...alert,
+          rule_name: log_alert_rules?.name || null,
+          environment_name: environment?.environment_name || 'Unknown environment',
+          app_name: apps?.find((a) => a.project_id === environment?.app_id)?.app_name || environment?.app_id || '',
+        };
+      }) as LogAlertRow[];
+    },
+    staleTime: 15_000,
+    gcTime: 5 * 60_000,
+    refetchInterval: 60_000,
+  });
+}
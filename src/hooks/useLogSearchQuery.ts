@@ -0,0 +1,47 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import { mentionsField, parseLogQuery, toPostgrestFilter } from '@/lib/logQuery';
+
+export const LOG_PAGE_SIZE = 100;
+
+export interface MendixLogRow {
+  id: string;
+  timestamp: string;
+  level: string;
+  node: string | null;
+  environment: string;
+  message: string;
+  stacktrace: string | null;
+}
+
+// One page of an app's logs matching a query, newest first. Searches the given environment unless
+// the query filters on environment itself. Relative times (after:2h) are resolved on every fetch.
+export function useLogSearchQuery(appId: string, environment: string, query: string, page: number, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.logSearch(appId, environment, query, page),
+    queryFn: async () => {
+      const parsed = parseLogQuery(query);
+      let request = supabase
+        .from('mendix_logs')
+        .select('id, timestamp, level, node, environment, message, stacktrace')
+        .eq('app_id', appId);
+
+      if (!mentionsField(parsed, 'environment')) request = request.ilike('environment', environment);
+      if (parsed) request = request.or(toPostgrestFilter(parsed));
+
+      // One extra row tells whether there is a next page without counting all matches
+      const from = page * LOG_PAGE_SIZE;
+      const { data, error } = await request
+        .order('timestamp', { ascending: false })
+        .range(from, from + LOG_PAGE_SIZE);
+
+      if (error) throw error;
+      const rows = (data || []) as MendixLogRow[];
+      return { rows: rows.slice(0, LOG_PAGE_SIZE), hasMore: rows.length > LOG_PAGE_SIZE };
+    },
+    enabled: enabled && !!appId,
+    staleTime: 15_000,
+    gcTime: 5 * 60_000,
+  });
+}
@@ -0,0 +1,59 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+
+export const SIGNATURE_TREND_DAYS = 14;
+const TOP_SIGNATURES = 25;
+
+export interface LogSignatureRow {
+  id: string;
+  environment_id: string;
+  app_id: string;
+  environment_name: string;
+  template: string;
+  level: string;
+  sample: string | null;
+  occurrence_count: number;
+  first_seen_at: string;
+  last_seen_at: string;
+  // Occurrences per day over the last SIGNATURE_TREND_DAYS days, oldest first
+  trend: number[];
+}
+
+// Most frequent error signatures across the user's monitored environments, with their daily counts
+export function useLogSignaturesQuery() {
+  return useQuery({
+    queryKey: queryKeys.logSignatures,
+    queryFn: async () => {
+      const { data: signatures, error } = await supabase
+        .from('log_signatures')
+        .select('id, environment_id, app_id, environment_name, template, level, sample, occurrence_count, first_seen_at, last_seen_at')
+        .order('occurrence_count', { ascending: false })
+        .limit(TOP_SIGNATURES);
+
+      if (error) throw error;
+      if (!signatures?.length) return [] as LogSignatureRow[];
+
+      // Daily counts are kept per UTC day
+      const days = Array.from({ length: SIGNATURE_TREND_DAYS }, (_, i) =>
+        new Date(Date.now() - (SIGNATURE_TREND_DAYS - 1 - i) * 86_400_000).toISOString().slice(0, 10),
+      );
+      const { data: counts, error: countsError } = await supabase
+        .from('log_signature_daily_counts')
+        .select('signature_id, day, count')
+        .in('signature_id', signatures.map((s) => s.id))
+        .gte('day', days[0]);
+
+      if (countsError) throw countsError;
+
+      return signatures.map((s) => ({
+        ...s,
+        trend: days.map(
+          (day) => counts?.find((c) => c.signature_id === s.id && c.day === day)?.count || 0,
+        ),
+      })) as LogSignatureRow[];
+    },
+    staleTime: 60_000,
+    gcTime: 5 * 60_000,
+  });
+}
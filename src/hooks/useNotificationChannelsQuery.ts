@@ -0,0 +1,40 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import type { NotificationChannelRow, NotificationDeliveryRow } from '@/lib/notificationChannels';
+
+export function useNotificationChannelsQuery() {
+  return useQuery({
+    queryKey: queryKeys.notificationChannels,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('notification_channels')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as NotificationChannelRow[];
+    },
+    staleTime: 30_000,
+    gcTime: 5 * 60_000,
+  });
+}
+
+// Latest deliveries over all channels and email, so failing destinations stand out
+export function useNotificationDeliveriesQuery(limit = 50) {
+  return useQuery({
+    queryKey: queryKeys.notificationDeliveries,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('notification_deliveries')
+        .select('id, channel_id, channel_type, event_type, status, attempt_count, next_attempt_at, last_error, delivered_at, created_at')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return (data || []) as NotificationDeliveryRow[];
+    },
+    staleTime: 15_000,
+    gcTime: 5 * 60_000,
+  });
+}
@@ -0,0 +1,30 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import { PipelineRow, PipelineStageRow } from '@/types/cloudActions';
+
+export function usePipelinesQuery() {
+  return useQuery({
+    queryKey: queryKeys.pipelines,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('cloud_action_pipelines')
+        .select('*, cloud_action_pipeline_stages(*)')
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+
+      return (data || []).map(({ cloud_action_pipeline_stages, ...pipeline }) => ({
+        ...pipeline,
+        stages: ((cloud_action_pipeline_stages || []) as PipelineStageRow[])
+          .slice()
+          .sort((a, b) => a.stage_order - b.stage_order),
+      })) as PipelineRow[];
+    },
+    staleTime: 10_000,
+    gcTime: 5 * 60_000,
+    // Stages advance on the orchestrator's cron cycle, keep the view moving
+    refetchInterval: 15_000,
+  });
+}
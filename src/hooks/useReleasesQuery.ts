@@ -0,0 +1,21 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import { ReleaseRow } from '@/types/cloudActions';
+
+export function useReleasesQuery() {
+  return useQuery({
+    queryKey: queryKeys.releases,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('cloud_action_releases')
+        .select('*')
+        .order('deployed_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as ReleaseRow[];
+    },
+    staleTime: 60_000,
+    gcTime: 5 * 60_000,
+  });
+}
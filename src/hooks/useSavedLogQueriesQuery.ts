@@ -0,0 +1,35 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+
+export interface SavedLogQueryRow {
+  id: string;
+  user_id: string;
+  app_id: string;
+  name: string;
+  query: string;
+  is_shared: boolean;
+  creator_name: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Own saved log queries for the app and the ones teammates shared on it (RLS)
+export function useSavedLogQueriesQuery(appId: string) {
+  return useQuery({
+    queryKey: queryKeys.savedLogQueries(appId),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('saved_log_queries')
+        .select('*')
+        .eq('app_id', appId)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as SavedLogQueryRow[];
+    },
+    enabled: !!appId,
+    staleTime: 30_000,
+    gcTime: 5 * 60_000,
+  });
+}
@@ -0,0 +1,23 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import { ScheduleRow } from '@/types/cloudActions';
+
+export function useSchedulesQuery() {
+  return useQuery({
+    queryKey: queryKeys.schedules,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('cloud_action_schedules')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as ScheduleRow[];
+    },
+    staleTime: 30_000,
+    gcTime: 5 * 60_000,
+    // next_run_at moves forward on the orchestrator's cron cycle
+    refetchInterval: 60_000,
+  });
+}
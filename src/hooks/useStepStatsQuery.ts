@@ -0,0 +1,22 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import { StepStatsRow } from '@/types/cloudActions';
+
+export function useStepStatsQuery() {
+  return useQuery({
+    queryKey: queryKeys.stepStats,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('cloud_action_step_stats')
+        .select('*')
+        .order('app_id', { ascending: true })
+        .order('step', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as StepStatsRow[];
+    },
+    staleTime: 60_000,
+    gcTime: 5 * 60_000,
+  });
+}
@@ -0,0 +1,22 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import { CloudActionTemplateRow } from '@/types/cloudActions';
+
+// Own templates and the ones shared on apps the user has access to (RLS)
+export function useTemplatesQuery() {
+  return useQuery({
+    queryKey: queryKeys.templates,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('cloud_action_templates')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as CloudActionTemplateRow[];
+    },
+    staleTime: 30_000,
+    gcTime: 5 * 60_000,
+  });
+}
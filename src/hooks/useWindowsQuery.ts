@@ -0,0 +1,21 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import { CloudActionWindowRow } from '@/types/cloudActions';
+
+export function useWindowsQuery() {
+  return useQuery({
+    queryKey: queryKeys.windows,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('cloud_action_windows')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as CloudActionWindowRow[];
+    },
+    staleTime: 60_000,
+    gcTime: 5 * 60_000,
+  });
+}
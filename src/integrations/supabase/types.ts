@@ -14,6 +14,193 @@ export type Database = {
   }
   public: {
     Tables: {
+      cloud_action_approval_policies: {
+        Row: {
+          action_types: string[]
+          app_id: string
+          created_at: string
+          created_by: string | null
+          environment_name: string
+          id: string
+          is_enabled: boolean
+          updated_at: string
+        }
+        Insert: {
+          action_types?: string[]
+          app_id: string
+          created_at?: string
+          created_by?: string | null
+          environment_name: string
+          id?: string
+          is_enabled?: boolean
+          updated_at?: string
+        }
+        Update: {
+          action_types?: string[]
+          app_id?: string
+          created_at?: string
+          created_by?: string | null
+          environment_name?: string
+          id?: string
+          is_enabled?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      cloud_action_approvals: {
+        Row: {
+          action_id: string
+          comment: string | null
+          created_at: string
+          decided_by: string
+          decider_name: string | null
+          decision: string
+          id: string
+        }
+        Insert: {
+          action_id: string
+          comment?: string | null
+          created_at?: string
+          decided_by: string
+          decider_name?: string | null
+          decision: string
+          id?: string
+        }
+        Update: {
+          action_id?: string
+          comment?: string | null
+          created_at?: string
+          decided_by?: string
+          decider_name?: string | null
+          decision?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cloud_action_approvals_action_id_fkey"
+            columns: ["action_id"]
+            isOneToOne: false
+            referencedRelation: "cloud_actions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cloud_action_batches: {
+        Row: {
+          action_type: string
+          concurrency_limit: number
+          created_at: string
+          creator_name: string | null
+          filters: Json | null
+          id: string
+          name: string
+          scheduled_for: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          action_type: string
+          concurrency_limit?: number
+          created_at?: string
+          creator_name?: string | null
+          filters?: Json | null
+          id?: string
+          name: string
+          scheduled_for?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          action_type?: string
+          concurrency_limit?: number
+          created_at?: string
+          creator_name?: string | null
+          filters?: Json | null
+          id?: string
+          name?: string
+          scheduled_for?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      cloud_action_history: {
+        Row: {
+          action_type: string
+          app_id: string
+          archived_at: string
+          completed_at: string | null
+          created_at: string
+          creator_name: string | null
+          environment_name: string
+          error_message: string | null
+          id: string
+          started_at: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          action_type: string
+          app_id: string
+          archived_at?: string
+          completed_at?: string | null
+          created_at: string
+          creator_name?: string | null
+          environment_name: string
+          error_message?: string | null
+          id: string
+          started_at?: string | null
+          status: string
+          user_id: string
+        }
+        Update: {
+          action_type?: string
+          app_id?: string
+          archived_at?: string
+          completed_at?: string | null
+          created_at?: string
+          creator_name?: string | null
+          environment_name?: string
+          error_message?: string | null
+          id?: string
+          started_at?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      cloud_action_locks: {
+        Row: {
+          acquired_at: string
+          action_id: string
+          app_id: string
+          environment_key: string
+          environment_name: string
+        }
+        Insert: {
+          acquired_at?: string
+          action_id: string
+          app_id: string
+          environment_key: string
+          environment_name: string
+        }
+        Update: {
+          acquired_at?: string
+          action_id?: string
+          app_id?: string
+          environment_key?: string
+          environment_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cloud_action_locks_action_id_fkey"
+            columns: ["action_id"]
+            isOneToOne: false
+            referencedRelation: "cloud_actions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       cloud_action_logs: {
         Row: {
           action_id: string
@@ -41,12 +228,425 @@ export type Database = {
         }
         Relationships: []
       }
+      cloud_action_pipeline_stages: {
+        Row: {
+          action_id: string | null
+          action_type: string | null
+          completed_at: string | null
+          created_at: string
+          environment_name: string | null
+          error_message: string | null
+          id: string
+          name: string
+          payload: Json | null
+          pipeline_id: string
+          stage_order: number
+          stage_type: string
+          started_at: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          action_id?: string | null
+          action_type?: string | null
+          completed_at?: string | null
+          created_at?: string
+          environment_name?: string | null
+          error_message?: string | null
+          id?: string
+          name: string
+          payload?: Json | null
+          pipeline_id: string
+          stage_order: number
+          stage_type?: string
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          action_id?: string | null
+          action_type?: string | null
+          completed_at?: string | null
+          created_at?: string
+          environment_name?: string | null
+          error_message?: string | null
+          id?: string
+          name?: string
+          payload?: Json | null
+          pipeline_id?: string
+          stage_order?: number
+          stage_type?: string
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cloud_action_pipeline_stages_action_id_fkey"
+            columns: ["action_id"]
+            isOneToOne: false
+            referencedRelation: "cloud_actions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cloud_action_pipeline_stages_pipeline_id_fkey"
+            columns: ["pipeline_id"]
+            isOneToOne: false
+            referencedRelation: "cloud_action_pipelines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cloud_action_pipelines: {
+        Row: {
+          app_id: string
+          completed_at: string | null
+          created_at: string
+          creator_name: string | null
+          credential_id: string
+          current_stage: number
+          error_message: string | null
+          id: string
+          name: string
+          scheduled_for: string | null
+          started_at: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          app_id: string
+          completed_at?: string | null
+          created_at?: string
+          creator_name?: string | null
+          credential_id: string
+          current_stage?: number
+          error_message?: string | null
+          id?: string
+          name: string
+          scheduled_for?: string | null
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          app_id?: string
+          completed_at?: string | null
+          created_at?: string
+          creator_name?: string | null
+          credential_id?: string
+          current_stage?: number
+          error_message?: string | null
+          id?: string
+          name?: string
+          scheduled_for?: string | null
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      cloud_action_quality_gates: {
+        Row: {
+          action_types: string[]
+          app_id: string
+          created_at: string
+          created_by: string | null
+          environment_name: string | null
+          gate_type: string
+          id: string
+          is_enabled: boolean
+          max_age_days: number | null
+          max_failures: number
+          min_severity: string
+          results_environment_name: string | null
+          updated_at: string
+        }
+        Insert: {
+          action_types?: string[]
+          app_id: string
+          created_at?: string
+          created_by?: string | null
+          environment_name?: string | null
+          gate_type: string
+          id?: string
+          is_enabled?: boolean
+          max_age_days?: number | null
+          max_failures?: number
+          min_severity?: string
+          results_environment_name?: string | null
+          updated_at?: string
+        }
+        Update: {
+          action_types?: string[]
+          app_id?: string
+          created_at?: string
+          created_by?: string | null
+          environment_name?: string | null
+          gate_type?: string
+          id?: string
+          is_enabled?: boolean
+          max_age_days?: number | null
+          max_failures?: number
+          min_severity?: string
+          results_environment_name?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      cloud_action_schedules: {
+        Row: {
+          action_type: string
+          app_id: string
+          created_at: string
+          creator_name: string | null
+          credential_id: string
+          cron_expression: string
+          ends_at: string | null
+          environment_name: string
+          id: string
+          is_paused: boolean
+          last_action_id: string | null
+          last_run_at: string | null
+          name: string
+          next_run_at: string | null
+          payload: Json | null
+          skip_next: boolean
+          timezone: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          action_type: string
+          app_id: string
+          created_at?: string
+          creator_name?: string | null
+          credential_id: string
+          cron_expression: string
+          ends_at?: string | null
+          environment_name: string
+          id?: string
+          is_paused?: boolean
+          last_action_id?: string | null
+          last_run_at?: string | null
+          name: string
+          next_run_at?: string | null
+          payload?: Json | null
+          skip_next?: boolean
+          timezone?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          action_type?: string
+          app_id?: string
+          created_at?: string
+          creator_name?: string | null
+          credential_id?: string
+          cron_expression?: string
+          ends_at?: string | null
+          environment_name?: string
+          id?: string
+          is_paused?: boolean
+          last_action_id?: string | null
+          last_run_at?: string | null
+          name?: string
+          next_run_at?: string | null
+          payload?: Json | null
+          skip_next?: boolean
+          timezone?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cloud_action_schedules_last_action_id_fkey"
+            columns: ["last_action_id"]
+            isOneToOne: false
+            referencedRelation: "cloud_actions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cloud_action_step_runs: {
+        Row: {
+          action_id: string
+          action_type: string
+          app_id: string
+          attempt: number
+          created_at: string
+          ended_at: string | null
+          environment_name: string
+          error_message: string | null
+          id: string
+          outcome: string
+          started_at: string
+          step: string
+          user_id: string
+        }
+        Insert: {
+          action_id: string
+          action_type: string
+          app_id: string
+          attempt?: number
+          created_at?: string
+          ended_at?: string | null
+          environment_name: string
+          error_message?: string | null
+          id?: string
+          outcome?: string
+          started_at?: string
+          step: string
+          user_id: string
+        }
+        Update: {
+          action_id?: string
+          action_type?: string
+          app_id?: string
+          attempt?: number
+          created_at?: string
+          ended_at?: string | null
+          environment_name?: string
+          error_message?: string | null
+          id?: string
+          outcome?: string
+          started_at?: string
+          step?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      cloud_action_templates: {
+        Row: {
+          action_type: string
+          app_id: string
+          created_at: string
+          creator_name: string | null
+          environment_name: string
+          id: string
+          is_shared: boolean
+          lock_policy: string
+          name: string
+          notify_on_failure: boolean
+          notify_on_success: boolean
+          payload: Json
+          retry_policy: Json | null
+          retry_window_minutes: number
+          updated_at: string
+          user_id: string
+          version_rule: string
+        }
+        Insert: {
+          action_type: string
+          app_id: string
+          created_at?: string
+          creator_name?: string | null
+          environment_name: string
+          id?: string
+          is_shared?: boolean
+          lock_policy?: string
+          name: string
+          notify_on_failure?: boolean
+          notify_on_success?: boolean
+          payload?: Json
+          retry_policy?: Json | null
+          retry_window_minutes?: number
+          updated_at?: string
+          user_id: string
+          version_rule?: string
+        }
+        Update: {
+          action_type?: string
+          app_id?: string
+          created_at?: string
+          creator_name?: string | null
+          environment_name?: string
+          id?: string
+          is_shared?: boolean
+          lock_policy?: string
+          name?: string
+          notify_on_failure?: boolean
+          notify_on_success?: boolean
+          payload?: Json
+          retry_policy?: Json | null
+          retry_window_minutes?: number
+          updated_at?: string
+          user_id?: string
+          version_rule?: string
+        }
+        Relationships: []
+      }
+      cloud_action_windows: {
+        Row: {
+          action_types: string[]
+          app_id: string | null
+          conflict_behavior: string
+          created_at: string
+          cron_expression: string | null
+          duration_minutes: number | null
+          ends_at: string | null
+          environment_name: string | null
+          id: string
+          name: string
+          starts_at: string | null
+          timezone: string
+          updated_at: string
+          user_id: string
+          window_type: string
+        }
+        Insert: {
+          action_types?: string[]
+          app_id?: string | null
+          conflict_behavior?: string
+          created_at?: string
+          cron_expression?: string | null
+          duration_minutes?: number | null
+          ends_at?: string | null
+          environment_name?: string | null
+          id?: string
+          name: string
+          starts_at?: string | null
+          timezone?: string
+          updated_at?: string
+          user_id: string
+          window_type: string
+        }
+        Update: {
+          action_types?: string[]
+          app_id?: string | null
+          conflict_behavior?: string
+          created_at?: string
+          cron_expression?: string | null
+          duration_minutes?: number | null
+          ends_at?: string | null
+          environment_name?: string | null
+          id?: string
+          name?: string
+          starts_at?: string | null
+          timezone?: string
+          updated_at?: string
+          user_id?: string
+          window_type?: string
+        }
+        Relationships: []
+      }
       cloud_actions: {
         Row: {
           action_type: string
           app_id: string
+          approval_notified_at: string | null
+          approved_at: string | null
+          approved_by: string | null
           attempt_count: number | null
           backup_id: string | null
+          batch_id: string | null
+          cancel_requested_at: string | null
+          cancel_requested_by: string | null
           completed_at: string | null
           created_at: string
           creator_name: string | null
@@ -56,21 +656,37 @@ export type Database = {
           error_message: string | null
           id: string
           last_heartbeat: string | null
+          lock_policy: string
           package_id: string | null
+          pause_requested_at: string | null
+          paused_at: string | null
           payload: Json | null
+          pipeline_id: string | null
+          previous_package_id: string | null
+          queued_reason: string | null
+          release_notes: Json | null
+          retry_policy: Json | null
           retry_until: string | null
+          schedule_id: string | null
           scheduled_for: string | null
           started_at: string | null
           status: string
           step_data: Json | null
+          template_id: string | null
           updated_at: string
           user_id: string
         }
         Insert: {
           action_type: string
           app_id: string
+          approval_notified_at?: string | null
+          approved_at?: string | null
+          approved_by?: string | null
           attempt_count?: number | null
           backup_id?: string | null
+          batch_id?: string | null
+          cancel_requested_at?: string | null
+          cancel_requested_by?: string | null
           completed_at?: string | null
           created_at?: string
           creator_name?: string | null
@@ -80,21 +696,37 @@ export type Database = {
           error_message?: string | null
           id?: string
           last_heartbeat?: string | null
+          lock_policy?: string
           package_id?: string | null
+          pause_requested_at?: string | null
+          paused_at?: string | null
           payload?: Json | null
+          pipeline_id?: string | null
+          previous_package_id?: string | null
+          queued_reason?: string | null
+          release_notes?: Json | null
+          retry_policy?: Json | null
           retry_until?: string | null
+          schedule_id?: string | null
           scheduled_for?: string | null
           started_at?: string | null
           status?: string
           step_data?: Json | null
+          template_id?: string | null
           updated_at?: string
           user_id: string
         }
         Update: {
           action_type?: string
           app_id?: string
+          approval_notified_at?: string | null
+          approved_at?: string | null
+          approved_by?: string | null
           attempt_count?: number | null
           backup_id?: string | null
+          batch_id?: string | null
+          cancel_requested_at?: string | null
+          cancel_requested_by?: string | null
           completed_at?: string | null
           created_at?: string
           creator_name?: string | null
@@ -104,17 +736,56 @@ export type Database = {
           error_message?: string | null
           id?: string
           last_heartbeat?: string | null
+          lock_policy?: string
           package_id?: string | null
+          pause_requested_at?: string | null
+          paused_at?: string | null
           payload?: Json | null
+          pipeline_id?: string | null
+          previous_package_id?: string | null
+          queued_reason?: string | null
+          release_notes?: Json | null
+          retry_policy?: Json | null
           retry_until?: string | null
+          schedule_id?: string | null
           scheduled_for?: string | null
           started_at?: string | null
           status?: string
           step_data?: Json | null
+          template_id?: string | null
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "cloud_actions_pipeline_id_fkey"
+            columns: ["pipeline_id"]
+            isOneToOne: false
+            referencedRelation: "cloud_action_pipelines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cloud_actions_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "cloud_action_schedules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cloud_actions_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "cloud_action_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cloud_actions_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "cloud_action_templates"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       edge_functions: {
         Row: {
@@ -369,44 +1040,198 @@ export type Database = {
         }
         Relationships: []
       }
+      log_alert_events: {
+        Row: {
+          actor_id: string | null
+          actor_name: string | null
+          alert_id: string
+          created_at: string
+          details: string | null
+          event_type: string
+          id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          actor_name?: string | null
+          alert_id: string
+          created_at?: string
+          details?: string | null
+          event_type: string
+          id?: string
+        }
+        Update: {
+          actor_id?: string | null
+          actor_name?: string | null
+          alert_id?: string
+          created_at?: string
+          details?: string | null
+          event_type?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "log_alert_events_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "log_monitoring_alerts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      log_alert_rules: {
+        Row: {
+          condition_type: string
+          created_at: string
+          environment_id: string
+          id: string
+          is_enabled: boolean
+          last_evaluated_at: string | null
+          last_fired_at: string | null
+          levels: string[] | null
+          message_regex: string | null
+          min_count: number
+          name: string
+          node_pattern: string | null
+          severity: string
+          stacktrace_regex: string | null
+          threshold: number
+          updated_at: string
+          user_id: string
+          window_minutes: number
+        }
+        Insert: {
+          condition_type?: string
+          created_at?: string
+          environment_id: string
+          id?: string
+          is_enabled?: boolean
+          last_evaluated_at?: string | null
+          last_fired_at?: string | null
+          levels?: string[] | null
+          message_regex?: string | null
+          min_count?: number
+          name: string
+          node_pattern?: string | null
+          severity?: string
+          stacktrace_regex?: string | null
+          threshold?: number
+          updated_at?: string
+          user_id: string
+          window_minutes?: number
+        }
+        Update: {
+          condition_type?: string
+          created_at?: string
+          environment_id?: string
+          id?: string
+          is_enabled?: boolean
+          last_evaluated_at?: string | null
+          last_fired_at?: string | null
+          levels?: string[] | null
+          message_regex?: string | null
+          min_count?: number
+          name?: string
+          node_pattern?: string | null
+          severity?: string
+          stacktrace_regex?: string | null
+          threshold?: number
+          updated_at?: string
+          user_id?: string
+          window_minutes?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "log_alert_rules_environment_id_fkey"
+            columns: ["environment_id"]
+            isOneToOne: false
+            referencedRelation: "mendix_environments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       log_monitoring_alerts: {
         Row: {
+          acknowledged_at: string | null
           alert_type: string
+          assigned_to: string | null
+          assignee_name: string | null
           created_at: string
+          dedup_key: string | null
           email_sent: boolean
           email_sent_at: string | null
           environment_id: string
           id: string
+          last_occurred_at: string
           log_content: string
           log_entries_count: number
+          occurrence_count: number
+          resolved_at: string | null
+          rule_id: string | null
+          severity: string | null
+          snoozed_until: string | null
+          status: string
+          updated_at: string
           user_id: string
         }
         Insert: {
+          acknowledged_at?: string | null
           alert_type: string
+          assigned_to?: string | null
+          assignee_name?: string | null
           created_at?: string
+          dedup_key?: string | null
           email_sent?: boolean
           email_sent_at?: string | null
           environment_id: string
           id?: string
+          last_occurred_at?: string
           log_content: string
           log_entries_count?: number
+          occurrence_count?: number
+          resolved_at?: string | null
+          rule_id?: string | null
+          severity?: string | null
+          snoozed_until?: string | null
+          status?: string
+          updated_at?: string
           user_id: string
         }
         Update: {
+          acknowledged_at?: string | null
           alert_type?: string
+          assigned_to?: string | null
+          assignee_name?: string | null
           created_at?: string
+          dedup_key?: string | null
           email_sent?: boolean
           email_sent_at?: string | null
           environment_id?: string
           id?: string
+          last_occurred_at?: string
           log_content?: string
           log_entries_count?: number
+          occurrence_count?: number
+          resolved_at?: string | null
+          rule_id?: string | null
+          severity?: string | null
+          snoozed_until?: string | null
+          status?: string
+          updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "log_monitoring_alerts_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "log_alert_rules"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       log_monitoring_settings: {
         Row: {
+          alert_on_new_signature: boolean
           check_interval_minutes: number
           created_at: string
           critical_threshold: number
@@ -420,6 +1245,7 @@ export type Database = {
           whitelist_patterns: Json | null
         }
         Insert: {
+          alert_on_new_signature?: boolean
           check_interval_minutes?: number
           created_at?: string
           critical_threshold?: number
@@ -433,6 +1259,7 @@ export type Database = {
           whitelist_patterns?: Json | null
         }
         Update: {
+          alert_on_new_signature?: boolean
           check_interval_minutes?: number
           created_at?: string
           critical_threshold?: number
@@ -455,6 +1282,91 @@ export type Database = {
           },
         ]
       }
+      log_signature_daily_counts: {
+        Row: {
+          count: number
+          day: string
+          signature_id: string
+        }
+        Insert: {
+          count?: number
+          day: string
+          signature_id: string
+        }
+        Update: {
+          count?: number
+          day?: string
+          signature_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "log_signature_daily_counts_signature_id_fkey"
+            columns: ["signature_id"]
+            isOneToOne: false
+            referencedRelation: "log_signatures"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      log_signatures: {
+        Row: {
+          app_id: string
+          created_at: string
+          environment_id: string
+          environment_name: string
+          first_seen_at: string
+          id: string
+          last_seen_at: string
+          level: string
+          occurrence_count: number
+          sample: string | null
+          signature: string
+          template: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          app_id: string
+          created_at?: string
+          environment_id: string
+          environment_name: string
+          first_seen_at?: string
+          id?: string
+          last_seen_at?: string
+          level?: string
+          occurrence_count?: number
+          sample?: string | null
+          signature: string
+          template: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          app_id?: string
+          created_at?: string
+          environment_id?: string
+          environment_name?: string
+          first_seen_at?: string
+          id?: string
+          last_seen_at?: string
+          level?: string
+          occurrence_count?: number
+          sample?: string | null
+          signature?: string
+          template?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "log_signatures_environment_id_fkey"
+            columns: ["environment_id"]
+            isOneToOne: false
+            referencedRelation: "mendix_environments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       mendix_apps: {
         Row: {
           active_users: number | null
@@ -644,6 +1556,101 @@ export type Database = {
         }
         Relationships: []
       }
+      notification_channels: {
+        Row: {
+          channel_type: string
+          created_at: string
+          events: string[]
+          id: string
+          is_enabled: boolean
+          name: string
+          secret: string
+          updated_at: string
+          url: string
+          user_id: string
+        }
+        Insert: {
+          channel_type: string
+          created_at?: string
+          events?: string[]
+          id?: string
+          is_enabled?: boolean
+          name: string
+          secret?: string
+          updated_at?: string
+          url: string
+          user_id: string
+        }
+        Update: {
+          channel_type?: string
+          created_at?: string
+          events?: string[]
+          id?: string
+          is_enabled?: boolean
+          name?: string
+          secret?: string
+          updated_at?: string
+          url?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notification_deliveries: {
+        Row: {
+          attempt_count: number
+          channel_id: string | null
+          channel_type: string
+          created_at: string
+          delivered_at: string | null
+          event_type: string
+          id: string
+          last_error: string | null
+          next_attempt_at: string
+          payload: Json
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attempt_count?: number
+          channel_id?: string | null
+          channel_type: string
+          created_at?: string
+          delivered_at?: string | null
+          event_type: string
+          id?: string
+          last_error?: string | null
+          next_attempt_at?: string
+          payload: Json
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attempt_count?: number
+          channel_id?: string | null
+          channel_type?: string
+          created_at?: string
+          delivered_at?: string | null
+          event_type?: string
+          id?: string
+          last_error?: string | null
+          next_attempt_at?: string
+          payload?: Json
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_deliveries_channel_id_fkey"
+            columns: ["channel_id"]
+            isOneToOne: false
+            referencedRelation: "notification_channels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notification_email_addresses: {
         Row: {
           cloud_action_notifications_enabled: boolean
@@ -654,8 +1661,10 @@ export type Database = {
           is_active: boolean
           log_monitoring_enabled: boolean
           mailchimp_subaccount: string | null
+          owasp_notifications_enabled: boolean
           updated_at: string
           user_id: string
+          vulnerability_notifications_enabled: boolean
         }
         Insert: {
           cloud_action_notifications_enabled?: boolean
@@ -666,8 +1675,10 @@ export type Database = {
           is_active?: boolean
           log_monitoring_enabled?: boolean
           mailchimp_subaccount?: string | null
+          owasp_notifications_enabled?: boolean
           updated_at?: string
           user_id: string
+          vulnerability_notifications_enabled?: boolean
         }
         Update: {
           cloud_action_notifications_enabled?: boolean
@@ -678,8 +1689,10 @@ export type Database = {
           is_active?: boolean
           log_monitoring_enabled?: boolean
           mailchimp_subaccount?: string | null
+          owasp_notifications_enabled?: boolean
           updated_at?: string
           user_id?: string
+          vulnerability_notifications_enabled?: boolean
         }
         Relationships: []
       }
@@ -1103,6 +2116,42 @@ export type Database = {
         }
         Relationships: []
       }
+      saved_log_queries: {
+        Row: {
+          app_id: string
+          created_at: string
+          creator_name: string | null
+          id: string
+          is_shared: boolean
+          name: string
+          query: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          app_id: string
+          created_at?: string
+          creator_name?: string | null
+          id?: string
+          is_shared?: boolean
+          name: string
+          query: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          app_id?: string
+          created_at?: string
+          creator_name?: string | null
+          id?: string
+          is_shared?: boolean
+          name?: string
+          query?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       system_heartbeat: {
         Row: {
           created_at: string
@@ -1297,9 +2346,68 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      cloud_action_releases: {
+        Row: {
+          action_id: string | null
+          action_type: string | null
+          app_id: string | null
+          branch_name: string | null
+          creator_name: string | null
+          deployed_at: string | null
+          environment_name: string | null
+          package_id: string | null
+          revision_id: string | null
+          revision_message: string | null
+          source_environment_name: string | null
+          user_id: string | null
+          version: string | null
+        }
+        Relationships: []
+      }
+      cloud_action_step_stats: {
+        Row: {
+          app_id: string | null
+          failed_count: number | null
+          last_run_at: string | null
+          median_seconds: number | null
+          p90_seconds: number | null
+          run_count: number | null
+          step: string | null
+          succeeded_count: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      acquire_cloud_action_lock: {
+        Args: {
+          _action_id: string
+          _app_id: string
+          _environment_name: string
+          _stale_minutes?: number
+        }
+        Returns: string
+      }
+      cloud_action_requires_approval: {
+        Args: {
+          _action_type: string
+          _app_id: string
+          _environment_name: string
+        }
+        Returns: boolean
+      }
+      decide_cloud_action_approval: {
+        Args: { _action_id: string; _comment?: string; _decision: string }
+        Returns: undefined
+      }
+      get_log_alert_assignees: {
+        Args: { _alert_id: string }
+        Returns: {
+          email: string
+          full_name: string
+          user_id: string
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -1336,10 +2444,54 @@ export type Database = {
         Args: { env_name: string }
         Returns: string
       }
+      raise_log_alert: {
+        Args: {
+          _alert_type: string
+          _dedup_key: string
+          _environment_id: string
+          _log_content: string
+          _log_entries_count: number
+          _rule_id?: string
+          _severity?: string
+          _user_id: string
+        }
+        Returns: {
+          alert_id: string
+          notify: boolean
+        }[]
+      }
+      record_log_signatures: {
+        Args: {
+          _app_id: string
+          _environment_id: string
+          _environment_name: string
+          _signatures: Json
+          _user_id: string
+        }
+        Returns: string[]
+      }
+      release_stale_cloud_action_locks: {
+        Args: { _stale_minutes?: number }
+        Returns: number
+      }
+      update_log_alert: {
+        Args: {
+          _action: string
+          _alert_id: string
+          _assignee?: string
+          _comment?: string
+          _snoozed_until?: string
+        }
+        Returns: undefined
+      }
       user_has_app_access: {
         Args: { check_app_id: string; check_user_id: string }
         Returns: boolean
       }
+      user_has_log_alert_access: {
+        Args: { _alert_id: string; _user_id: string }
+        Returns: boolean
+      }
     }
     Enums: {
       app_role: "admin" | "user"
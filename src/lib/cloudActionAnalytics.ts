@@ -0,0 +1,211 @@
+// Delivery metrics over cloud action history (deployment frequency, change failure rate, time to
+// deploy, error categories, actions per user) for the analytics page and its CSV export
+import { differenceInCalendarDays } from "date-fns";
+
+export interface ActionHistoryRow {
+  id: string;
+  app_id: string;
+  environment_name: string;
+  action_type: string;
+  status: string;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  error_message: string | null;
+  creator_name: string | null;
+}
+
+// Actions that put a new package on an environment
+export const DEPLOYMENT_ACTION_TYPES = ["deploy", "transport"];
+
+const FAILED_STATUSES = ["failed", "rolled_back", "rejected", "blocked"];
+
+export type ActionOutcome = "succeeded" | "failed" | "canceled" | "in_progress";
+
+export function actionOutcome(status: string): ActionOutcome {
+  if (status === "succeeded") return "succeeded";
+  if (FAILED_STATUSES.includes(status)) return "failed";
+  if (status === "canceled") return "canceled";
+  return "in_progress";
+}
+
+// First match wins; step-specific messages from cloud-action-steps come before the generic HTTP classes
+// (same status parsing as classifyError in the retry policy)
+const ERROR_CATEGORIES: { label: string; pattern: RegExp }[] = [
+  { label: "Freeze or maintenance window", pattern: /^Blocked:/ },
+  { label: "Environment locked", pattern: /locked by/i },
+  { label: "Quality gates", pattern: /quality gate/i },
+  { label: "Package build", pattern: /package (build|creation) failed|package status|Package ID/i },
+  { label: "Environment did not start or scale in time", pattern: /did not reach/i },
+  { label: "Credentials or app setup", pattern: /credential|app slug|Application not found|APP_NOT_FOUND/i },
+  { label: "Environment busy (409)", pattern: /:\s*409(\s|$)/ },
+  { label: "Rate limited (429)", pattern: /:\s*429(\s|$)/ },
+  { label: "Mendix 5xx errors", pattern: /:\s*5\d{2}(\s|$)/ },
+  { label: "Timeouts", pattern: /timed? ?out|timeout|deadline/i },
+  { label: "Network errors", pattern: /fetch failed|network|ECONN|ENOTFOUND|socket|connection/i },
+  { label: "Transport", pattern: /transport/i },
+  { label: "Backup or restore", pattern: /backup|restore/i },
+  { label: "Environment settings", pattern: /settings|constant|scheduled event/i },
+];
+
+export function errorCategory(row: Pick<ActionHistoryRow, "status" | "error_message">): string | null {
+  if (actionOutcome(row.status) !== "failed") return null;
+  if (row.status === "rejected") return "Rejected by approver";
+  // Rollbacks report the failure that triggered them
+  const message = (row.error_message || "").replace(/^Rolled back to package \S+ after failure: /, "");
+  if (!message) return "Unknown";
+  return ERROR_CATEGORIES.find((c) => c.pattern.test(message))?.label || "Other errors";
+}
+
+export function durationSeconds(row: Pick<ActionHistoryRow, "started_at" | "completed_at">): number | null {
+  if (!row.started_at || !row.completed_at) return null;
+  return Math.max(0, (new Date(row.completed_at).getTime() - new Date(row.started_at).getTime()) / 1000);
+}
+
+const mean = (values: number[]) => (values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null);
+
+const median = (values: number[]) => {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Share of finished actions that failed; canceled and unfinished actions are left out
+export function failureRate(rows: ActionHistoryRow[]): number | null {
+  const finished = rows.filter((r) => ["succeeded", "failed"].includes(actionOutcome(r.status)));
+  return finished.length ? finished.filter((r) => actionOutcome(r.status) === "failed").length / finished.length : null;
+}
+
+export interface DeploymentFrequencyRow {
+  app_id: string;
+  environment_name: string;
+  deployments: number;
+  perWeek: number;
+  failureRate: number | null;
+  meanSeconds: number | null;
+  lastDeployedAt: string | null;
+}
+
+export function deploymentFrequency(rows: ActionHistoryRow[], from: Date, to: Date): DeploymentFrequencyRow[] {
+  const weeks = Math.max(differenceInCalendarDays(to, from) + 1, 1) / 7;
+  const groups = new Map<string, ActionHistoryRow[]>();
+  for (const row of rows.filter((r) => DEPLOYMENT_ACTION_TYPES.includes(r.action_type))) {
+    const key = `${row.app_id}\u0000${row.environment_name.toLowerCase()}`;
+    groups.set(key, [...(groups.get(key) || []), row]);
+  }
+
+  return [...groups.values()]
+    .map((group) => {
+      const succeeded = group.filter((r) => r.status === "succeeded");
+      const completed = succeeded.map((r) => r.completed_at).filter((d): d is string => !!d).sort();
+      return {
+        app_id: group[0].app_id,
+        environment_name: group[0].environment_name,
+        deployments: succeeded.length,
+        perWeek: succeeded.length / weeks,
+        failureRate: failureRate(group),
+        meanSeconds: mean(succeeded.map(durationSeconds).filter((d): d is number => d !== null)),
+        lastDeployedAt: completed[completed.length - 1] || null,
+      };
+    })
+    .sort((a, b) => b.deployments - a.deployments || a.environment_name.localeCompare(b.environment_name));
+}
+
+export interface AnalyticsSummary {
+  total: number;
+  deployments: number;
+  deploymentsPerWeek: number;
+  failureRate: number | null;
+  deploymentFailureRate: number | null;
+  meanDeploySeconds: number | null;
+  medianDeploySeconds: number | null;
+}
+
+export function summarize(rows: ActionHistoryRow[], from: Date, to: Date): AnalyticsSummary {
+  const weeks = Math.max(differenceInCalendarDays(to, from) + 1, 1) / 7;
+  const deployments = rows.filter((r) => DEPLOYMENT_ACTION_TYPES.includes(r.action_type));
+  const succeeded = deployments.filter((r) => r.status === "succeeded");
+  const deployDurations = succeeded.map(durationSeconds).filter((d): d is number => d !== null);
+
+  return {
+    total: rows.length,
+    deployments: succeeded.length,
+    deploymentsPerWeek: succeeded.length / weeks,
+    failureRate: failureRate(rows),
+    deploymentFailureRate: failureRate(deployments),
+    meanDeploySeconds: mean(deployDurations),
+    medianDeploySeconds: median(deployDurations),
+  };
+}
+
+export interface CountRow {
+  key: string;
+  total: number;
+  succeeded: number;
+  failed: number;
+}
+
+function countBy(rows: ActionHistoryRow[], keyOf: (row: ActionHistoryRow) => string | null): CountRow[] {
+  const counts = new Map<string, CountRow>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    if (key === null) continue;
+    const count = counts.get(key) || { key, total: 0, succeeded: 0, failed: 0 };
+    count.total++;
+    const outcome = actionOutcome(row.status);
+    if (outcome === "succeeded") count.succeeded++;
+    if (outcome === "failed") count.failed++;
+    counts.set(key, count);
+  }
+  return [...counts.values()].sort((a, b) => b.total - a.total || a.key.localeCompare(b.key));
+}
+
+export const errorCategories = (rows: ActionHistoryRow[]) => countBy(rows, errorCategory);
+
+export const actionsPerUser = (rows: ActionHistoryRow[]) => countBy(rows, (r) => r.creator_name || "Unknown");
+
+export const actionsPerType = (rows: ActionHistoryRow[]) => countBy(rows, (r) => r.action_type);
+
+const csvCell = (value: string | number | null) => {
+  const text = value === null ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One line per action, with the derived duration and error category
+export function actionsToCsv(rows: ActionHistoryRow[], appName: (appId: string) => string): string {
+  const header = [
+    "id",
+    "app",
+    "environment",
+    "action_type",
+    "status",
+    "created_by",
+    "created_at",
+    "started_at",
+    "completed_at",
+    "duration_seconds",
+    "error_category",
+    "error_message",
+  ];
+  const lines = rows.map((r) => {
+    const duration = durationSeconds(r);
+    return [
+      r.id,
+      appName(r.app_id),
+      r.environment_name,
+      r.action_type,
+      r.status,
+      r.creator_name,
+      r.created_at,
+      r.started_at,
+      r.completed_at,
+      duration === null ? null : Math.round(duration),
+      errorCategory(r),
+      r.error_message,
+    ]
+      .map(csvCell)
+      .join(",");
+  });
+  return [header.join(","), ...lines].join("\n");
+}
@@ -0,0 +1,61 @@
+// Helpers for bulk cloud actions (selection filters and aggregated batch progress)
+
+export type EnvironmentType = "production" | "acceptance" | "test" | "sandbox" | "other";
+
+export const ENVIRONMENT_TYPES: EnvironmentType[] = ["production", "acceptance", "test", "sandbox", "other"];
+
+// Mendix Cloud doesn't expose an environment type, so it is derived from the usual naming
+export function environmentType(environmentName: string): EnvironmentType {
+  const name = environmentName.toLowerCase();
+  if (name.includes("sandbox")) return "sandbox";
+  if (name.includes("prod") || name === "live") return "production";
+  if (name.includes("accept") || name.includes("uat") || name.includes("staging")) return "acceptance";
+  if (name.includes("test") || name.includes("qa")) return "test";
+  return "other";
+}
+
+// Case-insensitive glob match where * matches any run of characters; an empty pattern matches everything
+export function matchesNamePattern(value: string, pattern: string): boolean {
+  const trimmed = pattern.trim();
+  if (!trimmed) return true;
+  if (!trimmed.includes("*")) return value.toLowerCase().includes(trimmed.toLowerCase());
+  const regex = trimmed
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${regex}$`, "i").test(value);
+}
+
+export interface BatchProgress {
+  total: number;
+  succeeded: number;
+  failed: number;
+  running: number;
+  waiting: number;
+  canceled: number;
+  done: number;
+  status: "scheduled" | "running" | "succeeded" | "failed" | "canceled";
+}
+
+const FAILED_STATUSES = ["failed", "rolled_back", "rejected", "blocked"];
+
+export function batchProgress(items: { status: string; started_at: string | null }[]): BatchProgress {
+  const count = (predicate: (item: { status: string; started_at: string | null }) => boolean) =>
+    items.filter(predicate).length;
+
+  const succeeded = count((i) => i.status === "succeeded");
+  const failed = count((i) => FAILED_STATUSES.includes(i.status));
+  const canceled = count((i) => i.status === "canceled");
+  const running = count((i) => i.status === "running" || (i.status === "scheduled" && !!i.started_at));
+  const waiting = items.length - succeeded - failed - canceled - running;
+  const done = succeeded + failed + canceled;
+
+  let status: BatchProgress["status"] = "scheduled";
+  if (items.length > 0 && done === items.length) {
+    status = failed > 0 ? "failed" : succeeded > 0 ? "succeeded" : "canceled";
+  } else if (done > 0 || running > 0) {
+    status = "running";
+  }
+
+  return { total: items.length, succeeded, failed, running, waiting, canceled, done, status };
+}
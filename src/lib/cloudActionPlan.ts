@@ -0,0 +1,38 @@
+// Dry-run plans for cloud actions, computed by the plan-cloud-action edge function
+import { supabase } from "@/integrations/supabase/client";
+
+export type PlanCheckStatus = "ok" | "warning" | "blocker";
+
+export interface PlanCheck {
+  name: string;
+  status: PlanCheckStatus;
+  message: string;
+}
+
+export interface PlanStep {
+  step: string;
+  note: string | null;
+}
+
+export interface CloudActionPlan {
+  steps: PlanStep[];
+  checks: PlanCheck[];
+  canRun: boolean;
+}
+
+export interface PlanRequest {
+  actionId?: string;
+  credentialId: string;
+  appId: string;
+  environmentName: string;
+  actionType: string;
+  payload: Record<string, unknown>;
+  scheduledFor: string | null;
+}
+
+export async function planCloudAction(request: PlanRequest): Promise<CloudActionPlan> {
+  const { data, error } = await supabase.functions.invoke("plan-cloud-action", { body: request });
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || "Could not plan the action");
+  return { steps: data.steps || [], checks: data.checks || [], canRun: !!data.canRun };
+}
@@ -0,0 +1,69 @@
+// Retry policy editing for cloud actions; defaults, limits and error classes come from
+// supabase/functions/_shared/cloud-action-retry.ts, which run-cloud-actions-v2 applies
+import { z } from "zod";
+import {
+  DEFAULT_RETRY_POLICY as DEFAULT_RETRY_SETTINGS,
+  MAX_ATTEMPTS_LIMIT,
+  RETRY_ERROR_CLASSES as ERROR_CLASSES,
+} from "../../supabase/functions/_shared/cloud-action-retry.ts";
+import type { RetryErrorClass } from "../../supabase/functions/_shared/cloud-action-retry.ts";
+
+export { MAX_ATTEMPTS_LIMIT };
+export type { RetryErrorClass };
+
+const ERROR_CLASS_LABELS: Record<RetryErrorClass, string> = {
+  server_error: "Mendix 5xx errors",
+  timeout: "Timeouts",
+  environment_busy: "Environment busy (409)",
+  rate_limited: "Rate limited (429)",
+  network: "Network errors",
+  other: "Other errors",
+};
+
+export const RETRY_ERROR_CLASSES = ERROR_CLASSES.map((value) => ({ value, label: ERROR_CLASS_LABELS[value] }));
+
+const retrySettingsShape = {
+  maxAttempts: z.number().int().min(1).max(MAX_ATTEMPTS_LIMIT),
+  backoff: z.enum(["fixed", "exponential"]),
+  baseDelaySeconds: z.number().min(0),
+  maxDelaySeconds: z.number().min(0),
+  jitter: z.boolean(),
+  retryOn: z.array(z.enum(ERROR_CLASSES)),
+};
+
+export const retryPolicySchema = z.object({
+  ...retrySettingsShape,
+  steps: z.record(z.object(retrySettingsShape).partial()),
+});
+
+export type RetryPolicy = z.infer<typeof retryPolicySchema>;
+export type RetryPolicySettings = Omit<RetryPolicy, "steps">;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  ...DEFAULT_RETRY_SETTINGS,
+  retryOn: [...DEFAULT_RETRY_SETTINGS.retryOn],
+  steps: {},
+};
+
+// Stored policies may be partial (or null for actions created before retry policies)
+export function withRetryDefaults(policy: Partial<RetryPolicy> | null | undefined): RetryPolicy {
+  return { ...DEFAULT_RETRY_POLICY, ...(policy || {}), steps: { ...(policy?.steps || {}) } };
+}
+
+// Policies equal to the defaults are stored as null so later default changes apply to them
+export function toStoredRetryPolicy(policy: RetryPolicy): RetryPolicy | null {
+  const steps = Object.fromEntries(Object.entries(policy.steps).filter(([, o]) => Object.keys(o).length > 0));
+  const normalized = { ...policy, steps };
+  return JSON.stringify(normalized) === JSON.stringify(DEFAULT_RETRY_POLICY) ? null : normalized;
+}
+
+export function describeRetryPolicy(policy: Partial<RetryPolicy> | null | undefined): string {
+  const p = withRetryDefaults(policy);
+  const backoff =
+    p.backoff === "exponential" ? `exponential from ${p.baseDelaySeconds}s` : `every ${p.baseDelaySeconds}s`;
+  const overrides = Object.keys(p.steps).length;
+  return (
+    `${p.maxAttempts} attempts, ${backoff}${p.jitter ? " with jitter" : ""}` +
+    (overrides > 0 ? `, ${overrides} step override${overrides > 1 ? "s" : ""}` : "")
+  );
+}
@@ -0,0 +1,75 @@
+// Helpers for the cloud action step timeline (Gantt bars and step statistics)
+import type { StepRunRow, StepStatsRow } from "@/types/cloudActions";
+import { POST_TRANSPORT_STEPS } from "../../supabase/functions/_shared/cloud-action-step-order.ts";
+
+// Steps whose duration is mostly Mendix Cloud doing the work, highlighted in the statistics
+export const BUILD_STEP = "wait_package_build";
+export const BACKUP_STEP = "wait_backup_complete";
+
+// Builds are not tied to an environment; this name keys their locks, windows and approvals
+export const BUILD_ENVIRONMENT_NAME = "Build";
+
+// Steps each action type goes through in cloud-action-steps (rollback steps excluded)
+export const ACTION_STEPS: Record<string, string[]> = {
+  start: ["call_start", "wait_environment_running"],
+  stop: ["call_stop"],
+  restart: ["call_stop", "wait_stopped", "call_start", "wait_environment_running"],
+  deploy: ["create_package", BUILD_STEP, "evaluate_quality_gates", "transport_package", ...POST_TRANSPORT_STEPS],
+  build: ["create_package", BUILD_STEP],
+  transport: ["retrieve_source_package", "evaluate_quality_gates", "transport_package", ...POST_TRANSPORT_STEPS],
+  scale: ["validate_scale", "call_scale", "wait_scaled"],
+  restore: ["validate_restore", "call_stop", "wait_stopped", "restore_backup", "call_start", "wait_environment_running"],
+  configure: ["read_settings", "apply_settings", "call_stop", "wait_stopped", "call_start", "wait_environment_running"],
+};
+
+export function formatDuration(seconds: number | null | undefined): string {
+  if (seconds === null || seconds === undefined || Number.isNaN(seconds)) return "—";
+  const total = Math.max(0, Math.round(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  if (h > 0) return `${h}h ${m}m`;
+  if (m > 0) return `${m}m ${s}s`;
+  return `${s}s`;
+}
+
+export function stepLabel(step: string): string {
+  const label = step.replace(/_/g, " ");
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+export interface TimelineBar {
+  run: StepRunRow;
+  durationSeconds: number;
+  // Position within the action's span, in percent
+  offset: number;
+  width: number;
+}
+
+// Lays out step runs on a shared time axis; runs still in progress extend to now
+export function timelineBars(runs: StepRunRow[], now: Date = new Date()): { bars: TimelineBar[]; totalSeconds: number } {
+  if (runs.length === 0) return { bars: [], totalSeconds: 0 };
+
+  const end = (run: StepRunRow) => (run.ended_at ? new Date(run.ended_at).getTime() : now.getTime());
+  const start = Math.min(...runs.map((r) => new Date(r.started_at).getTime()));
+  const finish = Math.max(...runs.map(end));
+  const span = Math.max(finish - start, 1);
+
+  const bars = runs.map((run) => {
+    const runStart = new Date(run.started_at).getTime();
+    const runEnd = end(run);
+    return {
+      run,
+      durationSeconds: (runEnd - runStart) / 1000,
+      offset: ((runStart - start) / span) * 100,
+      // Keep instant steps visible
+      width: Math.max(((runEnd - runStart) / span) * 100, 0.5),
+    };
+  });
+
+  return { bars, totalSeconds: span / 1000 };
+}
+
+export function failureRate(stats: Pick<StepStatsRow, "run_count" | "failed_count">): number | null {
+  return stats.run_count > 0 ? stats.failed_count / stats.run_count : null;
+}
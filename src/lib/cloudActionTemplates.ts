@@ -0,0 +1,129 @@
+// Cloud action templates: saved presets from the add dialog that create a scheduled action in one click
+import { supabase } from "@/integrations/supabase/client";
+import type { RetryPolicy } from "@/lib/cloudActionRetry";
+import type { CloudActionPayload, CloudActionTemplateRow } from "@/types/cloudActions";
+
+export type VersionRule = "none" | "patch" | "minor";
+
+export const VERSION_RULES: { value: VersionRule; label: string }[] = [
+  { value: "none", label: "Keep the saved version" },
+  { value: "patch", label: "Increment patch (1.2.3 → 1.2.4)" },
+  { value: "minor", label: "Increment minor (1.2.3 → 1.3.0)" },
+];
+
+// What the add dialog hands over when saving its form as a template
+export interface TemplateDraft {
+  appId: string;
+  environmentName: string;
+  actionType: string;
+  // Payload without revision and package, which are picked again on every use
+  payload: CloudActionPayload;
+  retryWindowMinutes: number;
+  retryPolicy: RetryPolicy | null;
+  lockPolicy: "queue" | "reject" | "supersede";
+}
+
+export function parseVersion(version: string | null | undefined): [number, number, number] | null {
+  const match = /^(\d+)\.(\d+)\.(\d+)$/.exec((version || "").trim());
+  return match ? [Number(match[1]), Number(match[2]), Number(match[3])] : null;
+}
+
+export function compareVersions(a: [number, number, number], b: [number, number, number]): number {
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+}
+
+export function bumpVersion(version: [number, number, number], rule: VersionRule): [number, number, number] {
+  if (rule === "minor") return [version[0], version[1] + 1, 0];
+  if (rule === "patch") return [version[0], version[1], version[2] + 1];
+  return version;
+}
+
+// Version for the next use of a template: the saved version while the app never built it or anything
+// higher, otherwise one step past the highest version it built. Raising the saved version therefore takes
+// effect on the next use.
+export function nextTemplateVersion(rule: VersionRule, baseVersion: string, usedVersions: string[]): string {
+  const base = parseVersion(baseVersion);
+  if (rule === "none" || !base) return baseVersion;
+  const used = usedVersions
+    .map(parseVersion)
+    .filter((v): v is [number, number, number] => v !== null)
+    .sort(compareVersions);
+  const highest = used[used.length - 1];
+  if (!highest || compareVersions(base, highest) > 0) return baseVersion;
+  return bumpVersion(highest, rule).join(".");
+}
+
+// Creates a cloud action from a template for the current user, who runs it with their own credential
+// for the app. Deploys and builds take the latest commit on the template's branch.
+export async function createActionFromTemplate(template: CloudActionTemplateRow): Promise<{ id: string; status: string }> {
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+  if (userError || !user) throw new Error("Authentication required");
+
+  const { data: app } = await supabase
+    .from("mendix_apps")
+    .select("credential_id, app_name")
+    .eq("project_id", template.app_id)
+    .eq("user_id", user.id)
+    .limit(1)
+    .maybeSingle();
+  if (!app?.credential_id) throw new Error("You have no credential for this app");
+
+  const payload: CloudActionPayload = {
+    ...(template.payload || {}),
+    notifyOnSuccess: template.notify_on_success,
+    notifyOnFailure: template.notify_on_failure,
+  };
+
+  if (template.action_type === "deploy" || template.action_type === "build") {
+    const { data, error } = await supabase.functions.invoke<{ commits?: { id: string; message: string }[] }>(
+      "get-mendix-commits",
+      { body: { credentialId: app.credential_id, appId: template.app_id, branchName: payload.branchName } }
+    );
+    if (error) throw error;
+    const latest = data?.commits?.[0];
+    if (!latest) throw new Error(`No commits found on ${payload.branchName}`);
+    payload.revisionId = latest.id;
+    payload.revisionMessage = latest.message;
+
+    if (template.version_rule !== "none" && typeof payload.version === "string") {
+      const { data: previous } = await supabase
+        .from("cloud_actions")
+        .select("payload")
+        .eq("app_id", template.app_id)
+        .in("action_type", ["deploy", "build"])
+        .order("created_at", { ascending: false })
+        .limit(50);
+      const usedVersions = (previous || [])
+        .map((a) => (a.payload as CloudActionPayload | null)?.version)
+        .filter((v): v is string => typeof v === "string");
+      payload.version = nextTemplateVersion(template.version_rule, payload.version, usedVersions);
+    }
+  }
+
+  const { data: profile } = await supabase.from("profiles").select("full_name").eq("user_id", user.id).single();
+
+  const { data: created, error: insertError } = await supabase
+    .from("cloud_actions")
+    .insert({
+      user_id: user.id,
+      credential_id: app.credential_id,
+      app_id: template.app_id,
+      environment_name: template.environment_name,
+      action_type: template.action_type,
+      status: "scheduled",
+      scheduled_for: null,
+      retry_until: new Date(Date.now() + template.retry_window_minutes * 60 * 1000).toISOString(),
+      payload,
+      creator_name: profile?.full_name || user.email || null,
+      lock_policy: template.lock_policy,
+      retry_policy: template.retry_policy || null,
+      template_id: template.id,
+    })
+    .select("id, status")
+    .single();
+  if (insertError) throw insertError;
+  return created;
+}
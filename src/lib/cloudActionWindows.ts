@@ -0,0 +1,42 @@
+import { upcomingCronOccurrences } from "@/lib/cron";
+import type { CloudActionWindowRow } from "@/types/cloudActions";
+
+export interface WindowInterval {
+  start: Date;
+  end: Date;
+}
+
+// Cap on recurring occurrences expanded for a single range (a month view needs ~31 for daily windows)
+const MAX_OCCURRENCES = 200;
+
+// Occurrences of `window` that overlap [from, to)
+export function windowIntervals(window: CloudActionWindowRow, from: Date, to: Date): WindowInterval[] {
+  if (window.cron_expression && window.duration_minutes) {
+    const durationMs = window.duration_minutes * 60_000;
+    try {
+      return upcomingCronOccurrences(
+        window.cron_expression,
+        new Date(from.getTime() - durationMs),
+        window.timezone,
+        MAX_OCCURRENCES,
+        to
+      ).map((start) => ({ start, end: new Date(start.getTime() + durationMs) }));
+    } catch {
+      return [];
+    }
+  }
+
+  if (window.starts_at && window.ends_at) {
+    const start = new Date(window.starts_at);
+    const end = new Date(window.ends_at);
+    return start < to && end > from ? [{ start, end }] : [];
+  }
+
+  return [];
+}
+
+export function describeWindowScope(window: CloudActionWindowRow, appName: (id: string) => string): string {
+  const app = window.app_id ? appName(window.app_id) : "All apps";
+  const env = window.environment_name || "all environments";
+  return `${app} • ${env} • ${window.action_types.join(", ")}`;
+}
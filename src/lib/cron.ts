@@ -0,0 +1,4 @@
+// Minimal 5-field cron support for the schedule and window previews. The implementation lives in
+// supabase/functions/_shared/cron-utils.ts, which the orchestrator uses to materialise schedule
+// occurrences, so previews always match what actually runs.
+export * from "../../supabase/functions/_shared/cron-utils.ts";
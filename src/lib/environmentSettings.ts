@@ -0,0 +1,84 @@
+// Helpers for the configure action (Mendix constants and scheduled events)
+import { z } from "zod";
+
+export interface EnvironmentConstant {
+  name: string;
+  value: string;
+  type: string | null;
+  description: string | null;
+}
+
+export interface EnvironmentScheduledEvent {
+  name: string;
+  enabled: boolean;
+  description: string | null;
+}
+
+export interface EnvironmentSettings {
+  constants: EnvironmentConstant[];
+  scheduledEvents: EnvironmentScheduledEvent[];
+}
+
+// Only the settings the user wants changed, keyed by name
+export const desiredSettingsSchema = z.object({
+  constants: z.record(z.string()),
+  scheduledEvents: z.record(z.boolean()),
+});
+
+export type DesiredSettings = z.infer<typeof desiredSettingsSchema>;
+
+export const EMPTY_DESIRED_SETTINGS: DesiredSettings = { constants: {}, scheduledEvents: {} };
+
+export interface SettingDiff {
+  kind: "constant" | "scheduled_event";
+  name: string;
+  from: string | null;
+  to: string;
+}
+
+// Same heuristic cloud-action-steps uses to keep values out of the logs
+const SECRET_CONSTANT_PATTERN = /password|secret|token|apikey|api_key|credential|private/i;
+
+export function isSecretConstant(name: string): boolean {
+  return SECRET_CONSTANT_PATTERN.test(name);
+}
+
+export function desiredSettingsCount(desired: DesiredSettings): number {
+  return Object.keys(desired.constants).length + Object.keys(desired.scheduledEvents).length;
+}
+
+// Current vs. desired values; `from` is null when the current settings are not loaded
+export function settingsDiff(current: EnvironmentSettings | null, desired: DesiredSettings): SettingDiff[] {
+  const mask = (name: string, value: string | null) =>
+    value !== null && isSecretConstant(name) ? "••••••" : value;
+
+  const constants = Object.entries(desired.constants).map(([name, to]) => {
+    const from = current?.constants.find((c) => c.name === name)?.value ?? null;
+    return { kind: "constant" as const, name, from: mask(name, from), to: mask(name, to) as string, changed: from !== to };
+  });
+  const events = Object.entries(desired.scheduledEvents).map(([name, enabled]) => {
+    const event = current?.scheduledEvents.find((e) => e.name === name);
+    return {
+      kind: "scheduled_event" as const,
+      name,
+      from: event ? (event.enabled ? "enabled" : "disabled") : null,
+      to: enabled ? "enabled" : "disabled",
+      changed: event?.enabled !== enabled,
+    };
+  });
+  return [...constants, ...events].filter((d) => d.changed).map(({ changed: _changed, ...diff }) => diff);
+}
+
+export function toConfigurePayload(desired: DesiredSettings) {
+  return {
+    constants: Object.entries(desired.constants).map(([name, value]) => ({ name, value })),
+    scheduledEvents: Object.entries(desired.scheduledEvents).map(([name, enabled]) => ({ name, enabled })),
+  };
+}
+
+export function fromConfigurePayload(payload: ReturnType<typeof toConfigurePayload> | null | undefined): DesiredSettings {
+  return {
+    constants: Object.fromEntries((payload?.constants || []).map((c) => [c.name, c.value])),
+    scheduledEvents: Object.fromEntries((payload?.scheduledEvents || []).map((e) => [e.name, e.enabled])),
+  };
+}
@@ -0,0 +1,104 @@
+// Options, descriptions and validation for log alert rules, evaluated by monitor-environment-logs
+
+export type AlertCondition = "count_above" | "rate_increase" | "absence";
+export type AlertSeverity = "info" | "warning" | "critical";
+
+export interface LogAlertRuleRow {
+  id: string;
+  user_id: string;
+  environment_id: string;
+  name: string;
+  is_enabled: boolean;
+  levels: string[] | null;
+  node_pattern: string | null;
+  message_regex: string | null;
+  stacktrace_regex: string | null;
+  window_minutes: number;
+  condition_type: AlertCondition;
+  threshold: number;
+  min_count: number;
+  severity: AlertSeverity;
+  last_evaluated_at: string | null;
+  last_fired_at: string | null;
+}
+
+export type LogAlertRuleDraft = Omit<LogAlertRuleRow, "id" | "user_id" | "last_evaluated_at" | "last_fired_at">;
+
+// Levels as the webhook stores them in mendix_logs
+export const LOG_LEVELS = ["Debug", "Info", "Warning", "Error", "Critical"];
+
+export const ALERT_CONDITIONS: { value: AlertCondition; label: string }[] = [
+  { value: "count_above", label: "More than N lines" },
+  { value: "rate_increase", label: "Increase vs. last week" },
+  { value: "absence", label: "No matching line (heartbeat)" },
+];
+
+export const ALERT_SEVERITIES: AlertSeverity[] = ["info", "warning", "critical"];
+
+export const ALERT_WINDOWS = [
+  { minutes: 5, label: "5 minutes" },
+  { minutes: 15, label: "15 minutes" },
+  { minutes: 30, label: "30 minutes" },
+  { minutes: 60, label: "1 hour" },
+  { minutes: 180, label: "3 hours" },
+  { minutes: 1440, label: "1 day" },
+  { minutes: 10080, label: "1 week" },
+];
+
+export const emptyRuleDraft = (environmentId: string): LogAlertRuleDraft => ({
+  environment_id: environmentId,
+  name: "",
+  is_enabled: true,
+  levels: ["Error", "Critical"],
+  node_pattern: null,
+  message_regex: null,
+  stacktrace_regex: null,
+  window_minutes: 15,
+  condition_type: "count_above",
+  threshold: 0,
+  min_count: 1,
+  severity: "warning",
+});
+
+const windowLabel = (minutes: number) =>
+  ALERT_WINDOWS.find((w) => w.minutes === minutes)?.label || `${minutes} minutes`;
+
+// e.g. "Error, Critical lines from Rest* matching /timeout/: more than 5 in 15 minutes"
+export function describeRule(rule: LogAlertRuleDraft): string {
+  const filter = [
+    `${rule.levels?.length ? rule.levels.join(", ") : "All"} lines`,
+    rule.node_pattern && `from ${rule.node_pattern}`,
+    rule.message_regex && `matching /${rule.message_regex}/`,
+    rule.stacktrace_regex && `with stacktrace /${rule.stacktrace_regex}/`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+  const window = windowLabel(rule.window_minutes);
+
+  switch (rule.condition_type) {
+    case "count_above":
+      return `${filter}: more than ${rule.threshold} in ${window}`;
+    case "rate_increase":
+      return `${filter}: ${rule.threshold}% more than the same ${window} last week (at least ${rule.min_count})`;
+    case "absence":
+      return `${filter}: none in ${window}`;
+  }
+}
+
+// Regexes run as PostgreSQL POSIX regexes; the JavaScript check catches most mistakes early
+export function validateRule(rule: LogAlertRuleDraft): string | null {
+  if (!rule.name.trim()) return "Name required";
+  for (const [label, pattern] of [
+    ["Message", rule.message_regex],
+    ["Stacktrace", rule.stacktrace_regex],
+  ] as const) {
+    if (!pattern) continue;
+    try {
+      new RegExp(pattern);
+    } catch {
+      return `${label} regex is not valid`;
+    }
+  }
+  if (rule.threshold < 0 || rule.min_count < 0) return "Numbers must be zero or more";
+  return null;
+}
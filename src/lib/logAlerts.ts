@@ -0,0 +1,77 @@
+// Alert incidents raised by log monitoring and the actions that move them through their lifecycle
+
+import type { AlertSeverity } from "@/lib/logAlertRules";
+
+export type AlertStatus = "open" | "acknowledged" | "snoozed" | "resolved";
+export type AlertAction = "acknowledge" | "snooze" | "resolve" | "reopen" | "assign" | "comment";
+
+export interface LogAlertRow {
+  id: string;
+  user_id: string;
+  environment_id: string;
+  alert_type: string;
+  rule_id: string | null;
+  severity: AlertSeverity | null;
+  status: AlertStatus;
+  log_entries_count: number;
+  log_content: string;
+  occurrence_count: number;
+  created_at: string;
+  last_occurred_at: string;
+  snoozed_until: string | null;
+  assigned_to: string | null;
+  assignee_name: string | null;
+  acknowledged_at: string | null;
+  resolved_at: string | null;
+  email_sent: boolean;
+  // From the rule, environment and app, filled in by useLogAlertsQuery
+  rule_name: string | null;
+  environment_name: string;
+  app_name: string;
+}
+
+export interface LogAlertEventRow {
+  id: string;
+  actor_id: string | null;
+  actor_name: string | null;
+  event_type: string;
+  details: string | null;
+  created_at: string;
+}
+
+export interface LogAlertAssignee {
+  user_id: string;
+  full_name: string | null;
+  email: string | null;
+}
+
+// Inbox tabs; "active" is everything that still needs someone
+export const ALERT_STATUS_FILTERS: { value: string; label: string; statuses: AlertStatus[] }[] = [
+  { value: "active", label: "Active", statuses: ["open", "acknowledged", "snoozed"] },
+  { value: "open", label: "Open", statuses: ["open"] },
+  { value: "acknowledged", label: "Acknowledged", statuses: ["acknowledged"] },
+  { value: "snoozed", label: "Snoozed", statuses: ["snoozed"] },
+  { value: "resolved", label: "Resolved", statuses: ["resolved"] },
+];
+
+export const SNOOZE_OPTIONS: { minutes: number; label: string }[] = [
+  { minutes: 60, label: "1 hour" },
+  { minutes: 4 * 60, label: "4 hours" },
+  { minutes: 24 * 60, label: "1 day" },
+  { minutes: 7 * 24 * 60, label: "1 week" },
+];
+
+const ALERT_TYPE_LABELS: Record<string, string> = {
+  rule: "Alert rule",
+  new_signature: "New error signature",
+};
+
+export function alertTitle(alert: LogAlertRow): string {
+  if (alert.alert_type === "rule" && alert.rule_name) return alert.rule_name;
+  return ALERT_TYPE_LABELS[alert.alert_type] || alert.alert_type;
+}
+
+// Snoozed alerts whose snooze ran out stay snoozed until the condition fires again
+export function isSnoozeOver(alert: LogAlertRow, now = new Date()): boolean {
+  return alert.status === "snoozed" && !!alert.snoozed_until && new Date(alert.snoozed_until) <= now;
+}
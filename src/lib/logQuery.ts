@@ -0,0 +1,254 @@
+// Query language for mendix_logs search, compiled to a PostgREST filter so it runs server-side
+//
+//   level:ERROR node:Rest* environment:production   field filters, * is a wildcard
+//   timeout OR "connection reset"                    free text over message, node and level
+//   Exception: http://host                           other word: prefixes are free text too
+//   NOT level:INFO   -node:Scheduler                 negation
+//   (level:ERROR OR level:CRITICAL) message:/dead(lock)?/   grouping and regex (case-insensitive)
+//   after:2026-10-01 before:2h                       time range; absolute dates or 15m / 2h / 7d ago
+
+export const LOG_QUERY_FIELDS = ["level", "node", "environment", "message", "stacktrace"] as const;
+export type LogQueryField = (typeof LOG_QUERY_FIELDS)[number];
+
+const FIELD_ALIASES: Record<string, LogQueryField> = {
+  env: "environment",
+  msg: "message",
+  stack: "stacktrace",
+};
+
+// Prefixes that start a field filter; any other "word:" is free text, e.g. Exception: or http://host
+const FILTER_PREFIXES = new Set<string>([...LOG_QUERY_FIELDS, ...Object.keys(FIELD_ALIASES), "after", "before"]);
+
+// Fields searched by contains; the others match whole values unless the value has a wildcard
+const CONTAINS_FIELDS: LogQueryField[] = ["message", "stacktrace"];
+
+export type LogQueryNode =
+  | { type: "and" | "or"; children: LogQueryNode[] }
+  | { type: "not"; child: LogQueryNode }
+  | { type: "text"; field: LogQueryField | null; value: string; regex: boolean }
+  | { type: "time"; bound: "after" | "before"; at: Date };
+
+export class LogQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LogQueryError";
+  }
+}
+
+type Token =
+  | { kind: "lparen" | "rparen" | "and" | "or" | "not" }
+  | { kind: "term"; field: string | null; value: string; quoted: boolean; regex: boolean };
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  // Reads a "quoted" or /regex/ value starting at the opening delimiter
+  const readDelimited = (close: string) => {
+    let value = "";
+    i++;
+    while (i < input.length && input[i] !== close) {
+      // \" in a phrase and \/ in a regex are the delimiter itself; other escapes are kept for the regex
+      if (input[i] === "\\" && input[i + 1] === close) {
+        value += close;
+        i += 2;
+      } else {
+        value += input[i++];
+      }
+    }
+    if (i >= input.length) throw new LogQueryError(`Missing closing ${close}`);
+    i++;
+    return value;
+  };
+
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === "(" || ch === ")") {
+      tokens.push({ kind: ch === "(" ? "lparen" : "rparen" });
+      i++;
+    } else if (ch === "-" && i + 1 < input.length && !/[\s)]/.test(input[i + 1])) {
+      tokens.push({ kind: "not" });
+      i++;
+    } else {
+      let field: string | null = null;
+      const fieldMatch = /^([A-Za-z]+):/.exec(input.slice(i));
+      if (fieldMatch && FILTER_PREFIXES.has(fieldMatch[1].toLowerCase())) {
+        field = fieldMatch[1].toLowerCase();
+        i += fieldMatch[0].length;
+      }
+
+      if (input[i] === '"') {
+        tokens.push({ kind: "term", field, value: readDelimited('"'), quoted: true, regex: false });
+      } else if (input[i] === "/") {
+        tokens.push({ kind: "term", field, value: readDelimited("/"), quoted: false, regex: true });
+      } else {
+        let value = "";
+        while (i < input.length && !/[\s()]/.test(input[i])) value += input[i++];
+        if (!value) throw new LogQueryError(field ? `Missing value after ${field}:` : `Unexpected "${input[i]}"`);
+        if (!field && (value === "AND" || value === "OR" || value === "NOT")) {
+          tokens.push({ kind: value.toLowerCase() as "and" | "or" | "not" });
+        } else {
+          tokens.push({ kind: "term", field, value, quoted: false, regex: false });
+        }
+      }
+    }
+  }
+  return tokens;
+}
+
+const RELATIVE_TIME = /^(\d+)([mhdw])$/;
+const RELATIVE_UNIT_MS: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 };
+
+function parseTime(value: string, now: Date): Date {
+  const relative = RELATIVE_TIME.exec(value);
+  if (relative) return new Date(now.getTime() - Number(relative[1]) * RELATIVE_UNIT_MS[relative[2]]);
+  // Dates without a time are local midnight, like the date pickers elsewhere
+  const at = new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00:00` : value);
+  if (Number.isNaN(at.getTime())) {
+    throw new LogQueryError(`"${value}" is not a date or a relative time like 15m, 2h or 7d`);
+  }
+  return at;
+}
+
+function termNode(token: Extract<Token, { kind: "term" }>, now: Date): LogQueryNode {
+  if (token.field === "after" || token.field === "before") {
+    if (token.regex) throw new LogQueryError(`${token.field}: takes a date, not a regex`);
+    return { type: "time", bound: token.field, at: parseTime(token.value, now) };
+  }
+
+  // The tokenizer only splits off known prefixes
+  const field = token.field ? FIELD_ALIASES[token.field] || (token.field as LogQueryField) : null;
+
+  if (token.regex) {
+    try {
+      new RegExp(token.value);
+    } catch {
+      throw new LogQueryError(`Invalid regex /${token.value}/`);
+    }
+  }
+  // A quoted phrase is literal, so a * in it is not a wildcard
+  const value = token.quoted ? token.value.replace(/\*/g, "\\*") : token.value;
+  return { type: "text", field, value, regex: token.regex };
+}
+
+export function parseLogQuery(input: string, now: Date = new Date()): LogQueryNode | null {
+  const tokens = tokenize(input);
+  if (tokens.length === 0) return null;
+  let pos = 0;
+
+  const parseOr = (): LogQueryNode => {
+    const children = [parseAnd()];
+    while (tokens[pos]?.kind === "or") {
+      pos++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: "or", children };
+  };
+
+  // Terms next to each other are ANDed
+  const parseAnd = (): LogQueryNode => {
+    const children = [parseUnary()];
+    while (pos < tokens.length && tokens[pos].kind !== "or" && tokens[pos].kind !== "rparen") {
+      if (tokens[pos].kind === "and") pos++;
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: "and", children };
+  };
+
+  const parseUnary = (): LogQueryNode => {
+    const token = tokens[pos];
+    if (!token) throw new LogQueryError("Query ends after an operator");
+    if (token.kind === "not") {
+      pos++;
+      const child = parseUnary();
+      return child.type === "not" ? child.child : { type: "not", child };
+    }
+    if (token.kind === "lparen") {
+      pos++;
+      const inner = parseOr();
+      if (tokens[pos]?.kind !== "rparen") throw new LogQueryError("Missing closing )");
+      pos++;
+      return inner;
+    }
+    if (token.kind === "term") {
+      pos++;
+      return termNode(token, now);
+    }
+    throw new LogQueryError(token.kind === "rparen" ? "Unexpected )" : `Unexpected ${token.kind.toUpperCase()}`);
+  };
+
+  const root = parseOr();
+  if (pos < tokens.length) throw new LogQueryError("Unexpected )");
+  return root;
+}
+
+export function mentionsField(node: LogQueryNode | null, field: LogQueryField): boolean {
+  if (!node) return false;
+  switch (node.type) {
+    case "and":
+    case "or":
+      return node.children.some((child) => mentionsField(child, field));
+    case "not":
+      return mentionsField(node.child, field);
+    case "text":
+      return node.field === field;
+    default:
+      return false;
+  }
+}
+
+// PostgREST logic trees split on , . : ( ) so every value is quoted, with \ and " escaped
+const quote = (value: string) => `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+// ILIKE pattern with * as the wildcard (PostgREST turns every * into %), so % and _ are escaped. That
+// leaves no way to send a literal *: one from a quoted phrase matches any single character instead.
+function likePattern(value: string, contains: boolean): string {
+  const pattern = value.replace(/\\\*|[\\%_]/g, (match) => (match === "\\*" ? "_" : `\\${match}`));
+  return contains ? `*${pattern}*` : pattern;
+}
+
+// Columns that can be NULL; NOT (NULL ILIKE x) is NULL, so negations on them also keep the NULL rows
+const NULLABLE_FIELDS = ["node", "stacktrace"];
+
+// One condition in PostgREST syntax, e.g. level.ilike."ERROR" or level.not.ilike."ERROR"
+function condition(field: string, op: string, value: string, negate: boolean): string {
+  const test = `${field}.${negate ? "not." : ""}${op}.${quote(value)}`;
+  return negate && NULLABLE_FIELDS.includes(field) ? `or(${field}.is.null,${test})` : test;
+}
+
+// Negations are pushed down to the conditions (De Morgan) so the NULL handling above applies everywhere
+function compile(node: LogQueryNode, negate = false): string {
+  switch (node.type) {
+    case "and":
+    case "or": {
+      const type = negate ? (node.type === "and" ? "or" : "and") : node.type;
+      return `${type}(${node.children.map((child) => compile(child, negate)).join(",")})`;
+    }
+    case "not":
+      return compile(node.child, !negate);
+    case "time":
+      return condition("timestamp", node.bound === "after" ? "gte" : "lt", node.at.toISOString(), negate);
+    case "text": {
+      if (!node.field) {
+        if (node.regex) return compile({ ...node, field: "message" }, negate);
+        // Free text looks in the same places the old substring search did
+        const fields = [
+          condition("message", "ilike", likePattern(node.value, true), negate),
+          condition("node", "ilike", likePattern(node.value, true), negate),
+          condition("level", "ilike", likePattern(node.value, false), negate),
+        ];
+        return `${negate ? "and" : "or"}(${fields.join(",")})`;
+      }
+      if (node.regex) return condition(node.field, "imatch", node.value, negate);
+      return condition(node.field, "ilike", likePattern(node.value, CONTAINS_FIELDS.includes(node.field)), negate);
+    }
+  }
+}
+
+// Filter for supabase-js `.or()`: the top level of a PostgREST or=(...) list
+export function toPostgrestFilter(node: LogQueryNode): string {
+  const compiled = compile(node);
+  return node.type === "or" ? compiled.slice("or(".length, -1) : compiled;
+}
@@ -0,0 +1,73 @@
+// Events, channel types and validation for Slack, Teams and webhook notification channels, sent by send-notifications
+
+export type ChannelType = "slack" | "teams" | "webhook";
+export type NotificationEvent = "log_alert" | "cloud_action_success" | "cloud_action_failure" | "owasp_failure" | "new_cve";
+export type DeliveryStatus = "pending" | "delivered" | "failed";
+
+export interface NotificationChannelRow {
+  id: string;
+  user_id: string;
+  name: string;
+  channel_type: ChannelType;
+  url: string;
+  secret: string;
+  events: string[];
+  is_enabled: boolean;
+  created_at: string;
+}
+
+export type NotificationChannelDraft = Pick<NotificationChannelRow, "name" | "channel_type" | "url" | "events" | "is_enabled">;
+
+export interface NotificationDeliveryRow {
+  id: string;
+  channel_id: string | null;
+  channel_type: "email" | ChannelType;
+  event_type: string;
+  status: DeliveryStatus;
+  attempt_count: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  delivered_at: string | null;
+  created_at: string;
+}
+
+export const NOTIFICATION_EVENTS: { value: NotificationEvent; label: string }[] = [
+  { value: "log_alert", label: "Log alerts" },
+  { value: "cloud_action_success", label: "Cloud action succeeded" },
+  { value: "cloud_action_failure", label: "Cloud action failed" },
+  { value: "owasp_failure", label: "OWASP checks failed" },
+  { value: "new_cve", label: "New vulnerabilities" },
+];
+
+export const CHANNEL_TYPES: { value: ChannelType; label: string; placeholder: string }[] = [
+  { value: "slack", label: "Slack", placeholder: "https://hooks.slack.com/services/..." },
+  { value: "teams", label: "Microsoft Teams", placeholder: "https://....webhook.office.com/..." },
+  { value: "webhook", label: "Webhook", placeholder: "https://example.com/hooks/mendix" },
+];
+
+export const channelTypeLabel = (type: string) => CHANNEL_TYPES.find((t) => t.value === type)?.label || type;
+
+export const eventLabel = (event: string) =>
+  event === "test" ? "Test message" : NOTIFICATION_EVENTS.find((e) => e.value === event)?.label || event;
+
+export const emptyChannelDraft = (): NotificationChannelDraft => ({
+  name: "",
+  channel_type: "slack",
+  url: "",
+  events: NOTIFICATION_EVENTS.map((e) => e.value),
+  is_enabled: true,
+});
+
+// The table only accepts https URLs; channels without events would never be used
+export function validateChannel(channel: NotificationChannelDraft): string | null {
+  if (!channel.name.trim()) return "Name required";
+  let url: URL;
+  try {
+    url = new URL(channel.url.trim());
+  } catch {
+    return "URL is not valid";
+  }
+  if (url.protocol !== "https:") return "URL must start with https://";
+  if (channel.events.length === 0) return "Select at least one event";
+  return null;
+}
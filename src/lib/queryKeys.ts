@@ -3,8 +3,26 @@ export const queryKeys = {
   environments: ['environments'] as const,
   appsWithEnvironments: ['apps-with-environments'] as const,
   cloudActions: ['cloud-actions'] as const,
+  pipelines: ['cloud-action-pipelines'] as const,
+  schedules: ['cloud-action-schedules'] as const,
+  windows: ['cloud-action-windows'] as const,
+  batches: ['cloud-action-batches'] as const,
+  stepStats: ['cloud-action-step-stats'] as const,
+  releases: ['cloud-action-releases'] as const,
+  templates: ['cloud-action-templates'] as const,
+  actionHistory: (from: string, to: string) => ['cloud-action-history', from, to] as const,
+  backups: (appId: string, env: string) => ['backups', appId, env] as const,
   credentials: ['credentials'] as const,
   webhookLogs: (appId: string, env: string) => ['webhook-logs', appId, env] as const,
+  logSearch: (appId: string, env: string, query: string, page: number) =>
+    ['log-search', appId, env, query, page] as const,
+  savedLogQueries: (appId: string) => ['saved-log-queries', appId] as const,
+  logSignatures: ['log-signatures'] as const,
+  logAlertRules: ['log-alert-rules'] as const,
+  logAlerts: ['log-alerts'] as const,
+  logAlertDetail: (alertId: string) => ['log-alerts', alertId] as const,
+  notificationChannels: ['notification-channels'] as const,
+  notificationDeliveries: ['notification-deliveries'] as const,
   owaspItems: (appId: string) => ['owasp-items', appId] as const,
   vulnerabilities: (appId: string) => ['vulnerabilities', appId] as const,
   linting: (appId: string) => ['linting', appId] as const,
@@ -0,0 +1,74 @@
+// Helpers for the release matrix: what runs where, and how packages moved between environments
+import type { ReleaseRow } from "@/types/cloudActions";
+
+// Order packages are promoted in; other environments are listed after these, alphabetically
+export const PROMOTION_ORDER = ["test", "acceptance", "production"];
+
+export const environmentKey = (name: string) => name.toLowerCase();
+
+export function sortEnvironments(names: string[]): string[] {
+  const rank = (name: string) => {
+    const index = PROMOTION_ORDER.indexOf(environmentKey(name));
+    return index === -1 ? PROMOTION_ORDER.length : index;
+  };
+  return [...new Set(names)].sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+}
+
+// Latest release per environment, keyed by environmentKey
+export function currentReleases(releases: ReleaseRow[]): Record<string, ReleaseRow> {
+  const current: Record<string, ReleaseRow> = {};
+  for (const release of releases) {
+    const key = environmentKey(release.environment_name);
+    if (!current[key] || release.deployed_at > current[key].deployed_at) {
+      current[key] = release;
+    }
+  }
+  return current;
+}
+
+// Mendix reports the full model version (e.g. 1.2.3.45) while deploys record major.minor.patch.
+// Returns null when either side is unknown.
+export function versionMatches(version: string | null, modelVersion: string | null | undefined): boolean | null {
+  if (!version || !modelVersion) return null;
+  return modelVersion === version || modelVersion.startsWith(`${version}.`);
+}
+
+export interface PackageHistory {
+  packageId: string;
+  version: string | null;
+  branchName: string | null;
+  revisionId: string | null;
+  revisionMessage: string | null;
+  firstDeployedAt: string;
+  // First arrival of the package on each environment, keyed by environmentKey
+  landings: Record<string, ReleaseRow>;
+}
+
+export function promotionHistory(releases: ReleaseRow[]): PackageHistory[] {
+  const byPackage = new Map<string, PackageHistory>();
+  const chronological = [...releases].sort((a, b) => a.deployed_at.localeCompare(b.deployed_at));
+
+  for (const release of chronological) {
+    let history = byPackage.get(release.package_id);
+    if (!history) {
+      history = {
+        packageId: release.package_id,
+        version: release.version,
+        branchName: release.branch_name,
+        revisionId: release.revision_id,
+        revisionMessage: release.revision_message,
+        firstDeployedAt: release.deployed_at,
+        landings: {},
+      };
+      byPackage.set(release.package_id, history);
+    }
+    history.version ??= release.version;
+    history.branchName ??= release.branch_name;
+    history.revisionId ??= release.revision_id;
+    history.revisionMessage ??= release.revision_message;
+    const key = environmentKey(release.environment_name);
+    history.landings[key] ??= release;
+  }
+
+  return [...byPackage.values()].sort((a, b) => b.firstDeployedAt.localeCompare(a.firstDeployedAt));
+}
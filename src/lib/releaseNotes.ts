@@ -0,0 +1,49 @@
+// Release notes for deploys and transports, mirrored from supabase/functions/_shared/release-notes.ts
+import { supabase } from "@/integrations/supabase/client";
+
+// Type aliases rather than interfaces so notes can be written to the jsonb column as-is
+export type ReleaseNoteCommit = {
+  id: string;
+  message: string;
+  author: string;
+  date: string | null;
+  stories: string[];
+};
+
+export type ReleaseNotes = {
+  branch: string | null;
+  fromRevision: string | null;
+  toRevision: string;
+  fromPackageId: string | null;
+  toPackageId: string | null;
+  // false when the previous release is unknown or outside the fetched history
+  complete: boolean;
+  commits: ReleaseNoteCommit[];
+  byAuthor: { author: string; commitIds: string[] }[];
+  byStory: { story: string; commitIds: string[] }[];
+  generatedAt: string;
+};
+
+export interface ReleaseNotesRequest {
+  credentialId: string;
+  appId: string;
+  actionType: "deploy" | "transport";
+  // Target environment
+  environmentName: string;
+  sourceEnvironmentName?: string;
+  // Transport of a built package instead of the one on the source environment
+  packageId?: string;
+  branchName?: string;
+  revisionId?: string;
+}
+
+export async function generateReleaseNotes(request: ReleaseNotesRequest): Promise<ReleaseNotes> {
+  const { data, error } = await supabase.functions.invoke("generate-release-notes", { body: request });
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || "Could not generate release notes");
+  return data.notes as ReleaseNotes;
+}
+
+export function commitTitle(notes: ReleaseNotes, id: string): string {
+  return (notes.commits.find((c) => c.id === id)?.message || "").split("\n")[0];
+}
@@ -0,0 +1,305 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { addMinutes, formatDistanceToNow } from "date-fns";
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useLogAlertsQuery } from "@/hooks/useLogAlertsQuery";
+import { useLogAlertDetailQuery } from "@/hooks/useLogAlertDetailQuery";
+import { queryKeys } from "@/lib/queryKeys";
+import { ALERT_STATUS_FILTERS, SNOOZE_OPTIONS, alertTitle, isSnoozeOver } from "@/lib/logAlerts";
+import type { AlertAction, AlertStatus, LogAlertRow } from "@/lib/logAlerts";
+import { ArrowLeft, BellRing, Check, CheckCheck, Clock, Loader2, RotateCcw } from "lucide-react";
+import { getErrorMessage } from "@/lib/utils";
+
+const UNASSIGNED = "__unassigned__";
+
+const statusVariant = (status: AlertStatus) =>
+  status === "open" ? "destructive" : status === "resolved" ? "outline" : "secondary";
+
+const severityVariant = (severity: string | null) =>
+  severity === "critical" ? "destructive" : severity === "info" ? "outline" : "secondary";
+
+function StatusBadge({ alert }: { alert: LogAlertRow }) {
+  return (
+    <Badge variant={statusVariant(alert.status)} className="capitalize">
+      {alert.status}
+      {alert.status === "snoozed" && alert.snoozed_until && !isSnoozeOver(alert) && (
+        <> until {new Date(alert.snoozed_until).toLocaleString()}</>
+      )}
+    </Badge>
+  );
+}
+
+function AlertDetail({ alert, onClose }: { alert: LogAlertRow; onClose: () => void }) {
+  const { data: detail, isLoading } = useLogAlertDetailQuery(alert.id);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [comment, setComment] = useState("");
+  const [busy, setBusy] = useState<AlertAction | null>(null);
+
+  const run = async (
+    action: AlertAction,
+    options: { snoozedUntil?: Date; assignee?: string | null; comment?: string } = {}
+  ) => {
+    setBusy(action);
+    try {
+      const { error } = await supabase.rpc("update_log_alert", {
+        _alert_id: alert.id,
+        _action: action,
+        _snoozed_until: options.snoozedUntil?.toISOString(),
+        _assignee: options.assignee ?? undefined,
+        _comment: options.comment,
+      });
+      if (error) throw error;
+      if (action === "comment") setComment("");
+      await queryClient.invalidateQueries({ queryKey: queryKeys.logAlerts });
+    } catch (e) {
+      toast({ title: "Updating alert failed", description: getErrorMessage(e), variant: "destructive" });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const active = alert.status !== "resolved";
+
+  return (
+    <SheetContent className="sm:max-w-2xl overflow-y-auto">
+      <SheetHeader>
+        <SheetTitle className="flex items-center gap-2">
+          {alertTitle(alert)}
+          <StatusBadge alert={alert} />
+        </SheetTitle>
+        <SheetDescription>
+          {alert.app_name} / {alert.environment_name} · fired {alert.occurrence_count}x since{" "}
+          {new Date(alert.created_at).toLocaleString()}
+        </SheetDescription>
+      </SheetHeader>
+
+      <div className="space-y-6 mt-6 text-sm">
+        <div className="flex flex-wrap gap-2">
+          {(alert.status === "open" || alert.status === "snoozed") && (
+            <Button size="sm" onClick={() => run("acknowledge")} disabled={!!busy}>
+              {busy === "acknowledge" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Check className="mr-2 h-4 w-4" />}
+              Acknowledge
+            </Button>
+          )}
+          {active && (
+            <Select
+              value=""
+              onValueChange={(minutes) => run("snooze", { snoozedUntil: addMinutes(new Date(), parseInt(minutes)) })}
+              disabled={!!busy}
+            >
+              <SelectTrigger className="w-40 h-9">
+                <Clock className="mr-2 h-4 w-4" />
+                <SelectValue placeholder="Snooze" />
+              </SelectTrigger>
+              <SelectContent>
+                {SNOOZE_OPTIONS.map((o) => (
+                  <SelectItem key={o.minutes} value={o.minutes.toString()}>
+                    {o.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {active ? (
+            <Button size="sm" variant="outline" onClick={() => run("resolve")} disabled={!!busy}>
+              {busy === "resolve" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCheck className="mr-2 h-4 w-4" />}
+              Resolve
+            </Button>
+          ) : (
+            <Button size="sm" variant="outline" onClick={() => run("reopen")} disabled={!!busy}>
+              {busy === "reopen" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+              Reopen
+            </Button>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Assignee</Label>
+          <Select
+            value={alert.assigned_to || UNASSIGNED}
+            onValueChange={(v) => run("assign", { assignee: v === UNASSIGNED ? null : v })}
+            disabled={!!busy || !detail}
+          >
+            <SelectTrigger className="w-64">
+              <SelectValue placeholder={alert.assignee_name || "Unassigned"} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+              {detail?.assignees.map((a) => (
+                <SelectItem key={a.user_id} value={a.user_id}>
+                  {a.full_name || a.email || a.user_id}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Latest occurrence ({formatDistanceToNow(new Date(alert.last_occurred_at), { addSuffix: true })})</Label>
+          <pre className="bg-muted rounded-md p-3 text-xs whitespace-pre-wrap break-all max-h-64 overflow-y-auto">
+            {alert.log_content}
+          </pre>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Comment</Label>
+          <Textarea value={comment} onChange={(e) => setComment(e.target.value)} rows={2} placeholder="Add a note for the team" />
+          <Button size="sm" variant="outline" onClick={() => run("comment", { comment })} disabled={!!busy || !comment.trim()}>
+            Add comment
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Label>History</Label>
+          {isLoading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : (
+            <ul className="space-y-2">
+              {detail?.events.map((event) => (
+                <li key={event.id} className="border-l-2 pl-3">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium capitalize">{event.event_type}</span>
+                    <span className="text-muted-foreground">
+                      by {event.actor_id ? event.actor_name || "Unknown user" : "Log monitoring"}
+                    </span>
+                    <span className="text-xs text-muted-foreground ml-auto">
+                      {new Date(event.created_at).toLocaleString()}
+                    </span>
+                  </div>
+                  {event.details && <p className="text-muted-foreground whitespace-pre-wrap">{event.details}</p>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          Close
+        </Button>
+      </div>
+    </SheetContent>
+  );
+}
+
+export default function AlertsPage() {
+  const { data: alerts, isLoading } = useLogAlertsQuery();
+  const [filter, setFilter] = useState("active");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    document.title = "Alerts | Mendix Monitoring";
+  }, []);
+
+  const statusesFor = (value: string) => ALERT_STATUS_FILTERS.find((f) => f.value === value)?.statuses || [];
+  const countFor = (value: string) => (alerts || []).filter((a) => statusesFor(value).includes(a.status)).length;
+  const rows = (alerts || []).filter((a) => statusesFor(filter).includes(a.status));
+  const selected = alerts?.find((a) => a.id === selectedId) || null;
+
+  return (
+    <main className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/50 sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-8 h-8 bg-gradient-primary rounded-lg flex items-center justify-center">
+              <BellRing className="w-4 h-4 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold">Alerts</h1>
+              <p className="text-sm text-muted-foreground">
+                Log monitoring alerts for your apps; repeats of the same condition are grouped until the alert is resolved
+              </p>
+            </div>
+          </div>
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/">
+              <ArrowLeft className="mr-2 h-4 w-4" /> Back to Dashboard
+            </Link>
+          </Button>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-6 space-y-4">
+        <Tabs value={filter} onValueChange={setFilter}>
+          <TabsList>
+            {ALERT_STATUS_FILTERS.map((f) => (
+              <TabsTrigger key={f.value} value={f.value}>
+                {f.label} ({countFor(f.value)})
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        <Card>
+          <CardContent className="pt-6">
+            {isLoading ? (
+              <Skeleton className="h-40 w-full" />
+            ) : rows.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No alerts here.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Alert</TableHead>
+                    <TableHead>App / environment</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Occurrences</TableHead>
+                    <TableHead>Last fired</TableHead>
+                    <TableHead>Assignee</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((alert) => (
+                    <TableRow key={alert.id} className="cursor-pointer" onClick={() => setSelectedId(alert.id)}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{alertTitle(alert)}</span>
+                          {alert.severity && (
+                            <Badge variant={severityVariant(alert.severity)} className="capitalize">
+                              {alert.severity}
+                            </Badge>
+                          )}
+                        </div>
+                        <p className="text-xs text-muted-foreground line-clamp-1 break-all">
+                          {alert.log_content.split("\n")[0]}
+                        </p>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <div>{alert.app_name}</div>
+                        <div className="text-xs text-muted-foreground">{alert.environment_name}</div>
+                      </TableCell>
+                      <TableCell>
+                        <StatusBadge alert={alert} />
+                      </TableCell>
+                      <TableCell className="text-right">{alert.occurrence_count}</TableCell>
+                      <TableCell className="text-xs whitespace-nowrap" title={new Date(alert.last_occurred_at).toLocaleString()}>
+                        {formatDistanceToNow(new Date(alert.last_occurred_at), { addSuffix: true })}
+                      </TableCell>
+                      <TableCell className="text-sm">{alert.assignee_name || "—"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Sheet open={!!selected} onOpenChange={(open) => !open && setSelectedId(null)}>
+        {selected && <AlertDetail alert={selected} onClose={() => setSelectedId(null)} />}
+      </Sheet>
+    </main>
+  );
+}
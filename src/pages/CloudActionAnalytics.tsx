@@ -0,0 +1,293 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { endOfDay, format, parse, startOfDay, subDays } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, BarChart3, Download } from "lucide-react";
+import { useActionHistoryQuery } from "@/hooks/useActionHistoryQuery";
+import { useAppsQuery } from "@/hooks/useAppsQuery";
+import { formatDuration } from "@/lib/cloudActionSteps";
+import {
+  actionsPerType,
+  actionsPerUser,
+  actionsToCsv,
+  deploymentFrequency,
+  errorCategories,
+  summarize,
+} from "@/lib/cloudActionAnalytics";
+import type { CountRow } from "@/lib/cloudActionAnalytics";
+
+const DATE_FORMAT = "yyyy-MM-dd";
+const RANGE_PRESETS = [7, 30, 90, 365];
+const ALL_APPS = "__all__";
+
+const rateLabel = (rate: number | null) => (rate === null ? "—" : `${Math.round(rate * 100)}%`);
+
+function CountTable({ title, rows, empty }: { title: string; rows: CountRow[]; empty: string }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{empty}</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+                <TableHead className="text-right">Succeeded</TableHead>
+                <TableHead className="text-right">Failed</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.key}>
+                  <TableCell>{row.key}</TableCell>
+                  <TableCell className="text-right">{row.total}</TableCell>
+                  <TableCell className="text-right">{row.succeeded}</TableCell>
+                  <TableCell className="text-right">{row.failed}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function CloudActionAnalyticsPage() {
+  const [fromDate, setFromDate] = useState(format(subDays(new Date(), 29), DATE_FORMAT));
+  const [toDate, setToDate] = useState(format(new Date(), DATE_FORMAT));
+  const [appFilter, setAppFilter] = useState(ALL_APPS);
+
+  const from = startOfDay(parse(fromDate, DATE_FORMAT, new Date()));
+  const to = endOfDay(parse(toDate, DATE_FORMAT, new Date()));
+  const validRange = !Number.isNaN(from.getTime()) && !Number.isNaN(to.getTime()) && from <= to;
+
+  const { data: history, isLoading } = useActionHistoryQuery(
+    validRange ? from.toISOString() : "",
+    validRange ? to.toISOString() : ""
+  );
+  const { data: apps } = useAppsQuery();
+
+  useEffect(() => {
+    document.title = "Cloud action analytics | Mendix Monitoring";
+  }, []);
+
+  const appName = (app_id: string) => apps?.find((a) => a.project_id === app_id)?.app_name || app_id;
+
+  const rows = useMemo(
+    () => (history || []).filter((r) => appFilter === ALL_APPS || r.app_id === appFilter),
+    [history, appFilter]
+  );
+  const appIds = useMemo(() => [...new Set((history || []).map((r) => r.app_id))], [history]);
+
+  const summary = validRange ? summarize(rows, from, to) : null;
+  const frequency = validRange ? deploymentFrequency(rows, from, to) : [];
+
+  const applyPreset = (days: number) => {
+    setFromDate(format(subDays(new Date(), days - 1), DATE_FORMAT));
+    setToDate(format(new Date(), DATE_FORMAT));
+  };
+
+  const exportCsv = () => {
+    const blob = new Blob([actionsToCsv(rows, appName)], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `cloud-actions-${fromDate}-to-${toDate}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <main className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/50 sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-8 h-8 bg-gradient-primary rounded-lg flex items-center justify-center">
+              <BarChart3 className="w-4 h-4 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold">Cloud action analytics</h1>
+              <p className="text-sm text-muted-foreground">
+                Deployment frequency, failure rate and time to deploy across your apps over the last year
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/cloud-actions">
+                <ArrowLeft className="mr-2 h-4 w-4" /> Back to Cloud actions
+              </Link>
+            </Button>
+            <Button variant="outline" size="sm" onClick={exportCsv} disabled={isLoading || rows.length === 0}>
+              <Download className="mr-2 h-4 w-4" /> Export CSV
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <section className="container mx-auto px-4 py-6 space-y-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="analytics-from">From</Label>
+            <Input
+              id="analytics-from"
+              type="date"
+              value={fromDate}
+              max={toDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="w-40"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="analytics-to">To</Label>
+            <Input
+              id="analytics-to"
+              type="date"
+              value={toDate}
+              min={fromDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className="w-40"
+            />
+          </div>
+          <div className="flex gap-1">
+            {RANGE_PRESETS.map((days) => (
+              <Button key={days} variant="outline" size="sm" onClick={() => applyPreset(days)}>
+                {days}d
+              </Button>
+            ))}
+          </div>
+          <div className="space-y-1">
+            <Label>App</Label>
+            <Select value={appFilter} onValueChange={setAppFilter}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_APPS}>All apps</SelectItem>
+                {appIds.map((id) => (
+                  <SelectItem key={id} value={id}>
+                    {appName(id)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {!validRange && <p className="text-sm text-destructive">Pick a start date on or before the end date.</p>}
+
+        {validRange && isLoading && (
+          <div className="space-y-4">
+            <Skeleton className="h-24 w-full" />
+            <Skeleton className="h-48 w-full" />
+          </div>
+        )}
+
+        {validRange && !isLoading && summary && (
+          <>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">Deployments</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-semibold">{summary.deployments}</div>
+                  <p className="text-xs text-muted-foreground">{summary.deploymentsPerWeek.toFixed(1)} per week</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">Change failure rate</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-semibold">{rateLabel(summary.deploymentFailureRate)}</div>
+                  <p className="text-xs text-muted-foreground">Deploys and transports</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">Mean time to deploy</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-semibold">{formatDuration(summary.meanDeploySeconds)}</div>
+                  <p className="text-xs text-muted-foreground">
+                    Median {formatDuration(summary.medianDeploySeconds)}, start to finish
+                  </p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">All actions</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-semibold">{summary.total}</div>
+                  <p className="text-xs text-muted-foreground">{rateLabel(summary.failureRate)} failed</p>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">Deployment frequency</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {frequency.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No deploys or transports in this period.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>App</TableHead>
+                        <TableHead>Environment</TableHead>
+                        <TableHead className="text-right">Deployments</TableHead>
+                        <TableHead className="text-right">Per week</TableHead>
+                        <TableHead className="text-right">Failure rate</TableHead>
+                        <TableHead className="text-right">Mean time</TableHead>
+                        <TableHead>Last deployed</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {frequency.map((row) => (
+                        <TableRow key={`${row.app_id}-${row.environment_name}`}>
+                          <TableCell>{appName(row.app_id)}</TableCell>
+                          <TableCell>{row.environment_name}</TableCell>
+                          <TableCell className="text-right">{row.deployments}</TableCell>
+                          <TableCell className="text-right">{row.perWeek.toFixed(1)}</TableCell>
+                          <TableCell className="text-right">{rateLabel(row.failureRate)}</TableCell>
+                          <TableCell className="text-right">{formatDuration(row.meanSeconds)}</TableCell>
+                          <TableCell>
+                            {row.lastDeployedAt ? new Date(row.lastDeployedAt).toLocaleString() : "—"}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            <div className="grid gap-4 lg:grid-cols-3">
+              <CountTable title="Error categories" rows={errorCategories(rows)} empty="No failed actions in this period." />
+              <CountTable title="Actions per user" rows={actionsPerUser(rows)} empty="No actions in this period." />
+              <CountTable title="Actions per type" rows={actionsPerType(rows)} empty="No actions in this period." />
+            </div>
+          </>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -1,6 +1,7 @@
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Table,
   TableBody,
@@ -12,19 +13,59 @@ import {
 } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
 import { useQueryClient } from "@tanstack/react-query";
-import { CloudCog, Loader2, RefreshCcw, ArrowLeft, Trash2 } from "lucide-react";
+import { CloudCog, Loader2, RefreshCcw, ArrowLeft, Trash2, Pause, Play, BarChart3 } from "lucide-react";
 import { Link } from "react-router-dom";
 import { EditCloudActionDialog } from "@/components/EditCloudActionDialog";
 import { AddCloudActionDialog } from "@/components/AddCloudActionDialog";
+import { BulkCloudActionDialog } from "@/components/BulkCloudActionDialog";
+import { BatchesView } from "@/components/BatchesView";
+import { AddPipelineDialog } from "@/components/AddPipelineDialog";
+import { PipelinesView } from "@/components/PipelinesView";
+import { AddScheduleDialog } from "@/components/AddScheduleDialog";
+import { SchedulesView } from "@/components/SchedulesView";
+import { TemplatesView } from "@/components/TemplatesView";
+import { MaintenanceCalendarView } from "@/components/MaintenanceCalendarView";
+import { StepStatisticsView } from "@/components/StepStatisticsView";
+import { ReleaseMatrixView } from "@/components/ReleaseMatrixView";
 import { CloudActionLogsDialog } from "@/components/CloudActionLogsDialog";
+import { ApprovalDecisionDialog } from "@/components/ApprovalDecisionDialog";
 import { CloudActionTableSkeleton } from "@/components/CloudActionTableSkeleton";
 import { useCloudActionsQuery } from "@/hooks/useCloudActionsQuery";
+import { usePipelinesQuery } from "@/hooks/usePipelinesQuery";
+import { useSchedulesQuery } from "@/hooks/useSchedulesQuery";
+import { useTemplatesQuery } from "@/hooks/useTemplatesQuery";
+import { useWindowsQuery } from "@/hooks/useWindowsQuery";
+import { useBatchesQuery } from "@/hooks/useBatchesQuery";
+import { useStepStatsQuery } from "@/hooks/useStepStatsQuery";
+import { useReleasesQuery } from "@/hooks/useReleasesQuery";
+import { useUserRole } from "@/hooks/useUserRole";
 import { queryKeys } from "@/lib/queryKeys";
+import { stepLabel } from "@/lib/cloudActionSteps";
 import { statusColor } from "@/types/cloudActions";
+import type { CloudActionRow } from "@/types/cloudActions";
+import { getErrorMessage } from "@/lib/utils";
+
+// Puts a paused action back in the orchestrator's hands. The heartbeat is set just past the 45s stale
+// threshold, so it is picked up on the next cycle but still well within the lock's stale window, and
+// waits with a deadline get the paused time back.
+const resumeFields = (a: CloudActionRow) => {
+  const pausedMs = a.paused_at ? Date.now() - new Date(a.paused_at).getTime() : 0;
+  return {
+    status: "running",
+    pause_requested_at: null,
+    paused_at: null,
+    last_heartbeat: new Date(Date.now() - 60 * 1000).toISOString(),
+    ...(a.step_data?.startTime
+      ? { step_data: { ...a.step_data, startTime: new Date(new Date(a.step_data.startTime).getTime() + pausedMs).toISOString() } }
+      : {}),
+  };
+};
 
 export default function CloudActionsPage() {
   const [isRunningAll, setIsRunningAll] = useState(false);
   const [runningActionId, setRunningActionId] = useState<string | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const { isAdmin } = useUserRole();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -32,6 +73,17 @@ export default function CloudActionsPage() {
   const { data, isLoading, refetch } = useCloudActionsQuery();
   const actions = data?.actions || [];
   const apps = data?.apps || [];
+  const { data: pipelines, isLoading: pipelinesLoading } = usePipelinesQuery();
+  const { data: schedules, isLoading: schedulesLoading } = useSchedulesQuery();
+  const { data: templates, isLoading: templatesLoading } = useTemplatesQuery();
+  const { data: windows } = useWindowsQuery();
+  const { data: batches, isLoading: batchesLoading } = useBatchesQuery();
+  const { data: stepStats, isLoading: stepStatsLoading } = useStepStatsQuery();
+  const { data: releases, isLoading: releasesLoading } = useReleasesQuery();
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data }) => setCurrentUserId(data.user?.id ?? null));
+  }, []);
 
   useEffect(() => {
     document.title = "Cloud actions | Mendix Monitoring";
@@ -58,6 +110,12 @@ export default function CloudActionsPage() {
   const appName = (app_id: string) =>
     apps.find((a) => a.project_id === app_id)?.app_name || app_id;
 
+  const batchName = (batch_id: string) =>
+    batches?.find((b) => b.id === batch_id)?.name || "Batch";
+
+  const latestDecision = (action: CloudActionRow) =>
+    [...(action.cloud_action_approvals || [])].sort((x, y) => y.created_at.localeCompare(x.created_at))[0];
+
   const triggerRunner = async (actionId?: string) => {
     if (actionId) {
       setRunningActionId(actionId);
@@ -98,7 +156,7 @@ export default function CloudActionsPage() {
         .from("cloud_actions")
         .update({ status: "canceled" })
         .eq("id", id)
-        .eq("status", "scheduled");
+        .in("status", ["scheduled", "queued", "pending_approval"]);
       if (error) throw error;
       toast({ title: "Action canceled" });
       queryClient.invalidateQueries({ queryKey: queryKeys.cloudActions });
@@ -107,6 +165,72 @@ export default function CloudActionsPage() {
     }
   };
 
+  // Started actions are never stopped directly: cloud-action-steps cancels them before their next step,
+  // and only once an environment they stopped has been started again
+  const requestCancel = async (a: CloudActionRow) => {
+    if (!confirm("Cancel this action? It stops before its next step; an environment it stopped is started again first.")) {
+      return;
+    }
+
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("full_name")
+        .eq("user_id", user?.id || "")
+        .maybeSingle();
+
+      const { error } = await supabase
+        .from("cloud_actions")
+        .update({
+          cancel_requested_at: new Date().toISOString(),
+          cancel_requested_by: profile?.full_name || user?.email || null,
+          // Waiting for a retry or paused: run the cancel on the next cycle
+          ...(a.status === "scheduled" ? { scheduled_for: new Date().toISOString() } : {}),
+          ...(a.status === "paused" ? resumeFields(a) : {}),
+        })
+        .eq("id", a.id)
+        .in("status", ["scheduled", "running", "paused"]);
+      if (error) throw error;
+      toast({ title: "Cancel requested", description: "The action stops before its next step" });
+      queryClient.invalidateQueries({ queryKey: queryKeys.cloudActions });
+    } catch (e) {
+      toast({ title: "Cancel failed", description: getErrorMessage(e), variant: "destructive" });
+    }
+  };
+
+  const requestPause = async (a: CloudActionRow) => {
+    try {
+      const { error } = await supabase
+        .from("cloud_actions")
+        .update({ pause_requested_at: new Date().toISOString() })
+        .eq("id", a.id)
+        .in("status", ["scheduled", "running"]);
+      if (error) throw error;
+      toast({ title: "Pause requested", description: "The action pauses before its next step" });
+      queryClient.invalidateQueries({ queryKey: queryKeys.cloudActions });
+    } catch (e) {
+      toast({ title: "Pause failed", description: getErrorMessage(e), variant: "destructive" });
+    }
+  };
+
+  const resume = async (a: CloudActionRow) => {
+    try {
+      // A pause that was not honoured yet is simply withdrawn
+      const { error } =
+        a.status === "paused"
+          ? await supabase.from("cloud_actions").update(resumeFields(a)).eq("id", a.id).eq("status", "paused")
+          : await supabase.from("cloud_actions").update({ pause_requested_at: null }).eq("id", a.id);
+      if (error) throw error;
+      toast({ title: "Action resumed" });
+      queryClient.invalidateQueries({ queryKey: queryKeys.cloudActions });
+    } catch (e) {
+      toast({ title: "Resume failed", description: getErrorMessage(e), variant: "destructive" });
+    }
+  };
+
   const deleteAction = async (id: string) => {
     if (!confirm("Are you sure you want to delete this cloud action?")) {
       return;
@@ -126,6 +250,29 @@ export default function CloudActionsPage() {
     queryClient.invalidateQueries({ queryKey: queryKeys.cloudActions });
   };
 
+  const handlePipelinesChanged = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.pipelines });
+    queryClient.invalidateQueries({ queryKey: queryKeys.cloudActions });
+  };
+
+  const handleSchedulesChanged = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.schedules });
+  };
+
+  const handleTemplatesChanged = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.templates });
+    queryClient.invalidateQueries({ queryKey: queryKeys.cloudActions });
+  };
+
+  const handleBatchesChanged = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.batches });
+    queryClient.invalidateQueries({ queryKey: queryKeys.cloudActions });
+  };
+
+  const handleWindowsChanged = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.windows });
+  };
+
   return (
     <main className="min-h-screen bg-background">
       <header className="border-b border-border bg-card/50 sticky top-0 z-10">
@@ -147,6 +294,11 @@ export default function CloudActionsPage() {
                 <ArrowLeft className="mr-2 h-4 w-4" /> Back to Dashboard
               </Link>
             </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/cloud-actions/analytics">
+                <BarChart3 className="mr-2 h-4 w-4" /> Analytics
+              </Link>
+            </Button>
             <Button variant="outline" onClick={() => triggerRunner()} disabled={isRunningAll}>
               {isRunningAll ? (
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -155,97 +307,260 @@ export default function CloudActionsPage() {
               )}
               {isRunningAll ? "Running..." : "Run due now"}
             </Button>
-            <AddCloudActionDialog onCreated={handleActionCreated} />
+            <AddScheduleDialog onCreated={handleSchedulesChanged} />
+            <AddPipelineDialog onCreated={handlePipelinesChanged} />
+            <BulkCloudActionDialog onCreated={handleBatchesChanged} />
+            <AddCloudActionDialog onCreated={handleActionCreated} onTemplateSaved={handleTemplatesChanged} />
           </div>
         </div>
 
       </header>
 
       <section className="container mx-auto px-4 py-6">
-        <Table>
-          <TableCaption>Planned and recent cloud actions</TableCaption>
-          <TableHeader>
-            <TableRow>
-              <TableHead>Created</TableHead>
-              <TableHead>Created By</TableHead>
-              <TableHead>App</TableHead>
-              <TableHead>Environment</TableHead>
-              <TableHead>Action</TableHead>
-              <TableHead>Scheduled for</TableHead>
-              <TableHead>Status</TableHead>
-              <TableHead>Started</TableHead>
-              <TableHead>Completed</TableHead>
-              <TableHead className="text-right">Actions</TableHead>
-            </TableRow>
-          </TableHeader>
-          <TableBody>
-            {isLoading && <CloudActionTableSkeleton rows={5} />}
-            {!isLoading && actions.length === 0 && (
-              <TableRow>
-                <TableCell colSpan={10}>
-                  <div className="text-sm text-muted-foreground">
-                    No actions yet. Create one to get started.
-                  </div>
-                </TableCell>
-              </TableRow>
-            )}
-            {!isLoading && actions.map((a) => (
-              <TableRow key={a.id}>
-                <TableCell>{new Date(a.created_at).toLocaleString()}</TableCell>
-                <TableCell>
-                  <span className="text-sm">{a.creator_name || "Unknown"}</span>
-                </TableCell>
-                <TableCell>{appName(a.app_id)}</TableCell>
-                <TableCell>{a.environment_name}</TableCell>
-                <TableCell className="capitalize">{a.action_type}</TableCell>
-                <TableCell>
-                  {a.scheduled_for ? new Date(a.scheduled_for).toLocaleString() : "—"}
-                </TableCell>
-                <TableCell>
-                  <span className={`px-2 py-1 rounded text-xs ${statusColor[a.status] || "bg-muted"}`}>
-                    {a.status}
-                  </span>
-                </TableCell>
-                <TableCell>
-                  {a.started_at ? new Date(a.started_at).toLocaleString() : "—"}
-                </TableCell>
-                <TableCell>
-                  {a.completed_at ? new Date(a.completed_at).toLocaleString() : "—"}
-                </TableCell>
-                <TableCell className="text-right space-x-2">
-                  <CloudActionLogsDialog actionId={a.id} />
-                  {a.status === "scheduled" && (
-                    <>
-                      <EditCloudActionDialog action={a} onUpdated={handleActionCreated} />
+        <Tabs defaultValue="actions" className="w-full">
+          <TabsList>
+            <TabsTrigger value="actions">Actions</TabsTrigger>
+            <TabsTrigger value="batches">Batches</TabsTrigger>
+            <TabsTrigger value="pipelines">Pipelines</TabsTrigger>
+            <TabsTrigger value="schedules">Schedules</TabsTrigger>
+            <TabsTrigger value="templates">Templates</TabsTrigger>
+            <TabsTrigger value="calendar">Calendar</TabsTrigger>
+            <TabsTrigger value="releases">Releases</TabsTrigger>
+            <TabsTrigger value="statistics">Statistics</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="actions" className="mt-4">
+            <Table>
+              <TableCaption>Planned and recent cloud actions</TableCaption>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Created By</TableHead>
+                  <TableHead>App</TableHead>
+                  <TableHead>Environment</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Scheduled for</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Completed</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading && <CloudActionTableSkeleton rows={5} />}
+                {!isLoading && actions.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={10}>
+                      <div className="text-sm text-muted-foreground">
+                        No actions yet. Create one to get started.
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                )}
+                {!isLoading && actions.map((a) => (
+                  <TableRow key={a.id}>
+                    <TableCell>{new Date(a.created_at).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <span className="text-sm">{a.creator_name || "Unknown"}</span>
+                    </TableCell>
+                    <TableCell>{appName(a.app_id)}</TableCell>
+                    <TableCell>{a.environment_name}</TableCell>
+                    <TableCell>
+                      <span className="capitalize">{a.action_type}</span>
+                      {a.action_type === "scale" && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {a.payload?.instances} x {a.payload?.memoryPerInstance} MB
+                        </div>
+                      )}
+                      {a.action_type === "build" && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {a.payload?.version} from {a.payload?.branchName}
+                          {a.package_id && <div className="font-mono">Package {a.package_id.slice(0, 8)}</div>}
+                        </div>
+                      )}
+                      {a.action_type === "transport" && a.payload?.packageId && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          Built package {a.payload.packageName || String(a.payload.packageId).slice(0, 8)}
+                        </div>
+                      )}
+                      {a.action_type === "restore" && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          Backup {String(a.payload?.snapshotId || "").slice(0, 8)}
+                          {a.payload?.sourceEnvironmentName && a.payload.sourceEnvironmentName !== a.environment_name
+                            ? ` from ${a.payload.sourceEnvironmentName}`
+                            : ""}
+                        </div>
+                      )}
+                      {a.batch_id && (
+                        <div className="text-xs text-muted-foreground mt-1">{batchName(a.batch_id)}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {a.scheduled_for ? new Date(a.scheduled_for).toLocaleString() : "—"}
+                    </TableCell>
+                    <TableCell>
+                      <span className={`px-2 py-1 rounded text-xs ${statusColor[a.status] || "bg-muted"}`}>
+                        {a.status}
+                      </span>
+                      {a.status === "queued" && a.queued_reason && (
+                        <div className="text-xs text-muted-foreground mt-1">{a.queued_reason}</div>
+                      )}
+                      {a.status === "paused" && a.current_step && (
+                        <div className="text-xs text-muted-foreground mt-1">Before {stepLabel(a.current_step).toLowerCase()}</div>
+                      )}
+                      {a.cancel_requested_at && a.status !== "canceled" && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          Cancel requested{a.cancel_requested_by ? ` by ${a.cancel_requested_by}` : ""}
+                        </div>
+                      )}
+                      {a.pause_requested_at && !a.cancel_requested_at && a.status !== "paused" && (
+                        <div className="text-xs text-muted-foreground mt-1">Pause requested</div>
+                      )}
+                      {latestDecision(a) && (
+                        <div className="text-xs text-muted-foreground mt-1" title={latestDecision(a)?.comment || undefined}>
+                          {latestDecision(a)?.decision === "approved" ? "Approved" : "Rejected"} by{" "}
+                          {latestDecision(a)?.decider_name || "admin"}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {a.started_at ? new Date(a.started_at).toLocaleString() : "—"}
+                    </TableCell>
+                    <TableCell>
+                      {a.completed_at ? new Date(a.completed_at).toLocaleString() : "—"}
+                    </TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <CloudActionLogsDialog actionId={a.id} />
+                      {a.status === "pending_approval" && isAdmin && a.user_id !== currentUserId && (
+                        <ApprovalDecisionDialog
+                          action={a}
+                          appName={appName(a.app_id)}
+                          onDecided={handleActionCreated}
+                        />
+                      )}
+                      {(a.status === "pending_approval" || a.status === "queued") && (
+                        <>
+                          {a.action_type !== "restore" && (
+                            <EditCloudActionDialog action={a} onUpdated={handleActionCreated} />
+                          )}
+                          <Button variant="outline" size="sm" onClick={() => cancel(a.id)}>
+                            Cancel
+                          </Button>
+                        </>
+                      )}
+                      {a.status === "scheduled" && (
+                        <>
+                          {a.action_type !== "restore" && (
+                            <EditCloudActionDialog action={a} onUpdated={handleActionCreated} />
+                          )}
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => triggerRunner(a.id)}
+                            disabled={runningActionId === a.id}
+                          >
+                            {runningActionId === a.id ? (
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            ) : null}
+                            {runningActionId === a.id ? "Running..." : "Run now"}
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => (a.started_at ? requestCancel(a) : cancel(a.id))}
+                            disabled={!!a.cancel_requested_at}
+                          >
+                            Cancel
+                          </Button>
+                        </>
+                      )}
+                      {(a.status === "running" || a.status === "paused") && !a.cancel_requested_at && (
+                        <>
+                          {a.status === "paused" || a.pause_requested_at ? (
+                            <Button variant="outline" size="sm" onClick={() => resume(a)}>
+                              <Play className="mr-2 h-4 w-4" /> Resume
+                            </Button>
+                          ) : (
+                            <Button variant="outline" size="sm" onClick={() => requestPause(a)}>
+                              <Pause className="mr-2 h-4 w-4" /> Pause
+                            </Button>
+                          )}
+                          <Button variant="outline" size="sm" onClick={() => requestCancel(a)}>
+                            Cancel
+                          </Button>
+                        </>
+                      )}
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={() => triggerRunner(a.id)}
-                        disabled={runningActionId === a.id}
+                        onClick={() => deleteAction(a.id)}
+                        className="text-destructive hover:text-destructive"
                       >
-                        {runningActionId === a.id ? (
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        ) : null}
-                        {runningActionId === a.id ? "Running..." : "Run now"}
-                      </Button>
-                      <Button variant="outline" size="sm" onClick={() => cancel(a.id)}>
-                        Cancel
+                        <Trash2 className="h-4 w-4" />
                       </Button>
-                    </>
-                  )}
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => deleteAction(a.id)}
-                    className="text-destructive hover:text-destructive"
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
-                </TableCell>
-              </TableRow>
-            ))}
-          </TableBody>
-        </Table>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TabsContent>
+
+          <TabsContent value="batches" className="mt-4">
+            <BatchesView
+              batches={batches || []}
+              apps={apps}
+              isLoading={batchesLoading}
+              onChanged={handleBatchesChanged}
+            />
+          </TabsContent>
+
+          <TabsContent value="pipelines" className="mt-4">
+            <PipelinesView
+              pipelines={pipelines || []}
+              apps={apps}
+              isLoading={pipelinesLoading}
+              onChanged={handlePipelinesChanged}
+            />
+          </TabsContent>
+
+          <TabsContent value="schedules" className="mt-4">
+            <SchedulesView
+              schedules={schedules || []}
+              apps={apps}
+              isLoading={schedulesLoading}
+              onChanged={handleSchedulesChanged}
+            />
+          </TabsContent>
+
+          <TabsContent value="templates" className="mt-4">
+            <TemplatesView
+              templates={templates || []}
+              apps={apps}
+              currentUserId={currentUserId}
+              isLoading={templatesLoading}
+              onChanged={handleTemplatesChanged}
+            />
+          </TabsContent>
+
+          <TabsContent value="calendar" className="mt-4">
+            <MaintenanceCalendarView
+              windows={windows || []}
+              actions={actions}
+              schedules={schedules || []}
+              apps={apps}
+              isAdmin={isAdmin}
+              onWindowsChanged={handleWindowsChanged}
+            />
+          </TabsContent>
+
+          <TabsContent value="releases" className="mt-4">
+            <ReleaseMatrixView releases={releases || []} apps={apps} isLoading={releasesLoading} />
+          </TabsContent>
+
+          <TabsContent value="statistics" className="mt-4">
+            <StepStatisticsView stats={stepStats || []} apps={apps} isLoading={stepStatsLoading} />
+          </TabsContent>
+        </Tabs>
       </section>
     </main>
   );
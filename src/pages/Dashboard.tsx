@@ -6,6 +6,7 @@ import { useQueryClient } from "@tanstack/react-query";
 
 import AppCard, { MendixApp } from "@/components/AppCard";
 import { DashboardSkeleton } from "@/components/DashboardSkeleton";
+import { ErrorSignaturesPanel } from "@/components/ErrorSignaturesPanel";
 import { useAppsQuery } from "@/hooks/useAppsQuery";
 import { queryKeys } from "@/lib/queryKeys";
 import { 
@@ -14,7 +15,8 @@ import {
   Settings, 
   LogOut,
   Activity,
-  CloudCog
+  CloudCog,
+  BellRing
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useNavigate } from "react-router-dom";
@@ -264,6 +266,14 @@ const Dashboard = ({ onSignOut }: DashboardProps) => {
                 <CloudCog className="w-4 h-4 mr-2" />
                 Cloud Actions
               </Button>
+              <Button 
+                variant="outline" 
+                size="sm"
+                onClick={() => navigate("/alerts")}
+              >
+                <BellRing className="w-4 h-4 mr-2" />
+                Alerts
+              </Button>
               <Button 
                 variant="outline" 
                 size="sm"
@@ -294,6 +304,8 @@ const Dashboard = ({ onSignOut }: DashboardProps) => {
             />
           </div>
 
+          <ErrorSignaturesPanel apps={apps} />
+
           {/* Tabs for organizing apps */}
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
             <TabsList className="grid w-full grid-cols-2">
@@ -5,12 +5,15 @@ import MendixCredentials, { MendixCredential } from "@/components/MendixCredenti
 import { WebhookManagement } from "@/components/WebhookManagement";
 import LogMonitoringSettings from "@/components/LogMonitoringSettings";
 import EmailManagement from "@/components/EmailManagement";
+import NotificationChannels from "@/components/NotificationChannels";
 import { EmailTemplates } from "@/components/EmailTemplates";
 import { OWASPSettings } from "@/components/OWASPSettings";
 import { OWASPRunsHistory } from "@/components/OWASPRunsHistory";
 import LintingSettings from "@/components/LintingSettings";
 import GeneralSettings from "@/components/GeneralSettings";
 import UserManagement from "@/components/UserManagement";
+import ApprovalPolicySettings from "@/components/ApprovalPolicySettings";
+import QualityGateSettings from "@/components/QualityGateSettings";
 import ChangePassword from "@/components/ChangePassword";
 import { ArrowLeft, Settings as SettingsIcon } from "lucide-react";
 import { useNavigate } from "react-router-dom";
@@ -125,11 +128,14 @@ const Settings = () => {
                 <TabsTrigger value="password">Change Password</TabsTrigger>
                 {isAdmin && <TabsTrigger value="webhooks">Webhook Settings</TabsTrigger>}
                 {isAdmin && <TabsTrigger value="emails">Email Management</TabsTrigger>}
+                {isAdmin && <TabsTrigger value="channels">Notification Channels</TabsTrigger>}
                 {isAdmin && <TabsTrigger value="templates">Email Templates</TabsTrigger>}
                 {isAdmin && <TabsTrigger value="monitoring">Log Monitoring</TabsTrigger>}
                 {isAdmin && <TabsTrigger value="owasp">OWASP Security</TabsTrigger>}
                 {isAdmin && <TabsTrigger value="owasp-history">OWASP History</TabsTrigger>}
                 {isAdmin && <TabsTrigger value="linting">Linting Rules</TabsTrigger>}
+                {isAdmin && <TabsTrigger value="approvals">Approvals</TabsTrigger>}
+                {isAdmin && <TabsTrigger value="quality-gates">Quality Gates</TabsTrigger>}
                 {isAdmin && <TabsTrigger value="users">User Management</TabsTrigger>}
               </TabsList>
             
@@ -162,6 +168,12 @@ const Settings = () => {
               </TabsContent>
             )}
             
+            {isAdmin && (
+              <TabsContent value="channels" className="mt-6">
+                <NotificationChannels />
+              </TabsContent>
+            )}
+            
             {isAdmin && (
               <TabsContent value="templates" className="mt-6">
                 <EmailTemplates />
@@ -192,6 +204,18 @@ const Settings = () => {
               </TabsContent>
             )}
             
+            {isAdmin && (
+              <TabsContent value="approvals" className="mt-6">
+                <ApprovalPolicySettings />
+              </TabsContent>
+            )}
+            
+            {isAdmin && (
+              <TabsContent value="quality-gates" className="mt-6">
+                <QualityGateSettings />
+              </TabsContent>
+            )}
+            
             {isAdmin && (
               <TabsContent value="users" className="mt-6">
                 <UserManagement />
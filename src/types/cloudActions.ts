@@ -1,4 +1,8 @@
 // Shared types for Cloud Actions components
+import type { RetryPolicy } from "@/lib/cloudActionRetry";
+import type { ReleaseNotes } from "@/lib/releaseNotes";
+import type { VersionRule } from "@/lib/cloudActionTemplates";
+import type { Json } from "@/integrations/supabase/types";
 
 export interface CloudActionRow {
   id: string;
@@ -16,8 +20,234 @@ export interface CloudActionRow {
   creator_email?: string;
   creator_name?: string;
   retry_until?: string | null;
+  retry_policy?: Partial<RetryPolicy> | null;
+  release_notes?: ReleaseNotes | null;
+  // Package built (deploy, build) or transported (transport) by the action
+  package_id?: string | null;
   payload?: any;
   updated_at?: string;
+  pipeline_id?: string | null;
+  schedule_id?: string | null;
+  batch_id?: string | null;
+  template_id?: string | null;
+  lock_policy?: "queue" | "reject" | "supersede";
+  queued_reason?: string | null;
+  approved_at?: string | null;
+  current_step?: string | null;
+  // State cloud-action-steps hands from one step to the next
+  step_data?: { startTime?: string; [key: string]: Json | undefined } | null;
+  // Honoured by cloud-action-steps before the next step, outside stop/start pairs
+  cancel_requested_at?: string | null;
+  cancel_requested_by?: string | null;
+  pause_requested_at?: string | null;
+  paused_at?: string | null;
+  cloud_action_approvals?: CloudActionApproval[];
+}
+
+export interface CloudActionApproval {
+  decider_name: string | null;
+  decision: "approved" | "rejected";
+  comment: string | null;
+  created_at: string;
+}
+
+// Payload fields the lists show; the edge functions read the rest per action type
+export interface CloudActionPayload {
+  version?: string;
+  branchName?: string;
+  instances?: number | string;
+  memoryPerInstance?: number | string;
+  [key: string]: Json | undefined;
+}
+
+export type PipelineStageType = "action" | "gate";
+
+export interface PipelineStageRow {
+  id: string;
+  pipeline_id: string;
+  user_id: string;
+  stage_order: number;
+  name: string;
+  stage_type: PipelineStageType;
+  action_type: string | null;
+  environment_name: string | null;
+  payload?: CloudActionPayload | null;
+  action_id: string | null;
+  status: string;
+  started_at: string | null;
+  completed_at: string | null;
+  error_message: string | null;
+}
+
+export interface PipelineRow {
+  id: string;
+  user_id: string;
+  credential_id: string;
+  app_id: string;
+  name: string;
+  status: string;
+  current_stage: number;
+  scheduled_for: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  error_message: string | null;
+  creator_name: string | null;
+  created_at: string;
+  stages: PipelineStageRow[];
+}
+
+export interface ScheduleRow {
+  id: string;
+  user_id: string;
+  credential_id: string;
+  app_id: string;
+  environment_name: string;
+  action_type: string;
+  payload?: CloudActionPayload | null;
+  name: string;
+  cron_expression: string;
+  timezone: string;
+  ends_at: string | null;
+  is_paused: boolean;
+  skip_next: boolean;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  last_action_id: string | null;
+  creator_name: string | null;
+  created_at: string;
+}
+
+export interface CloudActionTemplateRow {
+  id: string;
+  user_id: string;
+  name: string;
+  app_id: string;
+  environment_name: string;
+  action_type: string;
+  payload?: CloudActionPayload | null;
+  version_rule: VersionRule;
+  retry_window_minutes: number;
+  retry_policy?: Partial<RetryPolicy> | null;
+  lock_policy: "queue" | "reject" | "supersede";
+  notify_on_success: boolean;
+  notify_on_failure: boolean;
+  // Visible to everyone with access to the app
+  is_shared: boolean;
+  creator_name: string | null;
+  created_at: string;
+}
+
+export interface BatchItemRow {
+  id: string;
+  app_id: string;
+  environment_name: string;
+  status: string;
+  scheduled_for: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  error_message: string | null;
+}
+
+export interface BatchRow {
+  id: string;
+  user_id: string;
+  name: string;
+  action_type: string;
+  concurrency_limit: number;
+  filters?: Json | null;
+  scheduled_for: string | null;
+  creator_name: string | null;
+  created_at: string;
+  items: BatchItemRow[];
+}
+
+export type StepRunOutcome = "running" | "succeeded" | "failed" | "retried" | "canceled";
+
+export interface StepRunRow {
+  id: string;
+  action_id: string;
+  step: string;
+  attempt: number;
+  started_at: string;
+  ended_at: string | null;
+  outcome: StepRunOutcome;
+  error_message: string | null;
+}
+
+export interface StepStatsRow {
+  app_id: string;
+  step: string;
+  run_count: number;
+  succeeded_count: number;
+  failed_count: number;
+  median_seconds: number | null;
+  p90_seconds: number | null;
+  last_run_at: string | null;
+}
+
+// One package landing on one environment (cloud_action_releases view)
+export interface ReleaseRow {
+  action_id: string;
+  user_id: string;
+  app_id: string;
+  environment_name: string;
+  action_type: "deploy" | "transport";
+  package_id: string;
+  version: string | null;
+  branch_name: string | null;
+  revision_id: string | null;
+  revision_message: string | null;
+  source_environment_name: string | null;
+  creator_name: string | null;
+  deployed_at: string;
+}
+
+// Backups as returned by the manage-mendix-backups edge function
+export type BackupSource = "manual" | "deploy" | "scheduled";
+
+export interface BackupRow {
+  id: string;
+  comment: string | null;
+  state: string;
+  createdAt: string | null;
+  expiresAt: string | null;
+  modelVersion: string | null;
+  sizeBytes: number | null;
+  source: BackupSource;
+  // Deploy/transport action that took the backup
+  actionId: string | null;
+}
+
+// Packages as returned by the get-mendix-packages edge function
+export interface PackageRow {
+  packageId: string | null;
+  name: string;
+  version: string | null;
+  status: string | null;
+  createdAt: string | null;
+  // Created by a deploy or build cloud action
+  builtByDashboard: boolean;
+  cloudActionId: string | null;
+  cloudActionType: "deploy" | "build" | null;
+}
+
+export type WindowType = "freeze" | "maintenance";
+
+export interface CloudActionWindowRow {
+  id: string;
+  user_id: string;
+  name: string;
+  window_type: WindowType;
+  app_id: string | null;
+  environment_name: string | null;
+  action_types: string[];
+  starts_at: string | null;
+  ends_at: string | null;
+  cron_expression: string | null;
+  duration_minutes: number | null;
+  timezone: string;
+  conflict_behavior: "block" | "reschedule";
+  created_at: string;
 }
 
 export interface Credential {
@@ -45,9 +275,18 @@ export interface Env {
 export const statusColor: Record<string, string> = {
   scheduled: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
   running: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+  paused: "bg-sky-100 text-sky-800 dark:bg-sky-900 dark:text-sky-200",
   succeeded: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
   failed: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  queued: "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200",
+  pending_approval: "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200",
+  rejected: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  blocked: "bg-rose-100 text-rose-800 dark:bg-rose-900 dark:text-rose-200",
+  rolled_back: "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200",
   canceled: "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200",
+  retried: "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200",
   done: "bg-emerald-100 text-emerald-800 dark:bg-emerald-900 dark:text-emerald-200",
   error: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  pending: "bg-slate-100 text-slate-800 dark:bg-slate-900 dark:text-slate-200",
+  skipped: "bg-gray-100 text-gray-500 dark:bg-gray-900 dark:text-gray-400",
 };
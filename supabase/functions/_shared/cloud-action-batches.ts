@@ -0,0 +1,49 @@
+// Concurrency limiting for bulk cloud actions. Shared by cloud-action-orchestrator and
+// run-cloud-actions-v2 so neither starts more batch items than the batch allows.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+
+interface BatchCandidate {
+  id: string;
+  batch_id?: string | null;
+  started_at?: string | null;
+}
+
+// Statuses in which a started batch item still occupies a slot (retries go back to scheduled)
+const IN_FLIGHT_STATUSES = ['running', 'scheduled'];
+
+// Drops batch items that haven't started yet when their batch is already running
+// concurrency_limit items. Other actions (and batch items being resumed) pass through unchanged.
+export async function limitBatchConcurrency<T extends BatchCandidate>(supabase: SupabaseClient, actions: T[]): Promise<T[]> {
+  const batchIds = [...new Set(actions.filter((a) => a.batch_id && !a.started_at).map((a) => a.batch_id as string))];
+  if (batchIds.length === 0) return actions;
+
+  const [{ data: batches, error: batchError }, { data: inFlight, error: inFlightError }] = await Promise.all([
+    supabase.from('cloud_action_batches').select('id, concurrency_limit').in('id', batchIds),
+    supabase
+      .from('cloud_actions')
+      .select('id, batch_id')
+      .in('batch_id', batchIds)
+      .in('status', IN_FLIGHT_STATUSES)
+      .not('started_at', 'is', null),
+  ]);
+
+  if (batchError || inFlightError) {
+    // Without the counts we can't tell whether a slot is free; try again next cycle
+    console.error('Error loading batch concurrency:', batchError || inFlightError);
+    return actions.filter((a) => !a.batch_id || a.started_at);
+  }
+
+  const freeSlots = new Map<string, number>();
+  for (const batch of batches || []) {
+    const running = (inFlight || []).filter((a: { batch_id: string }) => a.batch_id === batch.id).length;
+    freeSlots.set(batch.id, Math.max(0, batch.concurrency_limit - running));
+  }
+
+  return actions.filter((action) => {
+    if (!action.batch_id || action.started_at) return true;
+    const slots = freeSlots.get(action.batch_id) ?? 0;
+    if (slots === 0) return false;
+    freeSlots.set(action.batch_id, slots - 1);
+    return true;
+  });
+}
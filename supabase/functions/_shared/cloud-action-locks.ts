@@ -0,0 +1,155 @@
+// Exclusive per app+environment locks for cloud actions. Shared by cloud-action-orchestrator
+// (scheduled and queued actions) and run-cloud-actions-v2 (manual "Run now").
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+
+interface LockCandidate {
+  id: string;
+  user_id: string;
+  app_id: string;
+  environment_name: string;
+  action_type: string;
+  status: string;
+  started_at?: string | null;
+  lock_policy?: 'queue' | 'reject' | 'supersede' | null;
+}
+
+// A holder that hasn't sent a heartbeat for this long is considered dead and loses its lock
+export const LOCK_STALE_MINUTES = 15;
+
+// Takes the environment lock for every action. Actions that get (or still hold) the lock are returned
+// (queued ones are moved back to 'scheduled'); the others are queued, rejected or supersede queued
+// actions according to their lock_policy. A started action resuming after a retry wait normally still
+// holds its lock; if it lost it anyway, it waits for the environment like a queued action.
+export async function claimEnvironmentLocks<T extends LockCandidate>(supabase: SupabaseClient, actions: T[]): Promise<T[]> {
+  const claimed: T[] = [];
+
+  for (const action of actions) {
+    const { data: holderId, error } = await supabase.rpc('acquire_cloud_action_lock', {
+      _action_id: action.id,
+      _app_id: action.app_id,
+      _environment_name: action.environment_name,
+      _stale_minutes: LOCK_STALE_MINUTES,
+    });
+
+    if (error) {
+      // Starting without the lock is exactly what the lock prevents; try again next cycle
+      console.error(`Error acquiring lock for action ${action.id}:`, error);
+      continue;
+    }
+
+    if (holderId === action.id) {
+      if (action.status === 'queued') {
+        await supabase
+          .from('cloud_actions')
+          .update({ status: 'scheduled', queued_reason: null })
+          .eq('id', action.id)
+          .eq('status', 'queued');
+
+        await supabase.from('cloud_action_logs').insert({
+          action_id: action.id,
+          user_id: action.user_id,
+          level: 'info',
+          message: `🔓 ${action.environment_name} is free again, starting`
+        });
+        claimed.push({ ...action, status: 'scheduled' });
+      } else {
+        claimed.push(action);
+      }
+      continue;
+    }
+
+    await handleLockConflict(supabase, action, holderId);
+  }
+
+  return claimed;
+}
+
+async function handleLockConflict(supabase: SupabaseClient, action: LockCandidate, holderId: string) {
+  const { data: holder } = await supabase
+    .from('cloud_actions')
+    .select('id, action_type, status, creator_name')
+    .eq('id', holderId)
+    .maybeSingle();
+
+  const reason = holder
+    ? `${action.environment_name} is locked by ${holder.action_type} action ${holder.id.slice(0, 8)}` +
+      `${holder.creator_name ? ` (${holder.creator_name})` : ''}`
+    : `${action.environment_name} is locked by another action`;
+
+  // Failing or superseding only makes sense before the action changed anything
+  const policy = action.started_at ? 'queue' : action.lock_policy || 'queue';
+
+  if (policy === 'reject') {
+    await supabase
+      .from('cloud_actions')
+      .update({
+        status: 'failed',
+        error_message: `Rejected: ${reason}`,
+        queued_reason: null,
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', action.id)
+      .in('status', ['scheduled', 'queued']);
+
+    await supabase.from('cloud_action_logs').insert({
+      action_id: action.id,
+      user_id: action.user_id,
+      level: 'error',
+      message: `⛔ Rejected: ${reason}`
+    });
+    console.log(`⛔ Action ${action.id} rejected: ${reason}`);
+    return;
+  }
+
+  if (policy === 'supersede') {
+    // Only waiting actions can be superseded; the one holding the lock is already changing the environment
+    const { data: superseded } = await supabase
+      .from('cloud_actions')
+      .update({
+        status: 'canceled',
+        error_message: `Superseded by ${action.action_type} action ${action.id.slice(0, 8)}`,
+        queued_reason: null,
+        completed_at: new Date().toISOString()
+      })
+      .eq('app_id', action.app_id)
+      .ilike('environment_name', action.environment_name)
+      .eq('status', 'queued')
+      .neq('id', action.id)
+      .select('id, user_id');
+
+    for (const other of superseded || []) {
+      await supabase.from('cloud_action_logs').insert({
+        action_id: other.id,
+        user_id: other.user_id,
+        level: 'warn',
+        message: `⏭️ Superseded by ${action.action_type} action ${action.id}`
+      });
+    }
+    if (superseded && superseded.length > 0) {
+      console.log(`⏭️ Action ${action.id} superseded ${superseded.length} queued actions`);
+    }
+  }
+
+  if (action.status !== 'queued') {
+    await supabase
+      .from('cloud_actions')
+      .update({ status: 'queued', queued_reason: reason })
+      .eq('id', action.id)
+      .eq('status', 'scheduled');
+
+    await supabase.from('cloud_action_logs').insert({
+      action_id: action.id,
+      user_id: action.user_id,
+      level: 'info',
+      message: `⏳ Queued: ${reason}`
+    });
+    console.log(`⏳ Action ${action.id} queued: ${reason}`);
+  } else {
+    // Still waiting; keep the reason current in case the holder changed
+    await supabase
+      .from('cloud_actions')
+      .update({ queued_reason: reason })
+      .eq('id', action.id)
+      .eq('status', 'queued');
+  }
+}
@@ -0,0 +1,160 @@
+// Pre-deploy quality gates for cloud actions. Evaluated by the evaluate_quality_gates step in
+// cloud-action-steps before a package is transported.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+
+export interface QualityGate {
+  id: string;
+  app_id: string;
+  environment_name: string | null;
+  action_types: string[];
+  gate_type: 'owasp' | 'linting' | 'vulnerabilities';
+  max_failures: number;
+  max_age_days: number | null;
+  min_severity: 'critical' | 'high' | 'medium' | 'low';
+  results_environment_name: string | null;
+}
+
+interface GateTarget {
+  app_id: string;
+  environment_name: string;
+  action_type: string;
+  payload?: { sourceEnvironmentName?: string } | null;
+}
+
+export interface QualityGateResult {
+  gate: QualityGate;
+  passed: boolean;
+  message: string;
+}
+
+const SEVERITY_RANK: Record<string, number> = { low: 1, medium: 2, moderate: 2, high: 3, critical: 4 };
+
+export async function loadQualityGates(supabase: SupabaseClient, target: GateTarget): Promise<QualityGate[]> {
+  const { data, error } = await supabase
+    .from('cloud_action_quality_gates')
+    .select('*')
+    .eq('app_id', target.app_id)
+    .eq('is_enabled', true)
+    .contains('action_types', [target.action_type]);
+
+  if (error) {
+    throw new Error(`Failed to load quality gates: ${error.message}`);
+  }
+
+  return ((data || []) as QualityGate[]).filter(
+    (gate) => !gate.environment_name || gate.environment_name.toLowerCase() === target.environment_name.toLowerCase()
+  );
+}
+
+export async function evaluateQualityGates(supabase: SupabaseClient, target: GateTarget): Promise<QualityGateResult[]> {
+  const gates = await loadQualityGates(supabase, target);
+  const results: QualityGateResult[] = [];
+  for (const gate of gates) {
+    results.push(await evaluateQualityGate(supabase, gate, target));
+  }
+  return results;
+}
+
+// Readable one-line summary, used for the action's error_message and logs
+export function describeGateFailures(results: QualityGateResult[]): string {
+  return results
+    .filter((r) => !r.passed)
+    .map((r) => r.message)
+    .join('; ');
+}
+
+async function evaluateQualityGate(supabase: SupabaseClient, gate: QualityGate, target: GateTarget): Promise<QualityGateResult> {
+  const resultsEnvironment = gate.results_environment_name ||
+    (target.action_type === 'transport' && target.payload?.sourceEnvironmentName) ||
+    target.environment_name;
+  const minStartedAt = gate.max_age_days
+    ? new Date(Date.now() - gate.max_age_days * 24 * 60 * 60 * 1000).toISOString()
+    : null;
+  const ageSuffix = gate.max_age_days ? ` in the last ${gate.max_age_days} days` : '';
+
+  switch (gate.gate_type) {
+    case 'owasp': {
+      let query = supabase
+        .from('owasp_check_runs')
+        .select('failed_checks, total_checks, run_started_at')
+        .eq('app_id', gate.app_id)
+        .ilike('environment_name', resultsEnvironment)
+        .not('run_completed_at', 'is', null)
+        .neq('overall_status', 'running');
+      if (minStartedAt) query = query.gte('run_started_at', minStartedAt);
+      const { data: run } = await query.order('run_started_at', { ascending: false }).limit(1).maybeSingle();
+
+      if (!run) {
+        return { gate, passed: false, message: `OWASP: no completed run on ${resultsEnvironment}${ageSuffix}` };
+      }
+      const passed = run.failed_checks <= gate.max_failures;
+      return {
+        gate,
+        passed,
+        message: `OWASP: ${run.failed_checks}/${run.total_checks} checks failed on ${resultsEnvironment} ` +
+          `(run of ${run.run_started_at.slice(0, 10)}, allowed ${gate.max_failures})`,
+      };
+    }
+
+    case 'linting': {
+      let query = supabase
+        .from('linting_runs')
+        .select('status, failed_rules, started_at')
+        .eq('app_id', gate.app_id)
+        .neq('status', 'running');
+      if (minStartedAt) query = query.gte('started_at', minStartedAt);
+      const { data: run } = await query.order('started_at', { ascending: false }).limit(1).maybeSingle();
+
+      if (!run) {
+        return { gate, passed: false, message: `Linting: no completed run${ageSuffix}` };
+      }
+      if (run.status === 'failed') {
+        return { gate, passed: false, message: `Linting: latest run (${run.started_at.slice(0, 10)}) failed` };
+      }
+      const failedRules = run.failed_rules || 0;
+      return {
+        gate,
+        passed: failedRules <= gate.max_failures,
+        message: `Linting: ${failedRules} failed rules (run of ${run.started_at.slice(0, 10)}, allowed ${gate.max_failures})`,
+      };
+    }
+
+    case 'vulnerabilities': {
+      let query = supabase
+        .from('vulnerability_scans')
+        .select('id, completed_at, package_version')
+        .eq('app_id', gate.app_id)
+        .ilike('environment_name', resultsEnvironment)
+        .eq('scan_status', 'completed');
+      if (minStartedAt) query = query.gte('started_at', minStartedAt);
+      const { data: scan } = await query.order('completed_at', { ascending: false }).limit(1).maybeSingle();
+
+      if (!scan) {
+        return { gate, passed: false, message: `Vulnerabilities: no completed scan on ${resultsEnvironment}${ageSuffix}` };
+      }
+
+      const { data: findings, error } = await supabase
+        .from('vulnerability_findings')
+        .select('severity')
+        .eq('scan_id', scan.id);
+      if (error) {
+        throw new Error(`Failed to load vulnerability findings: ${error.message}`);
+      }
+
+      const minRank = SEVERITY_RANK[gate.min_severity];
+      const count = (findings || []).filter(
+        (f: { severity: string | null }) => (SEVERITY_RANK[(f.severity || '').toLowerCase()] || 0) >= minRank
+      ).length;
+      const severityLabel = gate.min_severity === 'critical' ? 'critical' : `${gate.min_severity} or higher`;
+      return {
+        gate,
+        passed: count <= gate.max_failures,
+        message: `Vulnerabilities: ${count} ${severityLabel} findings on ${resultsEnvironment}` +
+          `${scan.package_version ? ` (${scan.package_version})` : ''}, allowed ${gate.max_failures}`,
+      };
+    }
+
+    default:
+      return { gate, passed: false, message: `Unknown gate type '${gate.gate_type}'` };
+  }
+}
@@ -0,0 +1,121 @@
+// Retry policies for cloud actions. run-cloud-actions-v2 classifies every step error and asks the
+// action's policy (with per-step overrides) whether and when to try again. src/lib/cloudActionRetry.ts
+// builds the policy editor on the defaults and error classes exported here.
+
+export const RETRY_ERROR_CLASSES = ['server_error', 'timeout', 'environment_busy', 'rate_limited', 'network', 'other'] as const;
+
+export type RetryErrorClass = (typeof RETRY_ERROR_CLASSES)[number];
+
+// Errors that no amount of retrying fixes (missing credentials, 4xx, FATAL: from cloud-action-steps)
+export type ErrorClass = RetryErrorClass | 'fatal';
+
+export interface RetryPolicySettings {
+  maxAttempts: number;
+  backoff: 'fixed' | 'exponential';
+  baseDelaySeconds: number;
+  maxDelaySeconds: number;
+  jitter: boolean;
+  retryOn: RetryErrorClass[];
+}
+
+export interface RetryPolicy extends RetryPolicySettings {
+  steps?: Record<string, Partial<RetryPolicySettings>>;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicySettings = {
+  maxAttempts: 3,
+  backoff: 'exponential',
+  baseDelaySeconds: 60,
+  maxDelaySeconds: 900,
+  jitter: true,
+  retryOn: ['server_error', 'timeout', 'environment_busy', 'rate_limited', 'network', 'other'],
+};
+
+// Upper bound for maxAttempts; the processors use it as a safety net when fetching due actions
+export const MAX_ATTEMPTS_LIMIT = 10;
+
+const FATAL_PATTERNS = [
+  /^FATAL:/,
+  /APP_NOT_FOUND/,
+  /INVALID_CREDENTIALS/,
+  /Credentials not found/i,
+  /Application not found/i,
+  /Unknown (step|action type)/i,
+  /Invalid step/i,
+];
+
+export function classifyError(message: string): ErrorClass {
+  if (FATAL_PATTERNS.some((pattern) => pattern.test(message))) return 'fatal';
+
+  // cloud-action-steps reports HTTP failures as "<what>: <status> - <body>" or "<what>: <status>"
+  const status = Number(message.match(/:\s*([45]\d{2})(?:\s|$)/)?.[1]);
+  if (status === 409) return 'environment_busy';
+  if (status === 429) return 'rate_limited';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status >= 500) return 'server_error';
+  if (status >= 400) return 'fatal';
+
+  if (/timed? ?out|timeout|deadline/i.test(message)) return 'timeout';
+  if (/fetch failed|network|ECONN|ENOTFOUND|socket|connection/i.test(message)) return 'network';
+  return 'other';
+}
+
+// Action policy on top of the defaults, then the override for the step that failed
+export function resolveRetryPolicy(policy: Partial<RetryPolicy> | null | undefined, step: string): RetryPolicySettings {
+  const { steps, ...actionSettings } = policy || {};
+  const resolved = { ...DEFAULT_RETRY_POLICY, ...actionSettings, ...(steps?.[step] || {}) };
+  return {
+    ...resolved,
+    maxAttempts: Math.min(Math.max(Math.floor(resolved.maxAttempts), 1), MAX_ATTEMPTS_LIMIT),
+    baseDelaySeconds: Math.max(resolved.baseDelaySeconds, 0),
+    maxDelaySeconds: Math.max(resolved.maxDelaySeconds, resolved.baseDelaySeconds, 0),
+  };
+}
+
+export function retryDelayMs(settings: RetryPolicySettings, attempt: number): number {
+  const base = settings.baseDelaySeconds * 1000;
+  const delay = settings.backoff === 'exponential'
+    ? Math.min(base * 2 ** Math.max(attempt - 1, 0), settings.maxDelaySeconds * 1000)
+    : base;
+  // Equal jitter: keep at least half the delay so retries never bunch up at zero
+  return settings.jitter ? Math.round(delay / 2 + Math.random() * (delay / 2)) : delay;
+}
+
+export interface RetryDecision {
+  retry: boolean;
+  errorClass: ErrorClass;
+  maxAttempts: number;
+  retryAt?: Date;
+  // Why the action is not retried, for the logs
+  reason?: string;
+}
+
+// attempt is the number of the attempt that just failed (1-based); retryUntil is the action's overall deadline
+export function decideRetry(
+  policy: Partial<RetryPolicy> | null | undefined,
+  step: string,
+  errorMessage: string,
+  attempt: number,
+  retryUntil?: string | null,
+  now: Date = new Date()
+): RetryDecision {
+  const settings = resolveRetryPolicy(policy, step);
+  const errorClass = classifyError(errorMessage);
+  const maxAttempts = settings.maxAttempts;
+
+  if (errorClass === 'fatal') {
+    return { retry: false, errorClass, maxAttempts, reason: 'error is not retryable' };
+  }
+  if (!settings.retryOn.includes(errorClass)) {
+    return { retry: false, errorClass, maxAttempts, reason: `${errorClass} errors are not retried by the policy` };
+  }
+  if (attempt >= maxAttempts) {
+    return { retry: false, errorClass, maxAttempts, reason: `failed after ${maxAttempts} attempts` };
+  }
+
+  const retryAt = new Date(now.getTime() + retryDelayMs(settings, attempt));
+  if (retryUntil && retryAt > new Date(retryUntil)) {
+    return { retry: false, errorClass, maxAttempts, reason: 'retry deadline passed' };
+  }
+  return { retry: true, errorClass, maxAttempts, retryAt };
+}
@@ -0,0 +1,74 @@
+// Order of the steps each action type goes through in cloud-action-steps, and where a running action
+// may be interrupted. Used by plan-cloud-action (dry runs), cloud-action-steps (cancel and pause),
+// run-cloud-actions-v2 (rollbacks) and the step timeline in the app.
+
+// Steps after transport_package: the target environment already has the new package.
+// wait_stopped and call_start are taken when the environment was not stopped yet at wait_environment_stopped.
+// Keep in sync with the step transitions in cloud-action-steps (rollback steps excluded)
+export const POST_TRANSPORT_STEPS = [
+  'stop_environment',
+  'wait_environment_stopped',
+  'wait_stopped',
+  'create_backup',
+  'wait_backup_complete',
+  'call_start',
+  'start_environment',
+  'wait_environment_running',
+];
+const STOP_WAIT_STEPS = ['wait_stopped', 'call_start'];
+const RESTART_STEPS = ['call_stop', 'wait_stopped', 'call_start', 'wait_environment_running'];
+
+export interface PlannedStepsPayload {
+  restartAfter?: boolean;
+}
+
+// Steps on the usual path, without the wait_stopped detour of deploys and transports
+export function plannedSteps(actionType: string, payload: PlannedStepsPayload | null | undefined): string[] {
+  const postTransport = POST_TRANSPORT_STEPS.filter((step) => !STOP_WAIT_STEPS.includes(step));
+
+  switch (actionType) {
+    case 'start':
+      return ['call_start', 'wait_environment_running'];
+    case 'stop':
+      return ['call_stop'];
+    case 'restart':
+      return RESTART_STEPS;
+    case 'deploy':
+      return ['create_package', 'wait_package_build', 'evaluate_quality_gates', 'transport_package', ...postTransport];
+    case 'transport':
+      return ['retrieve_source_package', 'evaluate_quality_gates', 'transport_package', ...postTransport];
+    case 'build':
+      return ['create_package', 'wait_package_build'];
+    case 'configure':
+      return ['read_settings', 'apply_settings', ...(payload?.restartAfter ? RESTART_STEPS : [])];
+    case 'scale':
+      return ['validate_scale', 'call_scale', 'wait_scaled'];
+    case 'restore':
+      return ['validate_restore', 'call_stop', 'wait_stopped', 'restore_backup', 'call_start', 'wait_environment_running'];
+    default:
+      return [];
+  }
+}
+
+// Steps that run while the action itself has stopped the environment, i.e. between its stop and start calls
+const STOPPED_STEPS: Record<string, string[]> = {
+  restart: ['wait_stopped', 'call_start'],
+  configure: ['wait_stopped', 'call_start'],
+  restore: ['wait_stopped', 'restore_backup', 'call_start'],
+  deploy: ['wait_environment_stopped', 'wait_stopped', 'create_backup', 'wait_backup_complete', 'call_start', 'start_environment'],
+  transport: ['wait_environment_stopped', 'wait_stopped', 'create_backup', 'wait_backup_complete', 'call_start', 'start_environment'],
+};
+
+// Whether a running action may stop before `step`. Never inside a stop/start pair, so an environment
+// the action stopped is always started again, and never during a rollback.
+export function isSafeInterruptionPoint(actionType: string, step: string): boolean {
+  if (step.startsWith('rollback_')) return false;
+  return !(STOPPED_STEPS[actionType] || []).includes(step);
+}
+
+// Steps an action interrupted before `step` leaves undone, `step` included
+export function remainingSteps(actionType: string, payload: PlannedStepsPayload | null | undefined, step: string): string[] {
+  const steps = plannedSteps(actionType, payload);
+  const index = steps.indexOf(step);
+  return index === -1 ? [step] : steps.slice(index);
+}
@@ -0,0 +1,64 @@
+// Step timeline for cloud actions. run-cloud-actions-v2 keeps one open cloud_action_step_runs row
+// (ended_at null) for the step an action is in and closes it with the outcome when the step ends.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+
+interface StepRunAction {
+  id: string;
+  user_id: string;
+  app_id: string;
+  environment_name: string;
+  action_type: string;
+  attempt_count?: number;
+}
+
+export type StepRunOutcome = 'succeeded' | 'failed' | 'retried' | 'canceled';
+
+// Opens a run for the step unless one is already open (polling steps run across many cycles)
+export async function openStepRun(supabase: SupabaseClient, action: StepRunAction, step: string, attempt?: number) {
+  const { data: open, error } = await supabase
+    .from('cloud_action_step_runs')
+    .select('id, step')
+    .eq('action_id', action.id)
+    .is('ended_at', null)
+    .maybeSingle();
+
+  if (error) {
+    // The timeline is informational; never fail the action because of it
+    console.error(`Error loading step run for action ${action.id}:`, error);
+    return;
+  }
+  if (open?.step === step) return;
+  if (open) {
+    // Left open by a run that died before recording its outcome
+    await closeStepRun(supabase, action.id, 'failed', 'Step was interrupted');
+  }
+
+  const { error: insertError } = await supabase.from('cloud_action_step_runs').insert({
+    action_id: action.id,
+    user_id: action.user_id,
+    app_id: action.app_id,
+    environment_name: action.environment_name,
+    action_type: action.action_type,
+    step,
+    attempt: attempt ?? (action.attempt_count || 0) + 1,
+  });
+  if (insertError) {
+    console.error(`Error opening step run '${step}' for action ${action.id}:`, insertError);
+  }
+}
+
+export async function closeStepRun(supabase: SupabaseClient, actionId: string, outcome: StepRunOutcome, errorMessage?: string) {
+  const { error } = await supabase
+    .from('cloud_action_step_runs')
+    .update({
+      ended_at: new Date().toISOString(),
+      outcome,
+      error_message: errorMessage || null,
+    })
+    .eq('action_id', actionId)
+    .is('ended_at', null);
+
+  if (error) {
+    console.error(`Error closing step run for action ${actionId}:`, error);
+  }
+}
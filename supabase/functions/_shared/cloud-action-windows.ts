@@ -0,0 +1,211 @@
+// Freeze and maintenance window checks for cloud actions. Shared by cloud-action-orchestrator
+// (scheduled runs) and run-cloud-actions-v2 (manual "Run now").
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { nextCronOccurrence } from './cron-utils.ts';
+
+export interface CloudActionWindow {
+  id: string;
+  name: string;
+  window_type: 'freeze' | 'maintenance';
+  app_id: string | null;
+  environment_name: string | null;
+  action_types: string[];
+  starts_at: string | null;
+  ends_at: string | null;
+  cron_expression: string | null;
+  duration_minutes: number | null;
+  timezone: string;
+  conflict_behavior: 'block' | 'reschedule';
+}
+
+interface WindowTarget {
+  app_id: string;
+  environment_name: string;
+  action_type: string;
+}
+
+interface Interval {
+  start: Date;
+  end: Date;
+}
+
+export interface WindowCheck {
+  allowed: boolean;
+  window?: CloudActionWindow;
+  reason?: string;
+}
+
+// Safety net for pathological window combinations (e.g. a freeze covering every maintenance window)
+const MAX_SLOT_SEARCH_STEPS = 100;
+
+export function windowApplies(window: CloudActionWindow, target: WindowTarget): boolean {
+  if (window.app_id && window.app_id !== target.app_id) return false;
+  if (window.environment_name && window.environment_name.toLowerCase() !== target.environment_name.toLowerCase()) {
+    return false;
+  }
+  return window.action_types.includes(target.action_type);
+}
+
+// The occurrence of `window` that contains `at`, if any
+export function activeInterval(window: CloudActionWindow, at: Date): Interval | null {
+  if (window.cron_expression && window.duration_minutes) {
+    const durationMs = window.duration_minutes * 60_000;
+    try {
+      const start = nextCronOccurrence(window.cron_expression, new Date(at.getTime() - durationMs), window.timezone);
+      if (start && start <= at) {
+        return { start, end: new Date(start.getTime() + durationMs) };
+      }
+    } catch (error) {
+      console.error(`Invalid window ${window.id} (${window.cron_expression}):`, error);
+    }
+    return null;
+  }
+
+  if (window.starts_at && window.ends_at) {
+    const start = new Date(window.starts_at);
+    const end = new Date(window.ends_at);
+    return start <= at && at < end ? { start, end } : null;
+  }
+
+  return null;
+}
+
+export function nextWindowStart(window: CloudActionWindow, after: Date): Date | null {
+  if (window.cron_expression && window.duration_minutes) {
+    try {
+      return nextCronOccurrence(window.cron_expression, after, window.timezone);
+    } catch {
+      return null;
+    }
+  }
+  if (window.starts_at && new Date(window.starts_at) > after) {
+    return new Date(window.starts_at);
+  }
+  return null;
+}
+
+export function checkActionWindows(windows: CloudActionWindow[], target: WindowTarget, at: Date): WindowCheck {
+  const relevant = windows.filter((w) => windowApplies(w, target));
+
+  for (const window of relevant.filter((w) => w.window_type === 'freeze')) {
+    const interval = activeInterval(window, at);
+    if (interval) {
+      return {
+        allowed: false,
+        window,
+        reason: `Freeze window '${window.name}' is active until ${interval.end.toISOString()}`,
+      };
+    }
+  }
+
+  const maintenance = relevant.filter((w) => w.window_type === 'maintenance');
+  if (maintenance.length > 0 && !maintenance.some((w) => activeInterval(w, at))) {
+    return {
+      allowed: false,
+      window: maintenance[0],
+      reason: `Outside maintenance window${maintenance.length > 1 ? 's' : ''} ${maintenance.map((w) => `'${w.name}'`).join(', ')}`,
+    };
+  }
+
+  return { allowed: true };
+}
+
+// Earliest time at or after `from` at which the target may start, or null if there is none
+export function nextAllowedSlot(windows: CloudActionWindow[], target: WindowTarget, from: Date): Date | null {
+  const relevant = windows.filter((w) => windowApplies(w, target));
+  const freezes = relevant.filter((w) => w.window_type === 'freeze');
+  const maintenance = relevant.filter((w) => w.window_type === 'maintenance');
+  let candidate = from;
+
+  for (let step = 0; step < MAX_SLOT_SEARCH_STEPS; step++) {
+    const activeFreezeEnds = freezes
+      .map((w) => activeInterval(w, candidate)?.end)
+      .filter((end): end is Date => !!end);
+    if (activeFreezeEnds.length > 0) {
+      candidate = new Date(Math.max(...activeFreezeEnds.map((d) => d.getTime())));
+      continue;
+    }
+
+    if (maintenance.length > 0 && !maintenance.some((w) => activeInterval(w, candidate))) {
+      const starts = maintenance
+        .map((w) => nextWindowStart(w, candidate))
+        .filter((start): start is Date => !!start);
+      if (starts.length === 0) return null;
+      candidate = new Date(Math.min(...starts.map((d) => d.getTime())));
+      continue;
+    }
+
+    return candidate;
+  }
+
+  return null;
+}
+
+export async function loadActionWindows(supabase: SupabaseClient, appIds: string[]): Promise<CloudActionWindow[]> {
+  if (appIds.length === 0) return [];
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('cloud_action_windows')
+    .select('*')
+    .or(`app_id.is.null,app_id.in.(${[...new Set(appIds)].join(',')})`)
+    // Expired one-off windows no longer matter
+    .or(`ends_at.is.null,ends_at.gt.${now}`);
+
+  if (error) {
+    console.error('Error fetching cloud action windows:', error);
+    return [];
+  }
+
+  return (data || []) as CloudActionWindow[];
+}
+
+// Returns true when the action may start now. Otherwise the action is blocked or moved to the
+// next allowed slot (depending on the window's conflict_behavior) and false is returned.
+export async function enforceActionWindows(
+  supabase: SupabaseClient,
+  windows: CloudActionWindow[],
+  action: WindowTarget & { id: string; user_id: string },
+  now: Date
+): Promise<boolean> {
+  const check = checkActionWindows(windows, action, now);
+  if (check.allowed) return true;
+
+  const slot = check.window?.conflict_behavior === 'reschedule' ? nextAllowedSlot(windows, action, now) : null;
+
+  if (slot) {
+    await supabase
+      .from('cloud_actions')
+      .update({ scheduled_for: slot.toISOString() })
+      .eq('id', action.id)
+      .in('status', ['scheduled', 'queued']);
+
+    await supabase.from('cloud_action_logs').insert({
+      action_id: action.id,
+      user_id: action.user_id,
+      level: 'warn',
+      message: `⏸️ ${check.reason}. Moved to next allowed slot ${slot.toISOString()}`
+    });
+    console.log(`⏸️ Action ${action.id} rescheduled to ${slot.toISOString()}: ${check.reason}`);
+    return false;
+  }
+
+  const errorMessage = check.window?.conflict_behavior === 'reschedule'
+    ? `Blocked: ${check.reason} and no later slot is available`
+    : `Blocked: ${check.reason}`;
+
+  await supabase
+    .from('cloud_actions')
+    .update({ status: 'blocked', error_message: errorMessage, completed_at: now.toISOString() })
+    .eq('id', action.id)
+    .in('status', ['scheduled', 'queued']);
+
+  await supabase.from('cloud_action_logs').insert({
+    action_id: action.id,
+    user_id: action.user_id,
+    level: 'error',
+    message: `⛔ ${errorMessage}`
+  });
+  console.log(`⛔ Action ${action.id} blocked: ${check.reason}`);
+  return false;
+}
@@ -0,0 +1,217 @@
+// Minimal 5-field cron support (minute hour day-of-month month day-of-week) evaluated in an
+// IANA timezone. Used by cloud-action-orchestrator to materialise schedule occurrences and
+// re-exported by src/lib/cron.ts for the schedule previews in the UI, so keep it free of Deno APIs.
+
+export interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+// Give up looking for a match after this many years (e.g. '0 0 30 2 *' never fires)
+const MAX_SEARCH_YEARS = 5;
+
+function parseValue(raw: string, names: string[] | undefined, offset: number): number {
+  const upper = raw.toUpperCase();
+  if (names) {
+    const index = names.indexOf(upper);
+    if (index >= 0) return index + offset;
+  }
+  if (!/^\d+$/.test(raw)) {
+    throw new Error(`Invalid value '${raw}'`);
+  }
+  return parseInt(raw, 10);
+}
+
+function parseField(field: string, min: number, max: number, label: string, names?: string[], nameOffset = 0) {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : parseInt(stepPart, 10);
+    if (!Number.isFinite(step) || step < 1) {
+      throw new Error(`Invalid step in ${label} field: '${part}'`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseValue(from, names, nameOffset);
+      end = parseValue(to, names, nameOffset);
+    } else {
+      start = parseValue(rangePart, names, nameOffset);
+      end = stepPart === undefined ? start : max;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`${label} field out of range (${min}-${max}): '${part}'`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCron(expression: string): CronFields {
+  const normalized = MACROS[expression.trim().toLowerCase()] || expression.trim();
+  const parts = normalized.split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error('Cron expression must have 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = parts;
+  const daysOfWeek = parseField(dayOfWeek, 0, 7, 'Day-of-week', DAY_NAMES);
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes: parseField(minute, 0, 59, 'Minute'),
+    hours: parseField(hour, 0, 23, 'Hour'),
+    daysOfMonth: parseField(dayOfMonth, 1, 31, 'Day-of-month'),
+    months: parseField(month, 1, 12, 'Month', MONTH_NAMES, 1),
+    daysOfWeek,
+    dayOfMonthRestricted: dayOfMonth !== '*',
+    dayOfWeekRestricted: dayOfWeek !== '*',
+  };
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Wall-clock time of `date` in `timeZone`, expressed as a UTC timestamp (ms) truncated to the minute
+function toWallClock(date: Date, timeZone: string): number {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10);
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+}
+
+// Inverse of toWallClock; returns null when the wall time doesn't exist (DST spring-forward gap)
+function fromWallClock(wall: number, timeZone: string): Date | null {
+  const firstGuess = wall - (toWallClock(new Date(wall), timeZone) - wall);
+  const instant = wall - (toWallClock(new Date(firstGuess), timeZone) - firstGuess);
+  return toWallClock(new Date(instant), timeZone) === wall ? new Date(instant) : null;
+}
+
+function matchesDay(fields: CronFields, date: Date): boolean {
+  const dayOfMonthMatch = fields.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeekMatch = fields.daysOfWeek.has(date.getUTCDay());
+  // Classic cron: when both day fields are restricted, either one matching is enough
+  if (fields.dayOfMonthRestricted && fields.dayOfWeekRestricted) {
+    return dayOfMonthMatch || dayOfWeekMatch;
+  }
+  return dayOfMonthMatch && dayOfWeekMatch;
+}
+
+// First occurrence strictly after `after`, or null if there is none within the search window
+export function nextCronOccurrence(expression: string | CronFields, after: Date, timeZone = 'UTC'): Date | null {
+  const fields = typeof expression === 'string' ? parseCron(expression) : expression;
+  let wall = toWallClock(after, timeZone) + 60_000;
+  const limit = wall + MAX_SEARCH_YEARS * 366 * 24 * 60 * 60_000;
+
+  while (wall <= limit) {
+    const date = new Date(wall);
+
+    if (!fields.months.has(date.getUTCMonth() + 1)) {
+      wall = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+      continue;
+    }
+    if (!matchesDay(fields, date)) {
+      wall = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+      continue;
+    }
+    if (!fields.hours.has(date.getUTCHours())) {
+      wall = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), date.getUTCHours() + 1);
+      continue;
+    }
+    if (!fields.minutes.has(date.getUTCMinutes())) {
+      wall += 60_000;
+      continue;
+    }
+
+    const instant = fromWallClock(wall, timeZone);
+    if (instant && instant.getTime() > after.getTime()) {
+      return instant;
+    }
+    wall += 60_000;
+  }
+
+  return null;
+}
+
+export function upcomingCronOccurrences(
+  expression: string,
+  after: Date,
+  timeZone: string,
+  count: number,
+  endsAt?: Date | null
+): Date[] {
+  const fields = parseCron(expression);
+  const occurrences: Date[] = [];
+  let cursor = after;
+
+  while (occurrences.length < count) {
+    const next = nextCronOccurrence(fields, cursor, timeZone);
+    if (!next || (endsAt && next > endsAt)) break;
+    occurrences.push(next);
+    cursor = next;
+  }
+
+  return occurrences;
+}
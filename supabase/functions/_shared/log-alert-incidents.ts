@@ -0,0 +1,44 @@
+// Raising log monitoring alerts. Alerts for the same condition are grouped into one incident by
+// raise_log_alert; only a new (or re-opened) incident is emailed. Used by monitor-environment-logs
+// and the alert rules in log-alert-rules.ts.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+
+export interface LogAlertInput {
+  user_id: string;
+  environment_id: string;
+  // Identifies the condition, e.g. 'rule:<rule id>' or 'new_signature'
+  dedup_key: string;
+  alert_type: string;
+  log_entries_count: number;
+  log_content: string;
+  rule_id?: string;
+  severity?: string;
+}
+
+export interface RaisedLogAlert {
+  alert_id: string;
+  notify: boolean;
+}
+
+export async function raiseLogAlert(supabase: SupabaseClient, alert: LogAlertInput): Promise<RaisedLogAlert> {
+  const { data, error } = await supabase.rpc('raise_log_alert', {
+    _user_id: alert.user_id,
+    _environment_id: alert.environment_id,
+    _dedup_key: alert.dedup_key,
+    _alert_type: alert.alert_type,
+    _log_entries_count: alert.log_entries_count,
+    _log_content: alert.log_content,
+    _rule_id: alert.rule_id ?? null,
+    _severity: alert.severity ?? null,
+  });
+  if (error || !data?.length) throw new Error(`Raising ${alert.dedup_key} alert failed: ${error?.message || 'no result'}`);
+  return data[0];
+}
+
+export async function markLogAlertEmailed(supabase: SupabaseClient, alertId: string) {
+  const { error } = await supabase
+    .from('log_monitoring_alerts')
+    .update({ email_sent: true, email_sent_at: new Date().toISOString() })
+    .eq('id', alertId);
+  if (error) console.error(`Failed to mark alert ${alertId} as emailed:`, error);
+}
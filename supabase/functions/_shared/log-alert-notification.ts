@@ -0,0 +1,46 @@
+// Notification for log monitoring alerts: the log_alert email template variables, sent to every email
+// address and channel subscribed to log alerts. Used by monitor-environment-logs and log-alert-rules.ts.
+// Resolves to whether the notification went out.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { dispatchNotification } from './notifications.ts';
+
+export async function sendLogAlertNotification(supabase: SupabaseClient, user_id: string, environment: { app_id: string; environment_name: string }, alert_type: string, error_count: number, critical_count: number, log_content: string, extra_variables: Record<string, string> = {}): Promise<boolean> {
+  // Get app name from mendix_apps table using environment's app_id
+  const { data: appData } = await supabase
+    .from('mendix_apps')
+    .select('app_name')
+    .eq('project_id', environment.app_id)
+    .eq('user_id', user_id)
+    .single();
+
+  const appName = appData?.app_name || environment.app_id;
+
+  // Helper function to format dates in Dutch format
+  const formatDutchDateTime = (date: Date): string => {
+    return new Intl.DateTimeFormat('nl-NL', {
+      timeZone: 'Europe/Amsterdam',
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hour12: false
+    }).format(date);
+  };
+
+  // Template variables
+  const templateVariables = {
+    app_name: appName,
+    environment_name: environment.environment_name,
+    error_count: error_count.toString(),
+    critical_count: critical_count.toString(),
+    timestamp: formatDutchDateTime(new Date()),
+    log_content: log_content,
+    alert_type: alert_type,
+    ...extra_variables
+  };
+
+  return dispatchNotification(supabase, user_id, 'log_alert', templateVariables);
+}
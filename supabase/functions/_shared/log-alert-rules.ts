@@ -0,0 +1,273 @@
+// Evaluation of log alert rules (log_alert_rules) against the logs stored in mendix_logs and the log
+// lines downloaded for the environment. Used by monitor-environment-logs on every check.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { sendLogAlertNotification } from './log-alert-notification.ts';
+import { markLogAlertEmailed, raiseLogAlert } from './log-alert-incidents.ts';
+
+export interface LogAlertRule {
+  id: string;
+  user_id: string;
+  environment_id: string;
+  name: string;
+  levels: string[] | null;
+  node_pattern: string | null;
+  message_regex: string | null;
+  stacktrace_regex: string | null;
+  window_minutes: number;
+  condition_type: 'count_above' | 'rate_increase' | 'absence';
+  threshold: number;
+  min_count: number;
+  severity: 'info' | 'warning' | 'critical';
+  last_evaluated_at: string | null;
+  last_fired_at: string | null;
+}
+
+// mendix_logs rows are keyed by the Mendix app id and environment name, not the environment row.
+// Lines containing one of the environment's whitelist patterns are never counted.
+export interface LogScope {
+  appId: string;
+  environmentName: string;
+  whitelist: string[];
+}
+
+// A downloaded log line, as parsed by parseLogLine in log-signatures.ts
+export interface DownloadedLogLine {
+  line: string;
+  timestamp: Date | null;
+  level: string | null;
+  message: string;
+}
+
+// Columns of mendix_logs the samples show
+interface StoredLogLine {
+  timestamp: string;
+  level: string;
+  node: string | null;
+  message: string;
+}
+
+export interface RuleEvaluation {
+  fired: boolean;
+  count: number;
+  // Matches in the same window a week earlier (rate_increase only)
+  baseline: number | null;
+  summary: string;
+}
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const escapeLike = (pattern: string) => pattern.replace(/[\\%_]/g, '\\$&');
+
+type LogQuery = ReturnType<ReturnType<SupabaseClient['from']>['select']>;
+
+// Count and sample queries share the rule's filter
+function filtered<Q extends LogQuery>(query: Q, rule: LogAlertRule, scope: LogScope, from: Date, to: Date) {
+  let q = query
+    .eq('app_id', scope.appId)
+    .ilike('environment', scope.environmentName)
+    .gte('timestamp', from.toISOString())
+    .lt('timestamp', to.toISOString());
+  if (rule.levels?.length) q = q.in('level', rule.levels);
+  if (rule.node_pattern) q = q.ilike('node', rule.node_pattern.replace(/\*/g, '%'));
+  if (rule.message_regex) q = q.filter('message', 'imatch', rule.message_regex);
+  if (rule.stacktrace_regex) q = q.filter('stacktrace', 'imatch', rule.stacktrace_regex);
+  for (const pattern of scope.whitelist) q = q.not('message', 'ilike', `%${escapeLike(pattern)}%`);
+  return q;
+}
+
+function toRegex(pattern: string, flags = 'i'): RegExp | null {
+  try {
+    return new RegExp(pattern, flags);
+  } catch {
+    return null;
+  }
+}
+
+// Downloaded lines have no separate node or stacktrace: the node is the part of the message before the
+// first ': ', and a rule with a stacktrace regex never matches a downloaded line
+function matchLines(rule: LogAlertRule, lines: DownloadedLogLine[], from: Date, to: Date): DownloadedLogLine[] {
+  if (rule.stacktrace_regex) return [];
+  const levels = rule.levels?.map((l) => l.toLowerCase());
+  const node = rule.node_pattern
+    ? toRegex(`^${rule.node_pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`)
+    : null;
+  const message = rule.message_regex ? toRegex(rule.message_regex) : null;
+  // An invalid regex matches nothing, as it fails the mendix_logs query
+  if ((rule.node_pattern && !node) || (rule.message_regex && !message)) return [];
+
+  return lines.filter((line) => {
+    if (!line.timestamp || line.timestamp < from || line.timestamp >= to) return false;
+    if (levels?.length && !levels.includes((line.level || '').toLowerCase())) return false;
+    if (node) {
+      const separator = line.message.indexOf(': ');
+      if (separator < 0 || !node.test(line.message.slice(0, separator))) return false;
+    }
+    return !message || message.test(line.message);
+  });
+}
+
+async function countMatches(supabase: SupabaseClient, rule: LogAlertRule, scope: LogScope, from: Date, to: Date): Promise<number> {
+  const { count, error } = await filtered(
+    supabase.from('mendix_logs').select('id', { count: 'exact', head: true }),
+    rule,
+    scope,
+    from,
+    to,
+  );
+  if (error) throw new Error(`Counting logs for rule "${rule.name}" failed: ${error.message}`);
+  return count || 0;
+}
+
+// Most recent matching lines, for the alert content
+export async function sampleMatches(supabase: SupabaseClient, rule: LogAlertRule, scope: LogScope, now: Date, limit = 20): Promise<string[]> {
+  const from = new Date(now.getTime() - rule.window_minutes * 60_000);
+  const { data, error } = await filtered(
+    supabase.from('mendix_logs').select('timestamp, level, node, message'),
+    rule,
+    scope,
+    from,
+    now,
+  )
+    .order('timestamp', { ascending: false })
+    .limit(limit);
+  if (error) return [];
+  return ((data || []) as StoredLogLine[]).map((l) => `${l.timestamp} ${l.level.toUpperCase()} - ${l.node ? `${l.node}: ` : ''}${l.message}`);
+}
+
+// Rules are re-evaluated every run but fire at most once per window
+export function isRuleMuted(rule: LogAlertRule, now: Date): boolean {
+  return !!rule.last_fired_at && now.getTime() - new Date(rule.last_fired_at).getTime() < rule.window_minutes * 60_000;
+}
+
+// Environments sending logs to the webhook have the same lines in both sources, so the higher count is
+// used rather than the sum. Without downloaded lines (the download failed) only mendix_logs is counted.
+export async function evaluateRule(supabase: SupabaseClient, rule: LogAlertRule, scope: LogScope, now: Date, lines: DownloadedLogLine[] | null): Promise<RuleEvaluation> {
+  const from = new Date(now.getTime() - rule.window_minutes * 60_000);
+  const stored = await countMatches(supabase, rule, scope, from, now);
+  const count = lines ? Math.max(stored, matchLines(rule, lines, from, now).length) : stored;
+  const window = `${rule.window_minutes} min`;
+
+  switch (rule.condition_type) {
+    case 'count_above':
+      return {
+        fired: count > rule.threshold,
+        count,
+        baseline: null,
+        summary: `${count} matching lines in the last ${window} (limit ${rule.threshold})`,
+      };
+    case 'rate_increase': {
+      // The downloaded log only covers today, so the comparison with last week uses mendix_logs alone
+      const baseline = await countMatches(
+        supabase,
+        rule,
+        scope,
+        new Date(from.getTime() - WEEK_MS),
+        new Date(now.getTime() - WEEK_MS),
+      );
+      // With no lines last week any count at or above min_count is an increase
+      const limit = baseline * (1 + rule.threshold / 100);
+      return {
+        fired: stored >= Math.max(rule.min_count, 1) && stored > limit,
+        count: stored,
+        baseline,
+        summary: `${stored} matching lines in the last ${window}, ${baseline} in the same window last week (alert above +${rule.threshold}%)`,
+      };
+    }
+    case 'absence':
+      return {
+        fired: count === 0,
+        count,
+        baseline: null,
+        summary: count === 0 ? `No matching line in the last ${window}` : `${count} matching lines in the last ${window}`,
+      };
+  }
+}
+
+export interface RuleTarget {
+  environment: { id: string; user_id: string; app_id: string; environment_name: string };
+  scope: LogScope;
+}
+
+// Evaluates the environment's enabled rules, raising an alert for every rule that fires
+export async function runAlertRules(supabase: SupabaseClient, target: RuleTarget, lines: DownloadedLogLine[] | null): Promise<{ evaluated: number; alerts: number }> {
+  const { environment, scope } = target;
+  const { data: rules, error } = await supabase
+    .from('log_alert_rules')
+    .select('*')
+    .eq('environment_id', environment.id)
+    .eq('user_id', environment.user_id)
+    .eq('is_enabled', true);
+
+  if (error) {
+    console.error('Error fetching alert rules:', error);
+    return { evaluated: 0, alerts: 0 };
+  }
+
+  let evaluated = 0;
+  let alerts = 0;
+
+  for (const rule of (rules || []) as LogAlertRule[]) {
+    const now = new Date();
+    if (isRuleMuted(rule, now)) continue;
+
+    try {
+      const result = await evaluateRule(supabase, rule, scope, now, lines);
+      evaluated++;
+
+      await supabase
+        .from('log_alert_rules')
+        .update({
+          last_evaluated_at: now.toISOString(),
+          ...(result.fired ? { last_fired_at: now.toISOString() } : {}),
+        })
+        .eq('id', rule.id);
+
+      if (!result.fired) continue;
+
+      let samples: string[] = [];
+      if (rule.condition_type !== 'absence') {
+        samples = await sampleMatches(supabase, rule, scope, now);
+        if (samples.length === 0 && lines) {
+          const from = new Date(now.getTime() - rule.window_minutes * 60_000);
+          samples = matchLines(rule, lines, from, now).slice(-20).reverse().map((l) => l.line);
+        }
+      }
+      const content = [`${rule.name}: ${result.summary}`, ...samples].join('\n');
+
+      const alert = await raiseLogAlert(supabase, {
+        user_id: rule.user_id,
+        environment_id: rule.environment_id,
+        dedup_key: `rule:${rule.id}`,
+        alert_type: 'rule',
+        rule_id: rule.id,
+        severity: rule.severity,
+        log_entries_count: result.count,
+        log_content: content,
+      });
+      alerts++;
+      console.log(`🔔 Rule "${rule.name}" fired for ${scope.environmentName}: ${result.summary}`);
+
+      // Repeats of an open, acknowledged or snoozed incident are only added to it
+      if (!alert.notify) continue;
+
+      const critical = rule.severity === 'critical';
+      const sent = await sendLogAlertNotification(
+        supabase,
+        rule.user_id,
+        environment,
+        'rule',
+        critical ? 0 : result.count,
+        critical ? result.count : 0,
+        content,
+        { rule_name: rule.name, severity: rule.severity },
+      );
+      if (sent) await markLogAlertEmailed(supabase, alert.alert_id);
+    } catch (error) {
+      console.error(`Error evaluating rule ${rule.id}:`, error);
+    }
+  }
+
+  console.log(`Evaluated ${evaluated} alert rules, ${alerts} fired`);
+  return { evaluated, alerts };
+}
@@ -0,0 +1,88 @@
+// Log pattern clustering: error lines are reduced to a template with the variable parts (ids, numbers,
+// GUIDs, ...) masked, and lines with the same template share a signature. Used by monitor-environment-logs.
+
+// 2025-09-23T12:29:36.261309 ERROR - Connector: message (the node part is optional)
+const LOG_LINE_REGEX = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?)\s+(?:\[[^\]]*\]\s+)?([A-Z]+)\s+-\s+(.*)$/;
+
+// Order matters: specific shapes are masked before the catch-all number rule breaks them up
+const MASKS: [RegExp, string][] = [
+  [/\b\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?/g, '<timestamp>'],
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<guid>'],
+  [/\bhttps?:\/\/\S+/gi, '<url>'],
+  [/\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g, '<email>'],
+  [/\b\d{1,3}(?:\.\d{1,3}){3}(?::\d+)?\b/g, '<ip>'],
+  // Mendix object ids are long integers, e.g. "guid: 281474976710657" or "(id: 12384898975268865)"
+  [/\b\d{10,}\b/g, '<id>'],
+  [/\b(?:0x)?(?=[0-9a-f]*\d)[0-9a-f]{16,}\b/gi, '<hex>'],
+  [/\b\d+(?:\.\d+)?\b/g, '<num>'],
+];
+
+const MAX_TEMPLATE_LENGTH = 500;
+
+export function normalizeLogMessage(message: string): string {
+  let template = message;
+  for (const [pattern, mask] of MASKS) template = template.replace(pattern, mask);
+  return template.replace(/\s+/g, ' ').trim().slice(0, MAX_TEMPLATE_LENGTH);
+}
+
+// Timestamp, level and message of a downloaded log line; lines in another format are used whole
+export function parseLogLine(line: string): { timestamp: Date | null; level: string | null; message: string } {
+  const match = line.match(LOG_LINE_REGEX);
+  if (!match) return { timestamp: null, level: null, message: line.trim() };
+  return { timestamp: new Date(match[1] + 'Z'), level: match[2], message: match[3] };
+}
+
+export async function logSignature(template: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(template));
+  return Array.from(new Uint8Array(digest).slice(0, 16))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export interface LogSignatureBatch {
+  signature: string;
+  template: string;
+  level: string;
+  sample: string;
+  count: number;
+  first_seen: string;
+  last_seen: string;
+}
+
+// Groups the lines of one check by signature, in the shape record_log_signatures expects
+export async function clusterLogLines(lines: string[], level: string, checkedAt: Date): Promise<LogSignatureBatch[]> {
+  const clusters = new Map<string, LogSignatureBatch>();
+  for (const line of lines) {
+    const { timestamp, message } = parseLogLine(line);
+    const template = normalizeLogMessage(message);
+    if (!template) continue;
+    const seenAt = (timestamp && !Number.isNaN(timestamp.getTime()) ? timestamp : checkedAt).toISOString();
+
+    const signature = await logSignature(template);
+    const cluster = clusters.get(signature);
+    if (cluster) {
+      cluster.count++;
+      if (seenAt < cluster.first_seen) cluster.first_seen = seenAt;
+      if (seenAt >= cluster.last_seen) {
+        cluster.last_seen = seenAt;
+        cluster.sample = line.slice(0, 2000);
+      }
+    } else {
+      clusters.set(signature, {
+        signature,
+        template,
+        level,
+        sample: line.slice(0, 2000),
+        count: 1,
+        first_seen: seenAt,
+        last_seen: seenAt,
+      });
+    }
+  }
+  return [...clusters.values()];
+}
+
+// New-signature alerts are only raised for production, like the production guards in the dashboard
+export function isProductionEnvironment(environmentName: string): boolean {
+  return environmentName.toLowerCase() === 'production';
+}
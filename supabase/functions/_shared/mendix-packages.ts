@@ -0,0 +1,11 @@
+// Rules for Mendix deployment packages shared by cloud-action-steps (deploys, builds and transports) and
+// plan-cloud-action, so a dry run blocks exactly what the runner would fail on.
+
+// Without a branch or revision in the payload a package is built from the head of main
+export const DEFAULT_BRANCH = 'main';
+export const DEFAULT_REVISION = 'HEAD';
+
+// Build states in which a package can be transported; Failed ends the build, anything else is still building
+export function isPackageReady(status: string | null | undefined): boolean {
+  return status === 'Available' || status === 'Succeeded';
+}
@@ -0,0 +1,196 @@
+// Renders the variables of an email template into Slack, Microsoft Teams and generic webhook payloads.
+// Used by notifications.ts.
+
+export type NotificationEvent = 'log_alert' | 'cloud_action_success' | 'cloud_action_failure' | 'owasp_failure' | 'new_cve';
+export type ChannelType = 'slack' | 'teams' | 'webhook';
+
+interface EventLayout {
+  // Used when the event has no email template yet
+  subject: string;
+  // [label, template variable]; empty and 'N/A' values are left out
+  fields: [string, string][];
+  // Variable shown as a block below the fields
+  details?: string;
+  success: boolean;
+}
+
+export const EVENT_LAYOUTS: Record<NotificationEvent, EventLayout> = {
+  log_alert: {
+    subject: 'Alert: {{error_count}} errors in {{app_name}} - {{environment_name}}',
+    fields: [
+      ['Application', 'app_name'],
+      ['Environment', 'environment_name'],
+      ['Rule', 'rule_name'],
+      ['Severity', 'severity'],
+      ['Errors', 'error_count'],
+      ['Critical', 'critical_count'],
+      ['Time', 'timestamp'],
+    ],
+    details: 'log_content',
+    success: false,
+  },
+  cloud_action_success: {
+    subject: '{{action_type}} completed successfully - {{app_name}} ({{environment_name}})',
+    fields: [
+      ['Application', 'app_name'],
+      ['Action', 'action_type'],
+      ['Environment', 'environment_name'],
+      ['Started', 'started_at'],
+      ['Completed', 'completed_at'],
+      ['Duration', 'duration'],
+    ],
+    details: 'summary',
+    success: true,
+  },
+  cloud_action_failure: {
+    subject: '{{action_type}} failed - {{app_name}} ({{environment_name}})',
+    fields: [
+      ['Application', 'app_name'],
+      ['Action', 'action_type'],
+      ['Environment', 'environment_name'],
+      ['Failed', 'failed_at'],
+      ['Attempts', 'attempt_count'],
+      ['Error', 'error_message'],
+    ],
+    details: 'summary',
+    success: false,
+  },
+  owasp_failure: {
+    subject: 'OWASP checks failed - {{app_name}} ({{environment_name}})',
+    fields: [
+      ['Application', 'app_name'],
+      ['Environment', 'environment_name'],
+      ['Failed checks', 'failed_checks'],
+      ['Total checks', 'total_checks'],
+      ['Time', 'timestamp'],
+    ],
+    details: 'failed_steps',
+    success: false,
+  },
+  new_cve: {
+    subject: '{{new_cve_count}} new vulnerabilities in {{app_name}} ({{environment_name}})',
+    fields: [
+      ['Application', 'app_name'],
+      ['Environment', 'environment_name'],
+      ['Package version', 'package_version'],
+      ['New vulnerabilities', 'new_cve_count'],
+      ['Time', 'timestamp'],
+    ],
+    details: 'cve_list',
+    success: false,
+  },
+};
+
+// Same substitution as send-email-mandrill
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+  let result = template;
+  for (const [key, value] of Object.entries(variables)) {
+    result = result.replace(new RegExp(`{{${key}}}`, 'g'), value);
+  }
+  return result;
+}
+
+// Some variables (release notes) are HTML for the email body
+export function stripHtml(value: string): string {
+  return value
+    .replace(/<br\s*\/?>|<\/(p|div|li|h\d)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+const truncate = (value: string, max: number) => (value.length > max ? `${value.slice(0, max - 1)}…` : value);
+
+const escapeSlack = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+function facts(event: NotificationEvent, variables: Record<string, string>): [string, string][] {
+  return EVENT_LAYOUTS[event].fields
+    .map(([label, key]): [string, string] => [label, stripHtml(variables[key] || '')])
+    .filter(([, value]) => value && value !== 'N/A');
+}
+
+function details(event: NotificationEvent, variables: Record<string, string>): string {
+  const key = EVENT_LAYOUTS[event].details;
+  return key ? stripHtml(variables[key] || '') : '';
+}
+
+function slackPayload(event: NotificationEvent, subject: string, variables: Record<string, string>) {
+  const detail = details(event, variables);
+  return {
+    text: subject,
+    attachments: [
+      {
+        color: EVENT_LAYOUTS[event].success ? '#28a745' : '#dc3545',
+        blocks: [
+          { type: 'section', text: { type: 'mrkdwn', text: `*${escapeSlack(subject)}*` } },
+          {
+            type: 'section',
+            // Slack allows at most 10 fields per section
+            fields: facts(event, variables).slice(0, 10).map(([label, value]) => ({
+              type: 'mrkdwn',
+              text: `*${label}*\n${escapeSlack(truncate(value, 500))}`,
+            })),
+          },
+          ...(detail
+            ? [{ type: 'section', text: { type: 'mrkdwn', text: '```' + escapeSlack(truncate(detail, 2900)) + '```' } }]
+            : []),
+        ],
+      },
+    ],
+  };
+}
+
+// Adaptive card, accepted by both Teams incoming webhooks and Workflows webhooks
+function teamsPayload(event: NotificationEvent, subject: string, variables: Record<string, string>) {
+  const detail = details(event, variables);
+  return {
+    type: 'message',
+    attachments: [
+      {
+        contentType: 'application/vnd.microsoft.card.adaptive',
+        content: {
+          $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+          type: 'AdaptiveCard',
+          version: '1.4',
+          body: [
+            {
+              type: 'TextBlock',
+              text: subject,
+              weight: 'Bolder',
+              size: 'Medium',
+              wrap: true,
+              color: EVENT_LAYOUTS[event].success ? 'Good' : 'Attention',
+            },
+            {
+              type: 'FactSet',
+              facts: facts(event, variables).map(([title, value]) => ({ title, value: truncate(value, 500) })),
+            },
+            ...(detail
+              ? [{ type: 'TextBlock', text: truncate(detail, 4000), wrap: true, fontType: 'Monospace', size: 'Small' }]
+              : []),
+          ],
+        },
+      },
+    ],
+  };
+}
+
+export function renderChannelPayload(
+  channelType: ChannelType,
+  event: NotificationEvent,
+  subject: string,
+  variables: Record<string, string>,
+) {
+  switch (channelType) {
+    case 'slack':
+      return slackPayload(event, subject, variables);
+    case 'teams':
+      return teamsPayload(event, subject, variables);
+    case 'webhook':
+      return { event, subject, variables, sent_at: new Date().toISOString() };
+  }
+}
@@ -0,0 +1,312 @@
+// Sends a notification event to everything the user subscribed to it: their notification email addresses
+// and their Slack, Teams and webhook channels. Each message is stored in notification_deliveries, tried
+// once right away, and retried with backoff by send-notifications when it fails.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { getErrorMessage } from './error-utils.ts';
+import { ChannelType, EVENT_LAYOUTS, NotificationEvent, renderChannelPayload, renderTemplate } from './notification-payloads.ts';
+
+export type { NotificationEvent } from './notification-payloads.ts';
+
+const MAX_DELIVERY_ATTEMPTS = 5;
+// Minutes to wait after the 1st, 2nd, ... failed attempt
+const RETRY_BACKOFF_MINUTES = [1, 5, 15, 60];
+const DELIVERY_TIMEOUT_MS = 10_000;
+// Delivered and failed deliveries are kept this long for the Recent Deliveries list
+const DELIVERY_RETENTION_DAYS = 30;
+
+// notification_email_addresses flag that subscribes an address to the event
+const EMAIL_SUBSCRIPTIONS: Record<NotificationEvent, string> = {
+  log_alert: 'log_monitoring_enabled',
+  cloud_action_success: 'cloud_action_notifications_enabled',
+  cloud_action_failure: 'cloud_action_notifications_enabled',
+  owasp_failure: 'owasp_notifications_enabled',
+  new_cve: 'vulnerability_notifications_enabled',
+};
+
+export interface NotificationDelivery {
+  id: string;
+  user_id: string;
+  channel_id: string | null;
+  channel_type: 'email' | ChannelType;
+  event_type: string;
+  payload: Record<string, unknown>;
+  attempt_count: number;
+}
+
+interface NotificationChannel {
+  id: string;
+  channel_type: ChannelType;
+  url: string;
+  secret: string;
+  is_enabled: boolean;
+}
+
+// Queues and sends the event. Resolves to whether at least one message went out.
+export async function dispatchNotification(
+  supabase: SupabaseClient,
+  user_id: string,
+  event: NotificationEvent,
+  variables: Record<string, string>,
+): Promise<boolean> {
+  try {
+    const { data: template } = await supabase
+      .from('email_templates')
+      .select('subject_template, html_template')
+      .eq('template_type', event)
+      .limit(1)
+      .maybeSingle();
+
+    const subject = renderTemplate(template?.subject_template || EVENT_LAYOUTS[event].subject, variables);
+    const deliveries: Omit<NotificationDelivery, 'id' | 'attempt_count'>[] = [];
+
+    const { data: emailAddresses } = await supabase
+      .from('notification_email_addresses')
+      .select('email_address, display_name')
+      .eq('user_id', user_id)
+      .eq('is_active', true)
+      .eq(EMAIL_SUBSCRIPTIONS[event], true);
+
+    if (emailAddresses?.length && template) {
+      deliveries.push({
+        user_id,
+        channel_id: null,
+        channel_type: 'email',
+        event_type: event,
+        payload: {
+          to: emailAddresses.map((addr: { email_address: string; display_name: string | null }) => ({
+            email: addr.email_address,
+            name: addr.display_name || addr.email_address,
+          })),
+          subject: template.subject_template,
+          html: template.html_template,
+          template_variables: variables,
+        },
+      });
+    } else if (emailAddresses?.length) {
+      console.error(`${event} email template not found; skipping email`);
+    }
+
+    const { data: channels } = await supabase
+      .from('notification_channels')
+      .select('id, channel_type')
+      .eq('user_id', user_id)
+      .eq('is_enabled', true)
+      .contains('events', [event]);
+
+    for (const channel of channels || []) {
+      deliveries.push({
+        user_id,
+        channel_id: channel.id,
+        channel_type: channel.channel_type,
+        event_type: event,
+        payload: renderChannelPayload(channel.channel_type, event, subject, variables),
+      });
+    }
+
+    if (deliveries.length === 0) {
+      console.log(`No email addresses or channels subscribed to ${event}`);
+      return false;
+    }
+
+    // The first attempt happens below; keep the retry loop away from it until it would be due anyway
+    const firstRetryAt = new Date(Date.now() + RETRY_BACKOFF_MINUTES[0] * 60_000).toISOString();
+    const { data: queued, error } = await supabase
+      .from('notification_deliveries')
+      .insert(deliveries.map((d) => ({ ...d, next_attempt_at: firstRetryAt })))
+      .select('id, user_id, channel_id, channel_type, event_type, payload, attempt_count');
+
+    if (error) {
+      console.error(`Failed to queue ${event} notifications:`, error);
+      return false;
+    }
+
+    let delivered = 0;
+    for (const delivery of queued || []) {
+      if (await attemptDelivery(supabase, delivery)) delivered++;
+    }
+    console.log(`${event} notification delivered to ${delivered} of ${queued?.length || 0} destinations`);
+    return delivered > 0;
+  } catch (error) {
+    console.error(`Error sending ${event} notification:`, error);
+    return false;
+  }
+}
+
+async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message));
+  return Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+async function post(url: string, body: string, headers: Record<string, string> = {}) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body,
+    signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${(await response.text()).slice(0, 500)}`);
+  }
+}
+
+// Generic webhooks are signed over "<timestamp>.<body>" so receivers can reject replays
+async function send(delivery: NotificationDelivery, channel: NotificationChannel | null, supabase: SupabaseClient) {
+  if (delivery.channel_type === 'email') {
+    const { error } = await supabase.functions.invoke('send-email-mandrill', {
+      headers: { Authorization: 'Bearer OPS' },
+      body: delivery.payload,
+    });
+    if (error) throw new Error(error.message || 'send-email-mandrill failed');
+    return;
+  }
+
+  if (!channel) throw new Error('Channel no longer exists');
+  const body = JSON.stringify(delivery.payload);
+
+  if (channel.channel_type !== 'webhook') {
+    await post(channel.url, body);
+    return;
+  }
+
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  await post(channel.url, body, {
+    'X-Notification-Event': delivery.event_type,
+    'X-Notification-Delivery': delivery.id,
+    'X-Notification-Timestamp': timestamp,
+    'X-Notification-Signature': `sha256=${await hmacSha256Hex(channel.secret, `${timestamp}.${body}`)}`,
+  });
+}
+
+async function loadChannel(supabase: SupabaseClient, channelId: string | null): Promise<NotificationChannel | null> {
+  if (!channelId) return null;
+  const { data } = await supabase
+    .from('notification_channels')
+    .select('id, channel_type, url, secret, is_enabled')
+    .eq('id', channelId)
+    .maybeSingle();
+  return data;
+}
+
+// One attempt; records the outcome and schedules the next attempt on failure
+export async function attemptDelivery(supabase: SupabaseClient, delivery: NotificationDelivery): Promise<boolean> {
+  const channel = await loadChannel(supabase, delivery.channel_id);
+
+  const attempts = delivery.attempt_count + 1;
+  try {
+    if (channel && !channel.is_enabled) throw new Error('Channel is disabled');
+    await send(delivery, channel, supabase);
+
+    await supabase
+      .from('notification_deliveries')
+      .update({ status: 'delivered', attempt_count: attempts, delivered_at: new Date().toISOString(), last_error: null })
+      .eq('id', delivery.id);
+    return true;
+  } catch (error) {
+    const giveUp = attempts >= MAX_DELIVERY_ATTEMPTS || (channel !== null && !channel.is_enabled);
+    const backoff = RETRY_BACKOFF_MINUTES[Math.min(attempts, RETRY_BACKOFF_MINUTES.length) - 1];
+    const errorMessage = getErrorMessage(error);
+    console.error(`Delivery ${delivery.id} (${delivery.channel_type}) attempt ${attempts} failed:`, errorMessage);
+
+    await supabase
+      .from('notification_deliveries')
+      .update({
+        status: giveUp ? 'failed' : 'pending',
+        attempt_count: attempts,
+        last_error: errorMessage,
+        next_attempt_at: new Date(Date.now() + backoff * 60_000).toISOString(),
+      })
+      .eq('id', delivery.id);
+    return false;
+  }
+}
+
+export async function retryDueDeliveries(supabase: SupabaseClient, limit = 50): Promise<{ retried: number; delivered: number }> {
+  const { data: due, error } = await supabase
+    .from('notification_deliveries')
+    .select('id, user_id, channel_id, channel_type, event_type, payload, attempt_count')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching due notification deliveries:', error);
+    return { retried: 0, delivered: 0 };
+  }
+
+  let retried = 0;
+  let delivered = 0;
+  for (const delivery of due || []) {
+    // Claim the delivery so an overlapping run doesn't send it twice
+    const { data: claimed } = await supabase
+      .from('notification_deliveries')
+      .update({ next_attempt_at: new Date(Date.now() + RETRY_BACKOFF_MINUTES[0] * 60_000).toISOString() })
+      .eq('id', delivery.id)
+      .eq('status', 'pending')
+      .lte('next_attempt_at', new Date().toISOString())
+      .select('id');
+    if (!claimed?.length) continue;
+
+    retried++;
+    if (await attemptDelivery(supabase, delivery)) delivered++;
+  }
+  return { retried, delivered };
+}
+
+// A single attempt that is never retried (test messages): sent first, then stored with its outcome
+export async function sendOnce(
+  supabase: SupabaseClient,
+  delivery: Omit<NotificationDelivery, 'id' | 'attempt_count'>,
+): Promise<{ delivered: boolean; error: string | null }> {
+  const id = crypto.randomUUID();
+  const channel = await loadChannel(supabase, delivery.channel_id);
+
+  let lastError: string | null = null;
+  try {
+    if (channel && !channel.is_enabled) throw new Error('Channel is disabled');
+    await send({ ...delivery, id, attempt_count: 0 }, channel, supabase);
+  } catch (error) {
+    lastError = getErrorMessage(error);
+  }
+
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('notification_deliveries')
+    .insert({
+      ...delivery,
+      id,
+      status: lastError ? 'failed' : 'delivered',
+      attempt_count: 1,
+      last_error: lastError,
+      delivered_at: lastError ? null : now,
+    });
+  if (error) console.error(`Failed to record ${delivery.event_type} delivery:`, error);
+
+  return { delivered: !lastError, error: lastError };
+}
+
+export async function purgeOldDeliveries(supabase: SupabaseClient): Promise<number> {
+  const threshold = new Date(Date.now() - DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { data, error } = await supabase
+    .from('notification_deliveries')
+    .delete()
+    .in('status', ['delivered', 'failed'])
+    .lt('created_at', threshold)
+    .select('id');
+
+  if (error) {
+    console.error('Error purging old notification deliveries:', error);
+    return 0;
+  }
+  return data?.length || 0;
+}
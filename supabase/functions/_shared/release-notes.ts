@@ -0,0 +1,115 @@
+// Release notes for deploys and transports: the commits between the package on the target environment
+// and the one being deployed, grouped by author and by story reference. Built by
+// generate-release-notes, stored on cloud_actions.release_notes and rendered into the success email
+// by run-cloud-actions-v2.
+
+export interface ReleaseNoteCommit {
+  id: string;
+  message: string;
+  author: string;
+  date: string | null;
+  stories: string[];
+}
+
+export interface ReleaseNotes {
+  branch: string | null;
+  fromRevision: string | null;
+  toRevision: string;
+  fromPackageId: string | null;
+  toPackageId: string | null;
+  // false when the previous release is unknown or outside the fetched history
+  complete: boolean;
+  commits: ReleaseNoteCommit[];
+  byAuthor: { author: string; commitIds: string[] }[];
+  byStory: { story: string; commitIds: string[] }[];
+  generatedAt: string;
+}
+
+export interface RepositoryCommit {
+  id: string;
+  message?: string | null;
+  date?: string | null;
+  author?: { name?: string | null; email?: string | null } | null;
+}
+
+// Jira-style keys (ABC-123) and issue numbers (#123)
+const STORY_PATTERN = /\b[A-Z][A-Z0-9]+-\d+\b|#\d+\b/g;
+
+// Safety cap when the previous release cannot be found in the branch history
+export const MAX_RELEASE_NOTE_COMMITS = 100;
+
+export function storyReferences(message: string): string[] {
+  return [...new Set(message.match(STORY_PATTERN) || [])];
+}
+
+// `commits` is newest first. Takes the commits from `toRevision` back to (excluding) `fromRevision`.
+export function buildReleaseNotes(
+  commits: RepositoryCommit[],
+  range: {
+    branch: string | null;
+    fromRevision: string | null;
+    toRevision: string;
+    fromPackageId: string | null;
+    toPackageId: string | null;
+  }
+): ReleaseNotes {
+  const start = commits.findIndex((c) => c.id === range.toRevision);
+  const history = start === -1 ? [] : commits.slice(start);
+  const end = range.fromRevision ? history.findIndex((c) => c.id === range.fromRevision) : -1;
+  const complete = start !== -1 && end !== -1;
+  const selected = (complete ? history.slice(0, end) : history).slice(0, MAX_RELEASE_NOTE_COMMITS);
+
+  const noteCommits: ReleaseNoteCommit[] = selected.map((c) => {
+    const message = (c.message || 'No message').trim();
+    return {
+      id: c.id,
+      message,
+      author: c.author?.name || c.author?.email || 'Unknown',
+      date: c.date || null,
+      stories: storyReferences(message),
+    };
+  });
+
+  const group = (keysOf: (c: ReleaseNoteCommit) => string[]) => {
+    const groups = new Map<string, string[]>();
+    for (const commit of noteCommits) {
+      for (const key of keysOf(commit)) {
+        groups.set(key, [...(groups.get(key) || []), commit.id]);
+      }
+    }
+    return [...groups.entries()].sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]));
+  };
+
+  return {
+    ...range,
+    complete,
+    commits: noteCommits,
+    byAuthor: group((c) => [c.author]).map(([author, commitIds]) => ({ author, commitIds })),
+    byStory: group((c) => c.stories).map(([story, commitIds]) => ({ story, commitIds })),
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// HTML fragment for the {{release_notes}} email template variable
+export function renderReleaseNotesHtml(notes: ReleaseNotes | null | undefined): string {
+  if (!notes || notes.commits.length === 0) return '';
+
+  const byId = new Map(notes.commits.map((c) => [c.id, c]));
+  const firstLine = (id: string) => escapeHtml((byId.get(id)?.message || '').split('\n')[0]);
+  const list = (ids: string[]) => `<ul>${ids.map((id) => `<li>${firstLine(id)}</li>`).join('')}</ul>`;
+
+  const stories = notes.byStory
+    .map((s) => `<p style="margin: 8px 0 0 0;"><strong>${escapeHtml(s.story)}</strong></p>${list(s.commitIds)}`)
+    .join('');
+  const authors = notes.byAuthor
+    .map((a) => `<p style="margin: 8px 0 0 0;"><strong>${escapeHtml(a.author)}</strong> (${a.commitIds.length})</p>${list(a.commitIds)}`)
+    .join('');
+
+  return `<h3>Release notes (${notes.commits.length} commit${notes.commits.length === 1 ? '' : 's'}` +
+    `${notes.complete ? '' : ', previous release not found'})</h3>` +
+    (stories ? `<h4>By story</h4>${stories}` : '') +
+    `<h4>By author</h4>${authors}`;
+}
@@ -17,6 +17,16 @@ serve(async (req) => {
     const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, serviceKey);
 
+    // Release environment locks whose holder finished or stopped sending heartbeats
+    const { data: releasedLocks, error: lockError } = await supabase.rpc('release_stale_cloud_action_locks', {
+      _stale_minutes: 15
+    });
+    if (lockError) {
+      console.error('Error releasing stale locks:', lockError);
+    } else {
+      console.log(`🔓 Released ${releasedLocks || 0} stale environment locks`);
+    }
+
     console.log('🧹 Cleaning up stale V1 cloud actions...');
 
     // Find stale V1 actions (running status but no last_heartbeat and older than 1 hour)
@@ -59,7 +69,8 @@ serve(async (req) => {
       return new Response(JSON.stringify({
         message: 'Cleanup completed successfully',
         cleanedActions: updatedActions?.length || 0,
-        actionIds: staleActions.map(a => a.id)
+        actionIds: staleActions.map(a => a.id),
+        releasedLocks: releasedLocks || 0
       }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
@@ -67,7 +78,8 @@ serve(async (req) => {
 
     return new Response(JSON.stringify({
       message: 'No stale actions found to clean up',
-      cleanedActions: 0
+      cleanedActions: 0,
+      releasedLocks: releasedLocks || 0
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
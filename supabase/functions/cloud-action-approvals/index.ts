@@ -0,0 +1,347 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-signature',
+};
+
+type ApprovalEmailType = 'cloud_action_approval_requested' | 'cloud_action_approved' | 'cloud_action_rejected';
+
+interface PendingAction {
+  id: string;
+  user_id: string;
+  app_id: string;
+  environment_name: string;
+  action_type: string;
+  scheduled_for: string | null;
+  creator_name: string | null;
+}
+
+interface Decision {
+  decider_name: string | null;
+  decision: string;
+  comment: string | null;
+}
+
+// Used until the Email Templates page has created the customisable templates
+const FALLBACK_TEMPLATES: Record<ApprovalEmailType, { subject: string; title: string; color: string }> = {
+  cloud_action_approval_requested: {
+    subject: '🛡️ Approval needed: {{action_type}} - {{app_name}} ({{environment_name}})',
+    title: '🛡️ Approval Requested',
+    color: '#6f42c1',
+  },
+  cloud_action_approved: {
+    subject: '✅ Approved: {{action_type}} - {{app_name}} ({{environment_name}})',
+    title: '✅ Action Approved',
+    color: '#28a745',
+  },
+  cloud_action_rejected: {
+    subject: '⛔ Rejected: {{action_type}} - {{app_name}} ({{environment_name}})',
+    title: '⛔ Action Rejected',
+    color: '#dc3545',
+  },
+};
+
+function fallbackTemplate(templateType: ApprovalEmailType) {
+  const { subject, title, color } = FALLBACK_TEMPLATES[templateType];
+  const decision = templateType === 'cloud_action_approval_requested'
+    ? ''
+    : `
+    <p><strong>Decided by:</strong> {{decided_by}} ({{decided_at}})</p>
+    <p><strong>Comment:</strong> {{approval_comment}}</p>`;
+
+  return {
+    subject_template: subject,
+    html_template: `
+<!DOCTYPE html>
+<html>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: ${color}; color: white; padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+    <h1 style="margin: 0; font-size: 28px;">${title}</h1>
+  </div>
+  <div style="background: #f8f9fa; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e9ecef;">
+    <p>{{summary}}</p>
+    <p><strong>Application:</strong> {{app_name}}</p>
+    <p><strong>Action:</strong> {{action_type}}</p>
+    <p><strong>Environment:</strong> {{environment_name}}</p>
+    <p><strong>Requested by:</strong> {{requested_by}}</p>
+    <p><strong>Scheduled for:</strong> {{scheduled_for}}</p>${decision}
+    <p style="margin-bottom: 0; color: #6c757d; font-size: 14px;">
+      This notification was sent by your Mendix Monitoring Dashboard.
+    </p>
+  </div>
+</body>
+</html>`,
+  };
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const adminClient = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const { operation, actionId, comment } = await req.json().catch(() => ({}));
+
+    // Orchestrator cycle: announce newly parked actions
+    if (operation === 'notify_pending') {
+      if (req.headers.get('x-cron-signature') !== 'orchestrator-internal-call') {
+        return jsonResponse({ error: 'Unauthorized' }, 401);
+      }
+      const notified = await notifyPendingApprovals(adminClient);
+      return jsonResponse({ notified });
+    }
+
+    if (operation !== 'approve' && operation !== 'reject') {
+      return jsonResponse({ error: `Unknown operation: ${operation}` }, 400);
+    }
+    if (!actionId) {
+      return jsonResponse({ error: 'actionId is required' }, 400);
+    }
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    // The decision is recorded with the caller's JWT so the database can check
+    // the admin role and that approver and requester differ
+    const callerClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { error: decisionError } = await callerClient.rpc('decide_cloud_action_approval', {
+      _action_id: actionId,
+      _decision: operation === 'approve' ? 'approved' : 'rejected',
+      _comment: comment || null,
+    });
+
+    if (decisionError) {
+      console.error('Approval decision failed:', decisionError);
+      return jsonResponse({ error: decisionError.message }, 400);
+    }
+
+    const { data: action } = await adminClient
+      .from('cloud_actions')
+      .select('id, user_id, app_id, environment_name, action_type, scheduled_for, creator_name')
+      .eq('id', actionId)
+      .single();
+
+    const { data: decision } = await adminClient
+      .from('cloud_action_approvals')
+      .select('decider_name, decision, comment')
+      .eq('action_id', actionId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (action) {
+      await adminClient.from('cloud_action_logs').insert({
+        action_id: action.id,
+        user_id: action.user_id,
+        level: operation === 'approve' ? 'info' : 'warn',
+        message: operation === 'approve'
+          ? `✅ Approved by ${decision?.decider_name || 'an admin'}${decision?.comment ? `: ${decision.comment}` : ''}`
+          : `⛔ Rejected by ${decision?.decider_name || 'an admin'}${decision?.comment ? `: ${decision.comment}` : ''}`,
+      });
+
+      await sendApprovalEmail(
+        adminClient,
+        action,
+        operation === 'approve' ? 'cloud_action_approved' : 'cloud_action_rejected',
+        decision
+      );
+    }
+
+    return jsonResponse({ success: true });
+  } catch (error) {
+    console.error('Error in cloud-action-approvals:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
+
+async function notifyPendingApprovals(supabase: SupabaseClient): Promise<number> {
+  const { data: actions, error } = await supabase
+    .from('cloud_actions')
+    .select('id, user_id, app_id, environment_name, action_type, scheduled_for, creator_name')
+    .eq('status', 'pending_approval')
+    .is('approval_notified_at', null)
+    .order('created_at', { ascending: true })
+    .limit(20);
+
+  if (error) {
+    console.error('Error fetching pending approvals:', error);
+    return 0;
+  }
+
+  for (const action of (actions || []) as PendingAction[]) {
+    await supabase
+      .from('cloud_actions')
+      .update({ approval_notified_at: new Date().toISOString() })
+      .eq('id', action.id);
+
+    await supabase.from('cloud_action_logs').insert({
+      action_id: action.id,
+      user_id: action.user_id,
+      level: 'info',
+      message: `🛡️ Waiting for approval: ${action.environment_name} is a protected environment`,
+    });
+
+    await sendApprovalEmail(supabase, action, 'cloud_action_approval_requested', null);
+  }
+
+  return actions?.length || 0;
+}
+
+async function sendApprovalEmail(
+  supabase: SupabaseClient,
+  action: PendingAction,
+  templateType: ApprovalEmailType,
+  decision: Decision | null
+) {
+  try {
+    const recipients = await approvalEmailRecipients(supabase, action, templateType);
+    if (recipients.length === 0) {
+      console.log(`No recipients found for ${templateType} email`);
+      return;
+    }
+
+    const { data: appData } = await supabase
+      .from('mendix_apps')
+      .select('app_name')
+      .eq('project_id', action.app_id)
+      .limit(1)
+      .maybeSingle();
+
+    const appName = appData?.app_name || action.app_id;
+
+    const { data: storedTemplate, error: templateError } = await supabase
+      .from('email_templates')
+      .select('*')
+      .eq('template_type', templateType)
+      .limit(1)
+      .maybeSingle();
+
+    if (templateError) {
+      console.error(`Error loading ${templateType} email template:`, templateError);
+    }
+    const template = storedTemplate || fallbackTemplate(templateType);
+
+    const formatDutchDateTime = (date: Date): string => {
+      return new Intl.DateTimeFormat('nl-NL', {
+        timeZone: 'Europe/Amsterdam',
+        day: '2-digit',
+        month: '2-digit',
+        year: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+        hour12: false
+      }).format(date);
+    };
+
+    const actionType = action.action_type.charAt(0).toUpperCase() + action.action_type.slice(1);
+    const summaries: Record<ApprovalEmailType, string> = {
+      cloud_action_approval_requested: `${actionType} on ${appName} - ${action.environment_name} is waiting for approval`,
+      cloud_action_approved: `${actionType} on ${appName} - ${action.environment_name} was approved and will run as scheduled`,
+      cloud_action_rejected: `${actionType} on ${appName} - ${action.environment_name} was rejected and will not run`,
+    };
+
+    const templateVariables = {
+      app_name: appName,
+      action_type: actionType,
+      environment_name: action.environment_name,
+      requested_by: action.creator_name || 'Unknown',
+      scheduled_for: action.scheduled_for ? formatDutchDateTime(new Date(action.scheduled_for)) : 'As soon as approved',
+      decided_by: decision?.decider_name || 'N/A',
+      decided_at: decision ? formatDutchDateTime(new Date()) : 'N/A',
+      approval_comment: decision?.comment || 'N/A',
+      summary: summaries[templateType],
+    };
+
+    const { error: emailError } = await supabase.functions.invoke('send-email-mandrill', {
+      headers: { Authorization: 'Bearer OPS' },
+      body: {
+        to: recipients,
+        subject: template.subject_template,
+        html: template.html_template,
+        template_variables: templateVariables,
+      },
+    });
+
+    if (emailError) {
+      console.error(`Failed to send ${templateType} email:`, emailError);
+    } else {
+      console.log(`${templateType} email sent to ${recipients.length} recipients`);
+    }
+  } catch (error) {
+    console.error('Error sending approval email:', error);
+  }
+}
+
+// Requests go to the admins who can approve, except the requester; decisions go to the requester.
+// Admins without a notification address for cloud actions get the request at their account email.
+async function approvalEmailRecipients(
+  supabase: SupabaseClient,
+  action: PendingAction,
+  templateType: ApprovalEmailType
+): Promise<{ email: string; name: string }[]> {
+  let userIds = [action.user_id];
+  if (templateType === 'cloud_action_approval_requested') {
+    const { data: admins, error } = await supabase
+      .from('user_roles')
+      .select('user_id')
+      .eq('role', 'admin')
+      .neq('user_id', action.user_id);
+    if (error) {
+      console.error('Error loading approvers:', error);
+      return [];
+    }
+    userIds = (admins || []).map((a: { user_id: string }) => a.user_id);
+  }
+  if (userIds.length === 0) return [];
+
+  const { data: emailAddresses } = await supabase
+    .from('notification_email_addresses')
+    .select('user_id, email_address, display_name')
+    .in('user_id', userIds)
+    .eq('is_active', true)
+    .eq('cloud_action_notifications_enabled', true);
+
+  const recipients = (emailAddresses || []).map((addr: { user_id: string; email_address: string; display_name: string | null }) => ({
+    user_id: addr.user_id,
+    email: addr.email_address,
+    name: addr.display_name || addr.email_address,
+  }));
+
+  if (templateType === 'cloud_action_approval_requested') {
+    const covered = new Set(recipients.map((r) => r.user_id));
+    const uncovered = userIds.filter((id) => !covered.has(id));
+    if (uncovered.length > 0) {
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('user_id, email, full_name')
+        .in('user_id', uncovered);
+      for (const profile of (profiles || []) as { user_id: string; email: string | null; full_name: string | null }[]) {
+        if (profile.email) {
+          recipients.push({ user_id: profile.user_id, email: profile.email, name: profile.full_name || profile.email });
+        }
+      }
+    }
+  }
+
+  return recipients.map(({ email, name }) => ({ email, name }));
+}
@@ -1,12 +1,79 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { nextCronOccurrence } from '../_shared/cron-utils.ts';
+import { enforceActionWindows, loadActionWindows } from '../_shared/cloud-action-windows.ts';
+import { limitBatchConcurrency } from '../_shared/cloud-action-batches.ts';
+import { claimEnvironmentLocks } from '../_shared/cloud-action-locks.ts';
+import { MAX_ATTEMPTS_LIMIT } from '../_shared/cloud-action-retry.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Action stages pass their payload on to the action; gate stages read their settings from it
+interface StagePayload {
+  checks?: string[];
+  timeoutMinutes?: number;
+  requireFreshRun?: boolean;
+  [key: string]: unknown;
+}
+
+interface PipelineStage {
+  id: string;
+  stage_order: number;
+  name: string;
+  stage_type: 'action' | 'gate';
+  action_type: string | null;
+  environment_name: string | null;
+  payload: StagePayload | null;
+  action_id: string | null;
+  status: string;
+  started_at: string | null;
+  error_message: string | null;
+}
+
+interface Pipeline {
+  id: string;
+  user_id: string;
+  credential_id: string;
+  app_id: string;
+  name: string;
+  status: string;
+  current_stage: number;
+  creator_name: string | null;
+  cloud_action_pipeline_stages?: PipelineStage[];
+}
+
+interface StageOutcome {
+  status: 'running' | 'succeeded' | 'failed';
+  message?: string;
+}
+
+interface Schedule {
+  id: string;
+  user_id: string;
+  credential_id: string;
+  app_id: string;
+  environment_name: string;
+  action_type: string;
+  payload: Record<string, unknown> | null;
+  name: string;
+  cron_expression: string;
+  timezone: string;
+  ends_at: string | null;
+  skip_next: boolean;
+  next_run_at: string | null;
+  creator_name: string | null;
+}
+
+// Occurrences that are more than this late (e.g. the cron was down) are skipped instead of run
+const MAX_SCHEDULE_LATENESS_MINUTES = 60;
+
+// A claimed action stage without its action after this long lost its action (the claiming cycle died)
+const STAGE_CLAIM_GRACE_MS = 60 * 1000;
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -19,17 +86,41 @@ serve(async (req) => {
 
     console.log('🎯 Cloud Action Orchestrator - Cron Cycle Started');
 
+    // Materialise schedules and advance pipelines first so the actions they create are picked up in this cycle
+    const schedulesMaterialized = await materializeSchedules(supabase);
+    const pipelinesAdvanced = await advancePipelines(supabase);
+
+    // Announce actions parked in pending_approval by the approval policy trigger
+    const { error: approvalNotifyError } = await supabase.functions.invoke('cloud-action-approvals', {
+      body: { operation: 'notify_pending' },
+      headers: { 'x-cron-signature': 'orchestrator-internal-call' }
+    });
+    if (approvalNotifyError) {
+      console.error('Error notifying pending approvals:', approvalNotifyError);
+    }
+
+    // Retry notifications (email, Slack, Teams, webhooks) whose earlier attempts failed, and purge old deliveries
+    const { error: notificationRetryError } = await supabase.functions.invoke('send-notifications', {
+      body: { operation: 'retry_due' },
+      headers: { 'x-cron-signature': 'orchestrator-internal-call' }
+    });
+    if (notificationRetryError) {
+      console.error('Error retrying notification deliveries:', notificationRetryError);
+    }
+
     // Find actions that need processing
     const now = new Date().toISOString();
     const staleThreshold = new Date(Date.now() - 45 * 1000).toISOString(); // 45 seconds ago
 
-    // Get scheduled actions ready to run
+    // Get scheduled actions ready to run. Batch items that haven't started are fetched separately
+    // so a large batch can't crowd out other actions
     const { data: scheduledActions, error: scheduledError } = await supabase
       .from('cloud_actions')
       .select('*')
       .eq('status', 'scheduled')
       .or(`scheduled_for.is.null,scheduled_for.lte.${now}`)
-      .lt('attempt_count', 3)
+      .or('batch_id.is.null,started_at.not.is.null')
+      .lt('attempt_count', MAX_ATTEMPTS_LIMIT)
       .order('created_at', { ascending: true })
       .limit(10);
 
@@ -38,13 +129,48 @@ serve(async (req) => {
       throw scheduledError;
     }
 
+    const { data: queuedBatchActions, error: batchError } = await supabase
+      .from('cloud_actions')
+      .select('*')
+      .eq('status', 'scheduled')
+      .or(`scheduled_for.is.null,scheduled_for.lte.${now}`)
+      .not('batch_id', 'is', null)
+      .is('started_at', null)
+      .lt('attempt_count', MAX_ATTEMPTS_LIMIT)
+      .order('created_at', { ascending: true })
+      .limit(100);
+
+    if (batchError) {
+      console.error('Error fetching batch actions:', batchError);
+      throw batchError;
+    }
+
+    // Respect each batch's concurrency limit
+    const batchActions = (await limitBatchConcurrency(supabase, queuedBatchActions || [])).slice(0, 10);
+
+    // Actions waiting for an environment lock, oldest first so they go before newly scheduled ones
+    const { data: lockQueuedActions, error: queuedError } = await supabase
+      .from('cloud_actions')
+      .select('*')
+      .eq('status', 'queued')
+      .or(`scheduled_for.is.null,scheduled_for.lte.${now}`)
+      .order('created_at', { ascending: true })
+      .limit(20);
+
+    if (queuedError) {
+      console.error('Error fetching queued actions:', queuedError);
+      throw queuedError;
+    }
+
+    const dueActions = [...(lockQueuedActions || []), ...(scheduledActions || []), ...batchActions];
+
     // Get stale running actions (v1 actions may not have last_heartbeat)
     const { data: staleActions, error: staleError } = await supabase
       .from('cloud_actions')
       .select('*')
       .eq('status', 'running')
       .or(`last_heartbeat.is.null,last_heartbeat.lt.${staleThreshold}`)
-      .lt('attempt_count', 3)
+      .lt('attempt_count', MAX_ATTEMPTS_LIMIT)
       .order('created_at', { ascending: true })
       .limit(10);
 
@@ -53,8 +179,20 @@ serve(async (req) => {
       throw staleError;
     }
 
+    // Freeze and maintenance windows only gate actions that haven't started yet
+    const windows = await loadActionWindows(supabase, dueActions.map((a) => a.app_id));
+    const startableActions = [];
+    for (const action of dueActions) {
+      if (action.started_at || await enforceActionWindows(supabase, windows, action, new Date())) {
+        startableActions.push(action);
+      }
+    }
+
+    // Only one action per app+environment may run at a time
+    const lockedActions = await claimEnvironmentLocks(supabase, startableActions);
+
     // Combine both arrays
-    const actionsToProcess = [...(scheduledActions || []), ...(staleActions || [])];
+    const actionsToProcess = [...lockedActions, ...(staleActions || [])];
 
 
     console.log(`Found ${actionsToProcess?.length || 0} actions to process`);
@@ -62,6 +200,8 @@ serve(async (req) => {
     if (!actionsToProcess || actionsToProcess.length === 0) {
       return new Response(JSON.stringify({ 
         message: 'No actions to process',
+        schedulesMaterialized,
+        pipelinesAdvanced,
         timestamp: now
       }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -146,7 +286,7 @@ serve(async (req) => {
     const { error: cleanupError } = await supabase
       .from('cloud_actions')
       .delete()
-      .in('status', ['succeeded', 'failed'])
+      .in('status', ['succeeded', 'failed', 'rolled_back', 'rejected', 'blocked', 'canceled'])
       .lt('completed_at', cleanupThreshold);
 
     if (cleanupError) {
@@ -155,6 +295,23 @@ serve(async (req) => {
       console.log('✨ Cleaned up old completed/failed actions');
     }
 
+    // Analytics history and step runs outlive their actions for a year
+    const historyThreshold = new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString();
+
+    const { error: historyCleanupError } = await supabase
+      .from('cloud_action_history')
+      .delete()
+      .lt('created_at', historyThreshold);
+
+    const { error: stepRunCleanupError } = await supabase
+      .from('cloud_action_step_runs')
+      .delete()
+      .lt('started_at', historyThreshold);
+
+    if (historyCleanupError || stepRunCleanupError) {
+      console.error('Error cleaning up old action history:', historyCleanupError || stepRunCleanupError);
+    }
+
     // Clean up old logs (older than 30 days)
     const logCleanupThreshold = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
     
@@ -176,6 +333,8 @@ serve(async (req) => {
       processedUsers: Object.keys(actionsByUser).length,
       totalActions: actionsToProcess.length,
       staleActionsResumed: resumedActions.length,
+      schedulesMaterialized,
+      pipelinesAdvanced,
       timestamp: now
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -191,6 +350,444 @@ serve(async (req) => {
   }
 });
 
+// ============================================
+// Pipelines
+// ============================================
+
+// Start due pipelines and move running ones through their stages.
+// Returns the number of pipelines that were looked at in this cycle.
+async function advancePipelines(supabase: SupabaseClient): Promise<number> {
+  const now = new Date().toISOString();
+
+  const { data: pipelines, error } = await supabase
+    .from('cloud_action_pipelines')
+    .select('*, cloud_action_pipeline_stages(*)')
+    .or(`status.eq.running,and(status.eq.scheduled,or(scheduled_for.is.null,scheduled_for.lte.${now}))`)
+    .order('created_at', { ascending: true })
+    .limit(20);
+
+  if (error) {
+    console.error('Error fetching pipelines:', error);
+    return 0;
+  }
+
+  for (const pipeline of pipelines || []) {
+    try {
+      await advancePipeline(supabase, pipeline);
+    } catch (error) {
+      console.error(`Error advancing pipeline ${pipeline.id}:`, error);
+    }
+  }
+
+  if (pipelines && pipelines.length > 0) {
+    console.log(`🔗 Advanced ${pipelines.length} pipelines`);
+  }
+
+  return pipelines?.length || 0;
+}
+
+async function advancePipeline(supabase: SupabaseClient, pipeline: Pipeline) {
+  const stages = [...(pipeline.cloud_action_pipeline_stages || [])]
+    .sort((a, b) => a.stage_order - b.stage_order);
+  let stageIndex = pipeline.current_stage || 0;
+
+  if (pipeline.status === 'scheduled') {
+    await supabase
+      .from('cloud_action_pipelines')
+      .update({ status: 'running', started_at: new Date().toISOString(), current_stage: stageIndex })
+      .eq('id', pipeline.id);
+    console.log(`🔗 Pipeline ${pipeline.id} (${pipeline.name}) started`);
+  }
+
+  // Walk forward as long as stages finish immediately, so a passed gate
+  // doesn't cost an extra cron cycle before the next action is scheduled
+  while (stageIndex < stages.length) {
+    const stage = stages[stageIndex];
+
+    // Another orchestrator cycle claimed the stage first and advances the pipeline
+    if (stage.status === 'pending' && !(await startPipelineStage(supabase, pipeline, stage))) {
+      return;
+    }
+
+    const outcome = await checkPipelineStage(supabase, pipeline, stage);
+
+    if (outcome.status === 'running') {
+      return;
+    }
+
+    if (outcome.status === 'failed') {
+      await failPipeline(supabase, pipeline, stages, stageIndex, outcome.message);
+      return;
+    }
+
+    await supabase
+      .from('cloud_action_pipeline_stages')
+      .update({ status: 'succeeded', completed_at: new Date().toISOString(), error_message: null })
+      .eq('id', stage.id);
+
+    stageIndex++;
+    await supabase
+      .from('cloud_action_pipelines')
+      .update({ current_stage: stageIndex })
+      .eq('id', pipeline.id);
+  }
+
+  await supabase
+    .from('cloud_action_pipelines')
+    .update({ status: 'succeeded', completed_at: new Date().toISOString(), error_message: null })
+    .eq('id', pipeline.id);
+
+  console.log(`✅ Pipeline ${pipeline.id} (${pipeline.name}) completed`);
+}
+
+// Resolves to false when the stage was already started by an overlapping cycle
+async function startPipelineStage(supabase: SupabaseClient, pipeline: Pipeline, stage: PipelineStage): Promise<boolean> {
+  const startedAt = new Date().toISOString();
+
+  // Claim the stage first so overlapping cycles can't both create its action
+  const { data: claimed } = await supabase
+    .from('cloud_action_pipeline_stages')
+    .update({ status: 'running', started_at: startedAt })
+    .eq('id', stage.id)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (!claimed?.length) {
+    return false;
+  }
+
+  stage.status = 'running';
+  stage.started_at = startedAt;
+
+  if (stage.stage_type === 'gate') {
+    return true;
+  }
+
+  const { data: action, error } = await supabase
+    .from('cloud_actions')
+    .insert({
+      user_id: pipeline.user_id,
+      credential_id: pipeline.credential_id,
+      app_id: pipeline.app_id,
+      environment_name: stage.environment_name,
+      action_type: stage.action_type,
+      status: 'scheduled',
+      payload: {
+        actionType: stage.action_type,
+        appId: pipeline.app_id,
+        environmentName: stage.environment_name,
+        ...(stage.payload || {}),
+      },
+      creator_name: pipeline.creator_name,
+      pipeline_id: pipeline.id,
+    })
+    .select('id')
+    .single();
+
+  if (error || !action) {
+    // Give the stage back so the next cycle tries again
+    await supabase
+      .from('cloud_action_pipeline_stages')
+      .update({ status: 'pending', started_at: null })
+      .eq('id', stage.id);
+    throw new Error(`Failed to create action for stage '${stage.name}': ${error?.message || 'unknown error'}`);
+  }
+
+  stage.action_id = action.id;
+  await supabase
+    .from('cloud_action_pipeline_stages')
+    .update({ action_id: action.id })
+    .eq('id', stage.id);
+
+  await supabase.from('cloud_action_logs').insert({
+    action_id: action.id,
+    user_id: pipeline.user_id,
+    level: 'info',
+    message: `🔗 Created by pipeline '${pipeline.name}' (stage ${stage.stage_order + 1}: ${stage.name})`
+  });
+
+  console.log(`🔗 Pipeline ${pipeline.id} stage '${stage.name}' scheduled action ${action.id}`);
+  return true;
+}
+
+async function checkPipelineStage(supabase: SupabaseClient, pipeline: Pipeline, stage: PipelineStage): Promise<StageOutcome> {
+  if (stage.status === 'succeeded' || stage.status === 'skipped') {
+    return { status: 'succeeded' };
+  }
+  if (stage.status === 'failed') {
+    return { status: 'failed', message: stage.error_message || 'Stage failed' };
+  }
+
+  if (stage.stage_type === 'gate') {
+    return await evaluatePipelineGate(supabase, pipeline, stage);
+  }
+
+  if (!stage.action_id) {
+    // The cycle that claimed the stage may still be creating its action
+    if (stage.started_at && Date.now() - new Date(stage.started_at).getTime() < STAGE_CLAIM_GRACE_MS) {
+      return { status: 'running' };
+    }
+    return { status: 'failed', message: 'Stage action is missing' };
+  }
+
+  const { data: action } = await supabase
+    .from('cloud_actions')
+    .select('status, error_message')
+    .eq('id', stage.action_id)
+    .maybeSingle();
+
+  if (!action) {
+    return { status: 'failed', message: 'Stage action was deleted' };
+  }
+
+  if (action.status === 'succeeded') {
+    return { status: 'succeeded' };
+  }
+  if (['failed', 'canceled', 'rolled_back', 'rejected', 'blocked'].includes(action.status)) {
+    return { status: 'failed', message: action.error_message || `Action ${action.status}` };
+  }
+
+  return { status: 'running' };
+}
+
+// Gate stages wait until the latest OWASP / linting results for the app are in and clean
+async function evaluatePipelineGate(supabase: SupabaseClient, pipeline: Pipeline, stage: PipelineStage): Promise<StageOutcome> {
+  const checks = stage.payload?.checks || ['owasp', 'linting'];
+  const timeoutMinutes = stage.payload?.timeoutMinutes ?? 60;
+  const requireFreshRun = stage.payload?.requireFreshRun ?? false;
+  const since = stage.started_at || new Date().toISOString();
+
+  const waiting: string[] = [];
+  const blocked: string[] = [];
+
+  if (checks.includes('owasp')) {
+    let query = supabase
+      .from('owasp_check_runs')
+      .select('overall_status, failed_checks, run_started_at, run_completed_at')
+      .eq('app_id', pipeline.app_id);
+    if (stage.environment_name) {
+      query = query.ilike('environment_name', stage.environment_name);
+    }
+    if (requireFreshRun) {
+      query = query.gte('run_started_at', since);
+    }
+    const { data: run } = await query
+      .order('run_started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (!run) {
+      waiting.push('no OWASP run yet');
+    } else if (!run.run_completed_at || run.overall_status === 'running') {
+      waiting.push('OWASP run in progress');
+    } else if (run.overall_status === 'fail') {
+      blocked.push(`OWASP run has ${run.failed_checks} failed checks`);
+    }
+  }
+
+  if (checks.includes('linting')) {
+    let query = supabase
+      .from('linting_runs')
+      .select('status, failed_rules, started_at')
+      .eq('app_id', pipeline.app_id);
+    if (requireFreshRun) {
+      query = query.gte('started_at', since);
+    }
+    const { data: run } = await query
+      .order('started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (!run) {
+      waiting.push('no linting run yet');
+    } else if (run.status === 'running') {
+      waiting.push('linting run in progress');
+    } else if (run.status === 'failed') {
+      blocked.push('latest linting run failed');
+    } else if ((run.failed_rules || 0) > 0) {
+      blocked.push(`linting has ${run.failed_rules} failed rules`);
+    }
+  }
+
+  if (blocked.length > 0) {
+    return { status: 'failed', message: `Gate blocked: ${blocked.join('; ')}` };
+  }
+
+  if (waiting.length > 0) {
+    const elapsedMinutes = (Date.now() - new Date(since).getTime()) / 60000;
+    if (elapsedMinutes > timeoutMinutes) {
+      return { status: 'failed', message: `Gate timed out after ${timeoutMinutes} minutes: ${waiting.join('; ')}` };
+    }
+
+    await supabase
+      .from('cloud_action_pipeline_stages')
+      .update({ error_message: `Waiting: ${waiting.join('; ')}` })
+      .eq('id', stage.id);
+    return { status: 'running' };
+  }
+
+  return { status: 'succeeded' };
+}
+
+async function failPipeline(supabase: SupabaseClient, pipeline: Pipeline, stages: PipelineStage[], stageIndex: number, message?: string) {
+  const stage = stages[stageIndex];
+  const completedAt = new Date().toISOString();
+  const errorMessage = `Stage '${stage.name}' failed: ${message || 'Unknown error'}`;
+
+  await supabase
+    .from('cloud_action_pipeline_stages')
+    .update({ status: 'failed', completed_at: completedAt, error_message: message || null })
+    .eq('id', stage.id);
+
+  const remainingIds = stages.slice(stageIndex + 1).map((s) => s.id);
+  if (remainingIds.length > 0) {
+    await supabase
+      .from('cloud_action_pipeline_stages')
+      .update({ status: 'skipped' })
+      .in('id', remainingIds);
+  }
+
+  await supabase
+    .from('cloud_action_pipelines')
+    .update({ status: 'failed', completed_at: completedAt, error_message: errorMessage })
+    .eq('id', pipeline.id);
+
+  console.log(`❌ Pipeline ${pipeline.id} (${pipeline.name}) stopped: ${errorMessage}`);
+}
+
+// ============================================
+// Recurring schedules
+// ============================================
+
+// Create a cloud action for every schedule whose next occurrence is due and move next_run_at forward.
+// Returns the number of actions created in this cycle.
+async function materializeSchedules(supabase: SupabaseClient): Promise<number> {
+  const now = new Date();
+
+  const { data: schedules, error } = await supabase
+    .from('cloud_action_schedules')
+    .select('*')
+    .eq('is_paused', false)
+    .or(`next_run_at.is.null,next_run_at.lte.${now.toISOString()}`)
+    .or(`ends_at.is.null,ends_at.gt.${now.toISOString()}`)
+    .order('next_run_at', { ascending: true, nullsFirst: true })
+    .limit(50);
+
+  if (error) {
+    console.error('Error fetching schedules:', error);
+    return 0;
+  }
+
+  let created = 0;
+  for (const schedule of (schedules || []) as Schedule[]) {
+    try {
+      if (await materializeSchedule(supabase, schedule, now)) {
+        created++;
+      }
+    } catch (error) {
+      console.error(`Error materialising schedule ${schedule.id}:`, error);
+    }
+  }
+
+  if (created > 0) {
+    console.log(`🗓️ Created ${created} actions from schedules`);
+  }
+
+  return created;
+}
+
+async function materializeSchedule(supabase: SupabaseClient, schedule: Schedule, now: Date): Promise<boolean> {
+  // Missed occurrences are not backfilled: the next run is always the first one after now
+  const nextRunAt = computeNextRun(schedule, now);
+
+  // Schedules without a next run (new, resumed or edited) only get one computed
+  if (!schedule.next_run_at) {
+    await supabase
+      .from('cloud_action_schedules')
+      .update({ next_run_at: nextRunAt?.toISOString() ?? null })
+      .eq('id', schedule.id);
+    return false;
+  }
+
+  // Claim the occurrence by moving next_run_at; an overlapping cycle matches no rows and backs off
+  const { data: claimed } = await supabase
+    .from('cloud_action_schedules')
+    .update({ next_run_at: nextRunAt?.toISOString() ?? null, skip_next: false })
+    .eq('id', schedule.id)
+    .eq('next_run_at', schedule.next_run_at)
+    .select('id');
+
+  if (!claimed || claimed.length === 0) {
+    return false;
+  }
+
+  const occurrence = new Date(schedule.next_run_at);
+
+  if (schedule.skip_next) {
+    console.log(`⏭️ Schedule ${schedule.id} (${schedule.name}) skipped occurrence ${occurrence.toISOString()}`);
+    return false;
+  }
+
+  const minutesLate = (now.getTime() - occurrence.getTime()) / 60000;
+  if (minutesLate > MAX_SCHEDULE_LATENESS_MINUTES) {
+    console.log(`⏭️ Schedule ${schedule.id} (${schedule.name}) missed occurrence ${occurrence.toISOString()} by ${Math.round(minutesLate)} minutes`);
+    return false;
+  }
+
+  const { data: action, error } = await supabase
+    .from('cloud_actions')
+    .insert({
+      user_id: schedule.user_id,
+      credential_id: schedule.credential_id,
+      app_id: schedule.app_id,
+      environment_name: schedule.environment_name,
+      action_type: schedule.action_type,
+      status: 'scheduled',
+      scheduled_for: occurrence.toISOString(),
+      payload: {
+        actionType: schedule.action_type,
+        appId: schedule.app_id,
+        environmentName: schedule.environment_name,
+        ...(schedule.payload || {}),
+      },
+      creator_name: schedule.creator_name,
+      schedule_id: schedule.id,
+    })
+    .select('id')
+    .single();
+
+  if (error || !action) {
+    throw new Error(`Failed to create action for schedule '${schedule.name}': ${error?.message || 'unknown error'}`);
+  }
+
+  await supabase
+    .from('cloud_action_schedules')
+    .update({ last_run_at: occurrence.toISOString(), last_action_id: action.id })
+    .eq('id', schedule.id);
+
+  await supabase.from('cloud_action_logs').insert({
+    action_id: action.id,
+    user_id: schedule.user_id,
+    level: 'info',
+    message: `🗓️ Created by schedule '${schedule.name}' (${schedule.cron_expression}, ${schedule.timezone})`
+  });
+
+  return true;
+}
+
+function computeNextRun(schedule: Schedule, after: Date): Date | null {
+  try {
+    const next = nextCronOccurrence(schedule.cron_expression, after, schedule.timezone);
+    if (!next || (schedule.ends_at && next > new Date(schedule.ends_at))) {
+      return null;
+    }
+    return next;
+  } catch (error) {
+    console.error(`Invalid schedule ${schedule.id} (${schedule.cron_expression}, ${schedule.timezone}):`, error);
+    return null;
+  }
+}
+
 // Handle graceful shutdown
 addEventListener('beforeunload', (ev) => {
   console.log('Cloud Action Orchestrator shutdown due to:', (ev as any).detail?.reason);
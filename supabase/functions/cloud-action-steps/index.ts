@@ -1,37 +1,99 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { describeGateFailures, evaluateQualityGates } from '../_shared/cloud-action-quality-gates.ts';
+import { isSafeInterruptionPoint, remainingSteps } from '../_shared/cloud-action-step-order.ts';
+import { DEFAULT_BRANCH, DEFAULT_REVISION, isPackageReady } from '../_shared/mendix-packages.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+interface MendixCredential {
+  id: string;
+  name?: string;
+  username: string;
+  api_key?: string | null;
+  pat?: string | null;
+}
+
+interface MendixApp {
+  app_id: string;
+  app_name: string;
+  project_id: string;
+}
+
+// Payload fields read by the steps, per action type
+interface ActionPayload {
+  branchName?: string;
+  revisionId?: string;
+  version?: string;
+  description?: string;
+  packageId?: string;
+  sourceEnvironmentName?: string;
+  constants?: ConstantSetting[];
+  scheduledEvents?: ScheduledEventSetting[];
+  restartAfter?: boolean;
+  instances?: number | string;
+  memoryPerInstance?: number | string;
+  scaleTimeoutMinutes?: number;
+  snapshotId?: string;
+  rollbackOnFailure?: boolean;
+  restoreBackupOnRollback?: boolean;
+  startTimeoutMinutes?: number;
+  [key: string]: unknown;
+}
+
+// State a step hands to the next one (or to its own next poll)
+interface StepData {
+  startTime?: string;
+  changes?: SettingChange[];
+  previous?: { instances?: number; memoryPerInstance?: number };
+  totalMemory?: number;
+  builtPackage?: string;
+  sourceEnvironment?: string;
+  [key: string]: unknown;
+}
+
 interface CloudAction {
   id: string;
   user_id: string;
   credential_id: string;
   app_id: string;
   environment_name: string;
-  action_type: 'start' | 'stop' | 'restart' | 'deploy' | 'transport';
-  payload?: any;
+  action_type: 'start' | 'stop' | 'restart' | 'deploy' | 'transport' | 'configure' | 'scale' | 'restore' | 'build';
+  payload?: ActionPayload;
   current_step?: string;
-  step_data?: any;
+  step_data?: StepData;
   package_id?: string;
   backup_id?: string;
+  previous_package_id?: string;
   started_at?: string;
 }
 
 interface StepResult {
   completed?: boolean;
+  rolledBack?: boolean;
   nextStep?: string;
-  stepData?: any;
+  stepData?: StepData;
   packageId?: string;
   backupId?: string;
+  previousPackageId?: string;
   error?: string;
   success?: boolean;
+  // Stopped on request before the step ran
+  canceled?: boolean;
+  canceledBy?: string | null;
+  skippedSteps?: string[];
+  paused?: boolean;
 }
 
+// Default time an environment gets to report Running again before a rollback kicks in
+const DEFAULT_START_TIMEOUT_MINUTES = 15;
+// How long a scale operation may take before the action fails
+const DEFAULT_SCALE_TIMEOUT_MINUTES = 30;
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -66,7 +128,12 @@ serve(async (req) => {
   }
 });
 
-async function processStep(action: CloudAction, step: string, supabase: any): Promise<StepResult> {
+async function processStep(action: CloudAction, step: string, supabase: SupabaseClient): Promise<StepResult> {
+  const interruption = await checkInterruptionRequest(supabase, action, step);
+  if (interruption) {
+    return interruption;
+  }
+
   // Get credentials
   const { data: credential } = await supabase
     .from('mendix_credentials')
@@ -114,28 +181,35 @@ async function processStep(action: CloudAction, step: string, supabase: any): Pr
         } else {
           return { error: result.error };
         }
-      } else if (action.action_type === 'restart') {
+      } else if (action.action_type === 'restart' || action.action_type === 'configure' || action.action_type === 'restore') {
         const result = await callStop(credential, app, normalizedEnvName);
         return { ...result, nextStep: 'wait_stopped' };
       }
       throw new Error(`Invalid step ${step} for action type ${action.action_type}`);
 
     case 'wait_stopped':
-      return await waitForStatus(credential, app, action, 'stopped', 'Stopped', 'call_start');
+      return await waitForStatus(
+        credential, app, action, 'stopped', 'Stopped',
+        action.action_type === 'restore' ? 'restore_backup' : 'call_start'
+      );
 
-    // DEPLOY ACTION STEPS
+    // DEPLOY AND BUILD ACTION STEPS
     case 'create_package':
       return await createPackage(credential, app, action);
 
     case 'wait_package_build':
-      return await waitPackageBuild(credential, app, action);
+      return await waitPackageBuild(supabase, credential, app, action);
+
+    case 'evaluate_quality_gates':
+      return await evaluateGates(supabase, action);
 
     case 'transport_package':
       return await transportPackage(credential, app, action, normalizedEnvName);
 
-    case 'stop_environment':
+    case 'stop_environment': {
       const stopResult = await callStop(credential, app, normalizedEnvName);
       return { ...stopResult, nextStep: 'wait_environment_stopped' };
+    }
 
     case 'wait_environment_stopped':
       return await waitForStatus(credential, app, action, 'stopped', 'Stopped', 'create_backup');
@@ -146,13 +220,71 @@ async function processStep(action: CloudAction, step: string, supabase: any): Pr
     case 'wait_backup_complete':
       return await waitBackupComplete(credential, app, action, 'start_environment');
 
-    case 'start_environment':
+    case 'start_environment': {
       const startResult = await callStart(credential, app, normalizedEnvName);
-      return { ...startResult, nextStep: 'wait_environment_running' };
+      return { ...startResult, nextStep: 'wait_environment_running', stepData: { startTime: new Date().toISOString() } };
+    }
 
     case 'wait_environment_running':
+      if (action.payload?.rollbackOnFailure && hasStartTimedOut(action)) {
+        const timeoutMinutes = action.payload?.startTimeoutMinutes || DEFAULT_START_TIMEOUT_MINUTES;
+        return { error: `FATAL: Environment did not reach Running within ${timeoutMinutes} minutes` };
+      }
       return await waitForStatus(credential, app, action, 'running', 'Running', null, true);
 
+    // CONFIGURE ACTION STEPS
+    case 'read_settings':
+      return await readSettings(supabase, credential, app, action, normalizedEnvName);
+
+    case 'apply_settings':
+      return await applySettings(supabase, credential, app, action, normalizedEnvName);
+
+    // SCALE ACTION STEPS
+    case 'validate_scale':
+      return await validateScale(supabase, credential, app, action, normalizedEnvName);
+
+    case 'call_scale':
+      return await callScale(credential, app, action, normalizedEnvName);
+
+    case 'wait_scaled':
+      return await waitScaled(supabase, credential, app, action, normalizedEnvName);
+
+    // RESTORE ACTION STEPS
+    case 'validate_restore':
+      return await validateRestore(supabase, credential, app, action, normalizedEnvName);
+
+    case 'restore_backup':
+      return await restoreBackup(supabase, credential, app, action, normalizedEnvName);
+
+    // ROLLBACK STEPS (entered by run-cloud-actions-v2 when a rollback-enabled deploy/transport fails)
+    case 'rollback_stop_environment':
+      return await rollbackStopEnvironment(credential, app, normalizedEnvName);
+
+    case 'rollback_wait_stopped':
+      return await waitForStatus(
+        credential, app, action, 'stopped', 'Stopped',
+        action.payload?.restoreBackupOnRollback && action.backup_id ? 'rollback_restore_backup' : 'rollback_transport',
+        false, 'rollback_wait_stopped'
+      );
+
+    case 'rollback_restore_backup':
+      return await rollbackRestoreBackup(credential, app, action, normalizedEnvName);
+
+    case 'rollback_transport':
+      return await rollbackTransport(credential, app, action, normalizedEnvName);
+
+    case 'rollback_start_environment': {
+      const rollbackStartResult = await callStart(credential, app, normalizedEnvName);
+      return rollbackStartResult.error
+        ? rollbackStartResult
+        : { nextStep: 'rollback_wait_running', stepData: { startTime: new Date().toISOString() } };
+    }
+
+    case 'rollback_wait_running': {
+      const result = await waitForStatus(credential, app, action, 'running', 'Running', null, true, 'rollback_wait_running');
+      return result.completed ? { rolledBack: true } : result;
+    }
+
     // TRANSPORT ACTION STEPS
     case 'retrieve_source_package':
       return await retrieveSourcePackage(credential, app, action);
@@ -162,13 +294,41 @@ async function processStep(action: CloudAction, step: string, supabase: any): Pr
   }
 }
 
+// Cancel and pause requests from the dashboard are honoured before a step runs, at safe points only.
+// Inside a stop/start pair the request waits until the environment has been started again.
+async function checkInterruptionRequest(supabase: SupabaseClient, action: CloudAction, step: string): Promise<StepResult | null> {
+  const { data: request } = await supabase
+    .from('cloud_actions')
+    .select('cancel_requested_at, cancel_requested_by, pause_requested_at')
+    .eq('id', action.id)
+    .single();
+
+  if (!request?.cancel_requested_at && !request?.pause_requested_at) {
+    return null;
+  }
+
+  if (!isSafeInterruptionPoint(action.action_type, step)) {
+    console.log(`⏳ ${request.cancel_requested_at ? 'Cancel' : 'Pause'} of action ${action.id} waits: '${step}' is inside a stop/start pair`);
+    return null;
+  }
+
+  if (request.cancel_requested_at) {
+    return {
+      canceled: true,
+      canceledBy: request.cancel_requested_by,
+      skippedSteps: remainingSteps(action.action_type, action.payload, step),
+    };
+  }
+  return { paused: true };
+}
+
 // Helper function to normalize environment names
 function normalizeEnvironmentName(envName: string): string {
   return envName.charAt(0).toUpperCase() + envName.slice(1).toLowerCase();
 }
 
 // START/STOP operations
-async function callStart(credential: any, app: any, environmentName: string): Promise<StepResult> {
+async function callStart(credential: MendixCredential, app: MendixApp, environmentName: string): Promise<StepResult> {
   const response = await callMendix('start', credential, app.app_id, environmentName);
   if (response.success) {
     return { nextStep: 'wait_environment_running' };
@@ -177,7 +337,7 @@ async function callStart(credential: any, app: any, environmentName: string): Pr
   }
 }
 
-async function callStop(credential: any, app: any, environmentName: string): Promise<StepResult> {
+async function callStop(credential: MendixCredential, app: MendixApp, environmentName: string): Promise<StepResult> {
   const response = await callMendix('stop', credential, app.app_id, environmentName);
   if (response.success) {
     return { success: true };
@@ -188,13 +348,14 @@ async function callStop(credential: any, app: any, environmentName: string): Pro
 
 // Status polling
 async function waitForStatus(
-  credential: any, 
-  app: any, 
+  credential: MendixCredential, 
+  app: MendixApp, 
   action: CloudAction, 
   targetStatus: string, 
   displayStatus: string,
   nextStep?: string | null,
-  isCompleted: boolean = false
+  isCompleted: boolean = false,
+  waitStep?: string
 ): Promise<StepResult> {
   const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
   const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
@@ -242,7 +403,9 @@ async function waitForStatus(
     // Still waiting, continue in next cycle
     // Map status to correct step names used in switch statement
     let waitStepName: string;
-    if (targetStatus === 'stopped') {
+    if (waitStep) {
+      waitStepName = waitStep;
+    } else if (targetStatus === 'stopped') {
       waitStepName = 'wait_stopped';
     } else if (targetStatus === 'running') {
       waitStepName = 'wait_environment_running';
@@ -275,10 +438,15 @@ async function waitForStatus(
   }
 }
 
-// Package operations for deploy
-async function createPackage(credential: any, app: any, action: CloudAction): Promise<StepResult> {
-  const branch = action.payload?.branchName || 'main';
-  const revision = action.payload?.revisionId || 'HEAD';
+// Package operations for deploy and build
+async function createPackage(credential: MendixCredential, app: MendixApp, action: CloudAction): Promise<StepResult> {
+  const branch = action.payload?.branchName || DEFAULT_BRANCH;
+  const revision = action.payload?.revisionId || DEFAULT_REVISION;
+
+  // A build is kept for later transports, so its version has to be chosen on purpose
+  if (action.action_type === 'build' && !action.payload?.version) {
+    return { error: 'FATAL: Build action needs a version (payload.version)' };
+  }
 
   console.log(`🔧 Creating package for app_slug: ${app.app_id}, display: ${app.app_name}, project_id: ${app.project_id}`);
 
@@ -338,7 +506,7 @@ async function createPackage(credential: any, app: any, action: CloudAction): Pr
   }
 }
 
-async function waitPackageBuild(credential: any, app: any, action: CloudAction): Promise<StepResult> {
+async function waitPackageBuild(supabase: SupabaseClient, credential: MendixCredential, app: MendixApp, action: CloudAction): Promise<StepResult> {
   if (!action.package_id) {
     return { error: 'Package ID missing for build status check' };
   }
@@ -363,8 +531,18 @@ async function waitPackageBuild(credential: any, app: any, action: CloudAction):
 
     console.log(`Package ${action.package_id} status: ${status}`);
 
-    if (status === 'Available' || status === 'Succeeded') {
-      return { nextStep: 'transport_package' };
+    if (isPackageReady(status)) {
+      if (action.action_type === 'build') {
+        // Build-only: the package stays on the build server until a transport picks it up
+        await supabase.from('cloud_action_logs').insert({
+          action_id: action.id,
+          user_id: action.user_id,
+          level: 'info',
+          message: `📦 Package ${data.Name || action.package_id} (${data.Version || action.payload?.version}) is ready to transport`
+        });
+        return { completed: true };
+      }
+      return { nextStep: 'evaluate_quality_gates' };
     } else if (status === 'Failed') {
       return { error: `Package build failed: ${data.ErrorMessage || 'Unknown error'}` };
     } else {
@@ -384,11 +562,346 @@ async function waitPackageBuild(credential: any, app: any, action: CloudAction):
   }
 }
 
-async function transportPackage(credential: any, app: any, action: CloudAction, environmentName: string): Promise<StepResult> {
+// Quality gates: fail before anything is transported when OWASP/linting/vulnerability results don't meet the bar
+async function evaluateGates(supabase: SupabaseClient, action: CloudAction): Promise<StepResult> {
+  const results = await evaluateQualityGates(supabase, action);
+  if (results.length === 0) {
+    return { nextStep: 'transport_package', stepData: action.step_data };
+  }
+
+  await supabase.from('cloud_action_logs').insert(results.map((result) => ({
+    action_id: action.id,
+    user_id: action.user_id,
+    level: result.passed ? 'info' : 'error',
+    message: `${result.passed ? '🛡️ Gate passed' : '🚫 Gate failed'} - ${result.message}`
+  })));
+
+  const failures = describeGateFailures(results);
+  if (failures) {
+    return { error: `FATAL: Quality gate blocked the ${action.action_type}: ${failures}` };
+  }
+
+  return { nextStep: 'transport_package', stepData: action.step_data };
+}
+
+interface ConstantSetting {
+  name: string;
+  value: string;
+}
+
+interface ScheduledEventSetting {
+  name: string;
+  enabled: boolean;
+}
+
+interface SettingChange {
+  kind: 'constant' | 'scheduled_event';
+  name: string;
+  from: string;
+  to: string;
+}
+
+// Constants whose values must not end up in the logs
+const SECRET_CONSTANT_PATTERN = /password|secret|token|apikey|api_key|credential|private/i;
+
+function displayConstantValue(name: string, value: string): string {
+  return SECRET_CONSTANT_PATTERN.test(name) ? '••••••' : `'${value}'`;
+}
+
+function settingsUrl(app: MendixApp, environmentName: string): string {
+  return `https://deploy.mendix.com/api/1/apps/${encodeURIComponent(app.app_id)}/environments/${encodeURIComponent(environmentName)}/settings/`;
+}
+
+function configureFinished(action: CloudAction): StepResult {
+  // Constant changes only take effect after a restart
+  return action.payload?.restartAfter ? { nextStep: 'call_stop' } : { completed: true };
+}
+
+// Compares the desired constants and scheduled events in the payload with the environment's current settings
+async function readSettings(supabase: SupabaseClient, credential: MendixCredential, app: MendixApp, action: CloudAction, environmentName: string): Promise<StepResult> {
+  try {
+    const response = await fetch(settingsUrl(app, environmentName), {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+        'Mendix-Username': credential.username,
+        'Mendix-ApiKey': credential.api_key || credential.pat || ''
+      }
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      return { error: `Failed to read environment settings: ${response.status} - ${errorText}` };
+    }
+
+    const settings: {
+      Constants?: { Name: string; Value?: string | null }[];
+      ScheduledEvents?: { Name: string; Enabled?: boolean }[];
+    } = await response.json();
+    const currentConstants = new Map((settings.Constants || []).map((c) => [c.Name, c.Value ?? '']));
+    const currentEvents = new Map((settings.ScheduledEvents || []).map((e) => [e.Name, !!e.Enabled]));
+
+    const changes: SettingChange[] = [];
+    for (const constant of (action.payload?.constants || []) as ConstantSetting[]) {
+      if (!currentConstants.has(constant.name)) {
+        return { error: `FATAL: Constant ${constant.name} does not exist in ${environmentName}` };
+      }
+      const current = currentConstants.get(constant.name)!;
+      if (current !== constant.value) {
+        changes.push({
+          kind: 'constant',
+          name: constant.name,
+          from: displayConstantValue(constant.name, current),
+          to: displayConstantValue(constant.name, constant.value),
+        });
+      }
+    }
+    for (const event of (action.payload?.scheduledEvents || []) as ScheduledEventSetting[]) {
+      if (!currentEvents.has(event.name)) {
+        return { error: `FATAL: Scheduled event ${event.name} does not exist in ${environmentName}` };
+      }
+      if (currentEvents.get(event.name) !== event.enabled) {
+        changes.push({
+          kind: 'scheduled_event',
+          name: event.name,
+          from: currentEvents.get(event.name) ? 'enabled' : 'disabled',
+          to: event.enabled ? 'enabled' : 'disabled',
+        });
+      }
+    }
+
+    if (changes.length === 0) {
+      await supabase.from('cloud_action_logs').insert({
+        action_id: action.id,
+        user_id: action.user_id,
+        level: 'info',
+        message: `⚙️ ${environmentName} already has the requested settings, nothing to change`
+      });
+      return configureFinished(action);
+    }
+
+    return { nextStep: 'apply_settings', stepData: { changes } };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return { error: `Reading environment settings failed: ${errorMessage}` };
+  }
+}
+
+async function applySettings(supabase: SupabaseClient, credential: MendixCredential, app: MendixApp, action: CloudAction, environmentName: string): Promise<StepResult> {
+  const changes: SettingChange[] = action.step_data?.changes || [];
+  const changed = (kind: SettingChange['kind'], name: string) =>
+    changes.some((c) => c.kind === kind && c.name === name);
+
+  try {
+    // Only send what differs, so values changed in the portal meanwhile are left alone
+    const response = await fetch(settingsUrl(app, environmentName), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Mendix-Username': credential.username,
+        'Mendix-ApiKey': credential.api_key || credential.pat || ''
+      },
+      body: JSON.stringify({
+        Constants: ((action.payload?.constants || []) as ConstantSetting[])
+          .filter((c) => changed('constant', c.name))
+          .map((c) => ({ Name: c.name, Value: c.value })),
+        ScheduledEvents: ((action.payload?.scheduledEvents || []) as ScheduledEventSetting[])
+          .filter((e) => changed('scheduled_event', e.name))
+          .map((e) => ({ Name: e.name, Enabled: e.enabled })),
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      return { error: `Failed to update environment settings: ${response.status} - ${errorText}` };
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return { error: `Updating environment settings failed: ${errorMessage}` };
+  }
+
+  await supabase.from('cloud_action_logs').insert(changes.map((change) => ({
+    action_id: action.id,
+    user_id: action.user_id,
+    level: 'info',
+    message: `⚙️ ${change.kind === 'constant' ? 'Constant' : 'Scheduled event'} ${change.name}: ${change.from} → ${change.to}`
+  })));
+
+  return configureFinished(action);
+}
+
+interface EnvironmentSize {
+  status?: string;
+  instances?: number;
+  memoryPerInstance?: number;
+  totalMemory?: number;
+}
+
+async function getEnvironmentSize(credential: MendixCredential, app: MendixApp, environmentName: string): Promise<EnvironmentSize | { error: string }> {
+  const url = `https://deploy.mendix.com/api/1/apps/${encodeURIComponent(app.app_id)}/environments/${encodeURIComponent(environmentName)}`;
+  const response = await fetch(url, {
+    method: 'GET',
+    headers: {
+      'Accept': 'application/json',
+      'Mendix-Username': credential.username,
+      'Mendix-ApiKey': credential.api_key || credential.pat || ''
+    }
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    return { error: `Failed to read environment details: ${response.status} - ${errorText}` };
+  }
+
+  const data = await response.json();
+  return {
+    status: data.Status,
+    instances: data.Instances,
+    memoryPerInstance: data.MemoryPerInstance,
+    // Memory available to the environment under its plan, shared by all instances
+    totalMemory: data.TotalMemory,
+  };
+}
+
+// Checks the requested size against the plan before anything changes
+async function validateScale(supabase: SupabaseClient, credential: MendixCredential, app: MendixApp, action: CloudAction, environmentName: string): Promise<StepResult> {
+  const instances = Number(action.payload?.instances);
+  const memoryPerInstance = Number(action.payload?.memoryPerInstance);
+  if (!Number.isInteger(instances) || instances < 1 || !Number.isInteger(memoryPerInstance) || memoryPerInstance < 1) {
+    return { error: 'FATAL: Scale action needs a positive instance count and memory per instance' };
+  }
+
+  try {
+    const size = await getEnvironmentSize(credential, app, environmentName);
+    if ('error' in size) return { error: size.error };
+
+    const requestedMemory = instances * memoryPerInstance;
+    if (size.totalMemory && requestedMemory > size.totalMemory) {
+      return {
+        error: `FATAL: ${instances} x ${memoryPerInstance} MB needs ${requestedMemory} MB, ` +
+          `but the plan of ${environmentName} allows ${size.totalMemory} MB`
+      };
+    }
+    if (!size.totalMemory) {
+      await supabase.from('cloud_action_logs').insert({
+        action_id: action.id,
+        user_id: action.user_id,
+        level: 'warn',
+        message: `⚠️ Mendix did not report the plan memory of ${environmentName}; Mendix validates the new size instead`
+      });
+    }
+
+    const previous = { instances: size.instances, memoryPerInstance: size.memoryPerInstance };
+    if (size.instances === instances && size.memoryPerInstance === memoryPerInstance) {
+      await supabase.from('cloud_action_logs').insert({
+        action_id: action.id,
+        user_id: action.user_id,
+        level: 'info',
+        message: `📏 ${environmentName} already runs ${instances} x ${memoryPerInstance} MB, nothing to change`
+      });
+      return { completed: true };
+    }
+
+    await supabase.from('cloud_action_logs').insert({
+      action_id: action.id,
+      user_id: action.user_id,
+      level: 'info',
+      message: `📏 Scaling ${environmentName} from ${previous.instances ?? '?'} x ${previous.memoryPerInstance ?? '?'} MB ` +
+        `to ${instances} x ${memoryPerInstance} MB` + (size.totalMemory ? ` (plan allows ${size.totalMemory} MB)` : '')
+    });
+    return { nextStep: 'call_scale', stepData: { previous, totalMemory: size.totalMemory } };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return { error: `Scale validation failed: ${errorMessage}` };
+  }
+}
+
+async function callScale(credential: MendixCredential, app: MendixApp, action: CloudAction, environmentName: string): Promise<StepResult> {
+  try {
+    const url = `https://deploy.mendix.com/api/1/apps/${encodeURIComponent(app.app_id)}/environments/${encodeURIComponent(environmentName)}/scale/`;
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Mendix-Username': credential.username,
+        'Mendix-ApiKey': credential.api_key || credential.pat || ''
+      },
+      body: JSON.stringify({
+        Instances: Number(action.payload?.instances),
+        MemoryPerInstance: Number(action.payload?.memoryPerInstance),
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      return { error: `Failed to scale environment: ${response.status} - ${errorText}` };
+    }
+
+    return { nextStep: 'wait_scaled', stepData: { ...action.step_data, startTime: new Date().toISOString() } };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return { error: `Scaling failed: ${errorMessage}` };
+  }
+}
+
+// Done once the environment is running at the requested size
+async function waitScaled(supabase: SupabaseClient, credential: MendixCredential, app: MendixApp, action: CloudAction, environmentName: string): Promise<StepResult> {
+  const instances = Number(action.payload?.instances);
+  const memoryPerInstance = Number(action.payload?.memoryPerInstance);
+  const startTime = action.step_data?.startTime || new Date().toISOString();
+  const timeoutMinutes = action.payload?.scaleTimeoutMinutes || DEFAULT_SCALE_TIMEOUT_MINUTES;
+
+  try {
+    const size = await getEnvironmentSize(credential, app, environmentName);
+    if ('error' in size) return { error: size.error };
+
+    await supabase
+      .from('cloud_actions')
+      .update({ last_heartbeat: new Date().toISOString() })
+      .eq('id', action.id);
+
+    const running = size.status?.toLowerCase() === 'running';
+    if (running && size.instances === instances && size.memoryPerInstance === memoryPerInstance) {
+      await supabase.from('cloud_action_logs').insert({
+        action_id: action.id,
+        user_id: action.user_id,
+        level: 'info',
+        message: `📏 ${environmentName} is running at ${instances} x ${memoryPerInstance} MB`
+      });
+      return { completed: true };
+    }
+
+    const waitDuration = Math.floor((Date.now() - new Date(startTime).getTime()) / 1000);
+    if (waitDuration > timeoutMinutes * 60) {
+      return { error: `FATAL: Environment did not reach ${instances} x ${memoryPerInstance} MB within ${timeoutMinutes} minutes` };
+    }
+
+    await supabase.from('cloud_action_logs').insert({
+      action_id: action.id,
+      user_id: action.user_id,
+      level: 'info',
+      message: `⏳ Waiting for the new size (${waitDuration}s elapsed, current: ${size.status || 'unknown'}, ` +
+        `${size.instances ?? '?'} x ${size.memoryPerInstance ?? '?'} MB)`
+    });
+    return { nextStep: 'wait_scaled', stepData: { ...action.step_data, startTime } };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return { error: `Checking the environment size failed: ${errorMessage}` };
+  }
+}
+
+async function transportPackage(credential: MendixCredential, app: MendixApp, action: CloudAction, environmentName: string): Promise<StepResult> {
   if (!action.package_id) {
     return { error: 'Package ID missing for transport' };
   }
 
+  // Remember what is running now, so a failed start can be rolled back to it
+  let previousPackageId = action.previous_package_id;
+  if (action.payload?.rollbackOnFailure && !previousPackageId) {
+    previousPackageId = await getEnvironmentPackageId(credential, app, environmentName);
+    console.log(`Previous package on ${environmentName}: ${previousPackageId || 'none'}`);
+  }
+
   try {
     const url = `https://deploy.mendix.com/api/1/apps/${encodeURIComponent(app.app_id)}/environments/${encodeURIComponent(environmentName)}/transport`;
     
@@ -412,7 +925,7 @@ async function transportPackage(credential: any, app: any, action: CloudAction,
     console.log(`Package ${action.package_id} transported to ${environmentName}`);
     
     // Continue to stop_environment for proper backup and restart flow
-    return { nextStep: 'stop_environment' };
+    return { nextStep: 'stop_environment', previousPackageId };
 
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Package transport failed';
@@ -421,7 +934,7 @@ async function transportPackage(credential: any, app: any, action: CloudAction,
 }
 
 // Backup operations
-async function createBackup(credential: any, app: any, action: CloudAction, environmentName: string): Promise<StepResult> {
+async function createBackup(credential: MendixCredential, app: MendixApp, action: CloudAction, environmentName: string): Promise<StepResult> {
   try {
     const url = `https://deploy.mendix.com/api/1/apps/${encodeURIComponent(app.app_id)}/environments/${encodeURIComponent(environmentName)}/snapshots`;
     
@@ -463,7 +976,7 @@ async function createBackup(credential: any, app: any, action: CloudAction, envi
   }
 }
 
-async function waitBackupComplete(credential: any, app: any, action: CloudAction, nextStep: string): Promise<StepResult> {
+async function waitBackupComplete(credential: MendixCredential, app: MendixApp, action: CloudAction, nextStep: string): Promise<StepResult> {
   if (!action.backup_id) {
     // No backup ID, skip to next step
     return { nextStep };
@@ -516,8 +1029,92 @@ async function waitBackupComplete(credential: any, app: any, action: CloudAction
   }
 }
 
+// Restore operations
+async function validateRestore(supabase: SupabaseClient, credential: MendixCredential, app: MendixApp, action: CloudAction, environmentName: string): Promise<StepResult> {
+  const snapshotId = action.payload?.snapshotId;
+  if (!snapshotId) {
+    return { error: 'FATAL: Restore action needs a backup (payload.snapshotId)' };
+  }
+
+  try {
+    const url = `https://deploy.mendix.com/api/1/apps/${encodeURIComponent(app.app_id)}/snapshots/${encodeURIComponent(snapshotId)}`;
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'Mendix-Username': credential.username,
+        'Mendix-ApiKey': credential.api_key || credential.pat || ''
+      }
+    });
+
+    if (response.status === 404) {
+      return { error: `FATAL: Backup ${snapshotId} does not exist (anymore)` };
+    }
+    if (!response.ok) {
+      const errorText = await response.text();
+      return { error: `Failed to get backup ${snapshotId}: ${response.status} - ${errorText}` };
+    }
+
+    const data = await response.json();
+    if (data.State !== 'Completed') {
+      return { error: `FATAL: Backup ${snapshotId} is ${data.State || 'in an unknown state'} and cannot be restored` };
+    }
+
+    const source = action.payload?.sourceEnvironmentName;
+    await supabase.from('cloud_action_logs').insert({
+      action_id: action.id,
+      user_id: action.user_id,
+      level: 'info',
+      message: `♻️ Restoring backup ${snapshotId}` +
+        (data.CreatedOn ? ` from ${new Date(data.CreatedOn).toISOString()}` : '') +
+        (source && normalizeEnvironmentName(source) !== environmentName ? ` (taken on ${source})` : '') +
+        ` to ${environmentName}; the environment will be stopped during the restore`
+    });
+
+    return { nextStep: 'call_stop', backupId: snapshotId };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return { error: `Restore validation failed: ${errorMessage}` };
+  }
+}
+
+async function restoreBackup(supabase: SupabaseClient, credential: MendixCredential, app: MendixApp, action: CloudAction, environmentName: string): Promise<StepResult> {
+  const snapshotId = action.payload?.snapshotId;
+
+  try {
+    const url = `https://deploy.mendix.com/api/1/apps/${encodeURIComponent(app.app_id)}/environments/${encodeURIComponent(environmentName)}/snapshots/${encodeURIComponent(snapshotId)}/restore`;
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Mendix-Username': credential.username,
+        'Mendix-ApiKey': credential.api_key || credential.pat || ''
+      }
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      return { error: `Failed to restore backup ${snapshotId}: ${response.status} - ${errorText}` };
+    }
+
+    await supabase.from('cloud_action_logs').insert({
+      action_id: action.id,
+      user_id: action.user_id,
+      level: 'info',
+      message: `♻️ Restored backup ${snapshotId} on ${environmentName}, starting the environment`
+    });
+    return { nextStep: 'call_start' };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return { error: `Backup restore failed: ${errorMessage}` };
+  }
+}
+
 // Transport-specific operations
-async function retrieveSourcePackage(credential: any, app: any, action: CloudAction): Promise<StepResult> {
+async function retrieveSourcePackage(credential: MendixCredential, app: MendixApp, action: CloudAction): Promise<StepResult> {
+  if (action.payload?.packageId) {
+    return await retrieveBuiltPackage(credential, app, action.payload.packageId);
+  }
+
   const sourceEnvironment = action.payload?.sourceEnvironmentName;
   if (!sourceEnvironment) {
     return { error: 'Source environment not specified for transport' };
@@ -548,7 +1145,7 @@ async function retrieveSourcePackage(credential: any, app: any, action: CloudAct
     console.log(`Retrieved package ${packageId} from source environment ${sourceEnvironment}`);
     
     return {
-      nextStep: 'transport_package',
+      nextStep: 'evaluate_quality_gates',
       packageId: packageId,
       stepData: { sourceEnvironment }
     };
@@ -559,8 +1156,154 @@ async function retrieveSourcePackage(credential: any, app: any, action: CloudAct
   }
 }
 
+// Transport of a package made earlier (typically by a build action) instead of the one on a source environment
+async function retrieveBuiltPackage(credential: MendixCredential, app: MendixApp, packageId: string): Promise<StepResult> {
+  try {
+    const url = `https://deploy.mendix.com/api/1/apps/${encodeURIComponent(app.app_id)}/packages/${encodeURIComponent(packageId)}`;
+
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'Mendix-Username': credential.username,
+        'Mendix-ApiKey': credential.api_key || credential.pat || ''
+      }
+    });
+
+    if (response.status === 404) {
+      return { error: `FATAL: Package ${packageId} no longer exists` };
+    }
+    if (!response.ok) {
+      return { error: `Failed to get package ${packageId}: ${response.status}` };
+    }
+
+    const data = await response.json();
+    if (data.Status && !isPackageReady(data.Status)) {
+      return { error: `FATAL: Package ${data.Name || packageId} is ${data.Status}, not ready to transport` };
+    }
+
+    console.log(`Using built package ${packageId} (${data.Version})`);
+
+    return {
+      nextStep: 'evaluate_quality_gates',
+      packageId,
+      stepData: { builtPackage: data.Name || packageId }
+    };
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve package';
+    return { error: `Failed to retrieve package: ${errorMessage}` };
+  }
+}
+
+// Rollback operations
+function hasStartTimedOut(action: CloudAction): boolean {
+  const startTime = action.step_data?.startTime;
+  if (!startTime) return false;
+  const timeoutMinutes = action.payload?.startTimeoutMinutes || DEFAULT_START_TIMEOUT_MINUTES;
+  return Date.now() - new Date(startTime).getTime() > timeoutMinutes * 60 * 1000;
+}
+
+async function getEnvironmentPackageId(credential: MendixCredential, app: MendixApp, environmentName: string): Promise<string | undefined> {
+  try {
+    const url = `https://deploy.mendix.com/api/1/apps/${encodeURIComponent(app.app_id)}/environments/${encodeURIComponent(environmentName)}/package`;
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'Mendix-Username': credential.username,
+        'Mendix-ApiKey': credential.api_key || credential.pat || ''
+      }
+    });
+
+    if (!response.ok) {
+      console.log(`Could not read current package of ${environmentName}: ${response.status}`);
+      return undefined;
+    }
+
+    const data = await response.json();
+    return data.PackageId || undefined;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.log(`Could not read current package of ${environmentName}: ${errorMessage}`);
+    return undefined;
+  }
+}
+
+async function rollbackStopEnvironment(credential: MendixCredential, app: MendixApp, environmentName: string): Promise<StepResult> {
+  const result = await callStop(credential, app, environmentName);
+  if (result.error) {
+    // An environment that failed to start is often already stopped; the wait step will confirm
+    console.log(`Rollback stop returned an error (continuing): ${result.error}`);
+  }
+  return { nextStep: 'rollback_wait_stopped', stepData: { startTime: new Date().toISOString() } };
+}
+
+async function rollbackRestoreBackup(credential: MendixCredential, app: MendixApp, action: CloudAction, environmentName: string): Promise<StepResult> {
+  if (!action.backup_id) {
+    return { nextStep: 'rollback_transport' };
+  }
+
+  try {
+    const url = `https://deploy.mendix.com/api/1/apps/${encodeURIComponent(app.app_id)}/environments/${encodeURIComponent(environmentName)}/snapshots/${encodeURIComponent(action.backup_id)}/restore`;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Mendix-Username': credential.username,
+        'Mendix-ApiKey': credential.api_key || credential.pat || ''
+      }
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      return { error: `Failed to restore backup ${action.backup_id}: ${response.status} - ${errorText}` };
+    }
+
+    console.log(`Restored backup ${action.backup_id} on ${environmentName}`);
+    return { nextStep: 'rollback_transport' };
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Backup restore failed';
+    return { error: `Backup restore failed: ${errorMessage}` };
+  }
+}
+
+async function rollbackTransport(credential: MendixCredential, app: MendixApp, action: CloudAction, environmentName: string): Promise<StepResult> {
+  if (!action.previous_package_id) {
+    return { error: 'FATAL: No previous package recorded, cannot roll back' };
+  }
+
+  try {
+    const url = `https://deploy.mendix.com/api/1/apps/${encodeURIComponent(app.app_id)}/environments/${encodeURIComponent(environmentName)}/transport`;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Mendix-Username': credential.username,
+        'Mendix-ApiKey': credential.api_key || credential.pat || ''
+      },
+      body: JSON.stringify({
+        PackageId: action.previous_package_id
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      return { error: `Failed to transport previous package: ${response.status} - ${errorText}` };
+    }
+
+    console.log(`Previous package ${action.previous_package_id} transported back to ${environmentName}`);
+    return { nextStep: 'rollback_start_environment' };
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Rollback transport failed';
+    return { error: `Rollback transport failed: ${errorMessage}` };
+  }
+}
+
 // Helper function to call Mendix API for start/stop
-async function callMendix(action: string, credential: any, appSlug: string, environmentName: string) {
+async function callMendix(action: string, credential: MendixCredential, appSlug: string, environmentName: string) {
   try {
     const url = `https://deploy.mendix.com/api/1/apps/${encodeURIComponent(appSlug)}/environments/${encodeURIComponent(environmentName)}/${action}`;
     
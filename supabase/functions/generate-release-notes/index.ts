@@ -0,0 +1,174 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { buildReleaseNotes } from '../_shared/release-notes.ts';
+import type { RepositoryCommit } from '../_shared/release-notes.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface Release {
+  package_id: string;
+  revision_id: string | null;
+  branch_name: string | null;
+}
+
+// Release notes for a deploy or transport that is about to be created: the commits between the
+// package on the target environment and the one being deployed, based on cloud_action_releases
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Verify JWT and get user
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('No authorization header');
+    }
+
+    const jwt = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(jwt);
+
+    if (authError || !user) {
+      throw new Error('Invalid authentication');
+    }
+
+    const { credentialId, appId, actionType, environmentName, sourceEnvironmentName, packageId, branchName, revisionId } =
+      await req.json();
+
+    if (!credentialId || !appId || !actionType || !environmentName) {
+      throw new Error('Missing required parameters');
+    }
+
+    const { data: credentials, error: credError } = await supabase
+      .from('mendix_credentials')
+      .select('username, pat')
+      .eq('id', credentialId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (credError || !credentials) {
+      throw new Error('Credentials not found or access denied');
+    }
+
+    const { data: appRow, error: appError } = await supabase
+      .from('mendix_apps')
+      .select('project_id')
+      .eq('project_id', appId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (appError || !appRow?.project_id) {
+      throw new Error(`App not found in database for project_id: ${appId}`);
+    }
+
+    const latestRelease = async (environment: string): Promise<Release | null> => {
+      const { data } = await supabase
+        .from('cloud_action_releases')
+        .select('package_id, revision_id, branch_name')
+        .eq('app_id', appId)
+        .ilike('environment_name', environment)
+        .order('deployed_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      return data as Release | null;
+    };
+
+    // What is being deployed
+    let head: Release;
+    if (actionType === 'transport' && packageId) {
+      // A package built earlier by a deploy or build action
+      const { data: origin } = await supabase
+        .from('cloud_actions')
+        .select('payload')
+        .eq('app_id', appId)
+        .eq('package_id', packageId)
+        .in('action_type', ['deploy', 'build'])
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+      if (!origin?.payload?.revisionId) {
+        throw new Error('Package was not built through cloud actions, so its commit is unknown');
+      }
+      head = { package_id: packageId, revision_id: origin.payload.revisionId, branch_name: origin.payload.branchName || null };
+    } else if (actionType === 'transport') {
+      if (!sourceEnvironmentName) {
+        throw new Error('Source environment not specified for transport');
+      }
+      const sourceRelease = await latestRelease(sourceEnvironmentName);
+      if (!sourceRelease?.revision_id) {
+        throw new Error(`No deploy through cloud actions recorded on ${sourceEnvironmentName}, so its commit is unknown`);
+      }
+      head = sourceRelease;
+    } else if (actionType === 'deploy') {
+      if (!branchName || !revisionId) {
+        throw new Error('Deploy needs a branch and revision');
+      }
+      head = { package_id: '', revision_id: revisionId, branch_name: branchName };
+    } else {
+      throw new Error(`Release notes are only available for deploy and transport, not ${actionType}`);
+    }
+
+    // What the target runs today
+    const base = await latestRelease(environmentName);
+    const range = {
+      branch: head.branch_name,
+      fromRevision: base?.revision_id || null,
+      toRevision: head.revision_id as string,
+      fromPackageId: base?.package_id || null,
+      toPackageId: head.package_id || null,
+    };
+
+    if (base && head.package_id && base.package_id === head.package_id) {
+      return new Response(
+        JSON.stringify({ success: true, notes: buildReleaseNotes([], { ...range, fromRevision: range.toRevision }) }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Same Repository API call get-mendix-commits makes
+    const branch = (head.branch_name || '').replace(/^branches\//, '');
+    const repoApiUrl = `https://repository.api.mendix.com/v1/repositories/${appRow.project_id}/branches/${encodeURIComponent(branch)}/commits`;
+    console.log(`Fetching commits for release notes: ${appRow.project_id}/${branch}`);
+
+    const response = await fetch(repoApiUrl, {
+      method: 'GET',
+      headers: {
+        'Authorization': `MxToken ${credentials.pat}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`Mendix Repository API error: ${response.status} - ${errorText}`);
+      throw new Error(`Failed to fetch commits: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const commits = ((data.items || []) as RepositoryCommit[])
+      .sort((a, b) => new Date(b.date || 0).getTime() - new Date(a.date || 0).getTime());
+
+    const notes = buildReleaseNotes(commits, range);
+    console.log(`Release notes: ${notes.commits.length} commits (${notes.complete ? 'complete' : 'partial'})`);
+
+    return new Response(
+      JSON.stringify({ success: true, notes }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in generate-release-notes:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,107 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Reads the constants and scheduled events of an environment for the configure action dialog
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Verify JWT and get user
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('No authorization header');
+    }
+
+    const jwt = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(jwt);
+
+    if (authError || !user) {
+      throw new Error('Invalid authentication');
+    }
+
+    const { credentialId, appId, environmentName } = await req.json();
+
+    if (!credentialId || !appId || !environmentName) {
+      throw new Error('Missing required parameters');
+    }
+
+    // Get user's credentials
+    const { data: credentials, error: credError } = await supabase
+      .from('mendix_credentials')
+      .select('*')
+      .eq('id', credentialId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (credError || !credentials) {
+      throw new Error('Credentials not found or access denied');
+    }
+
+    const { data: appRow, error: appError } = await supabase
+      .from('mendix_apps')
+      .select('app_id')
+      .eq('project_id', appId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (appError || !appRow?.app_id) {
+      throw new Error(`App not found in database for project_id: ${appId}`);
+    }
+
+    // Same normalization cloud-action-steps uses for the environment mode
+    const mode = environmentName.charAt(0).toUpperCase() + environmentName.slice(1).toLowerCase();
+    const url = `https://deploy.mendix.com/api/1/apps/${encodeURIComponent(appRow.app_id)}/environments/${encodeURIComponent(mode)}/settings/`;
+    console.log(`Fetching settings for ${appRow.app_id}/${mode}`);
+
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+        'Mendix-Username': credentials.username,
+        'Mendix-ApiKey': credentials.api_key || credentials.pat || ''
+      }
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`Failed to fetch environment settings: ${response.status} - ${errorText}`);
+      throw new Error(`Failed to fetch environment settings: ${response.status}`);
+    }
+
+    const settings = await response.json();
+
+    type Constant = { Name: string; Value?: string | null; Type?: string; Description?: string };
+    type ScheduledEvent = { Name: string; Enabled?: boolean; Description?: string };
+
+    const constants = ((settings?.Constants || []) as Constant[])
+      .map((c) => ({ name: c.Name, value: c.Value ?? '', type: c.Type || null, description: c.Description || null }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    const scheduledEvents = ((settings?.ScheduledEvents || []) as ScheduledEvent[])
+      .map((e) => ({ name: e.Name, enabled: !!e.Enabled, description: e.Description || null }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    return new Response(
+      JSON.stringify({ success: true, constants, scheduledEvents }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in get-mendix-environment-settings:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -31,9 +31,10 @@ serve(async (req) => {
       throw new Error('Invalid authentication');
     }
 
+    // Without branchName all packages of the app are returned
     const { credentialId, appId, branchName } = await req.json();
 
-    if (!credentialId || !appId || !branchName) {
+    if (!credentialId || !appId) {
       throw new Error('Missing required parameters');
     }
 
@@ -111,14 +112,32 @@ serve(async (req) => {
       throw new Error('Unexpected packages response format');
     }
 
+    // Packages created by deploy and build cloud actions
+    const { data: builtActions } = await supabase
+      .from('cloud_actions')
+      .select('id, action_type, package_id, created_at')
+      .eq('app_id', appId)
+      .eq('user_id', user.id)
+      .in('action_type', ['deploy', 'build'])
+      .not('package_id', 'is', null)
+      .order('created_at', { ascending: false });
+
+    const builtBy = new Map<string, { id: string; action_type: string }>();
+    for (const action of builtActions || []) {
+      if (!builtBy.has(action.package_id)) builtBy.set(action.package_id, action);
+    }
+
     // Normalize and filter by branch prefix
-    type Pkg = { Name?: string; name?: string; CreationDate?: string };
+    type Pkg = { PackageId?: string; Name?: string; name?: string; Version?: string; Status?: string; CreationDate?: string };
     const filtered = (packages as Pkg[])
       .map(p => ({
+        packageId: p.PackageId || null,
         name: (p.Name || p.name || '').toString(),
+        version: p.Version || null,
+        status: p.Status || null,
         created: p.CreationDate ? new Date(p.CreationDate).getTime() : undefined,
       }))
-      .filter(p => p.name && p.name.toLowerCase().startsWith(namePrefix))
+      .filter(p => p.name && (!branchName || p.name.toLowerCase().startsWith(namePrefix)))
       .sort((a, b) => {
         if (a.created && b.created) return b.created - a.created; // newest first
         if (a.created && !b.created) return -1;
@@ -128,9 +147,22 @@ serve(async (req) => {
       });
 
     const names = filtered.map(p => p.name);
+    const details = filtered.map(p => {
+      const builtByAction = p.packageId ? builtBy.get(p.packageId) : undefined;
+      return {
+        packageId: p.packageId,
+        name: p.name,
+        version: p.version,
+        status: p.status,
+        createdAt: p.created ? new Date(p.created).toISOString() : null,
+        builtByDashboard: !!builtByAction,
+        cloudActionId: builtByAction?.id || null,
+        cloudActionType: builtByAction?.action_type || null,
+      };
+    });
 
     return new Response(
-      JSON.stringify({ success: true, packages: names }),
+      JSON.stringify({ success: true, packages: names, details }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   } catch (error) {
@@ -0,0 +1,211 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Comment cloud-action-steps puts on the backups it takes before a deploy or transport
+const DEPLOY_BACKUP_COMMENT = 'Automated backup before deployment';
+const MANUAL_BACKUP_COMMENT = 'Manual backup from dashboard';
+
+type Snapshot = {
+  SnapshotID?: string;
+  SnapshotId?: string;
+  Comment?: string | null;
+  CreatedOn?: number | string | null;
+  ExpiresOn?: number | string | null;
+  State?: string;
+  ModelVersion?: string | null;
+  Size?: number | null;
+  SizeInBytes?: number | null;
+};
+
+const toIso = (value: number | string | null | undefined) =>
+  value === null || value === undefined || value === '' ? null : new Date(value).toISOString();
+
+// Lists, creates and downloads the backups (snapshots) of an environment for the Backups panel.
+// Restores are not done here: they run as a 'restore' cloud action so they get logging and heartbeats.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Verify JWT and get user
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('No authorization header');
+    }
+
+    const jwt = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(jwt);
+
+    if (authError || !user) {
+      throw new Error('Invalid authentication');
+    }
+
+    const { action, credentialId, appId, environmentName, snapshotId, archive, comment } = await req.json();
+
+    if (!action || !credentialId || !appId || !environmentName) {
+      throw new Error('Missing required parameters');
+    }
+
+    // Get user's credentials
+    const { data: credentials, error: credError } = await supabase
+      .from('mendix_credentials')
+      .select('*')
+      .eq('id', credentialId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (credError || !credentials) {
+      throw new Error('Credentials not found or access denied');
+    }
+
+    const { data: appRow, error: appError } = await supabase
+      .from('mendix_apps')
+      .select('app_id')
+      .eq('project_id', appId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (appError || !appRow?.app_id) {
+      throw new Error(`App not found in database for project_id: ${appId}`);
+    }
+
+    // Same normalization cloud-action-steps uses for the environment mode
+    const mode = environmentName.charAt(0).toUpperCase() + environmentName.slice(1).toLowerCase();
+    const baseUrl = `https://deploy.mendix.com/api/1/apps/${encodeURIComponent(appRow.app_id)}/environments/${encodeURIComponent(mode)}/snapshots`;
+    const headers = {
+      'Accept': 'application/json',
+      'Content-Type': 'application/json',
+      'Mendix-Username': credentials.username,
+      'Mendix-ApiKey': credentials.api_key || credentials.pat || ''
+    };
+
+    if (action === 'list') {
+      console.log(`Listing backups for ${appRow.app_id}/${mode}`);
+      const response = await fetch(baseUrl, { method: 'GET', headers });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`Failed to list backups: ${response.status} - ${errorText}`);
+        throw new Error(`Failed to list backups: ${response.status}`);
+      }
+
+      const snapshots = ((await response.json()) || []) as Snapshot[];
+      const ids = snapshots.map((s) => s.SnapshotID || s.SnapshotId).filter(Boolean);
+
+      // Backups taken by deploy/transport actions are recorded on the action
+      const { data: deployActions } = ids.length > 0
+        ? await supabase
+          .from('cloud_actions')
+          .select('id, backup_id')
+          .eq('app_id', appId)
+          .in('action_type', ['deploy', 'transport'])
+          .in('backup_id', ids)
+        : { data: [] };
+      const deployBackups = new Map((deployActions || []).map((a: { id: string; backup_id: string }) => [a.backup_id, a.id]));
+
+      const backups = snapshots
+        .map((s) => {
+          const id = (s.SnapshotID || s.SnapshotId) as string;
+          const backupComment = s.Comment || null;
+          // Mendix takes the nightly backups without a comment; anything else with a comment was made by hand
+          const source = deployBackups.has(id) || backupComment?.startsWith(DEPLOY_BACKUP_COMMENT)
+            ? 'deploy'
+            : backupComment ? 'manual' : 'scheduled';
+          return {
+            id,
+            comment: backupComment,
+            state: s.State || 'Unknown',
+            createdAt: toIso(s.CreatedOn),
+            expiresAt: toIso(s.ExpiresOn),
+            modelVersion: s.ModelVersion || null,
+            sizeBytes: s.SizeInBytes ?? s.Size ?? null,
+            source,
+            actionId: deployBackups.get(id) || null,
+          };
+        })
+        .sort((a, b) => (b.createdAt || '').localeCompare(a.createdAt || ''));
+
+      return new Response(
+        JSON.stringify({ success: true, backups }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (action === 'create') {
+      console.log(`Creating backup for ${appRow.app_id}/${mode}`);
+      const response = await fetch(baseUrl, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          Comment: comment?.trim() || `${MANUAL_BACKUP_COMMENT} - ${new Date().toISOString()}`
+        })
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`Failed to create backup: ${response.status} - ${errorText}`);
+        throw new Error(`Failed to create backup: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return new Response(
+        JSON.stringify({ success: true, snapshotId: data.SnapshotID || data.SnapshotId }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (action === 'download') {
+      if (!snapshotId) {
+        throw new Error('Missing snapshotId');
+      }
+
+      const response = await fetch(`${baseUrl}/${encodeURIComponent(snapshotId)}`, { method: 'GET', headers });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`Failed to get backup download links: ${response.status} - ${errorText}`);
+        throw new Error(`Failed to get backup download links: ${response.status}`);
+      }
+
+      // Mendix returns short-lived links for each archive type
+      const links = await response.json();
+      const url = archive === 'database'
+        ? links.DatabaseOnly
+        : archive === 'files'
+          ? links.FilesOnly
+          : links.DatabaseAndFiles;
+
+      if (!url) {
+        throw new Error(`No ${archive || 'full'} archive available for backup ${snapshotId}`);
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, url }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ success: false, error: 'Invalid action. Use: list, create, download' }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in manage-mendix-backups:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,5 +1,9 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { clusterLogLines, isProductionEnvironment, LogSignatureBatch, parseLogLine } from '../_shared/log-signatures.ts';
+import { DownloadedLogLine, RuleTarget, runAlertRules } from '../_shared/log-alert-rules.ts';
+import { sendLogAlertNotification } from '../_shared/log-alert-notification.ts';
+import { markLogAlertEmailed, raiseLogAlert } from '../_shared/log-alert-incidents.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -80,6 +84,13 @@ const handler = async (req: Request): Promise<Response> => {
       );
     }
 
+    const monitoringSettings = environment.log_monitoring_settings[0];
+    const whitelistPatterns: string[] = monitoringSettings.whitelist_patterns || [];
+    const ruleTarget: RuleTarget = {
+      environment,
+      scope: { appId: mendixApp.app_id, environmentName: environment.environment_name, whitelist: whitelistPatterns },
+    };
+
     // Download latest logs using the existing download-mendix-logs function
     const today = new Date().toISOString().split('T')[0];
     
@@ -102,6 +113,8 @@ const handler = async (req: Request): Promise<Response> => {
 
     if (!downloadResponse.ok) {
       console.error('Failed to download logs:', await downloadResponse.text());
+      // Rules on the logs stored by the webhook still apply
+      await runAlertRules(supabase, ruleTarget, null);
       return new Response(
         JSON.stringify({ error: 'Failed to download logs' }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -112,16 +125,15 @@ const handler = async (req: Request): Promise<Response> => {
     
     if (!logData.data || !logData.data.logs) {
       console.log('No logs available for analysis');
+      const rules = await runAlertRules(supabase, ruleTarget, []);
       return new Response(
-        JSON.stringify({ message: 'No logs available', alerts: 0 }),
+        JSON.stringify({ message: 'No logs available', alerts: rules.alerts }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
     // Get last check time from monitoring settings
-    const monitoringSettings = environment.log_monitoring_settings[0];
     const lastCheckTime = monitoringSettings.last_check_time ? new Date(monitoringSettings.last_check_time) : null;
-    const whitelistPatterns = monitoringSettings.whitelist_patterns || [];
     
     console.log(`Last check time: ${lastCheckTime?.toISOString() || 'Never checked before'}`);
 
@@ -191,50 +203,70 @@ const handler = async (req: Request): Promise<Response> => {
     console.log(`Applied ${whitelistPatterns.length} whitelist patterns, ${whitelistedLines} lines filtered out`);
     console.log(`Found ${newErrorLines.length} new error lines, ${newCriticalLines.length} new critical lines`);
 
-    let alertsCreated = 0;
-
-    // Create alerts if thresholds are met - using only new log entries
-    if (newErrorLines.length >= monitoringSettings.error_threshold) {
-      const { error: alertError } = await supabase
-        .from('log_monitoring_alerts')
-        .insert({
-          user_id: user_id,
-          environment_id: environment_id,
-          alert_type: 'error',
-          log_entries_count: newErrorLines.length,
-          log_content: newErrorLines.slice(0, 50).join('\n'), // Limit to first 50 lines
-        });
-
-      if (alertError) {
-        console.error('Failed to create error alert:', alertError);
+    // Cluster the new lines into signatures so repeats of a known error can be told apart from new ones
+    const checkedAt = new Date();
+    const clusters = [
+      ...(await clusterLogLines(newErrorLines, 'error', checkedAt)),
+      ...(await clusterLogLines(newCriticalLines, 'critical', checkedAt)),
+    ];
+    let newSignatures: LogSignatureBatch[] = [];
+
+    if (clusters.length > 0) {
+      const { data: recorded, error: signatureError } = await supabase.rpc('record_log_signatures', {
+        _user_id: user_id,
+        _environment_id: environment_id,
+        _app_id: environment.app_id,
+        _environment_name: environment.environment_name,
+        _signatures: clusters,
+      });
+
+      if (signatureError) {
+        console.error('Failed to record log signatures:', signatureError);
       } else {
-        alertsCreated++;
-        console.log('Created error alert for new entries');
-        
-        // Send email notification if enabled
-        await sendLogAlertEmail(supabase, user_id, environment, 'error', newErrorLines.length, newCriticalLines.length, newErrorLines.slice(0, 10).join('\n'));
+        const newIds: string[] = recorded || [];
+        newSignatures = clusters.filter((c) => newIds.includes(c.signature));
+        console.log(`Recorded ${clusters.length} signatures, ${newSignatures.length} never seen before`);
       }
     }
 
-    if (newCriticalLines.length >= monitoringSettings.critical_threshold) {
-      const { error: alertError } = await supabase
-        .from('log_monitoring_alerts')
-        .insert({
+    // Alert rules count over their own window, so they get every downloaded line rather than only the new ones
+    const ruleLines: DownloadedLogLine[] = logLines
+      .filter((line: string) => !whitelistPatterns.some((pattern) => line.toLowerCase().includes(pattern.toLowerCase())))
+      .map((line: string) => ({ line, ...parseLogLine(line) }));
+    const rules = await runAlertRules(supabase, ruleTarget, ruleLines);
+    let alertsCreated = rules.alerts;
+
+    // The first check of an environment only builds the baseline; everything in it would look new.
+    // An environment that was monitored before but never logged an error still alerts on its first one.
+    if (
+      newSignatures.length > 0 &&
+      lastCheckTime !== null &&
+      monitoringSettings.alert_on_new_signature !== false &&
+      isProductionEnvironment(environment.environment_name)
+    ) {
+      const signatureContent = newSignatures
+        .map((s) => `[${s.level}, ${s.count}x] ${s.template}\n${s.sample}`)
+        .join('\n\n');
+
+      try {
+        // While the incident is open further new signatures are added to it instead of emailed
+        const alert = await raiseLogAlert(supabase, {
           user_id: user_id,
           environment_id: environment_id,
-          alert_type: 'critical',
-          log_entries_count: newCriticalLines.length,
-          log_content: newCriticalLines.slice(0, 50).join('\n'), // Limit to first 50 lines
+          dedup_key: 'new_signature',
+          alert_type: 'new_signature',
+          log_entries_count: newSignatures.reduce((sum, s) => sum + s.count, 0),
+          log_content: signatureContent,
         });
-
-      if (alertError) {
-        console.error('Failed to create critical alert:', alertError);
-      } else {
         alertsCreated++;
-        console.log('Created critical alert for new entries');
-        
-        // Send email notification if enabled
-        await sendLogAlertEmail(supabase, user_id, environment, 'critical', newErrorLines.length, newCriticalLines.length, newCriticalLines.slice(0, 10).join('\n'));
+        console.log(`Raised new signature alert ${alert.alert_id} for ${newSignatures.length} signatures`);
+
+        if (alert.notify) {
+          const sent = await sendLogAlertNotification(supabase, user_id, environment, 'new_signature', newErrorLines.length, newCriticalLines.length, newSignatures.slice(0, 10).map((s) => s.sample).join('\n'));
+          if (sent) await markLogAlertEmailed(supabase, alert.alert_id);
+        }
+      } catch (alertError) {
+        console.error('Failed to create new signature alert:', alertError);
       }
     }
 
@@ -251,6 +283,8 @@ const handler = async (req: Request): Promise<Response> => {
         alerts: alertsCreated,
         errors_found: newErrorLines.length,
         critical_found: newCriticalLines.length,
+        new_signatures: newSignatures.length,
+        rules_evaluated: rules.evaluated,
         total_log_lines: totalLines,
         new_log_lines_analyzed: filteredLines,
       }),
@@ -269,94 +303,4 @@ const handler = async (req: Request): Promise<Response> => {
   }
 };
 
-// Helper function to send log alert emails
-async function sendLogAlertEmail(supabase: any, user_id: string, environment: any, alert_type: string, error_count: number, critical_count: number, log_content: string) {
-  try {
-    // Get active email addresses for log monitoring
-    const { data: emailAddresses, error } = await supabase
-      .from('notification_email_addresses')
-      .select('email_address, display_name')
-      .eq('user_id', user_id)
-      .eq('is_active', true)
-      .eq('log_monitoring_enabled', true);
-
-    if (error || !emailAddresses || emailAddresses.length === 0) {
-      console.log('No active email addresses found for log monitoring notifications');
-      return;
-    }
-
-    // Get app name from mendix_apps table using environment's app_id
-    const { data: appData, error: appError } = await supabase
-      .from('mendix_apps')
-      .select('app_name')
-      .eq('project_id', environment.app_id)
-      .eq('user_id', user_id)
-      .single();
-
-    const appName = appData?.app_name || environment.app_id;
-
-    // Get log alert template (global, not per-user)
-    const { data: template, error: templateError } = await supabase
-      .from('email_templates')
-      .select('*')
-      .eq('template_type', 'log_alert')
-      .limit(1)
-      .maybeSingle();
-
-    if (templateError || !template) {
-      console.error('Log alert email template not found:', templateError);
-      return;
-    }
-
-    // Prepare email recipients
-    const recipients = emailAddresses.map((addr: any) => ({
-      email: addr.email_address,
-      name: addr.display_name || addr.email_address
-    }));
-
-    // Helper function to format dates in Dutch format
-    const formatDutchDateTime = (date: Date): string => {
-      return new Intl.DateTimeFormat('nl-NL', {
-        timeZone: 'Europe/Amsterdam',
-        day: '2-digit',
-        month: '2-digit',
-        year: 'numeric',
-        hour: '2-digit',
-        minute: '2-digit',
-        second: '2-digit',
-        hour12: false
-      }).format(date);
-    };
-
-    // Template variables
-    const templateVariables = {
-      app_name: appName,
-      environment_name: environment.environment_name,
-      error_count: error_count.toString(),
-      critical_count: critical_count.toString(),
-      timestamp: formatDutchDateTime(new Date()),
-      log_content: log_content
-    };
-
-    // Send email
-    const { error: emailError } = await supabase.functions.invoke('send-email-mandrill', {
-      headers: { Authorization: 'Bearer OPS' },
-      body: {
-        to: recipients,
-        subject: template.subject_template,
-        html: template.html_template,
-        template_variables: templateVariables,
-      },
-    });
-
-    if (emailError) {
-      console.error('Failed to send log alert email:', emailError);
-    } else {
-      console.log(`Log alert email sent to ${recipients.length} recipients`);
-    }
-  } catch (error) {
-    console.error('Error sending log alert email:', error);
-  }
-}
-
 serve(handler);
\ No newline at end of file
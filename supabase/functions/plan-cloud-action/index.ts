@@ -0,0 +1,482 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { evaluateQualityGates } from '../_shared/cloud-action-quality-gates.ts';
+import { checkActionWindows, loadActionWindows, nextAllowedSlot } from '../_shared/cloud-action-windows.ts';
+import { plannedSteps } from '../_shared/cloud-action-step-order.ts';
+import { DEFAULT_BRANCH, DEFAULT_REVISION, isPackageReady } from '../_shared/mendix-packages.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+type CheckStatus = 'ok' | 'warning' | 'blocker';
+
+interface PlanCheck {
+  name: string;
+  status: CheckStatus;
+  message: string;
+}
+
+interface PlanStep {
+  step: string;
+  note: string | null;
+}
+
+// Payload fields the planned steps read, per action type
+interface ActionPayload {
+  branchName?: string;
+  revisionId?: string;
+  version?: string;
+  packageId?: string;
+  sourceEnvironmentName?: string;
+  instances?: number | string;
+  memoryPerInstance?: number | string;
+  constants?: { name: string; value: string }[];
+  scheduledEvents?: { name: string; enabled: boolean }[];
+  snapshotId?: string;
+  restartAfter?: boolean;
+  [key: string]: unknown;
+}
+
+// Fields read from Mendix Deploy API responses (environments, packages, settings and snapshots)
+interface MendixData {
+  Status?: string;
+  State?: string;
+  Name?: string;
+  PackageId?: string;
+  Version?: string;
+  ModelVersion?: string;
+  TotalMemory?: number;
+  Instances?: number;
+  MemoryPerInstance?: number;
+  Constants?: { Name: string; Value?: string }[];
+  ScheduledEvents?: { Name: string; Enabled?: boolean }[];
+}
+
+interface PlanRequest {
+  // Set when planning an existing action, so it does not conflict with its own lock
+  actionId?: string;
+  credentialId: string;
+  appId: string;
+  environmentName: string;
+  actionType: string;
+  payload?: ActionPayload;
+  scheduledFor?: string | null;
+}
+
+interface MendixResponse {
+  ok: boolean;
+  status: number;
+  data: MendixData | null;
+}
+
+// Resolves everything an action would touch and reports what would run and what would stop it,
+// without changing anything in Mendix or the database
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Verify JWT and get user
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('No authorization header');
+    }
+
+    const jwt = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(jwt);
+
+    if (authError || !user) {
+      throw new Error('Invalid authentication');
+    }
+
+    const request = await req.json() as PlanRequest;
+
+    if (!request.credentialId || !request.appId || !request.environmentName || !request.actionType) {
+      throw new Error('Missing required parameters');
+    }
+
+    const plan = await planAction(supabase, user.id, request);
+
+    return new Response(
+      JSON.stringify({ success: true, ...plan }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in plan-cloud-action:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: (error as Error).message || 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
+
+async function planAction(supabase: SupabaseClient, userId: string, request: PlanRequest) {
+  const { actionType, payload, appId } = request;
+  const checks: PlanCheck[] = [];
+  const notes: Record<string, string> = {};
+  const steps = plannedSteps(actionType, payload);
+
+  const finish = () => ({
+    steps: steps.map((step): PlanStep => ({ step, note: notes[step] || null })),
+    checks,
+    canRun: steps.length > 0 && !checks.some((c) => c.status === 'blocker'),
+  });
+
+  if (steps.length === 0) {
+    checks.push({ name: 'Action type', status: 'blocker', message: `Unknown action type '${actionType}'` });
+    return finish();
+  }
+
+  // An existing action runs with its owner's credentials and apps, also when a colleague plans it
+  let ownerId = userId;
+  if (request.actionId) {
+    const { data: action } = await supabase
+      .from('cloud_actions')
+      .select('user_id, app_id')
+      .eq('id', request.actionId)
+      .maybeSingle();
+    const { data: hasAccess } = action && action.user_id !== userId
+      ? await supabase.rpc('user_has_app_access', { check_user_id: userId, check_app_id: action.app_id })
+      : { data: !!action };
+
+    if (!action || !hasAccess) {
+      checks.push({ name: 'Action', status: 'blocker', message: 'Action not found or access denied' });
+      return finish();
+    }
+    ownerId = action.user_id;
+  }
+
+  // Same lookups processStep in cloud-action-steps does before every step
+  const { data: credential } = await supabase
+    .from('mendix_credentials')
+    .select('*')
+    .eq('id', request.credentialId)
+    .eq('user_id', ownerId)
+    .maybeSingle();
+
+  if (!credential) {
+    checks.push({ name: 'Credentials', status: 'blocker', message: 'Credentials not found or access denied' });
+    return finish();
+  }
+  checks.push({ name: 'Credentials', status: 'ok', message: `Using ${credential.name || credential.username}` });
+
+  const { data: app } = await supabase
+    .from('mendix_apps')
+    .select('*')
+    .eq('project_id', appId)
+    .eq('user_id', ownerId)
+    .maybeSingle();
+
+  if (!app) {
+    checks.push({ name: 'App', status: 'blocker', message: `App not found in database for project_id: ${appId}` });
+    return finish();
+  }
+  if (!app.app_id) {
+    checks.push({
+      name: 'App',
+      status: 'blocker',
+      message: 'Missing app slug (mendix_apps.app_id). Please re-run Fetch Apps from credentials settings.',
+    });
+    return finish();
+  }
+  checks.push({ name: 'App', status: 'ok', message: `${app.app_name} (${app.app_id})` });
+
+  const mendixGet = async (path: string): Promise<MendixResponse> => {
+    const response = await fetch(`https://deploy.mendix.com/api/1/apps/${encodeURIComponent(app.app_id)}${path}`, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+        'Mendix-Username': credential.username,
+        'Mendix-ApiKey': credential.api_key || credential.pat || ''
+      }
+    });
+    const text = await response.text();
+    let data: MendixData | null = null;
+    try {
+      data = text ? JSON.parse(text) : null;
+    } catch {
+      // Non-JSON error bodies; the status code says enough
+    }
+    return { ok: response.ok, status: response.status, data };
+  };
+
+  const normalize = (name: string) => name.charAt(0).toUpperCase() + name.slice(1).toLowerCase();
+  const environmentName = normalize(request.environmentName);
+  const envPath = (name: string) => `/environments/${encodeURIComponent(name)}`;
+
+  // Target environment state; a build does not touch any environment
+  const environment: MendixResponse = actionType === 'build'
+    ? { ok: true, status: 200, data: null }
+    : await mendixGet(envPath(environmentName));
+  const status: string | null = environment.ok ? environment.data?.Status || null : null;
+  if (actionType !== 'build') {
+    if (!environment.ok) {
+      checks.push({
+        name: 'Target environment',
+        status: 'blocker',
+        message: environment.status === 404
+          ? `Environment ${environmentName} does not exist`
+          : `Could not read ${environmentName}: ${environment.status}`,
+      });
+    } else {
+      const stopped = status?.toLowerCase() === 'stopped';
+      const running = status?.toLowerCase() === 'running';
+      let check: PlanCheck = { name: 'Target environment', status: 'ok', message: `${environmentName} is ${status || 'in an unknown state'}` };
+      if (actionType === 'stop' && stopped) {
+        check = { ...check, status: 'blocker', message: `${environmentName} is already stopped` };
+      } else if (actionType === 'start' && running) {
+        check = { ...check, status: 'blocker', message: `${environmentName} is already running` };
+      } else if (stopped && actionType === 'restart') {
+        check = { ...check, status: 'warning', message: `${environmentName} is already stopped; the restart only starts it` };
+        notes.call_stop = 'Environment is already stopped';
+      } else if (stopped && (actionType === 'deploy' || actionType === 'transport')) {
+        check = { ...check, status: 'warning', message: `${environmentName} is stopped; it will be running after the ${actionType}` };
+        notes.stop_environment = 'Environment is already stopped';
+      } else if (stopped && actionType === 'scale') {
+        check = { ...check, status: 'warning', message: `${environmentName} is stopped; the scale waits for it to run at the new size` };
+      }
+      checks.push(check);
+    }
+  }
+
+  // Same defaults create_package uses
+  const branch = payload?.branchName || DEFAULT_BRANCH;
+  const revision = String(payload?.revisionId || DEFAULT_REVISION).slice(0, 8);
+
+  switch (actionType) {
+    case 'deploy':
+      checks.push({ name: 'Package', status: 'ok', message: `A new package is built from ${branch} revision ${revision}` });
+      notes.create_package = `${branch} @ ${revision}`;
+      break;
+
+    case 'build':
+      if (!payload?.version) {
+        checks.push({ name: 'Package', status: 'blocker', message: 'Build needs a version' });
+      } else {
+        checks.push({
+          name: 'Package',
+          status: 'ok',
+          message: `Version ${payload.version} is built from ${branch} revision ${revision} and kept for a later transport`,
+        });
+        notes.create_package = `${payload.version} from ${branch} @ ${revision}`;
+      }
+      break;
+
+    case 'transport':
+      checks.push(await planSourcePackage(mendixGet, envPath, normalize, payload, environment.data, notes));
+      break;
+
+    case 'scale':
+      checks.push(planScale(payload, environment.data, notes));
+      break;
+
+    case 'configure':
+      checks.push(await planSettings(mendixGet, envPath(environmentName), payload, notes));
+      break;
+
+    case 'restore':
+      checks.push(await planRestore(mendixGet, payload, notes));
+      break;
+  }
+
+  if (actionType === 'deploy' || actionType === 'transport') {
+    const results = await evaluateQualityGates(supabase, {
+      app_id: appId,
+      environment_name: request.environmentName,
+      action_type: actionType,
+      payload,
+    });
+    if (results.length === 0) {
+      checks.push({ name: 'Quality gates', status: 'ok', message: 'No quality gates apply' });
+      notes.evaluate_quality_gates = 'No gates apply';
+    }
+    for (const result of results) {
+      checks.push({ name: 'Quality gate', status: result.passed ? 'ok' : 'blocker', message: result.message });
+    }
+  }
+
+  // Windows are enforced at start time, so check against the scheduled time
+  const at = request.scheduledFor ? new Date(request.scheduledFor) : new Date();
+  const target = { app_id: appId, environment_name: request.environmentName, action_type: actionType };
+  const windows = await loadActionWindows(supabase, [appId]);
+  const windowCheck = checkActionWindows(windows, target, at);
+  if (!windowCheck.allowed) {
+    const slot = windowCheck.window?.conflict_behavior === 'reschedule' ? nextAllowedSlot(windows, target, at) : null;
+    checks.push(slot
+      ? { name: 'Windows', status: 'warning', message: `${windowCheck.reason}; will be moved to ${slot.toISOString()}` }
+      : { name: 'Windows', status: 'blocker', message: `${windowCheck.reason}; the action will be blocked` });
+  }
+
+  const { data: requiresApproval } = await supabase.rpc('cloud_action_requires_approval', {
+    _app_id: appId,
+    _environment_name: request.environmentName,
+    _action_type: actionType,
+  });
+  if (requiresApproval) {
+    checks.push({ name: 'Approval', status: 'warning', message: 'An admin has to approve this action before it runs' });
+  }
+
+  const { data: lock } = await supabase
+    .from('cloud_action_locks')
+    .select('action_id')
+    .eq('app_id', appId)
+    .eq('environment_key', request.environmentName.toLowerCase())
+    .maybeSingle();
+  if (lock && lock.action_id !== request.actionId) {
+    checks.push({
+      name: 'Lock',
+      status: 'warning',
+      message: `${request.environmentName} is locked by action ${lock.action_id.slice(0, 8)}; this action waits or fails depending on its lock policy`,
+    });
+  }
+
+  return finish();
+}
+
+async function planSourcePackage(
+  mendixGet: (path: string) => Promise<MendixResponse>,
+  envPath: (name: string) => string,
+  normalize: (name: string) => string,
+  payload: ActionPayload | undefined,
+  targetEnvironment: MendixData | null,
+  notes: Record<string, string>
+): Promise<PlanCheck> {
+  const builtPackageId = payload?.packageId;
+  const source = payload?.sourceEnvironmentName;
+  if (!builtPackageId && !source) {
+    return { name: 'Source package', status: 'blocker', message: 'Source environment not specified for transport' };
+  }
+
+  // Same calls retrieve_source_package makes
+  let packageId = builtPackageId;
+  let deployedName: string | undefined;
+  if (!builtPackageId) {
+    const deployed = await mendixGet(`${envPath(normalize(source))}/package`);
+    if (!deployed.ok) {
+      return { name: 'Source package', status: 'blocker', message: `Failed to get source environment info: ${deployed.status}` };
+    }
+    packageId = deployed.data?.PackageId;
+    deployedName = deployed.data?.Name;
+    if (!packageId) {
+      return { name: 'Source package', status: 'blocker', message: `No package found in source environment ${source}` };
+    }
+  }
+
+  const pkg = await mendixGet(`/packages/${encodeURIComponent(packageId)}`);
+  if (builtPackageId && pkg.status === 404) {
+    return { name: 'Source package', status: 'blocker', message: `Package ${builtPackageId} no longer exists` };
+  }
+  const packageName = pkg.data?.Name || deployedName || packageId;
+  const from = builtPackageId ? 'built package' : source;
+  // retrieve_source_package takes whatever is deployed on the source; only built packages are checked
+  if (builtPackageId && pkg.ok && pkg.data?.Status && !isPackageReady(pkg.data.Status)) {
+    return { name: 'Source package', status: 'blocker', message: `Package ${packageName} is ${pkg.data.Status}, not ready to transport` };
+  }
+
+  notes.retrieve_source_package = `${packageName} from ${from}`;
+  if (targetEnvironment?.ModelVersion && pkg.data?.Version && targetEnvironment.ModelVersion === pkg.data.Version) {
+    return {
+      name: 'Source package',
+      status: 'warning',
+      message: `${packageName} (${pkg.data.Version}) is already deployed on the target environment`,
+    };
+  }
+  return { name: 'Source package', status: 'ok', message: `${packageName} from ${from}` };
+}
+
+function planScale(payload: ActionPayload | undefined, environment: MendixData | null, notes: Record<string, string>): PlanCheck {
+  const instances = Number(payload?.instances);
+  const memoryPerInstance = Number(payload?.memoryPerInstance);
+  if (!Number.isInteger(instances) || instances < 1 || !Number.isInteger(memoryPerInstance) || memoryPerInstance < 1) {
+    return { name: 'Size', status: 'blocker', message: 'Scale action needs a positive instance count and memory per instance' };
+  }
+
+  const totalMemory = Number(environment?.TotalMemory) || null;
+  const requested = instances * memoryPerInstance;
+  if (totalMemory && requested > totalMemory) {
+    return {
+      name: 'Size',
+      status: 'blocker',
+      message: `${instances} x ${memoryPerInstance} MB needs ${requested} MB, but the plan allows ${totalMemory} MB`,
+    };
+  }
+  if (Number(environment?.Instances) === instances && Number(environment?.MemoryPerInstance) === memoryPerInstance) {
+    notes.validate_scale = 'Already at the requested size; the action ends here';
+    return { name: 'Size', status: 'warning', message: `Already runs ${instances} x ${memoryPerInstance} MB, nothing to change` };
+  }
+
+  notes.call_scale = `${environment?.Instances ?? '?'} x ${environment?.MemoryPerInstance ?? '?'} MB → ${instances} x ${memoryPerInstance} MB`;
+  return { name: 'Size', status: 'ok', message: `Scales to ${instances} x ${memoryPerInstance} MB` };
+}
+
+async function planSettings(
+  mendixGet: (path: string) => Promise<MendixResponse>,
+  path: string,
+  payload: ActionPayload | undefined,
+  notes: Record<string, string>
+): Promise<PlanCheck> {
+  const settings = await mendixGet(`${path}/settings/`);
+  if (!settings.ok) {
+    return { name: 'Settings', status: 'blocker', message: `Failed to read environment settings: ${settings.status}` };
+  }
+
+  const constants = new Map<string, string>(
+    (settings.data?.Constants || []).map((c) => [c.Name, c.Value ?? ''])
+  );
+  const events = new Map<string, boolean>(
+    (settings.data?.ScheduledEvents || []).map((e) => [e.Name, !!e.Enabled])
+  );
+  const wantedConstants = payload?.constants || [];
+  const wantedEvents = payload?.scheduledEvents || [];
+
+  const unknown = [
+    ...wantedConstants.filter((c) => !constants.has(c.name)).map((c) => c.name),
+    ...wantedEvents.filter((e) => !events.has(e.name)).map((e) => e.name),
+  ];
+  if (unknown.length > 0) {
+    return { name: 'Settings', status: 'blocker', message: `Unknown settings: ${unknown.join(', ')}` };
+  }
+
+  const changes = wantedConstants.filter((c) => constants.get(c.name) !== c.value).length +
+    wantedEvents.filter((e) => events.get(e.name) !== e.enabled).length;
+  if (changes === 0) {
+    notes.apply_settings = 'Nothing to change';
+    return { name: 'Settings', status: 'warning', message: 'All settings already have the desired values' };
+  }
+  notes.apply_settings = `${changes} change${changes > 1 ? 's' : ''}`;
+  return { name: 'Settings', status: 'ok', message: `${changes} setting${changes > 1 ? 's' : ''} will change` };
+}
+
+async function planRestore(
+  mendixGet: (path: string) => Promise<MendixResponse>,
+  payload: ActionPayload | undefined,
+  notes: Record<string, string>
+): Promise<PlanCheck> {
+  const snapshotId = payload?.snapshotId;
+  if (!snapshotId) {
+    return { name: 'Backup', status: 'blocker', message: 'Restore action needs a backup' };
+  }
+
+  const snapshot = await mendixGet(`/snapshots/${encodeURIComponent(snapshotId)}`);
+  if (snapshot.status === 404) {
+    return { name: 'Backup', status: 'blocker', message: `Backup ${snapshotId} does not exist (anymore)` };
+  }
+  if (!snapshot.ok) {
+    return { name: 'Backup', status: 'blocker', message: `Failed to get backup ${snapshotId}: ${snapshot.status}` };
+  }
+  if (snapshot.data?.State !== 'Completed') {
+    return { name: 'Backup', status: 'blocker', message: `Backup ${snapshotId} is ${snapshot.data?.State || 'in an unknown state'}` };
+  }
+
+  notes.restore_backup = `Backup ${String(snapshotId).slice(0, 8)}`;
+  return { name: 'Backup', status: 'ok', message: `Backup ${snapshotId} is complete` };
+}
@@ -1,6 +1,14 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { enforceActionWindows, loadActionWindows } from '../_shared/cloud-action-windows.ts';
+import { limitBatchConcurrency } from '../_shared/cloud-action-batches.ts';
+import { claimEnvironmentLocks } from '../_shared/cloud-action-locks.ts';
+import { closeStepRun, openStepRun } from '../_shared/cloud-action-step-runs.ts';
+import { POST_TRANSPORT_STEPS } from '../_shared/cloud-action-step-order.ts';
+import { decideRetry, MAX_ATTEMPTS_LIMIT, RetryDecision, RetryPolicy } from '../_shared/cloud-action-retry.ts';
+import { renderReleaseNotesHtml, ReleaseNotes } from '../_shared/release-notes.ts';
+import { dispatchNotification } from '../_shared/notifications.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,15 +21,20 @@ interface CloudAction {
   credential_id: string;
   app_id: string;
   environment_name: string;
-  action_type: 'start' | 'stop' | 'restart' | 'deploy' | 'transport';
+  action_type: 'start' | 'stop' | 'restart' | 'deploy' | 'transport' | 'configure' | 'scale' | 'restore' | 'build';
   status: string;
   payload?: any;
   current_step?: string;
   step_data?: any;
   package_id?: string;
   backup_id?: string;
+  previous_package_id?: string;
   last_heartbeat?: string;
   attempt_count?: number;
+  retry_policy?: Partial<RetryPolicy> | null;
+  retry_until?: string | null;
+  release_notes?: ReleaseNotes | null;
+  error_message?: string;
 }
 
 serve(async (req) => {
@@ -83,7 +96,7 @@ serve(async (req) => {
         `and(status.eq.scheduled,or(scheduled_for.is.null,scheduled_for.lte.${new Date().toISOString()})),` +
         `and(status.eq.running,or(last_heartbeat.is.null,last_heartbeat.lt.${new Date(Date.now() - 45 * 1000).toISOString()}))`
       )
-      .lt('attempt_count', 3); // Max 3 attempts
+      .lt('attempt_count', MAX_ATTEMPTS_LIMIT); // The retry policy fails actions before this
 
     if (userId) {
       query = query.eq('user_id', userId);
@@ -93,13 +106,27 @@ serve(async (req) => {
       query = query.in('id', actionIds);
     }
 
-    const { data: actions, error } = await query.limit(10);
+    const { data: fetchedActions, error } = await query.limit(10);
 
     if (error) {
       console.error('Error fetching actions:', error);
       throw error;
     }
 
+    // The orchestrator already checked freeze/maintenance windows, batch concurrency and environment
+    // locks; manual runs are checked here
+    let actions = fetchedActions;
+    if (!isInternalCall && fetchedActions && fetchedActions.length > 0) {
+      const windows = await loadActionWindows(supabase, fetchedActions.map((a) => a.app_id));
+      const allowed = [];
+      for (const action of await limitBatchConcurrency(supabase, fetchedActions)) {
+        if (action.status !== 'scheduled' || action.started_at || await enforceActionWindows(supabase, windows, action, new Date())) {
+          allowed.push(action);
+        }
+      }
+      actions = await claimEnvironmentLocks(supabase, allowed);
+    }
+
     console.log(`Found ${actions?.length || 0} actions to process`);
     if (actions && actions.length > 0) {
       console.log('Actions:', actions.map(a => ({ 
@@ -194,11 +221,16 @@ async function processActionsInBackground(actions: CloudAction[], supabase: any)
         message: `Started processing ${action.action_type} action - Step: ${action.current_step || 'initial'}`
       });
 
+      // Record the step on the timeline before running it
+      const currentStep = action.current_step || getInitialStep(action.action_type);
+      await openStepRun(supabase, action, currentStep);
+
       // Process single step
       const result = await processSingleStep(action, supabase);
 
       if (result.completed) {
         // Action completed successfully
+        await closeStepRun(supabase, action.id, 'succeeded');
         await supabase
           .from('cloud_actions')
           .update({
@@ -217,21 +249,81 @@ async function processActionsInBackground(actions: CloudAction[], supabase: any)
         });
 
         // Send success email notification
-        await sendCloudActionEmail(supabase, action, 'success', null);
+        await sendCloudActionNotification(supabase, action, 'success', null);
 
         succeeded++;
+      } else if (result.canceled) {
+        // cloud-action-steps stopped before the step at a safe point; nothing of it ran
+        const skipped = result.skippedSteps || [currentStep];
+        const cancelMessage = `Canceled${result.canceledBy ? ` by ${result.canceledBy}` : ''} before step '${currentStep}'`;
+        await closeStepRun(supabase, action.id, 'canceled', cancelMessage);
+        await supabase
+          .from('cloud_actions')
+          .update({
+            status: 'canceled',
+            error_message: cancelMessage,
+            completed_at: new Date().toISOString(),
+            last_heartbeat: new Date().toISOString()
+          })
+          .eq('id', action.id);
+
+        await supabase.from('cloud_action_logs').insert({
+          action_id: action.id,
+          user_id: action.user_id,
+          level: 'warn',
+          message: `🛑 ${cancelMessage}. Left undone: ${skipped.join(', ')}`
+        });
+      } else if (result.paused) {
+        // The action keeps its environment lock and open step run until the dashboard resumes it
+        await supabase
+          .from('cloud_actions')
+          .update({
+            status: 'paused',
+            paused_at: new Date().toISOString(),
+            last_heartbeat: new Date().toISOString()
+          })
+          .eq('id', action.id);
+
+        await supabase.from('cloud_action_logs').insert({
+          action_id: action.id,
+          user_id: action.user_id,
+          level: 'info',
+          message: `⏸️ Paused before step '${currentStep}'`
+        });
+      } else if (result.rolledBack) {
+        // Rollback finished: the environment runs the previous package again, the action itself failed
+        const rollbackMessage = `Rolled back to package ${action.previous_package_id} after failure: ${action.error_message || 'Unknown error'}`;
+        await closeStepRun(supabase, action.id, 'succeeded');
+        await supabase
+          .from('cloud_actions')
+          .update({
+            status: 'rolled_back',
+            error_message: rollbackMessage,
+            completed_at: new Date().toISOString(),
+            current_step: 'rolled_back',
+            last_heartbeat: new Date().toISOString()
+          })
+          .eq('id', action.id);
+
+        await supabase.from('cloud_action_logs').insert({
+          action_id: action.id,
+          user_id: action.user_id,
+          level: 'warn',
+          message: `↩️ Rollback completed, environment is running package ${action.previous_package_id} again`
+        });
+
+        await sendCloudActionNotification(supabase, action, 'failure', rollbackMessage);
+
+        failed++;
       } else if (result.error) {
-        // Check for fatal errors that shouldn't be retried
-        const isFatalError = result.error.startsWith('FATAL:') || 
-                           result.error.includes('APP_NOT_FOUND') || 
-                           result.error.includes('INVALID_CREDENTIALS');
-        
-        // Step failed
+        // Step failed; the action's retry policy decides whether this attempt was the last
         const newAttemptCount = (action.attempt_count || 0) + 1;
-        const maxAttempts = 3;
+        const decision = decideRetry(action.retry_policy, currentStep, result.error, newAttemptCount, action.retry_until);
+        await closeStepRun(supabase, action.id, decision.retry ? 'retried' : 'failed', result.error);
 
-        if (newAttemptCount >= maxAttempts || isFatalError) {
-          // Max attempts reached, mark as failed
+        if (!decision.retry && canRollback(action)) {
+          await startRollback(supabase, action, result.error);
+        } else if (!decision.retry) {
           await supabase
             .from('cloud_actions')
             .update({
@@ -247,35 +339,24 @@ async function processActionsInBackground(actions: CloudAction[], supabase: any)
             action_id: action.id,
             user_id: action.user_id,
             level: 'error',
-            message: `❌ Action failed after ${maxAttempts} attempts: ${result.error}`
+            message: `❌ Action failed (${decision.reason}): ${result.error}`
           });
 
           // Send failure email notification
-          await sendCloudActionEmail(supabase, action, 'failure', result.error);
+          await sendCloudActionNotification(supabase, action, 'failure', result.error);
 
           failed++;
         } else {
-          // Schedule for retry
-          await supabase
-            .from('cloud_actions')
-            .update({
-              status: 'scheduled',
-              error_message: result.error,
-              attempt_count: newAttemptCount,
-              scheduled_for: new Date(Date.now() + (newAttemptCount * 60000)).toISOString(), // Exponential backoff
-              last_heartbeat: new Date().toISOString()
-            })
-            .eq('id', action.id);
-
-          await supabase.from('cloud_action_logs').insert({
-            action_id: action.id,
-            user_id: action.user_id,
-            level: 'warn',
-            message: `⚠️ Step failed, scheduling retry ${newAttemptCount}/${maxAttempts}: ${result.error}`
-          });
+          await scheduleRetry(supabase, action, newAttemptCount, decision, result.error);
         }
       } else {
-        // Step completed, continue in next cycle
+        // Step completed, continue in next cycle. Polling steps return themselves as nextStep
+        // and keep their run open until the wait is over.
+        if (result.nextStep && result.nextStep !== currentStep) {
+          await closeStepRun(supabase, action.id, 'succeeded');
+          await openStepRun(supabase, action, result.nextStep);
+        }
+
         await supabase
           .from('cloud_actions')
           .update({
@@ -283,6 +364,9 @@ async function processActionsInBackground(actions: CloudAction[], supabase: any)
             step_data: result.stepData,
             package_id: result.packageId || action.package_id,
             backup_id: result.backupId || action.backup_id,
+            previous_package_id: result.previousPackageId || action.previous_package_id,
+            // Attempts are counted per step, so each step gets its own retry budget
+            ...(result.nextStep !== currentStep ? { attempt_count: 0 } : {}),
             last_heartbeat: new Date().toISOString()
           })
           .eq('id', action.id);
@@ -298,15 +382,30 @@ async function processActionsInBackground(actions: CloudAction[], supabase: any)
     } catch (error) {
       console.error(`Error processing action ${action.id}:`, error);
       
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       const newAttemptCount = (action.attempt_count || 0) + 1;
+      const decision = decideRetry(
+        action.retry_policy, action.current_step || '', errorMessage, newAttemptCount, action.retry_until
+      );
+      await closeStepRun(supabase, action.id, decision.retry ? 'retried' : 'failed', errorMessage);
+
+      if (!decision.retry && canRollback(action)) {
+        await startRollback(supabase, action, errorMessage);
+        continue;
+      }
+
+      if (decision.retry) {
+        await scheduleRetry(supabase, action, newAttemptCount, decision, `Processing error: ${errorMessage}`);
+        continue;
+      }
+
       await supabase
         .from('cloud_actions')
         .update({
-          status: newAttemptCount >= 3 ? 'failed' : 'scheduled',
-          error_message: error instanceof Error ? error.message : 'Unknown error',
+          status: 'failed',
+          error_message: errorMessage,
           attempt_count: newAttemptCount,
-          scheduled_for: newAttemptCount < 3 ? new Date(Date.now() + (newAttemptCount * 60000)).toISOString() : undefined,
-          completed_at: newAttemptCount >= 3 ? new Date().toISOString() : undefined,
+          completed_at: new Date().toISOString(),
           last_heartbeat: new Date().toISOString()
         })
         .eq('id', action.id);
@@ -315,14 +414,12 @@ async function processActionsInBackground(actions: CloudAction[], supabase: any)
         action_id: action.id,
         user_id: action.user_id,
         level: 'error',
-        message: `💥 Processing error: ${error instanceof Error ? error.message : 'Unknown error'}`
+        message: `💥 Processing error (${decision.reason}): ${errorMessage}`
       });
 
-      if (newAttemptCount >= 3) {
-        // Send failure email notification on final failure
-        await sendCloudActionEmail(supabase, action, 'failure', error instanceof Error ? error.message : 'Unknown error');
-        failed++;
-      }
+      // Send failure email notification on final failure
+      await sendCloudActionNotification(supabase, action, 'failure', errorMessage);
+      failed++;
     }
   }
   
@@ -331,19 +428,72 @@ async function processActionsInBackground(actions: CloudAction[], supabase: any)
   console.log(`🏁 Background processing completed: ${processed} processed, ${succeeded} succeeded, ${failed} failed`);
 }
 
-// Helper function to send cloud action emails
-async function sendCloudActionEmail(supabase: any, action: CloudAction, type: 'success' | 'failure', errorMessage: string | null) {
-  try {
-    // Get active email addresses for cloud action notifications
-    const { data: emailAddresses, error } = await supabase
-      .from('notification_email_addresses')
-      .select('email_address, display_name')
-      .eq('user_id', action.user_id)
-      .eq('is_active', true)
-      .eq('cloud_action_notifications_enabled', true);
+async function scheduleRetry(
+  supabase: SupabaseClient,
+  action: CloudAction,
+  attemptCount: number,
+  decision: RetryDecision,
+  errorMessage: string
+) {
+  await supabase
+    .from('cloud_actions')
+    .update({
+      status: 'scheduled',
+      error_message: errorMessage,
+      attempt_count: attemptCount,
+      scheduled_for: decision.retryAt!.toISOString(),
+      last_heartbeat: new Date().toISOString()
+    })
+    .eq('id', action.id);
+
+  await supabase.from('cloud_action_logs').insert({
+    action_id: action.id,
+    user_id: action.user_id,
+    level: 'warn',
+    message: `⚠️ Attempt ${attemptCount}/${decision.maxAttempts} failed (${decision.errorClass}), retrying at ` +
+      `${decision.retryAt!.toISOString()}: ${errorMessage}`
+  });
+}
 
-    if (error || !emailAddresses || emailAddresses.length === 0) {
-      console.log('No active email addresses found for cloud action notifications');
+// Rollback is opt-in and only makes sense once the new package has been transported
+function canRollback(action: CloudAction): boolean {
+  return !!action.payload?.rollbackOnFailure &&
+    (action.action_type === 'deploy' || action.action_type === 'transport') &&
+    !!action.previous_package_id &&
+    action.previous_package_id !== action.package_id &&
+    POST_TRANSPORT_STEPS.includes(action.current_step || '');
+}
+
+async function startRollback(supabase: SupabaseClient, action: CloudAction, reason: string) {
+  // Rollback steps get their own attempt budget, the original error is kept for reporting
+  await supabase
+    .from('cloud_actions')
+    .update({
+      status: 'scheduled',
+      current_step: 'rollback_stop_environment',
+      error_message: reason,
+      attempt_count: 0,
+      scheduled_for: new Date().toISOString(),
+      last_heartbeat: new Date().toISOString()
+    })
+    .eq('id', action.id);
+
+  await supabase.from('cloud_action_logs').insert({
+    action_id: action.id,
+    user_id: action.user_id,
+    level: 'warn',
+    message: `↩️ Step '${action.current_step}' failed (${reason}). Rolling back to previous package ${action.previous_package_id}` +
+      (action.payload?.restoreBackupOnRollback && action.backup_id ? ` and restoring backup ${action.backup_id}` : '')
+  });
+}
+
+// Helper function to send cloud action notifications (email and channels)
+async function sendCloudActionNotification(supabase: SupabaseClient, action: CloudAction, type: 'success' | 'failure', errorMessage: string | null) {
+  try {
+    // Actions created from a template carry its notification preferences
+    const notify = type === 'success' ? action.payload?.notifyOnSuccess : action.payload?.notifyOnFailure;
+    if (notify === false) {
+      console.log(`Skipping ${type} notification for action ${action.id}: disabled by its template`);
       return;
     }
 
@@ -357,26 +507,6 @@ async function sendCloudActionEmail(supabase: any, action: CloudAction, type: 's
 
     const appName = appData?.app_name || action.app_id;
 
-    // Get appropriate template (global, not per-user)
-    const templateType = type === 'success' ? 'cloud_action_success' : 'cloud_action_failure';
-    const { data: template, error: templateError } = await supabase
-      .from('email_templates')
-      .select('*')
-      .eq('template_type', templateType)
-      .limit(1)
-      .maybeSingle();
-
-    if (templateError || !template) {
-      console.error(`${templateType} email template not found:`, templateError);
-      return;
-    }
-
-    // Prepare email recipients
-    const recipients = emailAddresses.map((addr: any) => ({
-      email: addr.email_address,
-      name: addr.display_name || addr.email_address
-    }));
-
     // Calculate duration if we have timestamps
     let duration = 'N/A';
     if ((action as any).started_at) {
@@ -412,38 +542,31 @@ async function sendCloudActionEmail(supabase: any, action: CloudAction, type: 's
       duration: duration,
       attempt_count: (action.attempt_count || 0).toString(),
       error_message: errorMessage || 'N/A',
+      // Only deploys and transports carry notes; empty for everything else
+      release_notes: type === 'success' ? renderReleaseNotesHtml(action.release_notes) : '',
       summary: type === 'success' 
         ? `Successfully completed ${action.action_type} operation on ${appName} - ${action.environment_name}`
         : `Failed to complete ${action.action_type} operation on ${appName} - ${action.environment_name}`
     };
 
-    // Send email
-    const { error: emailError } = await supabase.functions.invoke('send-email-mandrill', {
-      headers: { Authorization: 'Bearer OPS' },
-      body: {
-        to: recipients,
-        subject: template.subject_template,
-        html: template.html_template,
-        template_variables: templateVariables,
-      },
-    });
-
-    if (emailError) {
-      console.error('Failed to send cloud action email:', emailError);
-    } else {
-      console.log(`Cloud action ${type} email sent to ${recipients.length} recipients`);
-    }
+    await dispatchNotification(supabase, action.user_id, type === 'success' ? 'cloud_action_success' : 'cloud_action_failure', templateVariables);
   } catch (error) {
-    console.error('Error sending cloud action email:', error);
+    console.error('Error sending cloud action notification:', error);
   }
 }
 
 async function processSingleStep(action: CloudAction, supabase: any): Promise<{
   completed?: boolean;
+  rolledBack?: boolean;
+  canceled?: boolean;
+  canceledBy?: string | null;
+  skippedSteps?: string[];
+  paused?: boolean;
   nextStep?: string;
   stepData?: any;
   packageId?: string;
   backupId?: string;
+  previousPackageId?: string;
   error?: string;
 }> {
   const currentStep = action.current_step || getInitialStep(action.action_type);
@@ -459,7 +582,10 @@ async function processSingleStep(action: CloudAction, supabase: any): Promise<{
 
   if (error) {
     console.error(`❌ cloud-action-steps failed for action ${action.id}:`, error);
-    throw new Error(`Step processing failed: ${error.message}`);
+    // Errors thrown by cloud-action-steps (e.g. "Credentials not found") come back as a 500 body;
+    // surface the message so the retry policy can classify it
+    const body = await error.context?.json?.().catch(() => null);
+    throw new Error(`Step processing failed: ${body?.error || error.message}`);
   }
 
   console.log(`✅ cloud-action-steps completed for action ${action.id}:`, data);
@@ -475,9 +601,16 @@ function getInitialStep(actionType: string): string {
     case 'restart':
       return 'call_stop';
     case 'deploy':
+    case 'build':
       return 'create_package';
     case 'transport':
       return 'retrieve_source_package';
+    case 'configure':
+      return 'read_settings';
+    case 'scale':
+      return 'validate_scale';
+    case 'restore':
+      return 'validate_restore';
     default:
       throw new Error(`Unknown action type: ${actionType}`);
   }
@@ -1,5 +1,6 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
 import { pingRailwayHealth } from '../_shared/railway-utils.ts';
+import { dispatchNotification } from '../_shared/notifications.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -27,6 +28,36 @@ interface A07Settings {
   sso_patterns: string[];
 }
 
+// Notifies the email addresses and channels subscribed to OWASP failures
+async function sendOwaspFailureNotification(
+  supabase: SupabaseClient,
+  userId: string,
+  projectId: string,
+  environmentName: string,
+  results: StepResult[],
+) {
+  const { data: appData } = await supabase
+    .from('mendix_apps')
+    .select('app_name')
+    .eq('project_id', projectId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  const failed = results.filter((r) => r.status === 'fail');
+  await dispatchNotification(supabase, userId, 'owasp_failure', {
+    app_name: appData?.app_name || projectId,
+    environment_name: environmentName,
+    failed_checks: failed.length.toString(),
+    total_checks: results.length.toString(),
+    failed_steps: failed.map((r) => `${r.step_name}: ${r.details}`).join('\n'),
+    timestamp: new Intl.DateTimeFormat('nl-NL', {
+      timeZone: 'Europe/Amsterdam',
+      dateStyle: 'short',
+      timeStyle: 'medium',
+    }).format(new Date()),
+  });
+}
+
 // Fetch A07 settings with app-specific → user default → system default fallback
 async function getA07Settings(
   supabase: any,
@@ -455,6 +486,10 @@ Deno.serve(async (req) => {
       console.error('Error updating run record:', updateError);
     }
 
+    if (overallStatus === 'fail') {
+      await sendOwaspFailureNotification(supabase, user.id, project_id, environment_name, allResults);
+    }
+
     return new Response(
       JSON.stringify({
         success: true,
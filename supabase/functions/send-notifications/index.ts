@@ -0,0 +1,96 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { purgeOldDeliveries, retryDueDeliveries, sendOnce } from '../_shared/notifications.ts';
+import { EVENT_LAYOUTS, renderChannelPayload, renderTemplate } from '../_shared/notification-payloads.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-signature',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Shown in test messages so every field of the layout is filled
+const TEST_VARIABLES: Record<string, string> = {
+  app_name: 'Test app',
+  environment_name: 'Production',
+  rule_name: 'Test rule',
+  severity: 'warning',
+  error_count: '3',
+  critical_count: '0',
+  log_content: '2026-01-01T12:00:00.000000 ERROR - Connector: test message from Mendix Monitoring',
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const adminClient = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const { operation, channelId } = await req.json().catch(() => ({}));
+
+    // Orchestrator cycle: retry failed deliveries that are due and drop old finished ones
+    if (operation === 'retry_due') {
+      if (req.headers.get('x-cron-signature') !== 'orchestrator-internal-call') {
+        return jsonResponse({ error: 'Unauthorized' }, 401);
+      }
+      const result = await retryDueDeliveries(adminClient);
+      return jsonResponse({ ...result, purged: await purgeOldDeliveries(adminClient) });
+    }
+
+    if (operation !== 'test') {
+      return jsonResponse({ error: `Unknown operation: ${operation}` }, 400);
+    }
+    if (!channelId) {
+      return jsonResponse({ error: 'channelId is required' }, 400);
+    }
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+    const { data: { user }, error: authError } = await adminClient.auth.getUser(authHeader.replace('Bearer ', ''));
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const { data: channel } = await adminClient
+      .from('notification_channels')
+      .select('id, user_id, channel_type')
+      .eq('id', channelId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+    if (!channel) {
+      return jsonResponse({ error: 'Channel not found' }, 404);
+    }
+
+    const variables = { ...TEST_VARIABLES, timestamp: new Date().toISOString() };
+    const subject = `[Test] ${renderTemplate(EVENT_LAYOUTS.log_alert.subject, variables)}`;
+    // Tests are not retried
+    const result = await sendOnce(adminClient, {
+      user_id: user.id,
+      channel_id: channel.id,
+      channel_type: channel.channel_type,
+      event_type: 'test',
+      payload: renderChannelPayload(channel.channel_type, 'log_alert', subject, variables),
+    });
+    if (!result.delivered) {
+      return jsonResponse({ delivered: false, error: result.error || 'Delivery failed' });
+    }
+
+    return jsonResponse({ delivered: true });
+  } catch (error) {
+    console.error('Error in send-notifications:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.4";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.4";
+import { dispatchNotification } from "../_shared/notifications.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -16,6 +17,83 @@ interface VulnerabilityResult {
   error?: string;
 }
 
+// Finding fields the new vulnerability notification reads
+interface ScanFinding {
+  vulnerability_id: string;
+  library_name: string;
+  library_version?: string | null;
+  title: string;
+  severity?: string | null;
+  cve_id?: string | null;
+  ghsa_id?: string | null;
+}
+
+// Notifies subscribers about vulnerabilities that the previous completed scan of the environment didn't
+// report. The first scan of an environment has nothing to compare with and only sets the baseline.
+async function sendNewCveNotification(
+  supabase: SupabaseClient,
+  userId: string,
+  appId: string,
+  environmentName: string,
+  scanId: string,
+  packageVersion: string,
+  findings: ScanFinding[]
+) {
+  try {
+    if (findings.length === 0) return;
+
+    const { data: previousScan } = await supabase
+      .from('vulnerability_scans')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('app_id', appId)
+      .eq('environment_name', environmentName)
+      .eq('scan_status', 'completed')
+      .neq('id', scanId)
+      .order('completed_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (!previousScan) {
+      console.log('First completed scan for this environment; not notifying about new vulnerabilities');
+      return;
+    }
+
+    const { data: previousFindings } = await supabase
+      .from('vulnerability_findings')
+      .select('vulnerability_id, library_name')
+      .eq('scan_id', previousScan.id);
+
+    const known = new Set((previousFindings || []).map((f: { library_name: string; vulnerability_id: string }) => `${f.library_name}:${f.vulnerability_id}`));
+    const newFindings = findings.filter((f) => !known.has(`${f.library_name}:${f.vulnerability_id}`));
+    if (newFindings.length === 0) return;
+
+    const { data: appData } = await supabase
+      .from('mendix_apps')
+      .select('app_name')
+      .eq('project_id', appId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    await dispatchNotification(supabase, userId, 'new_cve', {
+      app_name: appData?.app_name || appId,
+      environment_name: environmentName,
+      package_version: packageVersion,
+      new_cve_count: newFindings.length.toString(),
+      cve_list: newFindings
+        .map((f) => `${f.cve_id || f.ghsa_id || f.vulnerability_id} (${f.severity || 'unknown'}) ${f.library_name} ${f.library_version || ''}: ${f.title}`)
+        .join('\n'),
+      timestamp: new Intl.DateTimeFormat('nl-NL', {
+        timeZone: 'Europe/Amsterdam',
+        dateStyle: 'short',
+        timeStyle: 'medium',
+      }).format(new Date()),
+    });
+  } catch (error) {
+    console.error('Error sending new vulnerability notification:', error);
+  }
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -224,6 +302,8 @@ serve(async (req) => {
           })
           .eq('id', scanId);
 
+        await sendNewCveNotification(supabase, user.id, appId, environmentName, scanId, latestPackage.Version || 'unknown', findings);
+
         return new Response(JSON.stringify({
           scanId,
           summary: {
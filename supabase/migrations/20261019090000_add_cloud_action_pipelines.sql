@@ -0,0 +1,138 @@
+-- Migration: 20261019090000_add_cloud_action_pipelines
+-- Description: Multi-step deployment pipelines that chain cloud actions across environments.
+--              Each stage either creates a cloud action (deploy/transport/start/stop/restart)
+--              or waits for a quality gate; cloud-action-orchestrator advances them in order.
+-- Author: System
+-- Date: 2026-10-19
+
+-- ============================================
+-- Tables
+-- ============================================
+
+CREATE TABLE public.cloud_action_pipelines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  credential_id uuid NOT NULL,
+  app_id text NOT NULL,
+  name text NOT NULL,
+  -- scheduled | running | succeeded | failed | canceled
+  status text NOT NULL DEFAULT 'scheduled',
+  current_stage integer NOT NULL DEFAULT 0,
+  scheduled_for timestamp with time zone,
+  started_at timestamp with time zone,
+  completed_at timestamp with time zone,
+  error_message text,
+  creator_name text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.cloud_action_pipeline_stages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  pipeline_id uuid NOT NULL REFERENCES public.cloud_action_pipelines(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  stage_order integer NOT NULL,
+  name text NOT NULL,
+  -- action: creates a cloud_actions row | gate: waits for OWASP/linting results
+  stage_type text NOT NULL DEFAULT 'action',
+  action_type text,
+  environment_name text,
+  payload jsonb,
+  action_id uuid REFERENCES public.cloud_actions(id) ON DELETE SET NULL,
+  -- pending | running | succeeded | failed | skipped
+  status text NOT NULL DEFAULT 'pending',
+  started_at timestamp with time zone,
+  completed_at timestamp with time zone,
+  error_message text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (pipeline_id, stage_order),
+  CONSTRAINT cloud_action_pipeline_stages_type_check CHECK (stage_type IN ('action', 'gate'))
+);
+
+ALTER TABLE public.cloud_actions
+  ADD COLUMN IF NOT EXISTS pipeline_id uuid REFERENCES public.cloud_action_pipelines(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_cloud_action_pipelines_status ON public.cloud_action_pipelines(status);
+CREATE INDEX idx_cloud_action_pipeline_stages_pipeline ON public.cloud_action_pipeline_stages(pipeline_id, stage_order);
+CREATE INDEX idx_cloud_actions_pipeline_id ON public.cloud_actions(pipeline_id);
+
+-- ============================================
+-- RLS Policies (same collaborative model as cloud_actions)
+-- ============================================
+
+ALTER TABLE public.cloud_action_pipelines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cloud_action_pipeline_stages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view pipelines for their apps"
+ON public.cloud_action_pipelines FOR SELECT
+USING (auth.uid() = user_id OR public.user_has_app_access(auth.uid(), app_id));
+
+CREATE POLICY "Users can create their own pipelines"
+ON public.cloud_action_pipelines FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update pipelines for their apps"
+ON public.cloud_action_pipelines FOR UPDATE
+USING (auth.uid() = user_id OR public.user_has_app_access(auth.uid(), app_id));
+
+CREATE POLICY "Users can delete pipelines for their apps"
+ON public.cloud_action_pipelines FOR DELETE
+USING (auth.uid() = user_id OR public.user_has_app_access(auth.uid(), app_id));
+
+CREATE POLICY "Users can view stages for their pipelines"
+ON public.cloud_action_pipeline_stages FOR SELECT
+USING (
+  auth.uid() = user_id
+  OR EXISTS (
+    SELECT 1 FROM public.cloud_action_pipelines p
+    WHERE p.id = cloud_action_pipeline_stages.pipeline_id
+    AND public.user_has_app_access(auth.uid(), p.app_id)
+  )
+);
+
+CREATE POLICY "Users can create stages for their own pipelines"
+ON public.cloud_action_pipeline_stages FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update stages for their pipelines"
+ON public.cloud_action_pipeline_stages FOR UPDATE
+USING (
+  auth.uid() = user_id
+  OR EXISTS (
+    SELECT 1 FROM public.cloud_action_pipelines p
+    WHERE p.id = cloud_action_pipeline_stages.pipeline_id
+    AND public.user_has_app_access(auth.uid(), p.app_id)
+  )
+);
+
+CREATE POLICY "Users can delete stages for their pipelines"
+ON public.cloud_action_pipeline_stages FOR DELETE
+USING (
+  auth.uid() = user_id
+  OR EXISTS (
+    SELECT 1 FROM public.cloud_action_pipelines p
+    WHERE p.id = cloud_action_pipeline_stages.pipeline_id
+    AND public.user_has_app_access(auth.uid(), p.app_id)
+  )
+);
+
+-- ============================================
+-- Triggers
+-- ============================================
+
+CREATE TRIGGER update_cloud_action_pipelines_updated_at
+  BEFORE UPDATE ON public.cloud_action_pipelines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_cloud_action_pipeline_stages_updated_at
+  BEFORE UPDATE ON public.cloud_action_pipeline_stages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Rollback instructions (commented)
+-- To rollback:
+--   ALTER TABLE public.cloud_actions DROP COLUMN IF EXISTS pipeline_id;
+--   DROP TABLE IF EXISTS public.cloud_action_pipeline_stages;
+--   DROP TABLE IF EXISTS public.cloud_action_pipelines;
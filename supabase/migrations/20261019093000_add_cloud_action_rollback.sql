@@ -0,0 +1,16 @@
+-- Migration: 20261019093000_add_cloud_action_rollback
+-- Description: Track the package that was running before a deploy/transport so the
+--              action can roll back to it when the environment fails to come up again.
+--              Rollback itself is opt-in via payload.rollbackOnFailure.
+-- Author: System
+-- Date: 2026-10-19
+
+ALTER TABLE public.cloud_actions
+  ADD COLUMN IF NOT EXISTS previous_package_id text;
+
+COMMENT ON COLUMN public.cloud_actions.previous_package_id IS
+  'Package that was deployed on the target environment before transport_package; used by rollback_* steps';
+
+-- Rollback instructions (commented)
+-- To rollback:
+--   ALTER TABLE public.cloud_actions DROP COLUMN IF EXISTS previous_package_id;
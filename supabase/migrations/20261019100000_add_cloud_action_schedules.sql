@@ -0,0 +1,78 @@
+-- Migration: 20261019100000_add_cloud_action_schedules
+-- Description: Recurring cloud action schedules. Each schedule carries a 5-field cron expression
+--              evaluated in its own timezone; cloud-action-orchestrator creates a cloud_actions row
+--              for every occurrence and advances next_run_at.
+-- Author: System
+-- Date: 2026-10-19
+
+-- ============================================
+-- Tables
+-- ============================================
+
+CREATE TABLE public.cloud_action_schedules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  credential_id uuid NOT NULL,
+  app_id text NOT NULL,
+  environment_name text NOT NULL,
+  action_type text NOT NULL,
+  payload jsonb,
+  name text NOT NULL,
+  -- minute hour day-of-month month day-of-week, e.g. '0 22 * * 1-5'
+  cron_expression text NOT NULL,
+  -- IANA timezone name the cron expression is evaluated in
+  timezone text NOT NULL DEFAULT 'UTC',
+  ends_at timestamp with time zone,
+  is_paused boolean NOT NULL DEFAULT false,
+  -- When set, the orchestrator skips the upcoming occurrence once and clears the flag
+  skip_next boolean NOT NULL DEFAULT false,
+  next_run_at timestamp with time zone,
+  last_run_at timestamp with time zone,
+  last_action_id uuid REFERENCES public.cloud_actions(id) ON DELETE SET NULL,
+  creator_name text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.cloud_actions
+  ADD COLUMN IF NOT EXISTS schedule_id uuid REFERENCES public.cloud_action_schedules(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_cloud_action_schedules_next_run ON public.cloud_action_schedules(next_run_at)
+  WHERE is_paused = false;
+CREATE INDEX idx_cloud_actions_schedule_id ON public.cloud_actions(schedule_id);
+
+-- ============================================
+-- RLS Policies (same collaborative model as cloud_actions)
+-- ============================================
+
+ALTER TABLE public.cloud_action_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view schedules for their apps"
+ON public.cloud_action_schedules FOR SELECT
+USING (auth.uid() = user_id OR public.user_has_app_access(auth.uid(), app_id));
+
+CREATE POLICY "Users can create their own schedules"
+ON public.cloud_action_schedules FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update schedules for their apps"
+ON public.cloud_action_schedules FOR UPDATE
+USING (auth.uid() = user_id OR public.user_has_app_access(auth.uid(), app_id));
+
+CREATE POLICY "Users can delete schedules for their apps"
+ON public.cloud_action_schedules FOR DELETE
+USING (auth.uid() = user_id OR public.user_has_app_access(auth.uid(), app_id));
+
+-- ============================================
+-- Triggers
+-- ============================================
+
+CREATE TRIGGER update_cloud_action_schedules_updated_at
+  BEFORE UPDATE ON public.cloud_action_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Rollback instructions (commented)
+-- To rollback:
+--   ALTER TABLE public.cloud_actions DROP COLUMN IF EXISTS schedule_id;
+--   DROP TABLE IF EXISTS public.cloud_action_schedules;
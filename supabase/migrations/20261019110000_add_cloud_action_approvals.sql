@@ -0,0 +1,230 @@
+-- Migration: 20261019110000_add_cloud_action_approvals
+-- Description: Approval workflow for cloud actions that target protected (production) environments.
+--              Admins configure policies per app/environment; matching actions are parked in
+--              'pending_approval' until a different admin approves or rejects them.
+-- Author: System
+-- Date: 2026-10-19
+
+-- ============================================
+-- Tables
+-- ============================================
+
+CREATE TABLE public.cloud_action_approval_policies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  app_id text NOT NULL,
+  environment_name text NOT NULL,
+  action_types text[] NOT NULL DEFAULT ARRAY['deploy', 'transport'],
+  is_enabled boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (app_id, environment_name)
+);
+
+CREATE TABLE public.cloud_action_approvals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  action_id uuid NOT NULL REFERENCES public.cloud_actions(id) ON DELETE CASCADE,
+  decided_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  decider_name text,
+  decision text NOT NULL,
+  comment text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT cloud_action_approvals_decision_check CHECK (decision IN ('approved', 'rejected'))
+);
+
+ALTER TABLE public.cloud_actions
+  ADD COLUMN IF NOT EXISTS approved_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS approved_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS approval_notified_at timestamp with time zone;
+
+CREATE INDEX idx_cloud_action_approvals_action_id ON public.cloud_action_approvals(action_id, created_at DESC);
+CREATE INDEX idx_cloud_actions_pending_approval ON public.cloud_actions(created_at)
+  WHERE status = 'pending_approval';
+
+-- ============================================
+-- Functions
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.cloud_action_requires_approval(_app_id text, _environment_name text, _action_type text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.cloud_action_approval_policies
+    WHERE is_enabled
+      AND app_id = _app_id
+      AND lower(environment_name) = lower(_environment_name)
+      AND _action_type = ANY (action_types)
+  );
+$function$;
+
+-- Keeps protected actions parked until approved. Approval columns can only be written by
+-- decide_cloud_action_approval, which flags its own transaction.
+-- Every way into execution is gated, whatever the previous status: inserting or updating an action
+-- to 'scheduled', to 'queued' (promoted to 'scheduled' by the environment lock queue) or straight to
+-- 'running', including failed or canceled actions that are rescheduled. Updates to other statuses
+-- (canceled, rejected, blocked by a freeze window, ...) go through unchanged.
+CREATE OR REPLACE FUNCTION public.enforce_cloud_action_approval()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF current_setting('app.cloud_action_approval', true) = 'granted' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.approved_by := NULL;
+    NEW.approved_at := NULL;
+  ELSE
+    IF NEW.approved_by IS DISTINCT FROM OLD.approved_by OR NEW.approved_at IS DISTINCT FROM OLD.approved_at THEN
+      RAISE EXCEPTION 'Cloud action approvals can only be recorded through the approval workflow';
+    END IF;
+
+    -- Changing what the action does invalidates an earlier approval
+    IF (NEW.app_id, NEW.environment_name, NEW.action_type, NEW.payload)
+       IS DISTINCT FROM (OLD.app_id, OLD.environment_name, OLD.action_type, OLD.payload) THEN
+      NEW.approved_by := NULL;
+      NEW.approved_at := NULL;
+      NEW.approval_notified_at := NULL;
+    END IF;
+
+    -- Progress updates of an action that is already running are left alone
+    IF OLD.status = 'running' AND NEW.status = 'running' THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  IF NEW.approved_at IS NULL
+     AND NEW.status IN ('scheduled', 'queued', 'running')
+     AND public.cloud_action_requires_approval(NEW.app_id, NEW.environment_name, NEW.action_type) THEN
+    NEW.status := 'pending_approval';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+-- Records an approve/reject decision by the calling admin. Requesters can't approve their own actions.
+CREATE OR REPLACE FUNCTION public.decide_cloud_action_approval(_action_id uuid, _decision text, _comment text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _caller uuid := auth.uid();
+  _action public.cloud_actions%ROWTYPE;
+  _decider_name text;
+BEGIN
+  IF _caller IS NULL OR NOT public.has_role(_caller, 'admin') THEN
+    RAISE EXCEPTION 'Only admins can approve or reject cloud actions';
+  END IF;
+
+  IF _decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Invalid decision: %', _decision;
+  END IF;
+
+  SELECT * INTO _action FROM public.cloud_actions WHERE id = _action_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cloud action not found';
+  END IF;
+
+  IF _action.status <> 'pending_approval' THEN
+    RAISE EXCEPTION 'Cloud action is not awaiting approval (status: %)', _action.status;
+  END IF;
+
+  IF _action.user_id = _caller THEN
+    RAISE EXCEPTION 'You cannot approve or reject your own cloud action';
+  END IF;
+
+  SELECT full_name INTO _decider_name FROM public.profiles WHERE user_id = _caller;
+
+  INSERT INTO public.cloud_action_approvals (action_id, decided_by, decider_name, decision, comment)
+  VALUES (_action_id, _caller, _decider_name, _decision, NULLIF(trim(_comment), ''));
+
+  PERFORM set_config('app.cloud_action_approval', 'granted', true);
+
+  IF _decision = 'approved' THEN
+    UPDATE public.cloud_actions
+    SET status = 'scheduled', approved_by = _caller, approved_at = now()
+    WHERE id = _action_id;
+  ELSE
+    UPDATE public.cloud_actions
+    SET status = 'rejected',
+        completed_at = now(),
+        error_message = 'Rejected' || COALESCE(': ' || NULLIF(trim(_comment), ''), '')
+    WHERE id = _action_id;
+  END IF;
+
+  PERFORM set_config('app.cloud_action_approval', '', true);
+END;
+$function$;
+
+-- ============================================
+-- Triggers
+-- ============================================
+
+CREATE TRIGGER enforce_cloud_action_approval
+  BEFORE INSERT OR UPDATE ON public.cloud_actions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_cloud_action_approval();
+
+CREATE TRIGGER update_cloud_action_approval_policies_updated_at
+  BEFORE UPDATE ON public.cloud_action_approval_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================
+-- RLS Policies
+-- ============================================
+
+ALTER TABLE public.cloud_action_approval_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cloud_action_approvals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view approval policies for their apps"
+ON public.cloud_action_approval_policies FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin') OR public.user_has_app_access(auth.uid(), app_id));
+
+CREATE POLICY "Admins can create approval policies"
+ON public.cloud_action_approval_policies FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update approval policies"
+ON public.cloud_action_approval_policies FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete approval policies"
+ON public.cloud_action_approval_policies FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Decisions are written by decide_cloud_action_approval only
+CREATE POLICY "Users can view approvals for their actions"
+ON public.cloud_action_approvals FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.cloud_actions a
+    WHERE a.id = cloud_action_approvals.action_id
+    AND (a.user_id = auth.uid() OR public.user_has_app_access(auth.uid(), a.app_id))
+  )
+);
+
+-- Rollback instructions (commented)
+-- To rollback:
+--   DROP TRIGGER IF EXISTS enforce_cloud_action_approval ON public.cloud_actions;
+--   DROP FUNCTION IF EXISTS public.decide_cloud_action_approval(uuid, text, text);
+--   DROP FUNCTION IF EXISTS public.enforce_cloud_action_approval();
+--   DROP FUNCTION IF EXISTS public.cloud_action_requires_approval(text, text, text);
+--   ALTER TABLE public.cloud_actions DROP COLUMN IF EXISTS approved_by,
+--     DROP COLUMN IF EXISTS approved_at, DROP COLUMN IF EXISTS approval_notified_at;
+--   DROP TABLE IF EXISTS public.cloud_action_approvals;
+--   DROP TABLE IF EXISTS public.cloud_action_approval_policies;
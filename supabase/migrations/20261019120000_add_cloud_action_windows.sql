@@ -0,0 +1,84 @@
+-- Migration: 20261019120000_add_cloud_action_windows
+-- Description: Freeze windows (blackout periods) and maintenance windows for cloud actions.
+--              A window is either one-off (starts_at/ends_at) or recurring (cron_expression +
+--              duration_minutes in timezone). cloud-action-orchestrator blocks or reschedules
+--              actions that would start inside a freeze or outside the maintenance windows.
+-- Author: System
+-- Date: 2026-10-19
+
+-- ============================================
+-- Tables
+-- ============================================
+
+CREATE TABLE public.cloud_action_windows (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  -- freeze: actions may not start inside it | maintenance: actions may only start inside one
+  window_type text NOT NULL,
+  -- NULL app_id applies to every app, NULL environment_name to every environment of the app(s)
+  app_id text,
+  environment_name text,
+  action_types text[] NOT NULL DEFAULT ARRAY['deploy', 'transport', 'stop'],
+  starts_at timestamp with time zone,
+  ends_at timestamp with time zone,
+  cron_expression text,
+  duration_minutes integer,
+  timezone text NOT NULL DEFAULT 'UTC',
+  -- block: fail the action with an error_message | reschedule: move it to the next allowed slot
+  conflict_behavior text NOT NULL DEFAULT 'reschedule',
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT cloud_action_windows_type_check CHECK (window_type IN ('freeze', 'maintenance')),
+  CONSTRAINT cloud_action_windows_behavior_check CHECK (conflict_behavior IN ('block', 'reschedule')),
+  CONSTRAINT cloud_action_windows_timing_check CHECK (
+    (starts_at IS NOT NULL AND ends_at IS NOT NULL AND ends_at > starts_at)
+    OR (cron_expression IS NOT NULL AND duration_minutes IS NOT NULL AND duration_minutes > 0)
+  )
+);
+
+CREATE INDEX idx_cloud_action_windows_app ON public.cloud_action_windows(app_id);
+
+-- ============================================
+-- RLS Policies
+-- ============================================
+
+ALTER TABLE public.cloud_action_windows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view windows for their apps"
+ON public.cloud_action_windows FOR SELECT
+TO authenticated
+USING (
+  app_id IS NULL
+  OR auth.uid() = user_id
+  OR public.user_has_app_access(auth.uid(), app_id)
+  OR public.has_role(auth.uid(), 'admin')
+);
+
+CREATE POLICY "Admins can create windows"
+ON public.cloud_action_windows FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin') AND auth.uid() = user_id);
+
+CREATE POLICY "Admins can update windows"
+ON public.cloud_action_windows FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete windows"
+ON public.cloud_action_windows FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- ============================================
+-- Triggers
+-- ============================================
+
+CREATE TRIGGER update_cloud_action_windows_updated_at
+  BEFORE UPDATE ON public.cloud_action_windows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Rollback instructions (commented)
+-- To rollback:
+--   DROP TABLE IF EXISTS public.cloud_action_windows;
@@ -0,0 +1,77 @@
+-- Migration: 20261019130000_add_cloud_action_quality_gates
+-- Description: Pre-deploy quality gates for cloud actions. Each gate checks the latest OWASP,
+--              linting or vulnerability scan results of the app; the evaluate_quality_gates step
+--              in cloud-action-steps runs them before transport_package and fails the action
+--              when a gate is not met.
+-- Author: System
+-- Date: 2026-10-19
+
+-- ============================================
+-- Tables
+-- ============================================
+
+CREATE TABLE public.cloud_action_quality_gates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  app_id text NOT NULL,
+  -- Target environment the gate protects; NULL protects every environment of the app
+  environment_name text,
+  action_types text[] NOT NULL DEFAULT ARRAY['deploy', 'transport'],
+  -- owasp: failed checks | linting: failed rules | vulnerabilities: findings at or above min_severity
+  gate_type text NOT NULL,
+  max_failures integer NOT NULL DEFAULT 0,
+  -- Results older than this are treated as missing (the gate fails); NULL accepts results of any age
+  max_age_days integer,
+  min_severity text NOT NULL DEFAULT 'critical',
+  -- Environment whose OWASP/vulnerability results are checked. NULL uses the source environment of a
+  -- transport and the target environment otherwise. Linting results are per app.
+  results_environment_name text,
+  is_enabled boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT cloud_action_quality_gates_type_check CHECK (gate_type IN ('owasp', 'linting', 'vulnerabilities')),
+  CONSTRAINT cloud_action_quality_gates_severity_check CHECK (min_severity IN ('critical', 'high', 'medium', 'low')),
+  CONSTRAINT cloud_action_quality_gates_max_failures_check CHECK (max_failures >= 0),
+  CONSTRAINT cloud_action_quality_gates_max_age_check CHECK (max_age_days IS NULL OR max_age_days > 0)
+);
+
+CREATE INDEX idx_cloud_action_quality_gates_app ON public.cloud_action_quality_gates(app_id);
+
+-- ============================================
+-- RLS Policies
+-- ============================================
+
+ALTER TABLE public.cloud_action_quality_gates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view quality gates for their apps"
+ON public.cloud_action_quality_gates FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin') OR public.user_has_app_access(auth.uid(), app_id));
+
+CREATE POLICY "Admins can create quality gates"
+ON public.cloud_action_quality_gates FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update quality gates"
+ON public.cloud_action_quality_gates FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete quality gates"
+ON public.cloud_action_quality_gates FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- ============================================
+-- Triggers
+-- ============================================
+
+CREATE TRIGGER update_cloud_action_quality_gates_updated_at
+  BEFORE UPDATE ON public.cloud_action_quality_gates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Rollback instructions (commented)
+-- To rollback:
+--   DROP TABLE IF EXISTS public.cloud_action_quality_gates;
@@ -0,0 +1,73 @@
+-- Migration: 20261019140000_add_cloud_action_batches
+-- Description: Bulk cloud actions. A batch groups one cloud action per selected app/environment;
+--              cloud-action-orchestrator starts at most concurrency_limit of them at a time.
+-- Author: System
+-- Date: 2026-10-19
+
+-- ============================================
+-- Tables
+-- ============================================
+
+CREATE TABLE public.cloud_action_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  action_type text NOT NULL,
+  concurrency_limit integer NOT NULL DEFAULT 3,
+  -- Selection used to build the batch (environment types, name pattern, credentials), for reference
+  filters jsonb,
+  scheduled_for timestamp with time zone,
+  creator_name text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT cloud_action_batches_concurrency_check CHECK (concurrency_limit > 0)
+);
+
+ALTER TABLE public.cloud_actions
+  ADD COLUMN IF NOT EXISTS batch_id uuid REFERENCES public.cloud_action_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_cloud_actions_batch_id ON public.cloud_actions(batch_id, status);
+
+-- ============================================
+-- RLS Policies
+-- ============================================
+
+ALTER TABLE public.cloud_action_batches ENABLE ROW LEVEL SECURITY;
+
+-- A batch spans several apps; collaborators see it when they can see any of its actions
+CREATE POLICY "Users can view batches for their apps"
+ON public.cloud_action_batches FOR SELECT
+USING (
+  auth.uid() = user_id
+  OR EXISTS (
+    SELECT 1 FROM public.cloud_actions a
+    WHERE a.batch_id = cloud_action_batches.id
+    AND public.user_has_app_access(auth.uid(), a.app_id)
+  )
+);
+
+CREATE POLICY "Users can create their own batches"
+ON public.cloud_action_batches FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own batches"
+ON public.cloud_action_batches FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own batches"
+ON public.cloud_action_batches FOR DELETE
+USING (auth.uid() = user_id);
+
+-- ============================================
+-- Triggers
+-- ============================================
+
+CREATE TRIGGER update_cloud_action_batches_updated_at
+  BEFORE UPDATE ON public.cloud_action_batches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Rollback instructions (commented)
+-- To rollback:
+--   ALTER TABLE public.cloud_actions DROP COLUMN IF EXISTS batch_id;
+--   DROP TABLE IF EXISTS public.cloud_action_batches;
@@ -0,0 +1,141 @@
+-- Migration: 20261019150000_add_cloud_action_locks
+-- Description: Exclusive per app+environment locks for cloud actions. cloud-action-orchestrator takes
+--              the lock before an action starts; conflicting actions wait in 'queued', fail, or
+--              supersede queued ones depending on their lock_policy. Locks are released when the
+--              holder finishes, or when its heartbeat goes stale.
+-- Author: System
+-- Date: 2026-10-19
+
+-- ============================================
+-- Tables
+-- ============================================
+
+CREATE TABLE public.cloud_action_locks (
+  app_id text NOT NULL,
+  -- lower(environment_name); Mendix environment names are case-insensitive
+  environment_key text NOT NULL,
+  environment_name text NOT NULL,
+  action_id uuid NOT NULL REFERENCES public.cloud_actions(id) ON DELETE CASCADE,
+  acquired_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (app_id, environment_key)
+);
+
+CREATE INDEX idx_cloud_action_locks_action_id ON public.cloud_action_locks(action_id);
+
+ALTER TABLE public.cloud_actions
+  -- queue: wait for the lock | reject: fail right away | supersede: cancel other queued actions, then wait
+  ADD COLUMN IF NOT EXISTS lock_policy text NOT NULL DEFAULT 'queue',
+  ADD COLUMN IF NOT EXISTS queued_reason text,
+  ADD CONSTRAINT cloud_actions_lock_policy_check CHECK (lock_policy IN ('queue', 'reject', 'supersede'));
+
+CREATE INDEX idx_cloud_actions_queued ON public.cloud_actions(app_id, environment_name, created_at)
+  WHERE status = 'queued';
+
+-- ============================================
+-- Functions
+-- ============================================
+
+-- Drops locks whose holder finished, was deleted, or hasn't sent a heartbeat for _stale_minutes
+-- (same last_heartbeat signal cleanup-stale-actions and the orchestrator use for stale actions).
+-- A started action waiting for a retry sends no heartbeat; it keeps its lock until _stale_minutes
+-- after the retry is due.
+CREATE OR REPLACE FUNCTION public.release_stale_cloud_action_locks(_stale_minutes integer DEFAULT 15)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _released integer;
+BEGIN
+  DELETE FROM public.cloud_action_locks l
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.cloud_actions a
+    WHERE a.id = l.action_id
+      AND a.status IN ('scheduled', 'running')
+      AND (
+        COALESCE(a.last_heartbeat, l.acquired_at) > now() - make_interval(mins => _stale_minutes)
+        OR (a.started_at IS NOT NULL AND a.scheduled_for > now() - make_interval(mins => _stale_minutes))
+      )
+  );
+  GET DIAGNOSTICS _released = ROW_COUNT;
+  RETURN _released;
+END;
+$function$;
+
+-- Takes the lock for _action_id if the environment is free and returns the id of the action that
+-- holds it afterwards. The caller owns the lock when the returned id equals _action_id.
+CREATE OR REPLACE FUNCTION public.acquire_cloud_action_lock(
+  _action_id uuid,
+  _app_id text,
+  _environment_name text,
+  _stale_minutes integer DEFAULT 15
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _holder uuid;
+BEGIN
+  PERFORM public.release_stale_cloud_action_locks(_stale_minutes);
+
+  INSERT INTO public.cloud_action_locks (app_id, environment_key, environment_name, action_id)
+  VALUES (_app_id, lower(_environment_name), _environment_name, _action_id)
+  ON CONFLICT (app_id, environment_key) DO NOTHING;
+
+  SELECT action_id INTO _holder
+  FROM public.cloud_action_locks
+  WHERE app_id = _app_id AND environment_key = lower(_environment_name);
+
+  RETURN _holder;
+END;
+$function$;
+
+-- Lock management is done by the edge functions with the service role only
+REVOKE EXECUTE ON FUNCTION public.release_stale_cloud_action_locks(integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.acquire_cloud_action_lock(uuid, text, text, integer) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.release_cloud_action_lock_on_finish()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  DELETE FROM public.cloud_action_locks WHERE action_id = NEW.id;
+  RETURN NEW;
+END;
+$function$;
+
+-- ============================================
+-- RLS Policies
+-- ============================================
+
+ALTER TABLE public.cloud_action_locks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view locks for their apps"
+ON public.cloud_action_locks FOR SELECT
+USING (public.user_has_app_access(auth.uid(), app_id) OR public.has_role(auth.uid(), 'admin'));
+
+-- ============================================
+-- Triggers
+-- ============================================
+
+-- Retries go back to 'scheduled' and keep the lock; any other status change ends the action
+CREATE TRIGGER release_cloud_action_lock_on_finish
+  AFTER UPDATE OF status ON public.cloud_actions
+  FOR EACH ROW
+  WHEN (NEW.status IS DISTINCT FROM OLD.status AND NEW.status NOT IN ('scheduled', 'running'))
+  EXECUTE FUNCTION public.release_cloud_action_lock_on_finish();
+
+-- Rollback instructions (commented)
+-- To rollback:
+--   DROP TRIGGER IF EXISTS release_cloud_action_lock_on_finish ON public.cloud_actions;
+--   DROP FUNCTION IF EXISTS public.release_cloud_action_lock_on_finish();
+--   DROP FUNCTION IF EXISTS public.acquire_cloud_action_lock(uuid, text, text, integer);
+--   DROP FUNCTION IF EXISTS public.release_stale_cloud_action_locks(integer);
+--   DROP TABLE IF EXISTS public.cloud_action_locks;
+--   ALTER TABLE public.cloud_actions DROP CONSTRAINT IF EXISTS cloud_actions_lock_policy_check,
+--     DROP COLUMN IF EXISTS lock_policy, DROP COLUMN IF EXISTS queued_reason;
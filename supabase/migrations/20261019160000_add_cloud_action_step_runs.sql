@@ -0,0 +1,110 @@
+-- Migration: 20261019160000_add_cloud_action_step_runs
+-- Description: Step timeline for cloud actions. run-cloud-actions-v2 records every step an action
+--              goes through with start/end timestamps, attempt number and outcome, and
+--              cloud_action_step_stats aggregates them per app and step (median duration, failure rate).
+-- Author: System
+-- Date: 2026-10-19
+
+-- ============================================
+-- Tables
+-- ============================================
+
+CREATE TABLE public.cloud_action_step_runs (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  action_id uuid NOT NULL REFERENCES public.cloud_actions(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  app_id text NOT NULL,
+  environment_name text NOT NULL,
+  action_type text NOT NULL,
+  step text NOT NULL,
+  attempt integer NOT NULL DEFAULT 1,
+  started_at timestamp with time zone NOT NULL DEFAULT now(),
+  -- null while the step is in progress
+  ended_at timestamp with time zone,
+  -- retried: the attempt failed and the step is tried again later
+  outcome text NOT NULL DEFAULT 'running' CHECK (outcome IN ('running', 'succeeded', 'failed', 'retried', 'canceled')),
+  error_message text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_cloud_action_step_runs_action_id ON public.cloud_action_step_runs(action_id, started_at);
+CREATE INDEX idx_cloud_action_step_runs_app_step ON public.cloud_action_step_runs(app_id, step);
+
+-- At most one step in progress per action
+CREATE UNIQUE INDEX idx_cloud_action_step_runs_open ON public.cloud_action_step_runs(action_id)
+  WHERE ended_at IS NULL;
+
+-- ============================================
+-- Views
+-- ============================================
+
+-- Durations only count attempts that succeeded; the failure rate counts every finished attempt
+CREATE VIEW public.cloud_action_step_stats
+WITH (security_invoker = true)
+AS
+SELECT
+  app_id,
+  step,
+  count(*) FILTER (WHERE ended_at IS NOT NULL) AS run_count,
+  count(*) FILTER (WHERE outcome = 'succeeded') AS succeeded_count,
+  count(*) FILTER (WHERE outcome IN ('failed', 'retried')) AS failed_count,
+  percentile_cont(0.5) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM (ended_at - started_at)))
+    FILTER (WHERE outcome = 'succeeded') AS median_seconds,
+  percentile_cont(0.9) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM (ended_at - started_at)))
+    FILTER (WHERE outcome = 'succeeded') AS p90_seconds,
+  max(started_at) AS last_run_at
+FROM public.cloud_action_step_runs
+GROUP BY app_id, step;
+
+-- ============================================
+-- Functions
+-- ============================================
+
+-- Closes the open step when an action ends outside run-cloud-actions-v2 (canceled, rejected, cleanup)
+CREATE OR REPLACE FUNCTION public.close_cloud_action_step_run_on_finish()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE public.cloud_action_step_runs
+  SET ended_at = now(),
+      outcome = CASE
+        WHEN NEW.status = 'succeeded' THEN 'succeeded'
+        WHEN NEW.status = 'canceled' THEN 'canceled'
+        ELSE 'failed'
+      END,
+      error_message = COALESCE(error_message, NEW.error_message)
+  WHERE action_id = NEW.id AND ended_at IS NULL;
+  RETURN NEW;
+END;
+$function$;
+
+-- ============================================
+-- RLS Policies
+-- ============================================
+
+ALTER TABLE public.cloud_action_step_runs ENABLE ROW LEVEL SECURITY;
+
+-- Written by the edge functions with the service role only
+CREATE POLICY "Users can view step runs for their apps"
+ON public.cloud_action_step_runs FOR SELECT
+USING (auth.uid() = user_id OR public.user_has_app_access(auth.uid(), app_id));
+
+-- ============================================
+-- Triggers
+-- ============================================
+
+CREATE TRIGGER close_cloud_action_step_run_on_finish
+  AFTER UPDATE OF status ON public.cloud_actions
+  FOR EACH ROW
+  WHEN (NEW.status IS DISTINCT FROM OLD.status AND NEW.status NOT IN ('scheduled', 'running', 'queued'))
+  EXECUTE FUNCTION public.close_cloud_action_step_run_on_finish();
+
+-- Rollback instructions (commented)
+-- To rollback:
+--   DROP TRIGGER IF EXISTS close_cloud_action_step_run_on_finish ON public.cloud_actions;
+--   DROP FUNCTION IF EXISTS public.close_cloud_action_step_run_on_finish();
+--   DROP VIEW IF EXISTS public.cloud_action_step_stats;
+--   DROP TABLE IF EXISTS public.cloud_action_step_runs;
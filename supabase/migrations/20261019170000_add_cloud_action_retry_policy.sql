@@ -0,0 +1,21 @@
+-- Migration: 20261019170000_add_cloud_action_retry_policy
+-- Description: Per-action retry policy (max attempts, fixed/exponential backoff with jitter, retryable
+--              error classes and per-step overrides), evaluated by run-cloud-actions-v2. NULL uses the
+--              defaults from supabase/functions/_shared/cloud-action-retry.ts (3 attempts, exponential
+--              backoff from 60 seconds). attempt_count now counts attempts of the current step.
+-- Author: System
+-- Date: 2026-10-19
+
+-- ============================================
+-- Tables
+-- ============================================
+
+ALTER TABLE public.cloud_actions
+  ADD COLUMN IF NOT EXISTS retry_policy jsonb,
+  ADD CONSTRAINT cloud_actions_retry_policy_check
+    CHECK (retry_policy IS NULL OR jsonb_typeof(retry_policy) = 'object');
+
+-- Rollback instructions (commented)
+-- To rollback:
+--   ALTER TABLE public.cloud_actions DROP CONSTRAINT IF EXISTS cloud_actions_retry_policy_check,
+--     DROP COLUMN IF EXISTS retry_policy;
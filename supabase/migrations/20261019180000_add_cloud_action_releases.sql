@@ -0,0 +1,57 @@
+-- Migration: 20261019180000_add_cloud_action_releases
+-- Description: Release history built from completed deploy and transport cloud actions. Each row is
+--              one package landing on one environment; transports inherit the version, branch and
+--              revision of the deploy that built their package, so a package can be followed through
+--              test -> acceptance -> production.
+-- Author: System
+-- Date: 2026-10-19
+
+-- ============================================
+-- Indexes
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_cloud_actions_releases
+  ON public.cloud_actions(app_id, package_id, completed_at)
+  WHERE status = 'succeeded' AND action_type IN ('deploy', 'transport') AND package_id IS NOT NULL;
+
+-- ============================================
+-- Views
+-- ============================================
+
+CREATE VIEW public.cloud_action_releases
+WITH (security_invoker = true)
+AS
+SELECT
+  ca.id AS action_id,
+  ca.user_id,
+  ca.app_id,
+  ca.environment_name,
+  ca.action_type,
+  ca.package_id,
+  COALESCE(ca.payload->>'version', origin.payload->>'version') AS version,
+  COALESCE(ca.payload->>'branchName', origin.payload->>'branchName') AS branch_name,
+  COALESCE(ca.payload->>'revisionId', origin.payload->>'revisionId') AS revision_id,
+  COALESCE(ca.payload->>'revisionMessage', origin.payload->>'revisionMessage') AS revision_message,
+  ca.payload->>'sourceEnvironmentName' AS source_environment_name,
+  ca.creator_name,
+  COALESCE(ca.completed_at, ca.updated_at) AS deployed_at
+FROM public.cloud_actions ca
+-- The deploy that built the package, if it went through the dashboard
+LEFT JOIN LATERAL (
+  SELECT d.payload
+  FROM public.cloud_actions d
+  WHERE d.app_id = ca.app_id
+    AND d.package_id = ca.package_id
+    AND d.action_type = 'deploy'
+    AND d.status = 'succeeded'
+  ORDER BY d.completed_at
+  LIMIT 1
+) origin ON ca.action_type = 'transport'
+WHERE ca.status = 'succeeded'
+  AND ca.action_type IN ('deploy', 'transport')
+  AND ca.package_id IS NOT NULL;
+
+-- Rollback instructions (commented)
+-- To rollback:
+--   DROP VIEW IF EXISTS public.cloud_action_releases;
+--   DROP INDEX IF EXISTS public.idx_cloud_actions_releases;
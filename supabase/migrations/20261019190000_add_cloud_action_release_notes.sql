@@ -0,0 +1,21 @@
+-- Migration: 20261019190000_add_cloud_action_release_notes
+-- Description: Release notes stored with deploy and transport cloud actions. Generated by
+--              generate-release-notes from the commits between the package on the target environment
+--              and the one being deployed, and rendered into the {{release_notes}} variable of the
+--              cloud_action_success email.
+-- Author: System
+-- Date: 2026-10-19
+
+-- ============================================
+-- Tables
+-- ============================================
+
+ALTER TABLE public.cloud_actions
+  ADD COLUMN IF NOT EXISTS release_notes jsonb,
+  ADD CONSTRAINT cloud_actions_release_notes_check
+    CHECK (release_notes IS NULL OR jsonb_typeof(release_notes) = 'object');
+
+-- Rollback instructions (commented)
+-- To rollback:
+--   ALTER TABLE public.cloud_actions DROP CONSTRAINT IF EXISTS cloud_actions_release_notes_check,
+--     DROP COLUMN IF EXISTS release_notes;
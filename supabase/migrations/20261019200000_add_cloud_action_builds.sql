@@ -0,0 +1,57 @@
+-- Migration: 20261019200000_add_cloud_action_builds
+-- Description: Build-only cloud actions create a package without deploying it; a later transport
+--              deploys it by package id. The release history now also takes version, branch and
+--              revision from the build that made a transported package.
+-- Author: System
+-- Date: 2026-10-19
+
+-- ============================================
+-- Indexes
+-- ============================================
+
+-- Lookup of the action that built a package (release history, get-mendix-packages)
+CREATE INDEX IF NOT EXISTS idx_cloud_actions_built_packages
+  ON public.cloud_actions(app_id, package_id)
+  WHERE action_type IN ('deploy', 'build') AND package_id IS NOT NULL;
+
+-- ============================================
+-- Views
+-- ============================================
+
+CREATE OR REPLACE VIEW public.cloud_action_releases
+WITH (security_invoker = true)
+AS
+SELECT
+  ca.id AS action_id,
+  ca.user_id,
+  ca.app_id,
+  ca.environment_name,
+  ca.action_type,
+  ca.package_id,
+  COALESCE(ca.payload->>'version', origin.payload->>'version') AS version,
+  COALESCE(ca.payload->>'branchName', origin.payload->>'branchName') AS branch_name,
+  COALESCE(ca.payload->>'revisionId', origin.payload->>'revisionId') AS revision_id,
+  COALESCE(ca.payload->>'revisionMessage', origin.payload->>'revisionMessage') AS revision_message,
+  ca.payload->>'sourceEnvironmentName' AS source_environment_name,
+  ca.creator_name,
+  COALESCE(ca.completed_at, ca.updated_at) AS deployed_at
+FROM public.cloud_actions ca
+-- The deploy or build that made the package, if it went through the dashboard
+LEFT JOIN LATERAL (
+  SELECT d.payload
+  FROM public.cloud_actions d
+  WHERE d.app_id = ca.app_id
+    AND d.package_id = ca.package_id
+    AND d.action_type IN ('deploy', 'build')
+    AND d.status = 'succeeded'
+  ORDER BY d.completed_at
+  LIMIT 1
+) origin ON ca.action_type = 'transport'
+WHERE ca.status = 'succeeded'
+  AND ca.action_type IN ('deploy', 'transport')
+  AND ca.package_id IS NOT NULL;
+
+-- Rollback instructions (commented)
+-- To rollback:
+--   Re-create public.cloud_action_releases from 20261019180000_add_cloud_action_releases.sql
+--   DROP INDEX IF EXISTS public.idx_cloud_actions_built_packages;
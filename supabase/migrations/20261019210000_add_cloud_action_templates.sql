@@ -0,0 +1,80 @@
+-- Migration: 20261019210000_add_cloud_action_templates
+-- Description: Named cloud action templates saved from the add dialog. A template keeps the action
+--              type, app, environment, branch, version bump rule, retry window and notification
+--              preferences; using it creates a scheduled cloud action. Shared templates are visible
+--              to everyone with access to the app, who run them with their own credentials.
+-- Author: System
+-- Date: 2026-10-19
+
+-- ============================================
+-- Tables
+-- ============================================
+
+CREATE TABLE public.cloud_action_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  app_id text NOT NULL,
+  environment_name text NOT NULL,
+  action_type text NOT NULL,
+  -- Action payload without the parts picked per run (revision, version)
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  -- How the version of deploys and builds moves on every use
+  version_rule text NOT NULL DEFAULT 'none'
+    CHECK (version_rule IN ('none', 'patch', 'minor')),
+  -- retry_until of created actions is this many minutes after creation
+  retry_window_minutes integer NOT NULL DEFAULT 30
+    CHECK (retry_window_minutes BETWEEN 5 AND 1440),
+  retry_policy jsonb,
+  lock_policy text NOT NULL DEFAULT 'queue'
+    CHECK (lock_policy IN ('queue', 'reject', 'supersede')),
+  notify_on_success boolean NOT NULL DEFAULT true,
+  notify_on_failure boolean NOT NULL DEFAULT true,
+  is_shared boolean NOT NULL DEFAULT false,
+  creator_name text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.cloud_actions
+  ADD COLUMN IF NOT EXISTS template_id uuid REFERENCES public.cloud_action_templates(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_cloud_action_templates_app_id ON public.cloud_action_templates(app_id);
+CREATE INDEX idx_cloud_actions_template_id ON public.cloud_actions(template_id);
+
+-- ============================================
+-- RLS Policies
+-- ============================================
+
+ALTER TABLE public.cloud_action_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own and shared templates for their apps"
+ON public.cloud_action_templates FOR SELECT
+USING (auth.uid() = user_id OR (is_shared AND public.user_has_app_access(auth.uid(), app_id)));
+
+CREATE POLICY "Users can create their own templates"
+ON public.cloud_action_templates FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+-- Shared templates can be used by others, but only their owner changes or removes them
+CREATE POLICY "Users can update their own templates"
+ON public.cloud_action_templates FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own templates"
+ON public.cloud_action_templates FOR DELETE
+USING (auth.uid() = user_id);
+
+-- ============================================
+-- Triggers
+-- ============================================
+
+CREATE TRIGGER update_cloud_action_templates_updated_at
+  BEFORE UPDATE ON public.cloud_action_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Rollback instructions (commented)
+-- To rollback:
+--   ALTER TABLE public.cloud_actions DROP COLUMN IF EXISTS template_id;
+--   DROP TABLE IF EXISTS public.cloud_action_templates;
@@ -0,0 +1,75 @@
+-- Migration: 20261019220000_add_cloud_action_cancel_pause
+-- Description: Cancel and pause for running cloud actions. The dashboard records a request, which
+--              cloud-action-steps honours before the next step at a safe point (never between the
+--              stop and start of an environment). Canceled actions end as 'canceled'; paused ones wait
+--              in the new 'paused' status and keep their environment lock and open step until resumed.
+-- Author: System
+-- Date: 2026-10-19
+
+-- ============================================
+-- Columns
+-- ============================================
+
+ALTER TABLE public.cloud_actions
+  ADD COLUMN IF NOT EXISTS cancel_requested_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS cancel_requested_by text,
+  ADD COLUMN IF NOT EXISTS pause_requested_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS paused_at timestamp with time zone;
+
+-- ============================================
+-- Functions
+-- ============================================
+
+-- Same as before, but a paused holder keeps its lock without sending heartbeats
+CREATE OR REPLACE FUNCTION public.release_stale_cloud_action_locks(_stale_minutes integer DEFAULT 15)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _released integer;
+BEGIN
+  DELETE FROM public.cloud_action_locks l
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.cloud_actions a
+    WHERE a.id = l.action_id
+      AND (
+        a.status = 'paused'
+        OR (
+          a.status IN ('scheduled', 'running')
+          AND COALESCE(a.last_heartbeat, l.acquired_at) > now() - make_interval(mins => _stale_minutes)
+        )
+      )
+  );
+  GET DIAGNOSTICS _released = ROW_COUNT;
+  RETURN _released;
+END;
+$function$;
+
+-- ============================================
+-- Triggers
+-- ============================================
+
+-- Pausing does not end the action: it keeps its lock
+DROP TRIGGER IF EXISTS release_cloud_action_lock_on_finish ON public.cloud_actions;
+CREATE TRIGGER release_cloud_action_lock_on_finish
+  AFTER UPDATE OF status ON public.cloud_actions
+  FOR EACH ROW
+  WHEN (NEW.status IS DISTINCT FROM OLD.status AND NEW.status NOT IN ('scheduled', 'running', 'paused'))
+  EXECUTE FUNCTION public.release_cloud_action_lock_on_finish();
+
+-- A paused action is still in its step; the run stays open until it resumes and the step ends
+DROP TRIGGER IF EXISTS close_cloud_action_step_run_on_finish ON public.cloud_actions;
+CREATE TRIGGER close_cloud_action_step_run_on_finish
+  AFTER UPDATE OF status ON public.cloud_actions
+  FOR EACH ROW
+  WHEN (NEW.status IS DISTINCT FROM OLD.status AND NEW.status NOT IN ('scheduled', 'running', 'queued', 'paused'))
+  EXECUTE FUNCTION public.close_cloud_action_step_run_on_finish();
+
+-- Rollback instructions (commented)
+-- To rollback:
+--   Re-create both triggers and public.release_stale_cloud_action_locks without 'paused'
+--   (20261019150000_add_cloud_action_locks.sql, 20261019160000_add_cloud_action_step_runs.sql)
+--   ALTER TABLE public.cloud_actions DROP COLUMN IF EXISTS paused_at, DROP COLUMN IF EXISTS pause_requested_at,
+--     DROP COLUMN IF EXISTS cancel_requested_by, DROP COLUMN IF EXISTS cancel_requested_at;
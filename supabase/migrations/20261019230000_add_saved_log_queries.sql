@@ -0,0 +1,77 @@
+-- Migration: 20261019230000_add_saved_log_queries
+-- Description: Saved searches for the logs viewer, written in its query language and run
+--              server-side against mendix_logs. A saved query belongs to an app (mendix_logs.app_id);
+--              shared ones are visible to everyone with that app in their app list.
+-- Author: System
+-- Date: 2026-10-19
+
+-- ============================================
+-- Tables
+-- ============================================
+
+CREATE TABLE public.saved_log_queries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Mendix app id as stored in mendix_logs.app_id and mendix_apps.app_id
+  app_id text NOT NULL,
+  name text NOT NULL,
+  query text NOT NULL,
+  is_shared boolean NOT NULL DEFAULT false,
+  creator_name text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_saved_log_queries_app_id ON public.saved_log_queries(app_id);
+
+-- Searches are paged newest first within an app and environment
+CREATE INDEX IF NOT EXISTS idx_mendix_logs_app_environment_timestamp
+  ON public.mendix_logs(app_id, environment, timestamp DESC);
+
+-- ============================================
+-- RLS Policies
+-- ============================================
+
+ALTER TABLE public.saved_log_queries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own and shared log queries for their apps"
+ON public.saved_log_queries FOR SELECT
+USING (
+  auth.uid() = user_id
+  OR (
+    is_shared
+    -- Queries are keyed by the app slug; access is decided per project like other app-scoped tables
+    AND EXISTS (
+      SELECT 1 FROM public.mendix_apps
+      WHERE mendix_apps.app_id = saved_log_queries.app_id
+        AND public.user_has_app_access(auth.uid(), mendix_apps.project_id)
+    )
+  )
+);
+
+CREATE POLICY "Users can create their own log queries"
+ON public.saved_log_queries FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+-- Shared queries can be run by others, but only their owner changes or removes them
+CREATE POLICY "Users can update their own log queries"
+ON public.saved_log_queries FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own log queries"
+ON public.saved_log_queries FOR DELETE
+USING (auth.uid() = user_id);
+
+-- ============================================
+-- Triggers
+-- ============================================
+
+CREATE TRIGGER update_saved_log_queries_updated_at
+  BEFORE UPDATE ON public.saved_log_queries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Rollback instructions (commented)
+-- To rollback:
+--   DROP INDEX IF EXISTS public.idx_mendix_logs_app_environment_timestamp;
+--   DROP TABLE IF EXISTS public.saved_log_queries;
@@ -0,0 +1,149 @@
+-- Migration: 20261019233000_add_log_signatures
+-- Description: Error signatures for log monitoring. monitor-environment-logs reduces every error and
+--              critical line to a template with ids, numbers and GUIDs masked, and records how often
+--              each template (signature) occurs per environment, with daily counts. A signature never
+--              seen before in production raises a 'new_signature' alert.
+-- Author: System
+-- Date: 2026-10-19
+
+-- ============================================
+-- Tables
+-- ============================================
+
+CREATE TABLE public.log_signatures (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  environment_id uuid NOT NULL REFERENCES public.mendix_environments(id) ON DELETE CASCADE,
+  -- mendix_environments.app_id (the project id) and name, denormalized for the dashboard
+  app_id text NOT NULL,
+  environment_name text NOT NULL,
+  -- Hash of the template
+  signature text NOT NULL,
+  template text NOT NULL,
+  -- 'error' or 'critical'; critical once any occurrence was critical
+  level text NOT NULL DEFAULT 'error',
+  -- Most recent line with this signature, unmasked
+  sample text,
+  occurrence_count bigint NOT NULL DEFAULT 0,
+  first_seen_at timestamp with time zone NOT NULL DEFAULT now(),
+  last_seen_at timestamp with time zone NOT NULL DEFAULT now(),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (environment_id, signature)
+);
+
+CREATE INDEX idx_log_signatures_user_count ON public.log_signatures(user_id, occurrence_count DESC);
+
+CREATE TABLE public.log_signature_daily_counts (
+  signature_id uuid NOT NULL REFERENCES public.log_signatures(id) ON DELETE CASCADE,
+  day date NOT NULL,
+  count integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (signature_id, day)
+);
+
+ALTER TABLE public.log_monitoring_settings
+  ADD COLUMN IF NOT EXISTS alert_on_new_signature boolean NOT NULL DEFAULT true;
+
+-- ============================================
+-- RLS Policies
+-- ============================================
+
+ALTER TABLE public.log_signatures ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.log_signature_daily_counts ENABLE ROW LEVEL SECURITY;
+
+-- Written by monitor-environment-logs with the service role; users only read and clear their own
+CREATE POLICY "Users can view their own log signatures"
+ON public.log_signatures FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own log signatures"
+ON public.log_signatures FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view daily counts of their own log signatures"
+ON public.log_signature_daily_counts FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.log_signatures s
+    WHERE s.id = log_signature_daily_counts.signature_id
+      AND s.user_id = auth.uid()
+  )
+);
+
+-- ============================================
+-- Functions
+-- ============================================
+
+-- Adds one check's clusters (jsonb array of {signature, template, level, sample, count, first_seen,
+-- last_seen}) to the environment's signatures and returns the signatures that did not exist yet.
+-- A check's count goes to the day of its last occurrence.
+CREATE OR REPLACE FUNCTION public.record_log_signatures(
+  _user_id uuid,
+  _environment_id uuid,
+  _app_id text,
+  _environment_name text,
+  _signatures jsonb
+)
+RETURNS SETOF text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _item record;
+  _signature_id uuid;
+  _inserted boolean;
+BEGIN
+  FOR _item IN
+    SELECT * FROM jsonb_to_recordset(_signatures) AS x(
+      signature text, template text, level text, sample text,
+      count integer, first_seen timestamp with time zone, last_seen timestamp with time zone
+    )
+  LOOP
+    INSERT INTO public.log_signatures AS s (
+      user_id, environment_id, app_id, environment_name, signature, template, level, sample,
+      occurrence_count, first_seen_at, last_seen_at
+    )
+    VALUES (
+      _user_id, _environment_id, _app_id, _environment_name, _item.signature, _item.template, _item.level,
+      _item.sample, _item.count, _item.first_seen, _item.last_seen
+    )
+    ON CONFLICT (environment_id, signature) DO UPDATE SET
+      occurrence_count = s.occurrence_count + EXCLUDED.occurrence_count,
+      first_seen_at = LEAST(s.first_seen_at, EXCLUDED.first_seen_at),
+      last_seen_at = GREATEST(s.last_seen_at, EXCLUDED.last_seen_at),
+      level = CASE WHEN EXCLUDED.level = 'critical' THEN 'critical' ELSE s.level END,
+      sample = CASE WHEN EXCLUDED.last_seen_at >= s.last_seen_at THEN EXCLUDED.sample ELSE s.sample END,
+      environment_name = EXCLUDED.environment_name,
+      updated_at = now()
+    RETURNING s.id, (s.xmax = 0) INTO _signature_id, _inserted;
+
+    INSERT INTO public.log_signature_daily_counts AS c (signature_id, day, count)
+    VALUES (_signature_id, (_item.last_seen AT TIME ZONE 'UTC')::date, _item.count)
+    ON CONFLICT (signature_id, day) DO UPDATE SET count = c.count + EXCLUDED.count;
+
+    IF _inserted THEN
+      RETURN NEXT _item.signature;
+    END IF;
+  END LOOP;
+END;
+$function$;
+
+-- Only monitor-environment-logs records signatures, with the service role
+REVOKE EXECUTE ON FUNCTION public.record_log_signatures(uuid, uuid, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- Triggers
+-- ============================================
+
+CREATE TRIGGER update_log_signatures_updated_at
+  BEFORE UPDATE ON public.log_signatures
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Rollback instructions (commented)
+-- To rollback:
+--   DROP FUNCTION IF EXISTS public.record_log_signatures(uuid, uuid, text, text, jsonb);
+--   ALTER TABLE public.log_monitoring_settings DROP COLUMN IF EXISTS alert_on_new_signature;
+--   DROP TABLE IF EXISTS public.log_signature_daily_counts;
+--   DROP TABLE IF EXISTS public.log_signatures;
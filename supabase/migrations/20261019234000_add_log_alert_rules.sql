@@ -0,0 +1,107 @@
+-- Migration: 20261019234000_add_log_alert_rules
+-- Description: User-defined alert rules for log monitoring, replacing the fixed error/critical
+--              thresholds. A rule filters an environment's logs in mendix_logs (levels, node, regex on
+--              message/stacktrace), counts matches over a window and fires when the count is above a
+--              limit, has risen against the same window last week, or is zero (missing heartbeat).
+--              process-log-monitoring evaluates the rules and records the rule on the alert. Existing
+--              thresholds are converted into rules.
+-- Author: System
+-- Date: 2026-10-19
+
+-- ============================================
+-- Tables
+-- ============================================
+
+CREATE TABLE public.log_alert_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  environment_id uuid NOT NULL REFERENCES public.mendix_environments(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  is_enabled boolean NOT NULL DEFAULT true,
+  -- Filter; NULL matches everything. Levels as stored in mendix_logs (Debug, Info, Warning, Error, Critical)
+  levels text[],
+  -- * is a wildcard
+  node_pattern text,
+  -- Case-insensitive POSIX regexes
+  message_regex text,
+  stacktrace_regex text,
+  window_minutes integer NOT NULL DEFAULT 15
+    CHECK (window_minutes BETWEEN 1 AND 10080),
+  -- count_above: more than threshold matches in the window
+  -- rate_increase: threshold percent more matches than in the same window a week earlier
+  -- absence: no match in the window
+  condition_type text NOT NULL DEFAULT 'count_above'
+    CHECK (condition_type IN ('count_above', 'rate_increase', 'absence')),
+  threshold numeric NOT NULL DEFAULT 0 CHECK (threshold >= 0),
+  -- rate_increase ignores windows with fewer matches than this
+  min_count integer NOT NULL DEFAULT 1 CHECK (min_count >= 0),
+  severity text NOT NULL DEFAULT 'warning'
+    CHECK (severity IN ('info', 'warning', 'critical')),
+  last_evaluated_at timestamp with time zone,
+  -- A rule fires at most once per window
+  last_fired_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_log_alert_rules_environment_id ON public.log_alert_rules(environment_id);
+CREATE INDEX idx_log_alert_rules_enabled ON public.log_alert_rules(last_evaluated_at) WHERE is_enabled;
+
+ALTER TABLE public.log_monitoring_alerts
+  ADD COLUMN IF NOT EXISTS rule_id uuid REFERENCES public.log_alert_rules(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS severity text;
+
+CREATE INDEX IF NOT EXISTS idx_log_monitoring_alerts_rule_id ON public.log_monitoring_alerts(rule_id);
+
+-- ============================================
+-- RLS Policies
+-- ============================================
+
+ALTER TABLE public.log_alert_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own alert rules"
+ON public.log_alert_rules FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own alert rules"
+ON public.log_alert_rules FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own alert rules"
+ON public.log_alert_rules FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own alert rules"
+ON public.log_alert_rules FOR DELETE
+USING (auth.uid() = user_id);
+
+-- ============================================
+-- Triggers
+-- ============================================
+
+CREATE TRIGGER update_log_alert_rules_updated_at
+  BEFORE UPDATE ON public.log_alert_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================
+-- Data
+-- ============================================
+
+-- The old thresholds alerted at threshold or more lines per check; count_above is strictly more than
+INSERT INTO public.log_alert_rules (
+  user_id, environment_id, name, is_enabled, levels, window_minutes, condition_type, threshold, severity
+)
+SELECT user_id, environment_id, 'Errors', is_enabled, ARRAY['Error'], check_interval_minutes,
+  'count_above', GREATEST(error_threshold - 1, 0), 'warning'
+FROM public.log_monitoring_settings
+UNION ALL
+SELECT user_id, environment_id, 'Critical errors', is_enabled, ARRAY['Critical'], check_interval_minutes,
+  'count_above', GREATEST(critical_threshold - 1, 0), 'critical'
+FROM public.log_monitoring_settings;
+
+-- Rollback instructions (commented)
+-- To rollback:
+--   ALTER TABLE public.log_monitoring_alerts DROP COLUMN IF EXISTS severity, DROP COLUMN IF EXISTS rule_id;
+--   DROP TABLE IF EXISTS public.log_alert_rules;
+--   Threshold alerts in monitor-environment-logs come back with the previous function version
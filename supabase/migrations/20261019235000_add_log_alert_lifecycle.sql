@@ -0,0 +1,329 @@
+-- Migration: 20261019235000_add_log_alert_lifecycle
+-- Description: Log monitoring alerts become incidents with a state (open, acknowledged, snoozed,
+--              resolved) and an assignee. Alerts for the same condition (rule, new signatures) are
+--              grouped into the environment's active incident instead of creating a new row and email
+--              every check. Every change is recorded in log_alert_events for the audit trail.
+-- Author: System
+-- Date: 2026-10-19
+
+-- ============================================
+-- Tables
+-- ============================================
+
+ALTER TABLE public.log_monitoring_alerts
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'acknowledged', 'snoozed', 'resolved')),
+  -- What is being alerted on, e.g. 'rule:<rule id>' or 'new_signature'; one active incident per key
+  ADD COLUMN IF NOT EXISTS dedup_key text,
+  ADD COLUMN IF NOT EXISTS occurrence_count integer NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS last_occurred_at timestamp with time zone NOT NULL DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS snoozed_until timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS assigned_to uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS assignee_name text,
+  ADD COLUMN IF NOT EXISTS acknowledged_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS resolved_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS updated_at timestamp with time zone NOT NULL DEFAULT now();
+
+-- Existing alerts were never tracked; they start out resolved so the inbox isn't flooded
+UPDATE public.log_monitoring_alerts
+SET status = 'resolved',
+    resolved_at = created_at,
+    last_occurred_at = created_at,
+    dedup_key = CASE WHEN rule_id IS NOT NULL THEN 'rule:' || rule_id ELSE alert_type END;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_log_monitoring_alerts_active_dedup
+  ON public.log_monitoring_alerts(environment_id, dedup_key)
+  WHERE status <> 'resolved';
+CREATE INDEX IF NOT EXISTS idx_log_monitoring_alerts_status
+  ON public.log_monitoring_alerts(status, last_occurred_at DESC);
+
+CREATE TABLE public.log_alert_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_id uuid NOT NULL REFERENCES public.log_monitoring_alerts(id) ON DELETE CASCADE,
+  -- NULL for events raised by log monitoring itself
+  actor_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_name text,
+  event_type text NOT NULL
+    CHECK (event_type IN ('opened', 'repeated', 'acknowledged', 'snoozed', 'reopened', 'resolved', 'assigned', 'comment')),
+  details text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_log_alert_events_alert_id ON public.log_alert_events(alert_id, created_at);
+
+-- ============================================
+-- Functions
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.user_has_log_alert_access(_user_id uuid, _alert_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.log_monitoring_alerts a
+    JOIN public.mendix_environments e ON e.id = a.environment_id
+    WHERE a.id = _alert_id
+      AND (a.user_id = _user_id OR public.user_has_app_access(_user_id, e.app_id))
+  )
+$function$;
+
+-- Called by log monitoring for every alert. Adds to the active incident for (environment, dedup key)
+-- or opens a new one. notify is true when the alert should be emailed: a new incident, or a snoozed
+-- one whose snooze ran out while the condition is still there.
+-- Incidents are never resolved automatically, also not when the condition clears: an open or
+-- acknowledged incident keeps collecting repeats until someone resolves it.
+CREATE OR REPLACE FUNCTION public.raise_log_alert(
+  _user_id uuid,
+  _environment_id uuid,
+  _dedup_key text,
+  _alert_type text,
+  _log_entries_count integer,
+  _log_content text,
+  _rule_id uuid DEFAULT NULL,
+  _severity text DEFAULT NULL
+)
+RETURNS TABLE (alert_id uuid, notify boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _alert public.log_monitoring_alerts%ROWTYPE;
+BEGIN
+  LOOP
+    SELECT * INTO _alert
+    FROM public.log_monitoring_alerts
+    WHERE environment_id = _environment_id
+      AND dedup_key = _dedup_key
+      AND status <> 'resolved'
+    FOR UPDATE;
+
+    EXIT WHEN FOUND;
+
+    BEGIN
+      INSERT INTO public.log_monitoring_alerts (
+        user_id, environment_id, alert_type, rule_id, severity, log_entries_count, log_content, dedup_key
+      )
+      VALUES (_user_id, _environment_id, _alert_type, _rule_id, _severity, _log_entries_count, _log_content, _dedup_key)
+      RETURNING * INTO _alert;
+
+      INSERT INTO public.log_alert_events (alert_id, event_type, details)
+      VALUES (_alert.id, 'opened', _log_entries_count || ' log lines');
+
+      RETURN QUERY SELECT _alert.id, true;
+      RETURN;
+    EXCEPTION WHEN unique_violation THEN
+      -- A concurrent check opened the incident first; add to that one
+      NULL;
+    END;
+  END LOOP;
+
+  UPDATE public.log_monitoring_alerts
+  SET occurrence_count = occurrence_count + 1,
+      last_occurred_at = now(),
+      log_entries_count = _log_entries_count,
+      log_content = _log_content,
+      severity = COALESCE(_severity, severity)
+  WHERE id = _alert.id;
+
+  IF _alert.status = 'snoozed' AND _alert.snoozed_until <= now() THEN
+    UPDATE public.log_monitoring_alerts
+    SET status = 'open', snoozed_until = NULL
+    WHERE id = _alert.id;
+
+    INSERT INTO public.log_alert_events (alert_id, event_type, details)
+    VALUES (_alert.id, 'reopened', 'Snooze ended while the alert is still firing');
+
+    RETURN QUERY SELECT _alert.id, true;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.log_alert_events (alert_id, event_type, details)
+  VALUES (_alert.id, 'repeated', _log_entries_count || ' log lines');
+
+  RETURN QUERY SELECT _alert.id, false;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.raise_log_alert(uuid, uuid, text, text, integer, text, uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- Acknowledge, snooze, resolve, reopen, assign or comment on an alert as the calling user.
+-- Alerts are changed through this function only, so every change ends up in log_alert_events.
+CREATE OR REPLACE FUNCTION public.update_log_alert(
+  _alert_id uuid,
+  _action text,
+  _snoozed_until timestamp with time zone DEFAULT NULL,
+  _assignee uuid DEFAULT NULL,
+  _comment text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _caller uuid := auth.uid();
+  _actor_name text;
+  _alert public.log_monitoring_alerts%ROWTYPE;
+  _app_id text;
+  _assignee_name text;
+  _details text := NULLIF(trim(_comment), '');
+BEGIN
+  IF _caller IS NULL OR NOT public.user_has_log_alert_access(_caller, _alert_id) THEN
+    RAISE EXCEPTION 'Alert not found';
+  END IF;
+
+  SELECT * INTO _alert FROM public.log_monitoring_alerts WHERE id = _alert_id FOR UPDATE;
+  SELECT full_name INTO _actor_name FROM public.profiles WHERE user_id = _caller;
+
+  CASE _action
+    WHEN 'acknowledge' THEN
+      IF _alert.status NOT IN ('open', 'snoozed') THEN
+        RAISE EXCEPTION 'Only open or snoozed alerts can be acknowledged (status: %)', _alert.status;
+      END IF;
+      UPDATE public.log_monitoring_alerts
+      SET status = 'acknowledged', acknowledged_at = now(), snoozed_until = NULL,
+          assigned_to = COALESCE(assigned_to, _caller),
+          assignee_name = CASE WHEN assigned_to IS NULL THEN _actor_name ELSE assignee_name END
+      WHERE id = _alert_id;
+
+    WHEN 'snooze' THEN
+      IF _alert.status = 'resolved' THEN
+        RAISE EXCEPTION 'Resolved alerts cannot be snoozed';
+      END IF;
+      IF _snoozed_until IS NULL OR _snoozed_until <= now() THEN
+        RAISE EXCEPTION 'Snooze end must be in the future';
+      END IF;
+      UPDATE public.log_monitoring_alerts
+      SET status = 'snoozed', snoozed_until = _snoozed_until
+      WHERE id = _alert_id;
+      _details := concat_ws(' - ', 'Until ' || to_char(_snoozed_until AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI "UTC"'), _details);
+
+    WHEN 'resolve' THEN
+      IF _alert.status = 'resolved' THEN
+        RAISE EXCEPTION 'Alert is already resolved';
+      END IF;
+      UPDATE public.log_monitoring_alerts
+      SET status = 'resolved', resolved_at = now(), snoozed_until = NULL
+      WHERE id = _alert_id;
+
+    WHEN 'reopen' THEN
+      IF _alert.status <> 'resolved' THEN
+        RAISE EXCEPTION 'Only resolved alerts can be reopened';
+      END IF;
+      -- A newer incident for the same condition takes precedence
+      IF EXISTS (
+        SELECT 1 FROM public.log_monitoring_alerts
+        WHERE environment_id = _alert.environment_id
+          AND dedup_key = _alert.dedup_key
+          AND status <> 'resolved'
+      ) THEN
+        RAISE EXCEPTION 'A newer alert for the same condition is still active';
+      END IF;
+      UPDATE public.log_monitoring_alerts
+      SET status = 'open', resolved_at = NULL, acknowledged_at = NULL
+      WHERE id = _alert_id;
+
+    WHEN 'assign' THEN
+      IF _assignee IS NOT NULL THEN
+        SELECT e.app_id INTO _app_id FROM public.mendix_environments e WHERE e.id = _alert.environment_id;
+        IF _assignee <> _alert.user_id AND NOT public.user_has_app_access(_assignee, _app_id) THEN
+          RAISE EXCEPTION 'Assignee has no access to this app';
+        END IF;
+        SELECT full_name INTO _assignee_name FROM public.profiles WHERE user_id = _assignee;
+      END IF;
+      UPDATE public.log_monitoring_alerts
+      SET assigned_to = _assignee, assignee_name = _assignee_name
+      WHERE id = _alert_id;
+      _details := concat_ws(' - ', COALESCE('Assigned to ' || COALESCE(_assignee_name, 'unknown user'), 'Unassigned'), _details);
+
+    WHEN 'comment' THEN
+      IF _details IS NULL THEN
+        RAISE EXCEPTION 'Comment is empty';
+      END IF;
+
+    ELSE
+      RAISE EXCEPTION 'Invalid action: %', _action;
+  END CASE;
+
+  INSERT INTO public.log_alert_events (alert_id, actor_id, actor_name, event_type, details)
+  VALUES (
+    _alert_id,
+    _caller,
+    _actor_name,
+    CASE _action
+      WHEN 'acknowledge' THEN 'acknowledged'
+      WHEN 'snooze' THEN 'snoozed'
+      WHEN 'resolve' THEN 'resolved'
+      WHEN 'reopen' THEN 'reopened'
+      WHEN 'assign' THEN 'assigned'
+      ELSE 'comment'
+    END,
+    _details
+  );
+END;
+$function$;
+
+-- People who can be assigned an alert: the environment owner and everyone with the app in their list
+CREATE OR REPLACE FUNCTION public.get_log_alert_assignees(_alert_id uuid)
+RETURNS TABLE (user_id uuid, full_name text, email text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT DISTINCT p.user_id, p.full_name, p.email
+  FROM public.log_monitoring_alerts a
+  JOIN public.mendix_environments e ON e.id = a.environment_id
+  JOIN public.profiles p
+    ON p.user_id = a.user_id
+    OR p.user_id IN (SELECT m.user_id FROM public.mendix_apps m WHERE m.project_id = e.app_id)
+  WHERE a.id = _alert_id
+    AND public.user_has_log_alert_access(auth.uid(), _alert_id)
+  ORDER BY p.full_name
+$function$;
+
+-- ============================================
+-- Triggers
+-- ============================================
+
+CREATE TRIGGER update_log_monitoring_alerts_updated_at
+  BEFORE UPDATE ON public.log_monitoring_alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================
+-- RLS Policies
+-- ============================================
+
+-- On-call colleagues with access to the app see its alerts; changes go through update_log_alert
+CREATE POLICY "Users can view log alerts for their apps"
+ON public.log_monitoring_alerts FOR SELECT
+USING (public.user_has_log_alert_access(auth.uid(), id));
+
+ALTER TABLE public.log_alert_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are written by raise_log_alert and update_log_alert only
+CREATE POLICY "Users can view events of log alerts they can see"
+ON public.log_alert_events FOR SELECT
+USING (public.user_has_log_alert_access(auth.uid(), alert_id));
+
+-- Rollback instructions (commented)
+-- To rollback:
+--   DROP POLICY IF EXISTS "Users can view log alerts for their apps" ON public.log_monitoring_alerts;
+--   DROP TRIGGER IF EXISTS update_log_monitoring_alerts_updated_at ON public.log_monitoring_alerts;
+--   DROP FUNCTION IF EXISTS public.get_log_alert_assignees(uuid);
+--   DROP FUNCTION IF EXISTS public.update_log_alert(uuid, text, timestamp with time zone, uuid, text);
+--   DROP FUNCTION IF EXISTS public.raise_log_alert(uuid, uuid, text, text, integer, text, uuid, text);
+--   DROP FUNCTION IF EXISTS public.user_has_log_alert_access(uuid, uuid);
+--   DROP TABLE IF EXISTS public.log_alert_events;
+--   DROP INDEX IF EXISTS public.idx_log_monitoring_alerts_status;
+--   DROP INDEX IF EXISTS public.idx_log_monitoring_alerts_active_dedup;
+--   ALTER TABLE public.log_monitoring_alerts DROP COLUMN IF EXISTS status, DROP COLUMN IF EXISTS dedup_key,
+--     DROP COLUMN IF EXISTS occurrence_count, DROP COLUMN IF EXISTS last_occurred_at,
+--     DROP COLUMN IF EXISTS snoozed_until, DROP COLUMN IF EXISTS assigned_to, DROP COLUMN IF EXISTS assignee_name,
+--     DROP COLUMN IF EXISTS acknowledged_at, DROP COLUMN IF EXISTS resolved_at, DROP COLUMN IF EXISTS updated_at;
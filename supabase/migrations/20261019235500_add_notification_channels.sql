@@ -0,0 +1,106 @@
+-- Migration: 20261019235500_add_notification_channels
+-- Description: Notification channels next to email: Slack and Microsoft Teams incoming webhooks and
+--              generic HTTP webhooks (signed with HMAC-SHA256). Each channel subscribes to events
+--              (log_alert, cloud_action_success, cloud_action_failure, owasp_failure, new_cve).
+--              Every notification, email included, is queued in notification_deliveries and
+--              retried with backoff when it fails.
+-- Author: System
+-- Date: 2026-10-19
+
+-- ============================================
+-- Tables
+-- ============================================
+
+CREATE TABLE public.notification_channels (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  channel_type text NOT NULL CHECK (channel_type IN ('slack', 'teams', 'webhook')),
+  -- Incoming webhook URL for Slack and Teams, endpoint for generic webhooks
+  url text NOT NULL CHECK (url ~* '^https://'),
+  -- HMAC key for generic webhooks
+  secret text NOT NULL DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  events text[] NOT NULL DEFAULT '{}'::text[]
+    CHECK (events <@ ARRAY['log_alert', 'cloud_action_success', 'cloud_action_failure', 'owasp_failure', 'new_cve']),
+  is_enabled boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notification_channels_user_id ON public.notification_channels(user_id);
+
+CREATE TABLE public.notification_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- NULL for email, which goes to the user's notification_email_addresses
+  channel_id uuid REFERENCES public.notification_channels(id) ON DELETE CASCADE,
+  channel_type text NOT NULL CHECK (channel_type IN ('email', 'slack', 'teams', 'webhook')),
+  event_type text NOT NULL,
+  -- Rendered request body: the send-email-mandrill request for email, the posted JSON otherwise
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+  attempt_count integer NOT NULL DEFAULT 0,
+  next_attempt_at timestamp with time zone NOT NULL DEFAULT now(),
+  last_error text,
+  delivered_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notification_deliveries_due ON public.notification_deliveries(next_attempt_at)
+  WHERE status = 'pending';
+CREATE INDEX idx_notification_deliveries_user_created ON public.notification_deliveries(user_id, created_at DESC);
+
+-- Email subscriptions for the new events; the existing flags cover log alerts and cloud actions
+ALTER TABLE public.notification_email_addresses
+  ADD COLUMN IF NOT EXISTS owasp_notifications_enabled boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS vulnerability_notifications_enabled boolean NOT NULL DEFAULT false;
+
+-- ============================================
+-- RLS Policies
+-- ============================================
+
+ALTER TABLE public.notification_channels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notification channels"
+ON public.notification_channels FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own notification channels"
+ON public.notification_channels FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notification channels"
+ON public.notification_channels FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own notification channels"
+ON public.notification_channels FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Deliveries are written by the edge functions only
+CREATE POLICY "Users can view their own notification deliveries"
+ON public.notification_deliveries FOR SELECT
+USING (auth.uid() = user_id);
+
+-- ============================================
+-- Triggers
+-- ============================================
+
+CREATE TRIGGER update_notification_channels_updated_at
+  BEFORE UPDATE ON public.notification_channels
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_notification_deliveries_updated_at
+  BEFORE UPDATE ON public.notification_deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Rollback instructions (commented)
+-- To rollback:
+--   ALTER TABLE public.notification_email_addresses DROP COLUMN IF EXISTS owasp_notifications_enabled,
+--     DROP COLUMN IF EXISTS vulnerability_notifications_enabled;
+--   DROP TABLE IF EXISTS public.notification_deliveries;
+--   DROP TABLE IF EXISTS public.notification_channels;
@@ -0,0 +1,93 @@
+-- Migration: 20261019235900_add_cloud_action_history
+-- Description: Finished cloud actions are deleted by the orchestrator after 7 days. A summary row of
+--              every finished action is kept in cloud_action_history for the analytics page, and
+--              step runs no longer disappear with their action, so the step statistics cover the
+--              same period. The orchestrator purges both after a year.
+-- Author: System
+-- Date: 2026-10-19
+
+-- ============================================
+-- Tables
+-- ============================================
+
+-- Columns the analytics page reads from cloud_actions; id is the id of the deleted action
+CREATE TABLE public.cloud_action_history (
+  id uuid PRIMARY KEY,
+  user_id uuid NOT NULL,
+  app_id text NOT NULL,
+  environment_name text NOT NULL,
+  action_type text NOT NULL,
+  status text NOT NULL,
+  created_at timestamp with time zone NOT NULL,
+  started_at timestamp with time zone,
+  completed_at timestamp with time zone,
+  error_message text,
+  creator_name text,
+  archived_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_cloud_action_history_created_at ON public.cloud_action_history(created_at);
+CREATE INDEX idx_cloud_action_history_app_id ON public.cloud_action_history(app_id, created_at);
+
+-- Step runs outlive the cleanup of their action; the step timeline only shows existing actions
+ALTER TABLE public.cloud_action_step_runs
+  DROP CONSTRAINT IF EXISTS cloud_action_step_runs_action_id_fkey;
+
+CREATE INDEX IF NOT EXISTS idx_cloud_action_step_runs_started_at ON public.cloud_action_step_runs(started_at);
+
+-- ============================================
+-- Functions
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.archive_cloud_action_on_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  INSERT INTO public.cloud_action_history (
+    id, user_id, app_id, environment_name, action_type, status,
+    created_at, started_at, completed_at, error_message, creator_name
+  )
+  VALUES (
+    OLD.id, OLD.user_id, OLD.app_id, OLD.environment_name, OLD.action_type, OLD.status,
+    OLD.created_at, OLD.started_at, OLD.completed_at, OLD.error_message, OLD.creator_name
+  )
+  ON CONFLICT (id) DO NOTHING;
+  RETURN OLD;
+END;
+$function$;
+
+-- ============================================
+-- Triggers
+-- ============================================
+
+-- Only finished actions count in the analytics; deleting a scheduled action leaves no history
+CREATE TRIGGER archive_cloud_action_on_delete
+  BEFORE DELETE ON public.cloud_actions
+  FOR EACH ROW
+  WHEN (OLD.completed_at IS NOT NULL)
+  EXECUTE FUNCTION public.archive_cloud_action_on_delete();
+
+-- ============================================
+-- RLS Policies
+-- ============================================
+
+ALTER TABLE public.cloud_action_history ENABLE ROW LEVEL SECURITY;
+
+-- Written by the trigger and purged by the orchestrator only
+CREATE POLICY "Users can view cloud action history for their apps"
+ON public.cloud_action_history FOR SELECT
+USING (auth.uid() = user_id OR public.user_has_app_access(auth.uid(), app_id));
+
+-- Rollback instructions (commented)
+-- To rollback:
+--   DROP TRIGGER IF EXISTS archive_cloud_action_on_delete ON public.cloud_actions;
+--   DROP FUNCTION IF EXISTS public.archive_cloud_action_on_delete();
+--   DROP INDEX IF EXISTS public.idx_cloud_action_step_runs_started_at;
+--   DELETE FROM public.cloud_action_step_runs r
+--     WHERE NOT EXISTS (SELECT 1 FROM public.cloud_actions a WHERE a.id = r.action_id);
+--   ALTER TABLE public.cloud_action_step_runs ADD CONSTRAINT cloud_action_step_runs_action_id_fkey
+--     FOREIGN KEY (action_id) REFERENCES public.cloud_actions(id) ON DELETE CASCADE;
+--   DROP TABLE IF EXISTS public.cloud_action_history;